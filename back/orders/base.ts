@@ -1,9 +1,12 @@
 import type {
   Order,
+  Bracket,
+  OneInchChildOrder,
   OneInchLimitOrderParams,
   PairSymbol,
+  TimeFrame,
 } from "@common/types";
-import { OrderStatus } from "@common/types";
+import { OrderStatus, BracketStatus } from "@common/types";
 import { logger } from "@back/utils/logger";
 import {
   LimitOrder,
@@ -11,18 +14,37 @@ import {
   Address,
   MakerTraits,
 } from "@1inch/limit-order-sdk";
-import { LimitOrderService, createLimitOrderService } from "@back/services/limitOrder";
 import { ethers } from "ethers";
 import { getConfig } from "@back/services/config";
+import {
+  getChainContext,
+  type ChainExecutionContext,
+} from "@back/services/chainContext";
 import { priceCache } from "@back/services/priceCache";
 import { oneInchOrderCache } from "@back/services/oneInchOrderCache";
+import { getIndicatorEngine } from "@back/services/indicators";
+import {
+  ANALYSIS_PERIODS,
+  computeIndicator,
+  type PeriodIndicator,
+} from "@back/services/analysis";
 import {
   getSymbolFromAssets,
   addressToSymbol,
   mapSymbolForFeed,
 } from "@common/utils";
-import { saveOrder } from "@back/services/storage";
-import deployments from "../../deployments.json";
+import {
+  saveOrder,
+  saveOrderEvent,
+  getBracket,
+  saveBracket,
+} from "@back/services/storage";
+import {
+  getTokenDecimals,
+  toBaseUnits,
+  fromBaseUnits,
+  quoteAmount,
+} from "@back/services/tokenDecimals";
 
 // Common constants
 export const MS_PER_DAY = 24 * 60 * 60 * 1000;
@@ -33,6 +55,15 @@ export const MS_PER_MINUTE = 60 * 1000;
 export const RSI_OVERSOLD = 30;
 export const RSI_OVERBOUGHT = 70;
 
+// Stop loss exits are posted this far through the market so they fill
+const STOP_LOSS_SLIPPAGE_PCT = 0.5;
+
+/**
+ * Filled share of a base-unit amount (%)
+ */
+export const fillPct = (filled: bigint, total: bigint): number =>
+  total > 0n ? Number((filled * 10000n) / total) / 100 : 0;
+
 /**
  * Price information interface
  */
@@ -40,8 +71,22 @@ export interface PriceInfo {
   symbol: PairSymbol;
   price: number;
   priceData: any;
+  /** Whether the maker asset is the base of the quoted market (i.e. the order sells) */
+  makerIsBase: boolean;
 }
 
+/**
+ * Dutch auction of a child order, prices as quote per base
+ */
+export interface ChildAuction {
+  startPrice: number;
+  endPrice: number;
+  duration: number; // Seconds
+}
+
+/** Stablecoin quotes used to derive cross rates when no direct feed exists */
+const CROSS_QUOTES = ["USDT", "USDC"];
+
 /**
  * Order execution context
  */
@@ -77,10 +122,53 @@ export interface OrderWatcher {
     takingAmount: string,
   ): Promise<void>;
 
+  /**
+   * Maker amount (base units) for the next slice; the registry clamps it to remainingMakerAmount
+   */
+  getTriggerAmount(order: Order): Promise<string>;
+
   /**
    * Update order state after trigger (for recurring orders)
    */
   updateNextTrigger?(order: Order): void;
+
+  /**
+   * Price feeds whose updates should wake this order
+   */
+  getWatchedSymbols?(order: Order): PairSymbol[];
+
+  /**
+   * Next time this order should be evaluated regardless of price (time-based orders)
+   */
+  getNextWakeTime?(order: Order): number | null;
+
+  /**
+   * Whether the order keeps being evaluated for triggers once ACTIVE (recurring orders)
+   */
+  isRecurring?(order: Order): boolean;
+
+  /**
+   * Cancel the order's unfilled 1inch orders on-chain and reconcile its remaining amount
+   */
+  cancelChildOrders?(
+    order: Order,
+    status: OrderStatus.CANCELLED | OrderStatus.EXPIRED,
+  ): Promise<void>;
+
+  /**
+   * Reject invalid params when the order is created (throws with the reason)
+   */
+  validateOrder?(order: Order): void;
+
+  /**
+   * Whether the order attaches take-profit / stop-loss exits
+   */
+  hasBracket?(order: Order): boolean;
+
+  /**
+   * Arm and watch the bracket of a FILLED order; true while it must stay watched
+   */
+  updateBracket?(order: Order): Promise<boolean>;
 }
 
 /**
@@ -88,96 +176,152 @@ export interface OrderWatcher {
  */
 export abstract class BaseOrderWatcher implements OrderWatcher {
   protected mockMode: boolean;
-  protected provider?: ethers.Provider;
-  protected contractAddress?: string;
-  protected chainId?: number;
-  protected delegateProxy?: ethers.Contract;
-  protected keeper?: ethers.Wallet;
-  protected limitOrderService?: LimitOrderService;
 
   constructor(mockMode: boolean = false) {
     this.mockMode = mockMode;
+  }
 
-    if (!mockMode) {
-      const config = getConfig();
-      const networkConfig = config.networks[56]; // BSC for now, make configurable later
+  abstract shouldTrigger(order: Order): Promise<boolean>;
+  abstract updateNextTrigger?(order: Order): void;
 
-      this.provider = new ethers.JsonRpcProvider(networkConfig.rpcUrl);
-      this.contractAddress = networkConfig.aggregatorV6;
-      this.chainId = networkConfig.chainId;
+  /**
+   * Resolve the chain execution context (provider, keeper, proxy, 1inch service) for an order
+   */
+  protected getExecutionContext(order: Order): ChainExecutionContext {
+    return getChainContext(order.params?.chainId);
+  }
 
-      // Setup keeper wallet
-      if (process.env.KEEPER_PK) {
-        this.keeper = new ethers.Wallet(process.env.KEEPER_PK, this.provider);
-      }
+  /**
+   * Resolve the maker asset decimals on the order's chain
+   */
+  protected async getMakerDecimals(order: Order): Promise<number> {
+    return this.getAssetDecimals(order, order.params!.makerAsset);
+  }
 
-      // Setup DelegateProxy contract
-      const proxyAddress =
-        deployments.deployments[this.chainId.toString() as keyof typeof deployments.deployments]?.proxy;
-      if (proxyAddress && this.keeper) {
-        this.delegateProxy = new ethers.Contract(
-          proxyAddress,
-          deployments.abi,
-          this.keeper,
-        );
-      }
+  /**
+   * Resolve the decimals of any asset on the order's chain
+   */
+  protected async getAssetDecimals(
+    order: Order,
+    asset: string,
+  ): Promise<number> {
+    const { chainId, provider } = this.getExecutionContext(order);
+    return getTokenDecimals(chainId, asset, provider);
+  }
 
-      // Setup limit order service
-      if (process.env.ONE_INCH_API_KEY) {
-        this.limitOrderService = createLimitOrderService(
-          process.env.ONE_INCH_API_KEY,
-          this.chainId,
-          this.keeper,
-          this.provider,
-        );
-      }
+  /**
+   * Base units of a decimal amount of an asset (the order's maker asset by default)
+   */
+  protected async toUnits(
+    order: Order,
+    amount: number | string,
+    asset: string = order.params!.makerAsset,
+  ): Promise<string> {
+    const decimals = await this.getAssetDecimals(order, asset);
+    return toBaseUnits(amount, decimals).toString();
+  }
+
+  /**
+   * Resolve the feed symbols (WETH -> ETH, WBTC -> BTC) of an order's assets
+   */
+  protected getFeedSymbols(
+    order: Order,
+  ): { makerSymbol: string; takerSymbol: string } | null {
+    const chainId = order.params?.chainId || 1; // Default to Ethereum if not specified
+    const makerAsset = order.params?.makerAsset;
+    const takerAsset = order.params?.takerAsset;
+
+    if (!makerAsset || !takerAsset) {
+      logger.warn("Order missing makerAsset or takerAsset in params");
+      return null;
     }
+
+    const tokenMapping = getConfig().tokenMapping;
+    return {
+      makerSymbol: mapSymbolForFeed(
+        addressToSymbol(makerAsset, tokenMapping, chainId),
+      ),
+      takerSymbol: mapSymbolForFeed(
+        addressToSymbol(takerAsset, tokenMapping, chainId),
+      ),
+    };
   }
 
-  abstract shouldTrigger(order: Order): Promise<boolean>;
-  abstract updateNextTrigger?(order: Order): void;
+  /**
+   * Every feed getPriceInfo may read for this order: direct, inverse and cross legs
+   */
+  getWatchedSymbols(order: Order): PairSymbol[] {
+    const feeds = this.getFeedSymbols(order);
+    if (!feeds) return [];
+
+    const { makerSymbol, takerSymbol } = feeds;
+    const symbols = [
+      `agg:spot:${makerSymbol}${takerSymbol}`,
+      `agg:spot:${takerSymbol}${makerSymbol}`,
+    ];
+    for (const quote of CROSS_QUOTES) {
+      symbols.push(
+        `agg:spot:${makerSymbol}${quote}`,
+        `agg:spot:${takerSymbol}${quote}`,
+      );
+    }
+    return [...new Set(symbols)] as PairSymbol[];
+  }
 
   /**
-   * Get price data for an order
+   * Get price data for an order, quoted as quote-per-base of the resolved market.
+   * Tries the direct maker/taker feed, then the inverse feed, then a cross rate
+   * derived from both assets' USD stablecoin feeds (e.g. WBTC/WETH).
    */
   protected getPriceInfo(order: Order): PriceInfo | null {
     try {
-      const chainId = order.params?.chainId || 1; // Default to Ethereum if not specified
-      const makerAsset = order.params?.makerAsset;
-      const takerAsset = order.params?.takerAsset;
-
-      if (!makerAsset || !takerAsset) {
-        logger.warn("Order missing makerAsset or takerAsset in params");
-        return null;
+      const feeds = this.getFeedSymbols(order);
+      if (!feeds) return null;
+      const { makerSymbol, takerSymbol } = feeds;
+
+      // Direct feed: maker is the base asset (sell)
+      const symbol = `agg:spot:${makerSymbol}${takerSymbol}` as PairSymbol;
+      const direct = priceCache.getPrice(symbol);
+      if (direct?.mid) {
+        return { symbol, price: direct.mid, priceData: direct, makerIsBase: true };
       }
 
-      // Get token mapping from config
-      const config = getConfig();
-      const tokenMapping = config.tokenMapping;
-
-      // Convert asset addresses to symbols
-      const makerSymbol = addressToSymbol(makerAsset, tokenMapping, chainId);
-      const takerSymbol = addressToSymbol(takerAsset, tokenMapping, chainId);
-
-      // Map symbols for price feeds (WETH -> ETH, WBTC -> BTC)
-      const mappedMakerSymbol = mapSymbolForFeed(makerSymbol);
-      const mappedTakerSymbol = mapSymbolForFeed(takerSymbol);
-
-      // Create price feed symbol
-      const symbol =
-        `agg:spot:${mappedMakerSymbol}${mappedTakerSymbol}` as PairSymbol;
-      const priceData = priceCache.getPrice(symbol);
+      // Inverse feed: maker is the quote asset (buy)
+      const inverseSymbol =
+        `agg:spot:${takerSymbol}${makerSymbol}` as PairSymbol;
+      const inverse = priceCache.getPrice(inverseSymbol);
+      if (inverse?.mid) {
+        return {
+          symbol: inverseSymbol,
+          price: inverse.mid,
+          priceData: inverse,
+          makerIsBase: false,
+        };
+      }
 
-      if (!priceData?.mid) {
-        logger.warn(`No price data available for ${symbol}`);
-        return null;
+      // Cross rate through a USD stablecoin quote
+      for (const quote of CROSS_QUOTES) {
+        const baseLeg = priceCache.getPrice(
+          `agg:spot:${makerSymbol}${quote}` as PairSymbol,
+        );
+        const quoteLeg = priceCache.getPrice(
+          `agg:spot:${takerSymbol}${quote}` as PairSymbol,
+        );
+        if (!baseLeg?.mid || !quoteLeg?.mid) continue;
+
+        const priceData = {
+          symbol,
+          mid: baseLeg.mid / quoteLeg.mid,
+          bid: baseLeg.bid / quoteLeg.ask,
+          ask: baseLeg.ask / quoteLeg.bid,
+          timestamp: Math.min(baseLeg.timestamp ?? 0, quoteLeg.timestamp ?? 0),
+          cross: quote,
+        };
+        return { symbol, price: priceData.mid, priceData, makerIsBase: true };
       }
 
-      return {
-        symbol,
-        price: priceData.mid,
-        priceData,
-      };
+      logger.warn(`No price data available for ${symbol}`);
+      return null;
     } catch (error) {
       logger.error(`Failed to get price info: ${error}`);
       return null;
@@ -220,12 +364,12 @@ export abstract class BaseOrderWatcher implements OrderWatcher {
     steps: number,
     currentStep: number,
   ): string {
-    const total = parseFloat(totalAmount);
-    const amountPerStep = total / steps;
-    const remaining = total - amountPerStep * currentStep;
+    const total = BigInt(totalAmount);
+    const amountPerStep = total / BigInt(steps);
+    const remaining = total - amountPerStep * BigInt(currentStep);
 
     // Return the minimum of amount per step or remaining
-    return Math.min(amountPerStep, remaining).toFixed(8);
+    return (amountPerStep < remaining ? amountPerStep : remaining).toString();
   }
 
   /**
@@ -276,13 +420,16 @@ export abstract class BaseOrderWatcher implements OrderWatcher {
 
   /**
    * Check if technical indicator condition is met
+   * Nested series are addressed with dotted paths (e.g. "macd.histogram", "bb.lower")
    */
   protected checkTechnicalCondition(
     priceData: any,
     indicator: string,
     condition: (value: number) => boolean,
   ): boolean {
-    const analysis = priceData?.analysis?.[indicator];
+    const analysis = indicator
+      .split(".")
+      .reduce((node, key) => node?.[key], priceData?.analysis);
     if (!analysis || !Array.isArray(analysis) || analysis.length === 0) {
       return false;
     }
@@ -291,6 +438,46 @@ export abstract class BaseOrderWatcher implements OrderWatcher {
     return condition(currentValue);
   }
 
+  /**
+   * Indicator series of an order's pair with the requested period: computed on `tf`
+   * candles by the indicator engine when a timeframe is requested, else the feed's
+   * analysis when it uses that period, else computed from the feed's history
+   */
+  protected async getIndicatorSeries(
+    order: Order,
+    indicator: PeriodIndicator,
+    period: number,
+    tf?: TimeFrame,
+  ): Promise<number[]> {
+    const priceInfo = this.getPriceInfo(order);
+    if (!priceInfo) return [];
+
+    if (tf) {
+      return getIndicatorEngine().getSeries(
+        priceInfo.symbol,
+        tf,
+        indicator,
+        period,
+      );
+    }
+    const { analysis, history } = priceInfo.priceData ?? {};
+    if (period === ANALYSIS_PERIODS[indicator]) {
+      return analysis?.[indicator] || [];
+    }
+    return history?.c?.length
+      ? computeIndicator(history, indicator, period)
+      : [];
+  }
+
+  /**
+   * Reject indicator timeframes that cannot be built from stored candles
+   */
+  protected validateTimeframes(...timeframes: (TimeFrame | undefined)[]): void {
+    for (const tf of timeframes) {
+      if (tf) getIndicatorEngine().getSourceTimeframe(tf);
+    }
+  }
+
   /**
    * Calculate moving average of an array
    */
@@ -342,24 +529,50 @@ export abstract class BaseOrderWatcher implements OrderWatcher {
   }
 
   /**
-   * Determine if this is a sell order based on maker/taker assets
+   * One-shot orders execute everything that remains in a single slice
    */
-  protected isSellOrder(order: Order): boolean {
-    const config = getConfig();
-    const wethAddresses = Object.values(config.tokenMapping.WETH || {});
-    const usdtAddresses = Object.values(config.tokenMapping.USDT || {});
+  async getTriggerAmount(order: Order): Promise<string> {
+    return order.remainingMakerAmount || "0";
+  }
 
-    const makerAsset = order.params?.makerAsset?.toLowerCase();
-    const takerAsset = order.params?.takerAsset?.toLowerCase();
+  /**
+   * Limit price of the 1inch order placed on trigger (spread-optimized by default)
+   */
+  protected getLimitPrice(order: Order, priceInfo: PriceInfo): number {
+    return this.calculateLimitPrice(
+      priceInfo.priceData.mid,
+      priceInfo.priceData.bid,
+      priceInfo.priceData.ask,
+      priceInfo.makerIsBase,
+    );
+  }
 
-    if (!makerAsset || !takerAsset) {
-      return false; // Default to false if assets not defined
-    }
+  /**
+   * Dutch auction of a slice, from the limit price plus the order's premium to its
+   * end price (never starting worse than it), undefined without an auction
+   */
+  protected getAuction(
+    order: Order,
+    limitPrice: number,
+    makerIsBase: boolean,
+  ): ChildAuction | undefined {
+    const { auctionPremiumPct = 0, auctionEndPrice, auctionDuration } =
+      order.params ?? {};
+    if (!auctionEndPrice || !auctionDuration) return undefined;
+
+    // Better for the maker: higher when selling the base, lower when buying it
+    const premium = limitPrice * (auctionPremiumPct / 100);
+    const startPrice = makerIsBase
+      ? Math.max(limitPrice + premium, auctionEndPrice)
+      : Math.min(limitPrice - premium, auctionEndPrice);
+    return { startPrice, endPrice: auctionEndPrice, duration: auctionDuration };
+  }
 
-    // If maker asset is WETH-like and taker is USDT-like, it's a sell
-    return (
-      wethAddresses.includes(makerAsset) && usdtAddresses.includes(takerAsset)
-    );
+  /**
+   * Determine if this is a sell order, i.e. the maker asset is the base of its market
+   */
+  protected isSellOrder(order: Order): boolean {
+    return this.getPriceInfo(order)?.makerIsBase ?? false;
   }
 
   /**
@@ -377,10 +590,6 @@ export abstract class BaseOrderWatcher implements OrderWatcher {
       return;
     }
 
-    if (!this.limitOrderService || !this.delegateProxy) {
-      throw new Error("LimitOrderService or DelegateProxy not configured");
-    }
-
     try {
       // Get current price data for dynamic pricing
       const priceInfo = this.getPriceInfo(order);
@@ -388,113 +597,185 @@ export abstract class BaseOrderWatcher implements OrderWatcher {
         throw new Error(`No price data available for order ${order.id}`);
       }
 
-      const isSell = this.isSellOrder(order);
-      const limitPrice = this.calculateLimitPrice(
-        priceInfo.priceData.mid,
-        priceInfo.priceData.bid,
-        priceInfo.priceData.ask,
-        isSell,
-      );
+      const isSell = priceInfo.makerIsBase;
+      const limitPrice = this.getLimitPrice(order, priceInfo);
 
       logger.info(
-        `[${order.params?.type || "UNKNOWN"}] Triggering order ${order.id.slice(0, 8)}... at optimized limit price $${limitPrice.toFixed(6)} (spot: $${priceInfo.price.toFixed(6)}, ${isSell ? "sell" : "buy"})`,
+        `[${order.params?.type || "UNKNOWN"}] Triggering order ${order.id.slice(0, 8)}... on ${priceInfo.symbol} at limit price ${limitPrice.toFixed(6)} (spot: ${priceInfo.price.toFixed(6)}, ${isSell ? "sell" : "buy"})`,
       );
 
-      // Calculate dynamic taking amount based on limit price
-      const makingAmountFloat = parseFloat(makingAmount);
-      let dynamicTakingAmount: string;
-      
-      if (isSell) {
-        // Selling WETH for USDT: takingAmount = makingAmount * limitPrice
-        const usdtAmount = makingAmountFloat * limitPrice;
-        dynamicTakingAmount = usdtAmount.toFixed(6);
-      } else {
-        // Buying WETH with USDT
-        const usdtAmount = makingAmountFloat * limitPrice;
-        dynamicTakingAmount = usdtAmount.toFixed(6);
-      }
-      
-      logger.debug(`Calculated takingAmount: ${dynamicTakingAmount} USDT for ${makingAmount} WETH at $${limitPrice}`);
-
-      // Parse amounts with proper decimals
-      const makingAmountWei = ethers.parseUnits(parseFloat(makingAmount).toFixed(18), 18); // WETH has 18 decimals
-      const takingAmountWei = ethers.parseUnits(parseFloat(dynamicTakingAmount).toFixed(6), 6); // USDT has 6 decimals
-
-      // Create order parameters for LimitOrderService
-      const orderParams: OneInchLimitOrderParams = {
+      await this.placeChildOrder(order, {
         makerAsset: order.params!.makerAsset,
         takerAsset: order.params!.takerAsset,
-        makingAmount: makingAmountWei,
-        takingAmount: takingAmountWei,
-        maker: this.delegateProxy.target.toString(), // DelegateProxy as maker
-        receiver: order.params!.maker, // User receives the assets
-        salt: BigInt(order.params?.salt || this.generateSalt()),
-        expirationMs: order.params?.expiry && order.params.expiry > 0 ? order.params.expiry : undefined,
-        partialFillsEnabled: true, // Enable partial fills by default
-      };
+        makingAmount,
+        limitPrice,
+        makerIsBase: isSell,
+        auction: this.getAuction(order, limitPrice, isSell),
+      });
+    } catch (error) {
+      logger.error(`❌ Failed to trigger order ${order.id}: ${error}`);
+      throw error;
+    }
+  }
 
-      // Update order tracking before submission
-      const oldTriggerCount = order.triggerCount || 0;
-      order.triggerCount = oldTriggerCount + 1;
-      order.status = order.status === OrderStatus.PENDING ? OrderStatus.ACTIVE : order.status;
-      
-      logger.debug(`Updating order: triggerCount ${oldTriggerCount} -> ${order.triggerCount}, status: ${order.status}`);
+  /**
+   * Create a child 1inch order for this order (through DelegateProxy) and track it.
+   * Assets may be swapped relative to the order's params (e.g. grid counter legs).
+   * Bracket exits are tracked in exitOrders, apart from the order's own fills.
+   * Returns the 1inch order hash.
+   */
+  protected async placeChildOrder(
+    order: Order,
+    child: {
+      makerAsset: string;
+      takerAsset: string;
+      makingAmount: string; // Base units of the child's maker asset
+      limitPrice: number; // Quote per base
+      makerIsBase: boolean; // Whether the child sells the base asset
+      auction?: ChildAuction; // Decaying price, replaces limitPrice
+      exit?: boolean; // Bracket exit leg
+    },
+  ): Promise<string> {
+    const { chainId, provider, delegateProxy, limitOrderService } =
+      this.getExecutionContext(order);
+    if (!limitOrderService || !delegateProxy) {
+      throw new Error(
+        `LimitOrderService or DelegateProxy not configured for chain ${chainId}`,
+      );
+    }
+
+    const { makerAsset, takerAsset, makingAmount, makerIsBase, auction } =
+      child;
+    const limitPrice = auction?.startPrice ?? child.limitPrice;
+
+    // Amounts stay in base units: the taking amount is priced with each
+    // token's own decimals on this chain (prices are quote-per-base)
+    const [makerDecimals, takerDecimals] = await Promise.all([
+      getTokenDecimals(chainId, makerAsset, provider),
+      getTokenDecimals(chainId, takerAsset, provider),
+    ]);
+    const makingAmountWei = BigInt(makingAmount);
+    const takingAt = (price: number) =>
+      quoteAmount(
+        makingAmountWei,
+        price,
+        makerDecimals,
+        takerDecimals,
+        makerIsBase,
+      );
+    const takingAmountWei = takingAt(limitPrice);
+    if (makingAmountWei <= 0n || takingAmountWei <= 0n) {
+      throw new Error(
+        `Child order of ${order.id} rounds to zero (making ${makingAmount}, taking ${takingAmountWei})`,
+      );
+    }
+
+    logger.debug(
+      `Calculated takingAmount: ${ethers.formatUnits(takingAmountWei, takerDecimals)} for ${ethers.formatUnits(makingAmountWei, makerDecimals)} at ${limitPrice}`,
+    );
 
-      // Use LimitOrderService to create and submit the order
-      const result = await this.limitOrderService.createAndSubmitOrder(
-        orderParams,
-        order.params!.maker,
-        this.keeper,
+    // Create order parameters for LimitOrderService
+    const orderParams: OneInchLimitOrderParams = {
+      makerAsset,
+      takerAsset,
+      makingAmount: makingAmountWei,
+      takingAmount: takingAmountWei,
+      maker: delegateProxy.target.toString(), // DelegateProxy as maker
+      receiver: order.params!.maker, // User receives the assets
+      salt: BigInt(order.params?.salt || this.generateSalt()),
+      expirationMs: order.params?.expiry && order.params.expiry > 0 ? order.params.expiry : undefined,
+      partialFillsEnabled: true, // Enable partial fills by default
+    };
+
+    // Dutch auction: the taking amount decays from the start to the end price
+    if (auction) {
+      const { network } = this.getExecutionContext(order);
+      if (!network.dutchAuctionCalculator) {
+        throw new Error(
+          `No DutchAuctionCalculator configured for chain ${chainId}`,
+        );
+      }
+      const startTime = Math.floor(Date.now() / 1000);
+      orderParams.auction = {
+        calculator: network.dutchAuctionCalculator,
+        startTime,
+        endTime: startTime + auction.duration,
+        startTakingAmount: takingAmountWei,
+        endTakingAmount: takingAt(auction.endPrice),
+      };
+      logger.debug(
+        `Auction from ${limitPrice} to ${auction.endPrice} over ${auction.duration}s`,
       );
+    }
+
+    // Update order tracking before submission
+    const oldTriggerCount = order.triggerCount || 0;
+    order.triggerCount = oldTriggerCount + 1;
+    order.status = order.status === OrderStatus.PENDING ? OrderStatus.ACTIVE : order.status;
 
+    logger.debug(`Updating order: triggerCount ${oldTriggerCount} -> ${order.triggerCount}, status: ${order.status}`);
+
+    // Queue the slice: slices triggered in the same tick on this chain are
+    // created in one DelegateProxy batch, then submitted to 1inch per hash
+    const result = await limitOrderService.enqueueOrder(
+      orderParams,
+      order.params!.maker,
+      order.id,
+    );
+
+    const details: OneInchChildOrder = {
+      hash: result.orderHash,
+      makingAmount: makingAmountWei.toString(),
+      takingAmount: takingAmountWei.toString(),
+      limitPrice: limitPrice.toString(),
+      createdAt: Date.now(),
+      struct: result.orderStruct,
+      makerAsset:
+        makerAsset === order.params!.makerAsset ? undefined : makerAsset,
+    };
+    if (child.exit) {
+      // Exits sell what the order received: never part of its aggregate fill
+      (order.exitOrders ||= []).push(details);
+    } else {
       // Store the order hash and details for tracking
       if (!order.oneInchOrderHashes) {
         order.oneInchOrderHashes = [];
       }
       order.oneInchOrderHashes.push(result.orderHash);
-      
+
       // Store 1inch order details for monitoring
       if (!order.oneInchOrders) {
         order.oneInchOrders = [];
       }
-      order.oneInchOrders.push({
-        hash: result.orderHash,
-        makingAmount: makingAmount,
-        takingAmount: dynamicTakingAmount,
-        limitPrice: limitPrice.toString(),
-        createdAt: Date.now()
-      });
-      
-      await saveOrder(order);
+      order.oneInchOrders.push(details);
+    }
 
-      logger.info(
-        `🎯 Order ${order.id.slice(0, 8)}... triggered successfully - Hash: ${result.orderHash.slice(0, 10)}..., Amount: ${makingAmount}, Limit: $${limitPrice.toFixed(6)}`,
-      );
+    await saveOrder(order);
+
+    logger.info(
+      `🎯 Order ${order.id.slice(0, 8)}... triggered successfully - Hash: ${result.orderHash.slice(0, 10)}..., Amount: ${makingAmount}, Limit: ${limitPrice.toFixed(6)}`,
+    );
 
-      // Enhanced logging for debugging
-      logger.info(`📋 1inch Order Details:
+    // Enhanced logging for debugging
+    logger.info(`📋 1inch Order Details:
         - Full Hash: ${result.orderHash}
         - Order ID: ${order.id}
         - Type: ${order.params?.type}
-        - Maker Asset: ${order.params?.makerAsset}
-        - Taker Asset: ${order.params?.takerAsset}
-        - Making Amount (decimal): ${makingAmount}
-        - Taking Amount (USDT): ${dynamicTakingAmount}
-        - Limit Price: $${limitPrice.toFixed(6)}
-        - Spot Price: $${priceInfo.price.toFixed(6)}
-        - Is Sell: ${isSell}
+        - Maker Asset: ${makerAsset}
+        - Taker Asset: ${takerAsset}
+        - Making Amount (base units): ${makingAmount}
+        - Taking Amount (base units): ${takingAmountWei}
+        - Limit Price: ${limitPrice.toFixed(6)}
+        - Is Sell: ${makerIsBase}
         - API Success: ${result.success}
         - Expiry: ${order.params?.expiry ? new Date(order.params.expiry).toISOString() : 'none'}
-        - Chain ID: ${this.chainId || 1}`);
+        - Chain ID: ${chainId}`);
 
-      if (!result.success) {
-        logger.warn(`⚠️ Order created on DelegateProxy but API submission failed: ${result.error}`);
-      }
-
-    } catch (error) {
-      logger.error(`❌ Failed to trigger order ${order.id}: ${error}`);
-      throw error;
+    if (!result.success) {
+      logger.warn(`⚠️ Order created on DelegateProxy but API submission failed: ${result.error}`);
     }
+
+    return result.orderHash;
   }
 
   private generateSalt(): string {
@@ -563,20 +844,23 @@ export abstract class BaseOrderWatcher implements OrderWatcher {
         - All Valid: ${aggregatedState.allOrdersValid}
         - Invalid Reasons: ${aggregatedState.invalidReasons.join(', ')}`);
 
-      // Update order status based on aggregated fills
-      const originalMakingAmount = order.params?.makingAmount || 0;
-      const fillPercentage = originalMakingAmount > 0 ? (aggregatedState.totalFilled / originalMakingAmount) * 100 : 0;
+      // Update order status based on aggregated fills (base units, as reported by 1inch)
+      const totalFilled = BigInt(aggregatedState.totalFilled);
+      const originalMakingAmount = BigInt(order.params?.makingAmount || 0);
+      const fillPercentage = fillPct(totalFilled, originalMakingAmount);
 
-      if (aggregatedState.isCompletelyFilled) {
+      // remainingMakerAmount tracks what is left to slice; fills are tracked in filledAmount.
+      // Filled children are not enough: sliced orders (TWAP, DCA, iceberg refills) may post more
+      order.filledAmount = totalFilled.toString();
+      if (totalFilled > 0n && totalFilled >= originalMakingAmount) {
         order.status = OrderStatus.FILLED;
-        order.remainingMakerAmount = 0;
+        order.remainingMakerAmount = "0";
         logger.info(`🎉 Order ${order.id.slice(0, 8)}... completely filled! Total makingAmount (${originalMakingAmount}) reached via 1inch cache.`);
       } else if (aggregatedState.hasPartialFills) {
         // Any fill from underlying 1inch orders = PARTIALLY_FILLED for the 1edge order
         order.status = OrderStatus.PARTIALLY_FILLED;
-        order.remainingMakerAmount = Math.max(0, originalMakingAmount - aggregatedState.totalFilled);
         logger.info(
-          `📈 Order ${order.id.slice(0, 8)}... ${fillPercentage.toFixed(2)}% filled (${aggregatedState.totalFilled} of ${originalMakingAmount} WETH) via 1inch cache`,
+          `📈 Order ${order.id.slice(0, 8)}... ${fillPercentage.toFixed(2)}% filled (${totalFilled} of ${originalMakingAmount}) via 1inch cache`,
         );
       }
 
@@ -594,6 +878,18 @@ export abstract class BaseOrderWatcher implements OrderWatcher {
         }
       }
 
+      // Record per-child fills (used by fill-driven watchers, e.g. iceberg refills)
+      cachedOrders.forEach((cachedOrder, i) => {
+        const child = order.oneInchOrders?.find(
+          (o) => o.hash === order.oneInchOrderHashes![i],
+        );
+        if (!cachedOrder || !child || child.cancelledAt) return;
+        const filled =
+          BigInt(cachedOrder.data.makingAmount) -
+          BigInt(cachedOrder.remainingMakerAmount);
+        child.filledAmount = (filled > 0n ? filled : 0n).toString();
+      });
+
       // Save updated order
       await saveOrder(order);
       
@@ -602,12 +898,11 @@ export abstract class BaseOrderWatcher implements OrderWatcher {
         const hash = order.oneInchOrderHashes[i];
         const cachedOrder = cachedOrders[i];
         if (cachedOrder) {
-          const remaining = parseFloat(cachedOrder.remainingMakerAmount);
-          const original = parseFloat(cachedOrder.data.makingAmount);
-          const filled = Math.max(0, original - remaining);
-          const fillPct = original > 0 ? (filled / original) * 100 : 0;
+          const remaining = BigInt(cachedOrder.remainingMakerAmount);
+          const original = BigInt(cachedOrder.data.makingAmount);
+          const filled = original > remaining ? original - remaining : 0n;
           
-          logger.debug(`  📋 1inch Order ${hash.slice(0, 10)}...: ${fillPct.toFixed(1)}% filled (${filled}/${original}) - ${cachedOrder.orderInvalidReason || 'active'}`);
+          logger.debug(`  📋 1inch Order ${hash.slice(0, 10)}...: ${fillPct(filled, original).toFixed(1)}% filled (${filled}/${original}) - ${cachedOrder.orderInvalidReason || 'active'}`);
         }
       }
       
@@ -627,7 +922,12 @@ export abstract class BaseOrderWatcher implements OrderWatcher {
    * Used when 1inch order cache is unavailable
    */
   private async updateOrderFromBlockchain(order: Order): Promise<void> {
-    if (!this.delegateProxy || !order.oneInchOrderHashes?.length) {
+    if (!order.oneInchOrderHashes?.length) {
+      return;
+    }
+
+    const { delegateProxy } = this.getExecutionContext(order);
+    if (!delegateProxy) {
       return;
     }
 
@@ -635,7 +935,7 @@ export abstract class BaseOrderWatcher implements OrderWatcher {
       logger.debug(`🔗 Updating order ${order.id.slice(0, 8)}... from blockchain (cache fallback)`);
       
       // Check status of all 1inch orders for this order
-      const orderData = await this.delegateProxy.getOrderData(
+      const orderData = await delegateProxy.getOrderData(
         order.oneInchOrderHashes,
       );
 
@@ -644,40 +944,45 @@ export abstract class BaseOrderWatcher implements OrderWatcher {
 
       for (let i = 0; i < orderData.length; i++) {
         const data = orderData[i];
-        // Convert decimal amount to wei using parseUnits with 18 decimals
-        const remainingAmountStr = order.remainingMakerAmount.toFixed(18);
-        const originalAmount = ethers.parseUnits(remainingAmountStr, 18);
+        const child = order.oneInchOrders?.find(
+          (o) => o.hash === order.oneInchOrderHashes![i],
+        );
+        if (!child) continue;
+
+        const originalAmount = BigInt(child.makingAmount);
         const filled = originalAmount - data.remainingAmount;
+        if (!child.cancelledAt) {
+          child.filledAmount = filled.toString();
+        }
 
         if (filled > 0n) {
           totalFilled += filled;
           hasPartialFills = true;
 
           logger.debug(
-            `Order ${order.oneInchOrderHashes[i].slice(0, 10)}... filled: ${ethers.formatUnits(filled, 18)} (${((Number(filled) / Number(originalAmount)) * 100).toFixed(2)}%)`,
+            `Order ${order.oneInchOrderHashes[i].slice(0, 10)}... filled: ${filled} (${fillPct(filled, originalAmount).toFixed(2)}%)`,
           );
         }
       }
 
       // Update order status based on fills
-      const originalMakingAmount = order.params?.makingAmount || 0;
-      const originalTotal = ethers.parseUnits(originalMakingAmount.toFixed(18), 18);
-      const fillPercentage = originalMakingAmount > 0 ? (Number(totalFilled) / Number(originalTotal)) * 100 : 0;
+      const originalTotal = BigInt(order.params?.makingAmount || 0);
+      const fillPercentage = fillPct(totalFilled, originalTotal);
 
       // Check if the total 1edge order makingAmount is completely filled
       const totalOrderFilled = totalFilled >= originalTotal;
       
+      // remainingMakerAmount tracks what is left to slice; fills are tracked in filledAmount
+      order.filledAmount = totalFilled.toString();
       if (totalOrderFilled && totalFilled > 0n) {
         order.status = OrderStatus.FILLED;
-        order.remainingMakerAmount = 0;
-        logger.info(`🎉 Order ${order.id.slice(0, 8)}... completely filled! Total makingAmount (${originalMakingAmount}) reached via blockchain.`);
+        order.remainingMakerAmount = "0";
+        logger.info(`🎉 Order ${order.id.slice(0, 8)}... completely filled! Total makingAmount (${originalTotal}) reached via blockchain.`);
       } else if (hasPartialFills) {
         // Any fill from underlying 1inch orders = PARTIALLY_FILLED for the 1edge order
         order.status = OrderStatus.PARTIALLY_FILLED;
-        const remaining = originalTotal - totalFilled;
-        order.remainingMakerAmount = parseFloat(ethers.formatUnits(remaining, 18));
         logger.info(
-          `📈 Order ${order.id.slice(0, 8)}... ${fillPercentage.toFixed(2)}% filled (${ethers.formatUnits(totalFilled, 18)} of ${originalMakingAmount} WETH) via blockchain`,
+          `📈 Order ${order.id.slice(0, 8)}... ${fillPercentage.toFixed(2)}% filled (${totalFilled} of ${originalTotal}) via blockchain`,
         );
       }
 
@@ -690,37 +995,383 @@ export abstract class BaseOrderWatcher implements OrderWatcher {
     }
   }
 
+  /**
+   * Whether a child 1inch order is completely filled, per the fills recorded by updateOrderFromOnChain
+   */
+  protected async isChildFilled(
+    order: Order,
+    child: OneInchChildOrder,
+  ): Promise<boolean> {
+    if (!child.filledAmount) return false;
+    return BigInt(child.filledAmount) >= BigInt(child.makingAmount);
+  }
+
   /**
    * Cancel expired order and underlying 1inch orders
    */
-  private async cancelExpiredOrder(order: Order): Promise<void> {
+  protected async cancelExpiredOrder(order: Order): Promise<void> {
     try {
-      // Update order status to expired
+      // Children must be cancelled on-chain before the order is marked expired
+      await this.cancelChildOrders(order, OrderStatus.EXPIRED);
+
       order.status = OrderStatus.EXPIRED;
       order.cancelledAt = Date.now();
       await saveOrder(order);
 
-      // Cancel underlying 1inch orders if we have the capability
-      if (this.delegateProxy && order.oneInchOrderHashes?.length) {
-        for (const orderHash of order.oneInchOrderHashes) {
-          try {
-            // Note: Actual cancellation would require the appropriate method on DelegateProxy
-            // This is a placeholder - implement based on your contract interface
-            logger.debug(
-              `Would cancel 1inch order ${orderHash.slice(0, 10)}...`,
-            );
-          } catch (cancelError) {
-            logger.warn(
-              `Failed to cancel 1inch order ${orderHash.slice(0, 10)}...: ${cancelError}`,
-            );
-          }
+      logger.info(`🚫 Order ${order.id.slice(0, 8)}... expired and cancelled`);
+    } catch (error) {
+      // Left as is so the next evaluation retries the cancellation
+      logger.error(`Failed to cancel expired order ${order.id}: ${error}`);
+    }
+  }
+
+  /**
+   * Cancel every unfilled child 1inch order through DelegateProxy.cancel1inchOrderBatch,
+   * wait until the cancellation is confirmed on-chain, then reconcile the order's
+   * remainingMakerAmount with whatever filled in the meantime
+   */
+  async cancelChildOrders(
+    order: Order,
+    status: OrderStatus.CANCELLED | OrderStatus.EXPIRED,
+  ): Promise<void> {
+    const children = (order.oneInchOrders || []).filter((c) => !c.cancelledAt);
+    if (this.mockMode || children.length === 0) return;
+
+    const { chainId, delegateProxy, limitOrderService } =
+      this.getExecutionContext(order);
+    if (!delegateProxy || !limitOrderService) {
+      throw new Error(
+        `LimitOrderService or DelegateProxy not configured for chain ${chainId}`,
+      );
+    }
+
+    // DelegateProxy deletes an order once fully filled or cancelled (maker reset to zero)
+    const isOpen = (data: any) => data.maker !== ethers.ZeroAddress;
+    const hashes = children.map((c) => c.hash);
+    const before = await delegateProxy.getOrderData(hashes);
+    const open = children.filter((_, i) => isOpen(before[i]));
+
+    const missingStruct = open.filter((c) => !c.struct);
+    if (missingStruct.length > 0) {
+      throw new Error(
+        `Cannot cancel ${missingStruct.length} 1inch order(s) of ${order.id} without their on-chain struct`,
+      );
+    }
+
+    // Fill state right before the cancellation landed (latest if nothing to cancel)
+    let settled = before;
+    if (open.length > 0) {
+      logger.info(
+        `🧹 Cancelling ${open.length} open 1inch order(s) of ${order.id.slice(0, 8)}... on chain ${chainId}`,
+      );
+      const { receipt } = await limitOrderService.cancelOrdersOnDelegateProxy(
+        open.map((c) => c.struct!),
+        { orderId: order.id, status },
+      );
+
+      const after = await delegateProxy.getOrderData(open.map((c) => c.hash));
+      const stillOpen = open.filter((_, i) => isOpen(after[i]));
+      if (stillOpen.length > 0) {
+        throw new Error(
+          `${stillOpen.length} 1inch order(s) of ${order.id} still open after cancellation ${receipt.hash}`,
+        );
+      }
+      settled = await delegateProxy.getOrderData(hashes, {
+        blockTag: receipt.blockNumber - 1,
+      });
+    }
+
+    // Reconcile: open orders filled making - remaining, closed ones were filled in full
+    const cancelledAt = Date.now();
+    for (const [i, child] of children.entries()) {
+      const making = BigInt(child.makingAmount);
+      const filled = isOpen(settled[i])
+        ? making - settled[i].remainingAmount
+        : making;
+      child.filledAmount = filled.toString();
+      if (open.includes(child)) child.cancelledAt = cancelledAt;
+    }
+
+    // Only children selling the order's maker asset count towards its fills
+    let totalFilled = 0n;
+    for (const child of order.oneInchOrders || []) {
+      if (child.filledAmount && !child.makerAsset) {
+        totalFilled += BigInt(child.filledAmount);
+      }
+    }
+    const originalTotal = BigInt(order.params?.makingAmount || 0);
+    const remaining = originalTotal > totalFilled ? originalTotal - totalFilled : 0n;
+    order.filledAmount = totalFilled.toString();
+    order.remainingMakerAmount = remaining.toString();
+    await saveOrder(order);
+
+    logger.info(
+      `✅ Cancelled ${open.length} 1inch order(s) of ${order.id.slice(0, 8)}..., filled ${order.filledAmount}, remaining ${order.remainingMakerAmount}`,
+    );
+  }
+
+  /**
+   * Take-profit / stop-loss distances attached to the order, if any
+   */
+  protected getBracketExits(
+    order: Order,
+  ): { tpPct?: number; slPct?: number } | null {
+    const { tpPct, slPct } = order.params || {};
+    return tpPct! > 0 || slPct! > 0 ? { tpPct, slPct } : null;
+  }
+
+  hasBracket(order: Order): boolean {
+    return !!this.getBracketExits(order);
+  }
+
+  /**
+   * Drive the bracket of a filled order: post the take profit, then watch for
+   * either the take profit filling or the price crossing the stop loss, the
+   * first one cancelling the other
+   */
+  async updateBracket(order: Order): Promise<boolean> {
+    const exits = this.getBracketExits(order);
+    if (this.mockMode || !exits || order.status !== OrderStatus.FILLED) {
+      return false;
+    }
+
+    try {
+      let bracket = await getBracket(order.id);
+      if (!bracket) {
+        const entry = this.getFilledEntry(order);
+        if (!entry) {
+          // Nothing to protect: never armed, no longer watched
+          const error = "No filled entry to attach a bracket to";
+          logger.error(`❌ ${error} for order ${order.id}`);
+          await saveOrderEvent({
+            orderId: order.id,
+            status: order.status,
+            timestamp: Date.now(),
+            error,
+          });
+          return false;
+        }
+        bracket = await this.armBracket(order, exits, entry);
+        if (!bracket) return true; // Not armed yet (no price data), retried
+      }
+      if (bracket.status !== BracketStatus.ARMED) return false;
+
+      const { delegateProxy } = this.getExecutionContext(order);
+
+      // DelegateProxy deletes the take profit once filled (we only cancel it on stop loss),
+      // a hash it never saw reads the same: only a tracked take profit can close
+      const takeProfit = this.getTakeProfit(order, bracket);
+      if (takeProfit && !takeProfit.cancelledAt && delegateProxy) {
+        const [data] = await delegateProxy.getOrderData([takeProfit.hash]);
+        if (data.maker === ethers.ZeroAddress) {
+          takeProfit.filledAmount = takeProfit.makingAmount;
+          await this.closeBracket(order, bracket, BracketStatus.TAKE_PROFIT);
+          return false;
         }
       }
 
-      logger.info(`🚫 Order ${order.id.slice(0, 8)}... expired and cancelled`);
+      const priceInfo = this.getPriceInfo(order);
+      if (!bracket.stopLossPrice || !priceInfo) return true;
+
+      // The entry sold its maker asset: a long (bought base) stops below, a short above
+      const entryIsSell = priceInfo.makerIsBase;
+      const stopHit = entryIsSell
+        ? priceInfo.price >= bracket.stopLossPrice
+        : priceInfo.price <= bracket.stopLossPrice;
+      if (!stopHit) return true;
+
+      // Closed either way: by the stop loss, or the take profit filling first
+      await this.executeStopLoss(order, bracket, priceInfo);
+      return false;
     } catch (error) {
-      logger.error(`Failed to cancel expired order ${order.id}: ${error}`);
+      logger.error(`Failed to update bracket of order ${order.id}: ${error}`);
+      return true;
+    }
+  }
+
+  private getTakeProfit(
+    order: Order,
+    bracket: Bracket,
+  ): OneInchChildOrder | undefined {
+    return bracket.takeProfitHash
+      ? order.exitOrders?.find((c) => c.hash === bracket.takeProfitHash)
+      : undefined;
+  }
+
+  /**
+   * Maker amount sold by the filled entry children and the taker amount
+   * received (taking pro rata of each recorded fill), null if nothing filled
+   */
+  private getFilledEntry(
+    order: Order,
+  ): { made: bigint; received: bigint } | null {
+    let made = 0n;
+    let received = 0n;
+    for (const child of order.oneInchOrders || []) {
+      if (child.makerAsset) continue;
+      const making = BigInt(child.makingAmount);
+      const filled = BigInt(child.filledAmount || 0);
+      if (making <= 0n || filled <= 0n) continue;
+      made += filled;
+      received += (filled * BigInt(child.takingAmount)) / making;
     }
+    return made > 0n && received > 0n ? { made, received } : null;
+  }
+
+  /**
+   * Compute the entry price from the filled entry and post the take profit
+   */
+  private async armBracket(
+    order: Order,
+    exits: { tpPct?: number; slPct?: number },
+    { made, received }: { made: bigint; received: bigint },
+  ): Promise<Bracket | null> {
+    const priceInfo = this.getPriceInfo(order);
+    if (!priceInfo) return null;
+
+    // Exits sell the received asset back: take profit in the entry's favour, stop loss against it
+    const entryIsSell = priceInfo.makerIsBase;
+    const [makerDecimals, takerDecimals] = await Promise.all([
+      this.getMakerDecimals(order),
+      this.getAssetDecimals(order, order.params!.takerAsset),
+    ]);
+    const madeAmount = fromBaseUnits(made, makerDecimals);
+    const receivedAmount = fromBaseUnits(received, takerDecimals);
+    const entryPrice = entryIsSell
+      ? receivedAmount / madeAmount
+      : madeAmount / receivedAmount;
+    const direction = entryIsSell ? -1 : 1;
+    const bracket: Bracket = {
+      orderId: order.id,
+      status: BracketStatus.ARMED,
+      entryPrice,
+      exitAmount: received.toString(),
+      takeProfitPrice: exits.tpPct
+        ? entryPrice * (1 + (direction * exits.tpPct) / 100)
+        : undefined,
+      stopLossPrice: exits.slPct
+        ? entryPrice * (1 - (direction * exits.slPct) / 100)
+        : undefined,
+      createdAt: Date.now(),
+    };
+
+    if (bracket.takeProfitPrice) {
+      bracket.takeProfitHash = await this.placeChildOrder(order, {
+        makerAsset: order.params!.takerAsset,
+        takerAsset: order.params!.makerAsset,
+        makingAmount: bracket.exitAmount,
+        limitPrice: bracket.takeProfitPrice,
+        makerIsBase: !entryIsSell,
+        exit: true,
+      });
+    }
+
+    await saveBracket(bracket);
+    await saveOrderEvent({
+      orderId: order.id,
+      orderHash: bracket.takeProfitHash,
+      status: order.status,
+      timestamp: Date.now(),
+      bracket: BracketStatus.ARMED,
+    });
+
+    logger.info(
+      `🎯 Bracket armed for order ${order.id.slice(0, 8)}...: entry ${entryPrice.toFixed(6)}, take profit ${bracket.takeProfitPrice?.toFixed(6) ?? "none"}, stop loss ${bracket.stopLossPrice?.toFixed(6) ?? "none"}`,
+    );
+    return bracket;
+  }
+
+  /**
+   * Cancel the take profit on-chain, then post whatever it left unfilled through
+   * the market, unless the take profit filled in the meantime
+   */
+  private async executeStopLoss(
+    order: Order,
+    bracket: Bracket,
+    priceInfo: PriceInfo,
+  ): Promise<void> {
+    const { chainId, delegateProxy, limitOrderService } =
+      this.getExecutionContext(order);
+    if (!delegateProxy || !limitOrderService) {
+      throw new Error(
+        `LimitOrderService or DelegateProxy not configured for chain ${chainId}`,
+      );
+    }
+
+    logger.info(
+      `🛑 Stop loss ${bracket.stopLossPrice!.toFixed(6)} hit for order ${order.id.slice(0, 8)}... (spot: ${priceInfo.price.toFixed(6)})`,
+    );
+
+    let exitAmount = bracket.exitAmount;
+    const takeProfit = this.getTakeProfit(order, bracket);
+    if (takeProfit && !takeProfit.cancelledAt) {
+      if (!takeProfit.struct) {
+        throw new Error(
+          `Cannot cancel take profit ${takeProfit.hash} without its on-chain struct`,
+        );
+      }
+      const { receipt } = await limitOrderService.cancelOrdersOnDelegateProxy([
+        takeProfit.struct,
+      ]);
+
+      // Fill state right before the cancellation landed
+      const [settled] = await delegateProxy.getOrderData([takeProfit.hash], {
+        blockTag: receipt.blockNumber - 1,
+      });
+      if (settled.maker === ethers.ZeroAddress) {
+        takeProfit.filledAmount = takeProfit.makingAmount;
+        await this.closeBracket(order, bracket, BracketStatus.TAKE_PROFIT);
+        return;
+      }
+
+      const remaining = BigInt(settled.remainingAmount);
+      takeProfit.filledAmount = (
+        BigInt(takeProfit.makingAmount) - remaining
+      ).toString();
+      takeProfit.cancelledAt = Date.now();
+      exitAmount = remaining.toString();
+    }
+
+    // Marketable limit on the other side of the spot
+    const exitIsSell = !priceInfo.makerIsBase;
+    const limitPrice =
+      priceInfo.price *
+      (1 + ((exitIsSell ? -1 : 1) * STOP_LOSS_SLIPPAGE_PCT) / 100);
+    bracket.stopLossHash = await this.placeChildOrder(order, {
+      makerAsset: order.params!.takerAsset,
+      takerAsset: order.params!.makerAsset,
+      makingAmount: exitAmount,
+      limitPrice,
+      makerIsBase: exitIsSell,
+      exit: true,
+    });
+
+    await this.closeBracket(order, bracket, BracketStatus.STOP_LOSS);
+  }
+
+  private async closeBracket(
+    order: Order,
+    bracket: Bracket,
+    status: BracketStatus.TAKE_PROFIT | BracketStatus.STOP_LOSS,
+  ): Promise<void> {
+    bracket.status = status;
+    bracket.closedAt = Date.now();
+    await saveBracket(bracket);
+    await saveOrder(order);
+    await saveOrderEvent({
+      orderId: order.id,
+      orderHash:
+        status === BracketStatus.TAKE_PROFIT
+          ? bracket.takeProfitHash
+          : bracket.stopLossHash,
+      status: order.status,
+      timestamp: Date.now(),
+      bracket: status,
+    });
+
+    logger.info(
+      `${status === BracketStatus.TAKE_PROFIT ? "💰" : "🛑"} Bracket of order ${order.id.slice(0, 8)}... closed by ${status === BracketStatus.TAKE_PROFIT ? "take profit" : "stop loss"}`,
+    );
   }
 }
 
@@ -728,6 +1379,31 @@ export abstract class BaseOrderWatcher implements OrderWatcher {
  * Abstract base for time-based order watchers (DCA, TWAP)
  */
 export abstract class TimeBasedOrderWatcher extends BaseOrderWatcher {
+  /**
+   * Keeps triggering on schedule after the first slice
+   */
+  isRecurring(_order: Order): boolean {
+    return true;
+  }
+
+  /**
+   * Woken by the registry's timer wheel rather than by price updates, except
+   * for a filled order's bracket which watches the price
+   */
+  getWatchedSymbols(order: Order): PairSymbol[] {
+    return order.status === OrderStatus.FILLED && this.hasBracket(order)
+      ? super.getWatchedSymbols(order)
+      : [];
+  }
+
+  getNextWakeTime(order: Order): number | null {
+    if (typeof order.nextTriggerValue === "number") {
+      return order.nextTriggerValue;
+    }
+    const startDate = (order.params as { startDate?: number })?.startDate;
+    return typeof startDate === "number" ? startDate : null;
+  }
+
   protected checkTimeInterval(
     lastTriggerTime: number,
     intervalMs: number,
@@ -770,6 +1446,13 @@ export abstract class PriceBasedOrderWatcher extends BaseOrderWatcher {
  * Abstract base for stepped order watchers (Iceberg, Range, Grid)
  */
 export abstract class SteppedOrderWatcher extends BaseOrderWatcher {
+  /**
+   * Keeps triggering step by step after the first slice
+   */
+  isRecurring(_order: Order): boolean {
+    return true;
+  }
+
   protected getCurrentStep(order: Order): number {
     return order.triggerCount || 0;
   }
@@ -790,23 +1473,22 @@ export abstract class SteppedOrderWatcher extends BaseOrderWatcher {
     steps: number,
     currentStep: number,
   ): string {
-    const remaining = parseFloat(totalAmount);
     const remainingSteps = steps - currentStep;
     if (remainingSteps <= 0) return "0";
 
-    return (remaining / remainingSteps).toString();
+    // The last step takes the division remainder, leaving no dust
+    return (BigInt(totalAmount) / BigInt(remainingSteps)).toString();
   }
 
   /**
-   * Get trigger amount for current step
+   * Remaining amount split evenly over the steps left
    */
-  protected getTriggerAmount(
-    order: Order,
-    totalAmount: string,
-    totalSteps: number,
-  ): string {
-    const currentStep = this.getCurrentStep(order);
-    return this.calculateStepAmount(totalAmount, totalSteps, currentStep);
+  protected getStepAmount(order: Order, totalSteps: number): string {
+    return this.calculateStepAmount(
+      order.remainingMakerAmount || "0",
+      totalSteps,
+      this.getCurrentStep(order),
+    );
   }
 
   /**
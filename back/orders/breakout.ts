@@ -1,5 +1,7 @@
 import { OrderType } from "@common/types";
 import type { Order, RangeBreakoutParams } from "@common/types";
+import { INDICATOR_DEFAULTS } from "@common/constants";
+import { logger } from "@back/utils/logger";
 import { PriceBasedOrderWatcher, registerOrderWatcher } from "./base";
 
 /**
@@ -7,6 +9,11 @@ import { PriceBasedOrderWatcher, registerOrderWatcher } from "./base";
  * Triggers on strong trending conditions using ADX and EMA
  */
 class RangeBreakoutOrderWatcher extends PriceBasedOrderWatcher {
+  validateOrder(order: Order): void {
+    const params = order.params as RangeBreakoutParams;
+    this.validateTimeframes(params?.adxTf, params?.emaTf);
+  }
+
   async shouldTrigger(order: Order): Promise<boolean> {
     const params = this.validateParams<RangeBreakoutParams>(order);
     if (!params) return false;
@@ -14,7 +21,30 @@ class RangeBreakoutOrderWatcher extends PriceBasedOrderWatcher {
     const priceInfo = this.getPriceInfo(order);
     if (!priceInfo) return false;
 
-    const { price: currentPrice, priceData } = priceInfo;
+    const currentPrice = priceInfo.price;
+
+    // ADX and EMA with their requested periods and timeframes
+    let priceData: { analysis: { adx: number[]; ema: number[] } };
+    try {
+      const [adx, ema] = await Promise.all([
+        this.getIndicatorSeries(
+          order,
+          "adx",
+          params.adxPeriod || INDICATOR_DEFAULTS.ADX.period,
+          params.adxTf,
+        ),
+        this.getIndicatorSeries(
+          order,
+          "ema",
+          params.emaPeriod || INDICATOR_DEFAULTS.EMA.shortPeriod,
+          params.emaTf,
+        ),
+      ]);
+      priceData = { analysis: { adx, ema } };
+    } catch (error) {
+      logger.error(`Failed to compute ADX/EMA for order ${order.id}: ${error}`);
+      return false;
+    }
 
     // Check all three conditions for breakout
     const isStrongTrend = this.checkTechnicalCondition(
@@ -0,0 +1,133 @@
+import { OrderType } from "@common/types";
+import type { Order, ConditionalParams } from "@common/types";
+import {
+  parseCondition,
+  getConditionFields,
+  evaluateCondition,
+  type ConditionField,
+  type ConditionNode,
+} from "@common/conditions";
+import { logger } from "@back/utils/logger";
+import {
+  PriceBasedOrderWatcher,
+  registerOrderWatcher,
+  type PriceInfo,
+} from "./base";
+
+const CANDLE_SERIES: Partial<
+  Record<ConditionField, "o" | "h" | "l" | "c" | "v">
+> = { open: "o", high: "h", low: "l", close: "c", volume: "v" };
+
+/**
+ * Conditional order watcher
+ * Triggers once the order's condition expression holds on the latest price and analysis
+ */
+class ConditionalOrderWatcher extends PriceBasedOrderWatcher {
+  private conditions = new Map<string, ConditionNode>(); // source -> parsed condition
+
+  validateOrder(order: Order): void {
+    this.getCondition(order.params as ConditionalParams);
+  }
+
+  async shouldTrigger(order: Order): Promise<boolean> {
+    const params = this.validateParams<ConditionalParams>(order);
+    if (!params) return false;
+
+    const priceInfo = this.getPriceInfo(order);
+    if (!priceInfo) return false;
+
+    let condition: ConditionNode;
+    try {
+      condition = this.getCondition(params);
+    } catch (error) {
+      logger.error(`Conditional order ${order.id}: ${error}`);
+      return false;
+    }
+
+    const values = this.resolveFields(priceInfo, getConditionFields(condition));
+    if (!values) {
+      logger.debug(
+        `Missing data to evaluate "${params.condition}" for order ${order.id}`,
+      );
+      return false;
+    }
+
+    const met = evaluateCondition(condition, values);
+    if (met) {
+      logger.info(
+        `🧮 Condition "${params.condition}" met for order ${order.id.slice(0, 8)}... (${JSON.stringify(values)})`,
+      );
+    }
+    return met;
+  }
+
+  async trigger(
+    order: Order,
+    makingAmount: string,
+    takingAmount: string,
+  ): Promise<void> {
+    const priceInfo = this.getPriceInfo(order);
+    if (!priceInfo) throw new Error("Failed to get price info");
+
+    order.nextTriggerValue = priceInfo.price;
+
+    this.logExecution({
+      order,
+      currentPrice: priceInfo.price,
+      symbol: priceInfo.symbol,
+      triggerAmount: makingAmount,
+    });
+
+    await super.trigger(order, makingAmount, takingAmount);
+  }
+
+  updateNextTrigger(_order: Order): void {
+    // One-time trigger
+  }
+
+  protected getLimitPrice(order: Order, priceInfo: PriceInfo): number {
+    const params = order.params as ConditionalParams;
+    return params?.limitPrice || super.getLimitPrice(order, priceInfo);
+  }
+
+  private getCondition(params: ConditionalParams): ConditionNode {
+    let condition = this.conditions.get(params?.condition);
+    if (!condition) {
+      condition = parseCondition(params?.condition);
+      this.conditions.set(params.condition, condition);
+    }
+    return condition;
+  }
+
+  /**
+   * Latest value of each field, null if any is unavailable
+   */
+  private resolveFields(
+    priceInfo: PriceInfo,
+    fields: ConditionField[],
+  ): Partial<Record<ConditionField, number>> | null {
+    const { price, priceData } = priceInfo;
+    const values: Partial<Record<ConditionField, number>> = {};
+
+    const resolved = fields.every((field) => {
+      if (field === "price") {
+        values.price = price;
+      } else if (CANDLE_SERIES[field]) {
+        const series: number[] | undefined =
+          priceData?.history?.[CANDLE_SERIES[field]!];
+        values[field] = series?.[series.length - 1];
+      } else {
+        return this.checkTechnicalCondition(priceData, field, (value) => {
+          values[field] = value;
+          return Number.isFinite(value);
+        });
+      }
+      return Number.isFinite(values[field]);
+    });
+
+    return resolved ? values : null;
+  }
+}
+
+// Register the watcher
+registerOrderWatcher(OrderType.CONDITIONAL, new ConditionalOrderWatcher());
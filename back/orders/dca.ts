@@ -57,6 +57,17 @@ class DCAOrderWatcher extends TimeBasedOrderWatcher {
     await super.trigger(order, makingAmount, takingAmount);
   }
 
+  /**
+   * Each interval buys the per-order amount (decimal), until makingAmount is used up
+   */
+  async getTriggerAmount(order: Order): Promise<string> {
+    const params = this.validateParams<DCAParams>(order);
+    const perOrder = parseFloat(String(params?.amount ?? ""));
+    return perOrder > 0
+      ? this.toUnits(order, perOrder)
+      : order.remainingMakerAmount || "0";
+  }
+
   updateNextTrigger(order: Order): void {
     const params = this.validateParams<DCAParams>(order);
     if (!params) return;
@@ -1,131 +1,358 @@
-import { OrderType } from "@common/types";
-import type { Order, GridTradingParams } from "@common/types";
+import { ethers } from "ethers";
+import { OrderType, OrderStatus } from "@common/types";
+import type { Order, GridTradingParams, GridLevel } from "@common/types";
 import { logger } from "@back/utils/logger";
+import {
+  getGridLevels,
+  saveGridLevel,
+  saveOrder,
+} from "@back/services/storage";
+import { fromBaseUnits, parseBaseUnits } from "@back/services/tokenDecimals";
 import { SteppedOrderWatcher, registerOrderWatcher } from "./base";
 
-interface GridState {
-  lastLevel: number;
-  buyLevels: number[];
-  sellLevels: number[];
-}
+const MAX_GRID_LEVELS = 100;
 
 /**
  * Grid Trading order watcher
- * Creates buy/sell orders at predefined price levels
+ * Posts a buy below and a sell above the price at every grid level. Each filled
+ * leg posts the opposite leg (assets swapped) one level away or at tpPct, and
+ * each completed round trip adds to the level's realized PnL. The maker asset
+ * funds one side, counterAmount (taker asset) the other.
  */
 class GridTradingOrderWatcher extends SteppedOrderWatcher {
+  /**
+   * Two-sided grids must sign the budget of the side the maker asset does not fund
+   */
+  validateOrder(order: Order): void {
+    const params = order.params as GridTradingParams;
+    if (params.singleSide) return;
+    if (
+      params.counterAmount === undefined ||
+      parseBaseUnits(params.counterAmount, "params.counterAmount") === 0n
+    ) {
+      throw new Error(
+        "Two-sided grids need params.counterAmount to fund the side the maker asset does not",
+      );
+    }
+  }
+
+  /**
+   * Legs are placed once, the grid then cycles on fills (see updateOrderFromOnChain)
+   */
+  isRecurring(_order: Order): boolean {
+    return false;
+  }
+
   async shouldTrigger(order: Order): Promise<boolean> {
     const params = this.validateParams<GridTradingParams>(order);
     const priceInfo = this.getPriceInfo(order);
     if (!priceInfo || !params) return false;
 
-    const { currentLevel, inRange } = this.calculateGridMetrics(
-      params,
-      priceInfo.price,
-    );
+    const inRange =
+      priceInfo.price >= params.startPrice &&
+      priceInfo.price <= params.endPrice;
     if (!inRange) return false;
 
-    const gridState = this.getGridState(order, currentLevel);
-    return gridState.lastLevel !== currentLevel;
+    // Initial placement, or a retry if every leg failed to place
+    const levels = await getGridLevels(order.id);
+    return levels.every((level) => level.status === "idle");
   }
 
   async trigger(
     order: Order,
     makingAmount: string,
-    takingAmount: string,
+    _takingAmount: string,
   ): Promise<void> {
     const params = this.validateParams<GridTradingParams>(order);
     const priceInfo = this.getPriceInfo(order);
     if (!priceInfo || !params) {
-      logger.error(`Failed to get price info or params for order ${order.id}`);
-      return;
+      throw new Error(`No price data or params for grid order ${order.id}`);
+    }
+
+    let levels = await getGridLevels(order.id);
+    if (levels.length === 0) {
+      const [makerDecimals, takerDecimals] = await Promise.all([
+        this.getMakerDecimals(order),
+        this.getAssetDecimals(order, order.params!.takerAsset),
+      ]);
+      levels = this.buildLevels(
+        order,
+        params,
+        priceInfo.price,
+        priceInfo.makerIsBase,
+        fromBaseUnits(makingAmount, makerDecimals),
+        params.singleSide
+          ? 0
+          : fromBaseUnits(params.counterAmount || "0", takerDecimals),
+      );
+    }
+    if (levels.length === 0) {
+      throw new Error(`Grid order ${order.id} has no level to place`);
     }
 
-    const { currentLevel, totalLevels } = this.calculateGridMetrics(
-      params,
-      priceInfo.price,
+    logger.info(
+      `🕸️ Placing grid ${order.id.slice(0, 8)}... on ${priceInfo.symbol}: ${levels.length} levels between ${params.startPrice} and ${params.endPrice} (spot: ${priceInfo.price.toFixed(6)})`,
     );
-    const gridState = this.getGridState(order, currentLevel);
-
-    // Update state and log
-    this.updateGridState(gridState, currentLevel);
-    order.nextTriggerValue = JSON.stringify(gridState);
-
-    this.logExecution({
-      order,
-      currentPrice: priceInfo.price,
-      symbol: priceInfo.symbol,
-      step: currentLevel,
-      totalSteps: totalLevels,
-      triggerAmount: makingAmount,
-    });
-
-    await super.trigger(order, makingAmount, takingAmount);
+
+    // Placed concurrently so the legs land in a single DelegateProxy batch
+    await Promise.all(
+      levels.map((level) => this.postLeg(order, level, priceInfo.makerIsBase)),
+    );
+
+    if (levels.every((level) => level.status === "idle")) {
+      throw new Error(`No grid leg of order ${order.id} could be placed`);
+    }
+  }
+
+  updateNextTrigger(_order: Order): void {
+    // Grid state lives in the grid_levels table
+  }
+
+  /**
+   * tpPct spaces the grid's own counter legs, grids never attach a bracket
+   */
+  protected getBracketExits(_order: Order): null {
+    return null;
   }
 
-  updateNextTrigger(order: Order): void {
-    // Grid state updated in trigger method
+  /**
+   * The whole budget is committed when the grid is placed
+   */
+  async getTriggerAmount(order: Order): Promise<string> {
+    return order.remainingMakerAmount || "0";
   }
 
-  getTriggerAmount(order: Order): string {
+  /**
+   * Detect filled legs and post their counter legs (replaces the base fill tracking:
+   * legs flip sides and never complete the order)
+   */
+  async updateOrderFromOnChain(order: Order): Promise<void> {
+    if (this.mockMode) return;
+
+    if (this.isExpired(order)) {
+      logger.info(
+        `⏰ Grid order ${order.id.slice(0, 8)}... has expired, cancelling`,
+      );
+      await this.cancelExpiredOrder(order);
+      return;
+    }
+
     const params = this.validateParams<GridTradingParams>(order);
-    if (!params) return "0";
-    const { totalLevels } = this.calculateGridMetrics(params, 0);
-    return (parseFloat(params.amount || "0") / totalLevels).toFixed(8);
+    const priceInfo = this.getPriceInfo(order);
+    const { delegateProxy } = this.getExecutionContext(order);
+    if (!params || !priceInfo || !delegateProxy) return;
+
+    try {
+      const levels = await getGridLevels(order.id);
+      const open = levels.filter((l) => l.status === "open" && l.orderHash);
+      const idle = levels.filter((l) => l.status === "idle");
+
+      // DelegateProxy deletes an order once fully filled (legs are only cancelled with the grid)
+      let filled: GridLevel[] = [];
+      if (open.length > 0) {
+        const data = await delegateProxy.getOrderData(
+          open.map((l) => l.orderHash!),
+        );
+        filled = open.filter((_, i) => data[i].maker === ethers.ZeroAddress);
+      }
+      if (filled.length === 0 && idle.length === 0) return;
+
+      const prices = this.getLevelPrices(params);
+      for (const level of filled) {
+        this.flipLevel(order, params, prices, level);
+      }
+      if (filled.length > 0) {
+        order.status = OrderStatus.PARTIALLY_FILLED;
+        await saveOrder(order);
+      }
+
+      await Promise.all(
+        [...filled, ...idle].map((level) =>
+          this.postLeg(order, level, priceInfo.makerIsBase),
+        ),
+      );
+    } catch (error) {
+      logger.error(`Failed to update grid order ${order.id}: ${error}`);
+    }
   }
 
-  private calculateGridMetrics(
+  /**
+   * Level prices from startPrice up to endPrice, each step scaled by stepMultiplier
+   */
+  private getLevelPrices(params: GridTradingParams): number[] {
+    const baseStep =
+      (params.endPrice - params.startPrice) * (params.stepPct / 100);
+    const multiplier = params.stepMultiplier || 1;
+    const prices: number[] = [];
+    if (!(baseStep > 0)) return prices;
+
+    let price = params.startPrice;
+    for (let i = 0; price <= params.endPrice + 1e-9; i++) {
+      if (prices.length >= MAX_GRID_LEVELS) break;
+      prices.push(price);
+      price += baseStep * multiplier ** i;
+    }
+    return prices;
+  }
+
+  /**
+   * One row per level: buys below the price, sells above, skipping the level
+   * nearest the price. The other side than the maker asset funds needs a
+   * counter budget (taker asset), so singleSide grids keep only the funded side.
+   */
+  private buildLevels(
+    order: Order,
     params: GridTradingParams,
-    currentPrice: number,
-  ) {
-    const priceRange = params.endPrice - params.startPrice;
-    const stepSize = priceRange * (params.stepPct / 100);
-    const currentLevel = Math.floor(
-      (currentPrice - params.startPrice) / stepSize,
+    price: number,
+    makerIsBase: boolean,
+    budget: number,
+    counterBudget: number = 0,
+  ): GridLevel[] {
+    const prices = this.getLevelPrices(params);
+    const nearest = prices.reduce(
+      (best, p, i) =>
+        Math.abs(p - price) < Math.abs(prices[best] - price) ? i : best,
+      0,
     );
-    const totalLevels = Math.floor(priceRange / stepSize) + 1;
-    const inRange =
-      currentPrice >= params.startPrice && currentPrice <= params.endPrice;
+    const fundedSide = makerIsBase ? "sell" : "buy";
 
-    return { currentLevel, totalLevels, stepSize, inRange };
+    const rows = prices
+      .map((levelPrice, level) => ({
+        level,
+        levelPrice,
+        side: (levelPrice < price ? "buy" : "sell") as "buy" | "sell",
+      }))
+      .filter((row) => row.level !== nearest)
+      .filter(
+        (row) =>
+          row.side === fundedSide || (!params.singleSide && counterBudget > 0),
+      );
+
+    // Equal share of each side's budget per row, expressed in base units
+    // (sells spend the base asset, buys the quote asset)
+    const funded = rows.filter((row) => row.side === fundedSide).length;
+    const share = (side: "buy" | "sell") =>
+      side === fundedSide
+        ? budget / funded
+        : counterBudget / (rows.length - funded);
+    return rows.map(({ level, levelPrice, side }) => ({
+      orderId: order.id,
+      level,
+      price: levelPrice,
+      homeSide: side,
+      side,
+      legPrice: levelPrice,
+      amount: side === "sell" ? share(side) : share(side) / levelPrice,
+      status: "idle",
+      realizedPnl: 0,
+      fills: 0,
+      updatedAt: Date.now(),
+    }));
   }
 
-  private updateGridState(gridState: GridState, currentLevel: number): void {
-    const direction = currentLevel > gridState.lastLevel ? "sell" : "buy";
+  /**
+   * Switch a filled level to its next leg: home -> take profit, take profit -> home
+   */
+  private flipLevel(
+    order: Order,
+    params: GridTradingParams,
+    prices: number[],
+    level: GridLevel,
+  ): void {
+    const child = order.oneInchOrders?.find((c) => c.hash === level.orderHash);
+    if (child) child.filledAmount = child.makingAmount;
+    level.fills++;
 
-    if (direction === "buy") {
-      gridState.buyLevels.push(currentLevel);
+    if (level.side === level.homeSide) {
+      level.entryPrice = level.legPrice;
+      level.side = level.homeSide === "buy" ? "sell" : "buy";
+      level.legPrice = this.getTakeProfitPrice(params, prices, level);
+      logger.info(
+        `📗 Grid ${order.id.slice(0, 8)}... level ${level.level} ${level.homeSide} filled at ${level.entryPrice}, posting ${level.side} at ${level.legPrice}`,
+      );
     } else {
-      gridState.sellLevels.push(currentLevel);
+      const buyPrice =
+        level.homeSide === "buy" ? level.entryPrice! : level.legPrice;
+      const sellPrice =
+        level.homeSide === "buy" ? level.legPrice : level.entryPrice!;
+      const pnl = level.amount * (sellPrice - buyPrice);
+      level.realizedPnl += pnl;
+      logger.info(
+        `💰 Grid ${order.id.slice(0, 8)}... level ${level.level} round trip closed: ${pnl.toFixed(6)} (total ${level.realizedPnl.toFixed(6)}), reposting ${level.homeSide} at ${level.price}`,
+      );
+
+      level.side = level.homeSide;
+      level.legPrice = level.price;
+      level.entryPrice = undefined;
     }
 
-    gridState.lastLevel = currentLevel;
-    logger.info(`Grid ${direction} order at level ${currentLevel}`);
+    level.status = "idle";
+    level.orderHash = undefined;
   }
 
-  private getGridState(order: Order, currentLevel: number): GridState {
-    if (!order.nextTriggerValue) {
-      return this.createInitialGridState(order, currentLevel);
+  /**
+   * Counter leg price: tpPct away from the entry, else the next level in the profit direction
+   */
+  private getTakeProfitPrice(
+    params: GridTradingParams,
+    prices: number[],
+    level: GridLevel,
+  ): number {
+    const direction = level.homeSide === "buy" ? 1 : -1;
+    if (params.tpPct) {
+      return level.entryPrice! * (1 + (direction * params.tpPct) / 100);
     }
+    return (
+      prices[level.level + direction] ??
+      level.price * (1 + (direction * params.stepPct) / 100)
+    );
+  }
+
+  /**
+   * Post the level's current leg: buys sell the quote asset, sells the base asset
+   */
+  private async postLeg(
+    order: Order,
+    level: GridLevel,
+    makerIsBase: boolean,
+  ): Promise<void> {
+    const { makerAsset, takerAsset } = order.params!;
+    const [base, quote] = makerIsBase
+      ? [makerAsset, takerAsset]
+      : [takerAsset, makerAsset];
+    const isSell = level.side === "sell";
 
     try {
-      return JSON.parse(order.nextTriggerValue as string);
-    } catch {
-      return this.createInitialGridState(order, currentLevel);
+      if (this.mockMode) {
+        logger.info(
+          `[MOCK] Would post grid ${level.side} of ${level.amount} at ${level.legPrice} (level ${level.level})`,
+        );
+      } else {
+        const makerAsset = isSell ? base : quote;
+        level.orderHash = await this.placeChildOrder(order, {
+          makerAsset,
+          takerAsset: isSell ? quote : base,
+          makingAmount: await this.toUnits(
+            order,
+            isSell ? level.amount : level.amount * level.legPrice,
+            makerAsset,
+          ),
+          limitPrice: level.legPrice,
+          makerIsBase: isSell,
+        });
+      }
+      level.status = "open";
+    } catch (error) {
+      // Left idle, retried on the next update
+      logger.error(
+        `Failed to post grid ${level.side} at level ${level.level} of ${order.id}: ${error}`,
+      );
+      level.status = "idle";
+      level.orderHash = undefined;
     }
-  }
 
-  private createInitialGridState(
-    order: Order,
-    currentLevel: number,
-  ): GridState {
-    const state: GridState = {
-      lastLevel: currentLevel,
-      buyLevels: [],
-      sellLevels: [],
-    };
-    order.nextTriggerValue = JSON.stringify(state);
-    return state;
+    level.updatedAt = Date.now();
+    await saveGridLevel(level);
   }
 }
 
@@ -1,11 +1,17 @@
 import { OrderType } from "@common/types";
 import type { Order, IcebergParams } from "@common/types";
 import { logger } from "@back/utils/logger";
-import { SteppedOrderWatcher, registerOrderWatcher } from "./base";
+import {
+  SteppedOrderWatcher,
+  registerOrderWatcher,
+  type PriceInfo,
+} from "./base";
 
 /**
  * Iceberg order watcher
- * Executes large orders in smaller chunks at different price levels
+ * Ladder mode: executes large orders in smaller chunks at different price levels
+ * Refill mode: keeps a single visible clip on the 1inch orderbook and posts the
+ * next one only once the current clip has filled
  */
 class IcebergOrderWatcher extends SteppedOrderWatcher {
   async shouldTrigger(order: Order): Promise<boolean> {
@@ -22,6 +28,10 @@ class IcebergOrderWatcher extends SteppedOrderWatcher {
     const priceInfo = this.getPriceInfo(order);
     if (!priceInfo) return false;
 
+    if (params.refill) {
+      return this.shouldRefill(order, params, priceInfo.price);
+    }
+
     const currentStep = this.getCurrentStep(order);
 
     // Check if all steps completed
@@ -77,19 +87,90 @@ class IcebergOrderWatcher extends SteppedOrderWatcher {
   }
 
   updateNextTrigger(order: Order): void {
-    // Iceberg orders track progress through triggerCount
+    // Iceberg orders track progress through triggerCount (ladder) or child fills (refill)
     // No additional state updates needed
   }
 
   /**
-   * Get the amount to execute for the current step
+   * Get the amount to execute for the current step, or the next clip in refill mode
    */
-  getTriggerAmount(order: Order): string {
+  async getTriggerAmount(order: Order): Promise<string> {
     const params = this.validateParams<IcebergParams>(order);
     if (!params) return "0";
 
-    const currentStep = this.getCurrentStep(order);
-    return this.calculateStepAmount(String(params.amount || 0), params.steps, currentStep);
+    if (params.refill) {
+      // clipSize is in maker asset units, the total is in base units
+      const clip = params.clipSize
+        ? BigInt(
+            await this.toUnits(
+              order,
+              this.jitter(params.clipSize, params.clipJitterPct),
+            ),
+          )
+        : (BigInt(params.makingAmount || "0") *
+            BigInt(Math.round(this.jitter(1e6, params.clipJitterPct)))) /
+          (BigInt(params.steps) * 1_000_000n);
+      const remaining = BigInt(order.remainingMakerAmount || "0");
+      return (clip < remaining ? clip : remaining).toString();
+    }
+
+    return this.getStepAmount(order, params.steps);
+  }
+
+  /**
+   * Spread-optimized price, randomized by priceJitterPct so clips are harder to fingerprint
+   */
+  protected getLimitPrice(order: Order, priceInfo: PriceInfo): number {
+    const params = this.validateParams<IcebergParams>(order);
+    return this.jitter(
+      super.getLimitPrice(order, priceInfo),
+      params?.priceJitterPct,
+    );
+  }
+
+  /**
+   * Post a clip when none is visible: the previous clip filled and some amount is left.
+   * Refills only happen while price is within [startPrice, endPrice] when a band is set.
+   */
+  private async shouldRefill(
+    order: Order,
+    params: IcebergParams,
+    price: number,
+  ): Promise<boolean> {
+    if (BigInt(order.remainingMakerAmount || "0") === 0n) {
+      logger.debug(`Iceberg order ${order.id} has posted its full amount`);
+      return false;
+    }
+
+    const live = (order.oneInchOrders || []).filter((c) => !c.cancelledAt);
+    const visible = live[live.length - 1];
+    if (visible && !(await this.isChildFilled(order, visible))) {
+      return false;
+    }
+
+    if (params.startPrice > 0 && params.endPrice > 0) {
+      const low = Math.min(params.startPrice, params.endPrice);
+      const high = Math.max(params.startPrice, params.endPrice);
+      if (price < low || price > high) {
+        logger.debug(
+          `Iceberg order ${order.id} refill paused: price ${price} outside ${low}-${high}`,
+        );
+        return false;
+      }
+    }
+
+    logger.debug(
+      `Iceberg order ${order.id} refilling clip ${(order.oneInchOrders?.length || 0) + 1}`,
+    );
+    return true;
+  }
+
+  /**
+   * Randomize a value uniformly within +/- pct percent
+   */
+  private jitter(value: number, pct?: number): number {
+    if (!pct) return value;
+    return value * (1 + ((Math.random() * 2 - 1) * pct) / 100);
   }
 }
 
@@ -18,11 +18,16 @@ export {
 
 // Import all order watchers to register them
 import "./stop";
+import "./trailing";
 import "./chase";
 import "./twap";
+import "./vwap";
+import "./pov";
 import "./range";
 import "./dca";
 import "./iceberg";
 import "./grid";
 import "./momentum";
 import "./breakout";
+import "./conditional";
+import "./spread";
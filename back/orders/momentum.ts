@@ -1,5 +1,6 @@
 import { OrderType } from "@common/types";
 import type { Order, MomentumReversalParams } from "@common/types";
+import { INDICATOR_DEFAULTS } from "@common/constants";
 import { logger } from "@back/utils/logger";
 import {
   PriceBasedOrderWatcher,
@@ -13,21 +14,35 @@ import {
  * Triggers on RSI-based momentum reversal signals
  */
 class MomentumReversalOrderWatcher extends PriceBasedOrderWatcher {
+  validateOrder(order: Order): void {
+    const params = order.params as MomentumReversalParams;
+    this.validateTimeframes(params?.rsiTf);
+  }
+
   async shouldTrigger(order: Order): Promise<boolean> {
     const params = this.validateParams<MomentumReversalParams>(order);
     if (!params) return false;
 
-    // Get price info with analysis data
-    const priceInfo = this.getPriceInfo(order);
-    if (!priceInfo?.priceData?.analysis?.rsi) {
+    // RSI with the requested period and timeframe
+    let rsiData: number[];
+    try {
+      rsiData = await this.getIndicatorSeries(
+        order,
+        "rsi",
+        params.rsiPeriod || INDICATOR_DEFAULTS.RSI.period,
+        params.rsiTf,
+      );
+    } catch (error) {
+      logger.error(`Failed to compute RSI for order ${order.id}: ${error}`);
+      return false;
+    }
+    if (rsiData.length === 0) {
       logger.debug(
         `No RSI data available for momentum reversal order ${order.id}`,
       );
       return false;
     }
 
-    const rsiData = priceInfo.priceData.analysis.rsi;
-
     // Need enough data for RSI and its moving average
     const requiredDataPoints = params.rsiPeriod + params.rsimaPeriod;
     if (rsiData.length < requiredDataPoints) {
@@ -44,7 +59,8 @@ class MomentumReversalOrderWatcher extends PriceBasedOrderWatcher {
     const rsiMAStart = rsiData.length - params.rsimaPeriod;
     const recentRSIValues = rsiData.slice(rsiMAStart);
     const rsiMA =
-      recentRSIValues.reduce((sum: number, val: number) => sum + val, 0) / params.rsimaPeriod;
+      recentRSIValues.reduce((sum: number, val: number) => sum + val, 0) /
+      params.rsimaPeriod;
 
     // Check for reversal conditions
     const isOversoldReversal = currentRSI < RSI_OVERSOLD && currentRSI > rsiMA;
@@ -98,7 +114,7 @@ class MomentumReversalOrderWatcher extends PriceBasedOrderWatcher {
 
   updateNextTrigger(order: Order): void {
     // Momentum reversal orders are one-time triggers
-    // TP/SL management would be handled separately
+    // TP/SL exits are armed as a bracket once the entry fills
   }
 }
 
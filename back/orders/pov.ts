@@ -0,0 +1,100 @@
+import { OrderType } from "@common/types";
+import type { Order, PovParams } from "@common/types";
+import { logger } from "@back/utils/logger";
+import { fromBaseUnits } from "@back/services/tokenDecimals";
+import { registerOrderWatcher } from "./base";
+import { TWAPOrderWatcher } from "./twap";
+
+/**
+ * Percentage-of-Volume (POV) order watcher
+ * Follows the TWAP schedule, but each slice is participationPct of the market
+ * volume traded since the previous slice (the feed's history `v` series)
+ */
+export class POVOrderWatcher extends TWAPOrderWatcher {
+  async shouldTrigger(order: Order): Promise<boolean> {
+    if (!(await super.shouldTrigger(order))) return false;
+
+    if (!(this.getNewVolume(order).volume > 0)) {
+      logger.debug(`POV order ${order.id} has no new market volume to follow`);
+      return false;
+    }
+    return true;
+  }
+
+  async trigger(
+    order: Order,
+    makingAmount: string,
+    takingAmount: string,
+  ): Promise<void> {
+    const params = this.validateParams<PovParams>(order);
+    if (!params) throw new Error("Invalid POV parameters");
+    const { volume, lastTs } = this.getNewVolume(order);
+
+    await super.trigger(order, makingAmount, takingAmount);
+
+    // Achieved: base amount sliced over the market volume observed since start
+    const priceInfo = this.getPriceInfo(order);
+    const slice = fromBaseUnits(
+      makingAmount,
+      await this.getMakerDecimals(order),
+    );
+    const sliceBase =
+      priceInfo && !priceInfo.makerIsBase ? slice / priceInfo.price : slice;
+    const marketVolume = (order.participation?.marketVolume ?? 0) + volume;
+    const executedVolume =
+      (order.participation?.executedVolume ?? 0) + sliceBase;
+
+    order.participation = {
+      expectedPct: params.participationPct,
+      achievedPct: marketVolume > 0 ? (executedVolume / marketVolume) * 100 : 0,
+      executedVolume,
+      marketVolume,
+      lastVolumeTs: lastTs,
+      updatedAt: Date.now(),
+    };
+    logger.info(
+      `POV order ${order.id.slice(0, 8)}... participation ${order.participation.achievedPct.toFixed(2)}% of ${marketVolume} (target ${params.participationPct}%)`,
+    );
+  }
+
+  /**
+   * participationPct of the new market volume, in maker asset units
+   */
+  async getTriggerAmount(order: Order): Promise<string> {
+    const params = this.validateParams<PovParams>(order);
+    const priceInfo = this.getPriceInfo(order);
+    if (!params || !priceInfo || !(params.participationPct > 0)) return "0";
+
+    const base =
+      (this.getNewVolume(order).volume * params.participationPct) / 100;
+    return this.toUnits(
+      order,
+      priceInfo.makerIsBase ? base : base * priceInfo.price,
+    );
+  }
+
+  /**
+   * Base volume of the closed candles since the last slice (since startDate at first)
+   */
+  private getNewVolume(order: Order): { volume: number; lastTs?: number } {
+    const params = order.params as PovParams;
+    const history = this.getPriceInfo(order)?.priceData?.history;
+    const lastTs = order.participation?.lastVolumeTs;
+    if (!history?.ts?.length) return { volume: 0, lastTs };
+
+    const since = lastTs ?? params.startDate - 1;
+    let volume = 0;
+    let newest = lastTs;
+    // The last candle is still forming
+    for (let i = 0; i < history.ts.length - 1; i++) {
+      const ts = history.ts[i] < 1e12 ? history.ts[i] * 1000 : history.ts[i];
+      if (ts <= since) continue;
+      volume += history.v[i] || 0;
+      newest = ts;
+    }
+    return { volume, lastTs: newest };
+  }
+}
+
+// Register the watcher
+registerOrderWatcher(OrderType.POV, new POVOrderWatcher(false));
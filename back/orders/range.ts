@@ -100,12 +100,11 @@ class RangeOrderWatcher extends SteppedOrderWatcher {
   /**
    * Get the amount to execute for the current step
    */
-  getTriggerAmount(order: Order): string {
+  async getTriggerAmount(order: Order): Promise<string> {
     const params = this.validateParams<RangeParams>(order);
     if (!params) return "0";
 
-    const currentStep = this.getCurrentStep(order);
-    return this.calculateStepAmount(String(params.amount), params.steps, currentStep);
+    return this.getStepAmount(order, params.steps);
   }
 }
 
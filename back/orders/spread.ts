@@ -0,0 +1,570 @@
+import { ethers } from "ethers";
+import { OrderType, OrderStatus } from "@common/types";
+import type {
+  Order,
+  PairSymbol,
+  SpreadParams,
+  SpreadLeg,
+  SpreadPosition,
+} from "@common/types";
+import { logger } from "@back/utils/logger";
+import { fromBaseUnits } from "@back/services/tokenDecimals";
+import {
+  getSpreadPosition,
+  saveSpreadPosition,
+  saveOrder,
+  saveOrderEvent,
+} from "@back/services/storage";
+import {
+  PriceBasedOrderWatcher,
+  registerOrderWatcher,
+  type PriceInfo,
+} from "./base";
+
+const DEFAULT_ENTRY_Z = 2;
+const DEFAULT_EXIT_Z = 0.5;
+const DEFAULT_LOOKBACK = 100;
+const DEFAULT_SLIPPAGE_PCT = 0.3;
+const MIN_SAMPLES = 20;
+
+interface SpreadStats {
+  ratio: number; // Order pair price / leg pair price
+  z: number; // (ratio - mean) / std over the lookback
+  prices: [number, number]; // Quote per base of the order's asset and the leg asset
+}
+
+/**
+ * Spread (pairs trading) order watcher
+ * Watches the z-score of the price ratio between the order's pair and the leg pair.
+ * Past entryZ it posts both legs together: sell the rich asset, buy the cheap one
+ * (for makingAmount of the quote asset each). Once |z| is back within exitZ, both
+ * legs are unwound and the position's PnL recorded.
+ */
+class SpreadOrderWatcher extends PriceBasedOrderWatcher {
+  validateOrder(order: Order): void {
+    const params = order.params as SpreadParams;
+    if (!params?.legAsset || !ethers.isAddress(params.legAsset)) {
+      throw new Error("Spread orders need a legAsset address");
+    }
+    const assets = [params.makerAsset, params.takerAsset].map((a) =>
+      a?.toLowerCase(),
+    );
+    if (assets.includes(params.legAsset.toLowerCase())) {
+      throw new Error("legAsset must differ from the order's assets");
+    }
+    const entryZ = params.entryZ ?? DEFAULT_ENTRY_Z;
+    const exitZ = params.exitZ ?? DEFAULT_EXIT_Z;
+    if (!(entryZ > 0) || !(exitZ >= 0) || exitZ >= entryZ) {
+      throw new Error("Spread orders need entryZ > exitZ >= 0");
+    }
+  }
+
+  /**
+   * Feeds of both pairs
+   */
+  getWatchedSymbols(order: Order): PairSymbol[] {
+    const params = order.params as SpreadParams;
+    if (!params?.legAsset) return super.getWatchedSymbols(order);
+    return [
+      ...new Set([
+        ...super.getWatchedSymbols(this.pairView(order, params.takerAsset)),
+        ...super.getWatchedSymbols(this.pairView(order, params.legAsset)),
+      ]),
+    ];
+  }
+
+  /**
+   * Legs are entered once, the position is then managed on updates
+   */
+  isRecurring(_order: Order): boolean {
+    return false;
+  }
+
+  async shouldTrigger(order: Order): Promise<boolean> {
+    const params = this.validateParams<SpreadParams>(order);
+    const stats = this.getStats(order);
+    if (!params || !stats) return false;
+
+    const entryZ = params.entryZ ?? DEFAULT_ENTRY_Z;
+    if (Math.abs(stats.z) < entryZ) return false;
+
+    logger.info(
+      `📐 Spread ${order.id.slice(0, 8)}... ratio ${stats.ratio.toFixed(6)} is ${stats.z.toFixed(2)} std from its mean (entry: ${entryZ})`,
+    );
+    return true;
+  }
+
+  async trigger(
+    order: Order,
+    makingAmount: string,
+    _takingAmount: string,
+  ): Promise<void> {
+    const params = this.validateParams<SpreadParams>(order);
+    const stats = this.getStats(order);
+    if (!params || !stats) {
+      throw new Error(`No price data or params for spread order ${order.id}`);
+    }
+
+    // Ratio above its mean: the order's asset is rich, sell it and buy the leg asset
+    const notional = fromBaseUnits(
+      makingAmount,
+      await this.getMakerDecimals(order),
+    );
+    const slippage = (params.slippagePct ?? DEFAULT_SLIPPAGE_PCT) / 100;
+    const legs: SpreadLeg[] = [params.takerAsset, params.legAsset].map(
+      (asset, i) => {
+        const side = (i === 0) === stats.z > 0 ? "sell" : "buy";
+        const entryPrice =
+          stats.prices[i] * (side === "sell" ? 1 - slippage : 1 + slippage);
+        return { asset, side, amount: notional / entryPrice, entryPrice };
+      },
+    );
+
+    const now = Date.now();
+    const position: SpreadPosition = {
+      orderId: order.id,
+      status: "entering",
+      entryRatio: stats.ratio,
+      entryZ: stats.z,
+      legs,
+      openedAt: now,
+      updatedAt: now,
+    };
+
+    logger.info(
+      `📐 Entering spread ${order.id.slice(0, 8)}...: ${legs.map((l) => `${l.side} ${l.amount.toFixed(6)} at ${l.entryPrice.toFixed(6)}`).join(", ")}`,
+    );
+
+    await this.postLegs(order, legs, "entry");
+    await saveSpreadPosition(position);
+  }
+
+  updateNextTrigger(_order: Order): void {
+    // Position state lives in the spread_positions table
+  }
+
+  /**
+   * The whole notional is committed when the legs are entered
+   */
+  async getTriggerAmount(order: Order): Promise<string> {
+    return order.remainingMakerAmount || "0";
+  }
+
+  /**
+   * Spread legs are their own exits, no bracket is attached
+   */
+  protected getBracketExits(_order: Order): null {
+    return null;
+  }
+
+  /**
+   * Track both legs as one position: open once both entries filled, unwound on
+   * mean reversion (or expiry), closed once the exits filled. A leg filled alone
+   * is unwound if its partner expires or fails, so it is never left unhedged
+   * (replaces the base fill tracking: legs trade different assets)
+   */
+  async updateOrderFromOnChain(order: Order): Promise<void> {
+    if (this.mockMode) return;
+
+    const params = this.validateParams<SpreadParams>(order);
+    const { delegateProxy } = this.getExecutionContext(order);
+    if (!params || !delegateProxy) return;
+
+    try {
+      const position = await getSpreadPosition(order.id);
+      const expired = this.isExpired(order);
+      if (!position) {
+        if (expired) {
+          logger.info(
+            `⏰ Spread order ${order.id.slice(0, 8)}... expired before its legs were posted, cancelling`,
+          );
+          await this.cancelExpiredOrder(order);
+        }
+        return;
+      }
+      if (position.status === "closed") return;
+      // Positions saved before fills were tracked per leg entered both legs
+      if (position.status !== "entering") {
+        for (const leg of position.legs) leg.entryFilled ??= true;
+      }
+
+      const exiting = position.status === "exiting";
+      await this.updateLegFills(
+        order,
+        position,
+        delegateProxy,
+        exiting ? "exit" : "entry",
+      );
+
+      if (exiting) {
+        if (position.legs.every((l) => !l.exitHash || l.exitFilled)) {
+          await this.closePosition(order, position);
+        }
+        return;
+      }
+
+      if (position.status === "entering") {
+        if (position.legs.every((l) => l.entryFilled)) {
+          await this.openPosition(order, position);
+        } else {
+          await this.resolveEntry(order, params, position, expired);
+          return;
+        }
+      }
+
+      const stats = this.getStats(order);
+      if (!stats) return;
+
+      const exitZ = params.exitZ ?? DEFAULT_EXIT_Z;
+      const reverted =
+        Math.abs(stats.z) <= exitZ ||
+        Math.sign(stats.z) !== Math.sign(position.entryZ);
+      if (reverted || expired) {
+        await this.unwind(
+          order,
+          params,
+          position,
+          stats,
+          reverted ? "mean reversion" : "expired",
+        );
+      }
+    } catch (error) {
+      logger.error(`Failed to update spread order ${order.id}: ${error}`);
+    }
+  }
+
+  /**
+   * Mark the legs of a phase whose order is gone from DelegateProxy (deleted
+   * once fully filled) as filled, cancelled legs excepted
+   */
+  private async updateLegFills(
+    order: Order,
+    position: SpreadPosition,
+    delegateProxy: ethers.Contract,
+    phase: "entry" | "exit",
+  ): Promise<void> {
+    const hashKey = phase === "entry" ? "entryHash" : "exitHash";
+    const filledKey = phase === "entry" ? "entryFilled" : "exitFilled";
+    const pending = position.legs.filter(
+      (l) =>
+        l[hashKey] && !l[filledKey] && !this.isLegCancelled(order, l[hashKey]!),
+    );
+    if (pending.length === 0) return;
+
+    const data = await delegateProxy.getOrderData(
+      pending.map((l) => l[hashKey]!),
+    );
+    const filled = pending.filter(
+      (_, i) => data[i].maker === ethers.ZeroAddress,
+    );
+    if (filled.length === 0) return;
+
+    for (const leg of filled) {
+      leg[filledKey] = true;
+      const child = order.oneInchOrders?.find((c) => c.hash === leg[hashKey]);
+      if (child) child.filledAmount = child.makingAmount;
+    }
+    position.updatedAt = Date.now();
+    await saveSpreadPosition(position);
+    await saveOrder(order);
+  }
+
+  /**
+   * Entry not complete: cancel it on expiry if no leg filled. Once a leg filled
+   * alone and its partner expires or fails, the partner is cancelled and the
+   * filled leg unwound
+   */
+  private async resolveEntry(
+    order: Order,
+    params: SpreadParams,
+    position: SpreadPosition,
+    expired: boolean,
+  ): Promise<void> {
+    const filled = position.legs.filter((l) => l.entryFilled);
+    const failed = position.legs.some(
+      (l) =>
+        !l.entryFilled &&
+        (!l.entryHash || this.isLegCancelled(order, l.entryHash)),
+    );
+    if (!expired && !failed) return;
+
+    if (filled.length === 0) {
+      if (expired) {
+        logger.info(
+          `⏰ Spread order ${order.id.slice(0, 8)}... expired before its position opened, cancelling`,
+        );
+        await this.cancelExpiredOrder(order);
+      }
+      return;
+    }
+
+    const stats = this.getStats(order);
+    if (!stats) {
+      logger.warn(
+        `⚠️ Spread ${order.id.slice(0, 8)}... has a lone filled leg but no price data to unwind it`,
+      );
+      return;
+    }
+
+    const open = position.legs
+      .filter((l) => !l.entryFilled && l.entryHash)
+      .map((l) => l.entryHash!)
+      .filter((hash) => !this.isLegCancelled(order, hash));
+    if (open.length > 0) await this.cancelLegs(order, open);
+    for (const leg of position.legs) leg.entryFilled = !!leg.entryFilled;
+
+    await this.unwind(
+      order,
+      params,
+      position,
+      stats,
+      expired ? "expired with one leg filled" : "partner leg failed",
+    );
+  }
+  private async openPosition(
+    order: Order,
+    position: SpreadPosition,
+  ): Promise<void> {
+    position.status = "open";
+    position.updatedAt = Date.now();
+    await saveSpreadPosition(position);
+
+    order.status = OrderStatus.PARTIALLY_FILLED;
+    order.filledAmount = String(order.params!.makingAmount);
+    await saveOrder(order);
+    await saveOrderEvent({
+      orderId: order.id,
+      status: order.status,
+      timestamp: Date.now(),
+    });
+
+    logger.info(
+      `📗 Spread ${order.id.slice(0, 8)}... position open at ratio ${position.entryRatio.toFixed(6)} (z ${position.entryZ.toFixed(2)})`,
+    );
+  }
+
+  /**
+   * Post the exit of both legs at marketable prices
+   */
+  private async unwind(
+    order: Order,
+    params: SpreadParams,
+    position: SpreadPosition,
+    stats: SpreadStats,
+    reason: string,
+  ): Promise<void> {
+    const slippage = (params.slippagePct ?? DEFAULT_SLIPPAGE_PCT) / 100;
+    const entered = position.legs.filter((l) => l.entryFilled);
+    for (const [i, leg] of position.legs.entries()) {
+      if (!leg.entryFilled) continue;
+      // Exits trade the other way: sold legs are bought back
+      leg.exitPrice =
+        stats.prices[i] * (leg.side === "sell" ? 1 + slippage : 1 - slippage);
+    }
+
+    logger.info(
+      `📐 Unwinding spread ${order.id.slice(0, 8)}... at ratio ${stats.ratio.toFixed(6)} (z ${stats.z.toFixed(2)}, ${reason})`,
+    );
+
+    await this.postLegs(order, entered, "exit");
+    position.status = "exiting";
+    position.exitRatio = stats.ratio;
+    position.updatedAt = Date.now();
+    await saveSpreadPosition(position);
+  }
+
+  private async closePosition(
+    order: Order,
+    position: SpreadPosition,
+  ): Promise<void> {
+    // Quote PnL of each traded leg: sold high / bought back low, or bought low / sold high
+    const traded = position.legs.filter((l) => l.entryFilled);
+    position.realizedPnl = traded.reduce((total, leg) => {
+      const move = leg.exitPrice! - leg.entryPrice;
+      return total + leg.amount * (leg.side === "buy" ? move : -move);
+    }, 0);
+    position.status = "closed";
+    position.closedAt = Date.now();
+    position.updatedAt = position.closedAt;
+    await saveSpreadPosition(position);
+
+    // A lone leg unwound: the spread itself was never entered
+    order.status =
+      traded.length === position.legs.length
+        ? OrderStatus.FILLED
+        : this.isExpired(order)
+          ? OrderStatus.EXPIRED
+          : OrderStatus.FAILED;
+    order.executedAt = position.closedAt;
+    await saveOrder(order);
+    await saveOrderEvent({
+      orderId: order.id,
+      status: order.status,
+      timestamp: Date.now(),
+    });
+
+    logger.info(
+      `💰 Spread ${order.id.slice(0, 8)}... closed: ${position.realizedPnl.toFixed(6)} (ratio ${position.entryRatio.toFixed(6)} -> ${position.exitRatio?.toFixed(6)})`,
+    );
+  }
+
+  /**
+   * Post both legs of a phase together. A leg cannot stand alone: if one fails,
+   * the other is cancelled and the phase retried later.
+   */
+  private async postLegs(
+    order: Order,
+    legs: SpreadLeg[],
+    phase: "entry" | "exit",
+  ): Promise<void> {
+    if (this.mockMode) {
+      logger.info(
+        `[MOCK] Would post spread ${phase} legs of ${order.id}: ${legs.map((l) => `${l.asset} ${l.amount}`).join(", ")}`,
+      );
+      return;
+    }
+
+    const results = await Promise.allSettled(
+      legs.map((leg) => this.postLeg(order, leg, phase)),
+    );
+    const failed = results.find(
+      (r): r is PromiseRejectedResult => r.status === "rejected",
+    );
+    if (!failed) return;
+
+    const hashKey = phase === "entry" ? "entryHash" : "exitHash";
+    const placed = legs.filter((l) => l[hashKey]).map((l) => l[hashKey]!);
+    if (placed.length > 0) await this.cancelLegs(order, placed);
+    for (const leg of legs) leg[hashKey] = undefined;
+
+    throw new Error(
+      `Failed to post spread ${phase} legs of ${order.id}: ${failed.reason}`,
+    );
+  }
+
+  private async postLeg(
+    order: Order,
+    leg: SpreadLeg,
+    phase: "entry" | "exit",
+  ): Promise<void> {
+    const quote = order.params!.makerAsset;
+    const entering = phase === "entry";
+    const isSell = (leg.side === "sell") === entering;
+    const limitPrice = entering ? leg.entryPrice : leg.exitPrice!;
+
+    const makerAsset = isSell ? leg.asset : quote;
+    const hash = await this.placeChildOrder(order, {
+      makerAsset,
+      takerAsset: isSell ? quote : leg.asset,
+      makingAmount: await this.toUnits(
+        order,
+        isSell ? leg.amount : leg.amount * limitPrice,
+        makerAsset,
+      ),
+      limitPrice,
+      makerIsBase: isSell,
+    });
+    if (entering) leg.entryHash = hash;
+    else leg.exitHash = hash;
+  }
+
+  private isLegCancelled(order: Order, hash: string): boolean {
+    return !!order.oneInchOrders?.find((c) => c.hash === hash)?.cancelledAt;
+  }
+
+  private async cancelLegs(order: Order, hashes: string[]): Promise<void> {
+    const { chainId, limitOrderService } = this.getExecutionContext(order);
+    const children = (order.oneInchOrders || []).filter(
+      (c) => hashes.includes(c.hash) && c.struct,
+    );
+    if (!limitOrderService || children.length === 0) {
+      logger.error(
+        `Cannot cancel lone spread leg(s) ${hashes.join(", ")} of ${order.id} on chain ${chainId}`,
+      );
+      return;
+    }
+
+    await limitOrderService.cancelOrdersOnDelegateProxy(
+      children.map((c) => c.struct!),
+    );
+    const cancelledAt = Date.now();
+    for (const child of children) child.cancelledAt = cancelledAt;
+    await saveOrder(order);
+  }
+
+  /**
+   * The order viewed as `base` quoted in the order's maker asset
+   */
+  private pairView(order: Order, base: string): Order {
+    return {
+      ...order,
+      params: {
+        ...order.params!,
+        makerAsset: base,
+        takerAsset: order.params!.makerAsset,
+      },
+    };
+  }
+
+  /**
+   * Current ratio of both pairs and its z-score over their aligned candle closes
+   */
+  private getStats(order: Order): SpreadStats | null {
+    const params = order.params as SpreadParams;
+    if (!params?.legAsset) return null;
+
+    const infos = [params.takerAsset, params.legAsset].map((base) =>
+      this.getPriceInfo(this.pairView(order, base)),
+    );
+    if (!infos[0] || !infos[1]) return null;
+
+    const prices = infos.map((info) =>
+      this.toQuotePerBase(info!, info!.price),
+    ) as [number, number];
+    const legCloses = this.getCloses(infos[1]);
+    const ratios: number[] = [];
+    for (const [ts, close] of this.getCloses(infos[0])) {
+      const legClose = legCloses.get(ts);
+      if (legClose) ratios.push(close / legClose);
+    }
+
+    const samples = ratios.slice(-(params.lookback || DEFAULT_LOOKBACK));
+    if (samples.length < MIN_SAMPLES) {
+      logger.debug(
+        `Not enough aligned candles for spread ${order.id}: ${samples.length} < ${MIN_SAMPLES}`,
+      );
+      return null;
+    }
+
+    const mean = samples.reduce((a, b) => a + b, 0) / samples.length;
+    const std = Math.sqrt(
+      samples.reduce((a, b) => a + (b - mean) ** 2, 0) / samples.length,
+    );
+    if (!(std > 0)) return null;
+
+    const ratio = prices[0] / prices[1];
+    return { ratio, z: (ratio - mean) / std, prices };
+  }
+
+  /**
+   * Candle closes by timestamp, as quote per base
+   */
+  private getCloses(info: PriceInfo): Map<number, number> {
+    const history = info.priceData?.history;
+    const closes = new Map<number, number>();
+    if (!history?.ts?.length) return closes;
+    for (const [i, ts] of history.ts.entries()) {
+      if (history.c[i] > 0) {
+        closes.set(ts, this.toQuotePerBase(info, history.c[i]));
+      }
+    }
+    return closes;
+  }
+
+  private toQuotePerBase(info: PriceInfo, price: number): number {
+    return info.makerIsBase ? price : 1 / price;
+  }
+}
+
+// Register the watcher
+registerOrderWatcher(OrderType.SPREAD, new SpreadOrderWatcher());
@@ -1,17 +1,18 @@
 import { OrderType } from "@common/types";
 import type { Order, StopLimitParams } from "@common/types";
 import { logger } from "@back/utils/logger";
-import { PriceBasedOrderWatcher, registerOrderWatcher } from "./base";
+import {
+  PriceBasedOrderWatcher,
+  registerOrderWatcher,
+  type PriceInfo,
+} from "./base";
 
 /**
  * Stop Limit order watcher
- * Triggers when price reaches a specified stop level
+ * Triggers when price reaches a specified stop level: sells when price falls
+ * to the stop (stop loss), buys when it rises to it (breakout entry)
  */
 class StopLimitOrderWatcher extends PriceBasedOrderWatcher {
-  constructor() {
-    super(true); // Always use mock mode for stop orders
-  }
-
   async shouldTrigger(order: Order): Promise<boolean> {
     const params = this.validateParams<StopLimitParams>(order);
     if (!params) return false;
@@ -26,16 +27,17 @@ class StopLimitOrderWatcher extends PriceBasedOrderWatcher {
     const priceInfo = this.getPriceInfo(order);
     if (!priceInfo) return false;
 
-    // Check if price has reached stop price
+    // Check if price has reached stop price from the order's side
+    const isSell = this.isSell(params, priceInfo);
     const hasReachedStop = this.checkPriceThreshold(
       priceInfo.price,
       params.stopPrice,
-      "above",
+      isSell ? "below" : "above",
     );
 
     if (hasReachedStop) {
       logger.debug(
-        `Stop limit triggered: price ${priceInfo.price} reached stop ${params.stopPrice}`,
+        `Stop limit triggered: price ${priceInfo.price} reached ${isSell ? "sell" : "buy"} stop ${params.stopPrice}`,
       );
     }
 
@@ -73,6 +75,21 @@ class StopLimitOrderWatcher extends PriceBasedOrderWatcher {
     // Stop limit orders are one-time triggers
     // No additional updates needed
   }
+
+  /**
+   * Once the stop fires, the 1inch order is placed at the user's limit price
+   */
+  protected getLimitPrice(order: Order, priceInfo: PriceInfo): number {
+    const params = this.validateParams<StopLimitParams>(order);
+    return params?.limitPrice || super.getLimitPrice(order, priceInfo);
+  }
+
+  /**
+   * Explicit side if given, otherwise selling when the maker asset is the base
+   */
+  private isSell(params: StopLimitParams, priceInfo: PriceInfo): boolean {
+    return params.side ? params.side === "sell" : priceInfo.makerIsBase;
+  }
 }
 
 // Register the watcher
@@ -0,0 +1,133 @@
+import { OrderType } from "@common/types";
+import type { Order, TrailingStopParams } from "@common/types";
+import { logger } from "@back/utils/logger";
+import { saveOrder } from "@back/services/storage";
+import { PriceBasedOrderWatcher, registerOrderWatcher } from "./base";
+
+/**
+ * Trailing Stop order watcher
+ * Ratchets a stop behind the best price (tracked in nextTriggerValue) and
+ * triggers when price crosses back through it
+ */
+class TrailingStopOrderWatcher extends PriceBasedOrderWatcher {
+  async shouldTrigger(order: Order): Promise<boolean> {
+    const params = this.validateParams<TrailingStopParams>(order);
+    if (!params) return false;
+
+    // Check expiry
+    if (this.isExpired(order, params.expiry)) {
+      logger.debug(`Trailing stop order ${order.id} expired`);
+      return false;
+    }
+
+    if (!(params.trailPct! > 0) && !(params.trailAbs! > 0)) {
+      logger.error(
+        `Trailing stop order ${order.id} needs a positive trailPct or trailAbs`,
+      );
+      return false;
+    }
+
+    // Get current price
+    const priceInfo = this.getPriceInfo(order);
+    if (!priceInfo) return false;
+
+    // Selling the base guards against a drop (stop below price), buying against a rise
+    const price = priceInfo.price;
+    const isSell = priceInfo.makerIsBase;
+    const currentStop =
+      typeof order.nextTriggerValue === "number"
+        ? order.nextTriggerValue
+        : undefined;
+
+    // Not armed yet: wait for the activation price, then place the first stop
+    if (currentStop === undefined) {
+      if (
+        params.activationPrice &&
+        !this.checkPriceThreshold(
+          price,
+          params.activationPrice,
+          isSell ? "above" : "below",
+        )
+      ) {
+        return false;
+      }
+
+      await this.moveStop(order, this.calculateStop(params, price, isSell));
+      logger.debug(
+        `Trailing stop order ${order.id} armed at ${order.nextTriggerValue} (price ${price})`,
+      );
+      return false;
+    }
+
+    // Check if price has crossed back through the stop
+    if (
+      this.checkPriceThreshold(price, currentStop, isSell ? "below" : "above")
+    ) {
+      logger.debug(
+        `Trailing stop triggered: price ${price} crossed stop ${currentStop}`,
+      );
+      return true;
+    }
+
+    // Ratchet the stop when price moved in the trader's favour
+    const candidate = this.calculateStop(params, price, isSell);
+    if (isSell ? candidate > currentStop : candidate < currentStop) {
+      await this.moveStop(order, candidate);
+      logger.debug(
+        `Trailing stop order ${order.id} moved stop ${currentStop} -> ${candidate}`,
+      );
+    }
+
+    return false;
+  }
+
+  async trigger(
+    order: Order,
+    makingAmount: string,
+    takingAmount: string,
+  ): Promise<void> {
+    const params = this.validateParams<TrailingStopParams>(order);
+    if (!params) throw new Error("Invalid trailing stop parameters");
+
+    const priceInfo = this.getPriceInfo(order);
+    if (!priceInfo) throw new Error("Failed to get price info");
+
+    // Log execution
+    this.logExecution({
+      order,
+      currentPrice: priceInfo.price,
+      symbol: priceInfo.symbol,
+      triggerAmount: makingAmount,
+    });
+
+    // Execute the order
+    await super.trigger(order, makingAmount, takingAmount);
+  }
+
+  updateNextTrigger(order: Order): void {
+    // Trailing stops are one-time triggers
+    // The last stop level is kept in nextTriggerValue
+  }
+
+  /**
+   * Stop level trailing the given price; trailPct takes precedence over trailAbs
+   */
+  private calculateStop(
+    params: TrailingStopParams,
+    price: number,
+    isSell: boolean,
+  ): number {
+    const distance = params.trailPct
+      ? this.calculatePercentage(price, params.trailPct)
+      : params.trailAbs!;
+    return isSell ? price - distance : price + distance;
+  }
+
+  private async moveStop(order: Order, stop: number): Promise<void> {
+    order.nextTriggerValue = stop;
+    await saveOrder(order);
+  }
+}
+
+// Register the watcher
+registerOrderWatcher(OrderType.TRAILING_STOP, new TrailingStopOrderWatcher());
@@ -141,14 +141,24 @@ export class TWAPOrderWatcher extends TimeBasedOrderWatcher {
   }
 
   /**
-   * Get the amount to execute for the current slice
+   * Get the amount to execute for the current slice: what is left, spread
+   * evenly over the intervals left (so skipped intervals catch up)
    */
-  getTriggerAmount(order: Order): string {
+  async getTriggerAmount(order: Order): Promise<string> {
     const params = this.validateParams<TwapParams>(order);
-    if (!params || !params.makingAmount) return "0";
+    if (!params) return "0";
 
-    // For simple TWAP, use full amount
-    return params.makingAmount.toString();
+    const remaining = BigInt(order.remainingMakerAmount || "0");
+    if (params.startDate === params.endDate || params.interval <= 0) {
+      return remaining.toString(); // One-off TWAP executes at once
+    }
+
+    const from = Math.max(Date.now(), params.startDate);
+    const slicesLeft = Math.max(
+      1,
+      Math.ceil((params.endDate - from) / params.interval),
+    );
+    return (remaining / BigInt(slicesLeft)).toString();
   }
 }
 
@@ -0,0 +1,179 @@
+import { OrderType } from "@common/types";
+import type { Order, PairSymbol, VwapParams } from "@common/types";
+import { logger } from "@back/utils/logger";
+import {
+  initOHLCStorage,
+  getOHLCStorage,
+  OHLCTimeframe,
+} from "@back/services/ohlcStorage";
+import { fromBaseUnits } from "@back/services/tokenDecimals";
+import { registerOrderWatcher, fillPct, MS_PER_DAY, MS_PER_HOUR } from "./base";
+import { TWAPOrderWatcher } from "./twap";
+
+const DEFAULT_LOOKBACK_DAYS = 7;
+const BUCKET_MS = OHLCTimeframe.M30 * 1000;
+const BUCKETS_PER_DAY = MS_PER_DAY / BUCKET_MS;
+const PROFILE_TTL_MS = MS_PER_HOUR;
+
+interface VolumeProfile {
+  weights: number[]; // Mean volume per 30m bucket of the (UTC) day
+  loadedAt: number;
+}
+
+/**
+ * Volume-Weighted Average Price (VWAP) order watcher
+ * Follows the TWAP schedule, but sizes each slice by the historical volume
+ * of its time of day (30m buckets averaged over lookbackDays)
+ */
+export class VWAPOrderWatcher extends TWAPOrderWatcher {
+  private profiles = new Map<string, VolumeProfile>(); // "symbol:lookbackDays" -> profile
+
+  async shouldTrigger(order: Order): Promise<boolean> {
+    const due = await super.shouldTrigger(order);
+    if (due) await this.loadProfile(order);
+    return due;
+  }
+
+  async trigger(
+    order: Order,
+    makingAmount: string,
+    takingAmount: string,
+  ): Promise<void> {
+    await super.trigger(order, makingAmount, takingAmount);
+
+    // Expected: profile share of the schedule up to this slice; achieved: share sliced
+    const params = this.validateParams<VwapParams>(order);
+    const total = BigInt(params?.makingAmount || "0");
+    const profile = this.getProfile(order);
+    if (!params || !profile || total <= 0n) return;
+
+    const slices = this.getSliceTimes(params, params.startDate);
+    const now = Date.now();
+    const weights = slices.map((t) => this.weightAt(profile, t));
+    const sum = weights.reduce((a, b) => a + b, 0);
+    const due = weights
+      .filter((_, i) => slices[i] <= now)
+      .reduce((a, b) => a + b, 0);
+    const executed =
+      total - BigInt(order.remainingMakerAmount || "0") + BigInt(makingAmount);
+    const slice = fromBaseUnits(
+      makingAmount,
+      await this.getMakerDecimals(order),
+    );
+    const priceInfo = this.getPriceInfo(order);
+    const toBase = (amount: number) =>
+      priceInfo && !priceInfo.makerIsBase ? amount / priceInfo.price : amount;
+
+    order.participation = {
+      expectedPct: sum > 0 ? (due / sum) * 100 : 0,
+      achievedPct: fillPct(executed, total),
+      executedVolume:
+        (order.participation?.executedVolume ?? 0) + toBase(slice),
+      updatedAt: now,
+    };
+    logger.info(
+      `VWAP order ${order.id.slice(0, 8)}... expected ${order.participation.expectedPct.toFixed(1)}%, achieved ${order.participation.achievedPct.toFixed(1)}%`,
+    );
+  }
+
+  /**
+   * Remaining amount weighted by the current slice's share of the volume
+   * expected over the slices left; evenly spread (TWAP) without a profile
+   */
+  async getTriggerAmount(order: Order): Promise<string> {
+    const params = this.validateParams<VwapParams>(order);
+    const profile = this.getProfile(order);
+    if (
+      !params ||
+      !profile ||
+      params.startDate === params.endDate ||
+      params.interval <= 0
+    ) {
+      return super.getTriggerAmount(order);
+    }
+
+    const from = Math.max(Date.now(), params.startDate);
+    const weights = this.getSliceTimes(params, from).map((t) =>
+      this.weightAt(profile, t),
+    );
+    const sum = weights.reduce((a, b) => a + b, 0);
+    if (!(sum > 0)) return super.getTriggerAmount(order);
+
+    // Weights are floats: scale the current share to parts per billion
+    const share = BigInt(Math.round((weights[0] / sum) * 1e9));
+    const remaining = BigInt(order.remainingMakerAmount || "0");
+    return ((remaining * share) / 1_000_000_000n).toString();
+  }
+
+  /**
+   * Slice times from a point in time to the end of the window
+   */
+  private getSliceTimes(params: VwapParams, from: number): number[] {
+    const times: number[] = [];
+    for (let t = from; t < params.endDate; t += params.interval) {
+      times.push(t);
+    }
+    return times.length > 0 ? times : [from];
+  }
+
+  private weightAt(profile: VolumeProfile, timestamp: number): number {
+    const bucket = Math.floor((timestamp % MS_PER_DAY) / BUCKET_MS);
+    return profile.weights[bucket] || 0;
+  }
+
+  private getProfileKey(order: Order): string | null {
+    const symbol = this.getPriceInfo(order)?.symbol;
+    if (!symbol) return null;
+    const params = order.params as VwapParams;
+    return `${symbol}:${params.lookbackDays || DEFAULT_LOOKBACK_DAYS}`;
+  }
+
+  private getProfile(order: Order): VolumeProfile | undefined {
+    const key = this.getProfileKey(order);
+    return key ? this.profiles.get(key) : undefined;
+  }
+
+  /**
+   * Build (or refresh hourly) the intraday volume profile from stored 30m candles
+   */
+  private async loadProfile(order: Order): Promise<void> {
+    const key = this.getProfileKey(order);
+    if (!key) return;
+    const cached = this.profiles.get(key);
+    if (cached && Date.now() - cached.loadedAt < PROFILE_TTL_MS) return;
+
+    const symbol = this.getPriceInfo(order)!.symbol as PairSymbol;
+    const lookbackDays =
+      (order.params as VwapParams).lookbackDays || DEFAULT_LOOKBACK_DAYS;
+
+    try {
+      initOHLCStorage();
+      const candles = await getOHLCStorage().getCandles(
+        symbol,
+        OHLCTimeframe.M30,
+        Date.now() - lookbackDays * MS_PER_DAY,
+      );
+
+      const totals = Array.from({ length: BUCKETS_PER_DAY }, () => 0);
+      const counts = Array.from({ length: BUCKETS_PER_DAY }, () => 0);
+      for (const candle of candles) {
+        const bucket = Math.floor((candle.timestamp % MS_PER_DAY) / BUCKET_MS);
+        totals[bucket] += candle.volume;
+        counts[bucket]++;
+      }
+      const weights = totals.map((total, i) =>
+        counts[i] > 0 ? total / counts[i] : 0,
+      );
+
+      this.profiles.set(key, { weights, loadedAt: Date.now() });
+      logger.debug(
+        `VWAP volume profile for ${symbol}: ${candles.length} candles over ${lookbackDays} days`,
+      );
+    } catch (error) {
+      logger.warn(`Failed to load VWAP volume profile for ${symbol}: ${error}`);
+    }
+  }
+}
+
+// Register the watcher
+registerOrderWatcher(OrderType.VWAP, new VWAPOrderWatcher(false));
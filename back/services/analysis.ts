@@ -2,6 +2,21 @@ import type { TickerAnalysis, TickerOHLCV } from "@common/types";
 import { INDICATOR_DEFAULTS } from "@common/constants";
 import * as ti from "technicalindicators";
 
+/** Indicators computed from a single period */
+export type PeriodIndicator =
+  "rsi" | "ema" | "sma" | "adx" | "atr" | "roc" | "mom";
+
+/** Periods analyse() computes the single-period indicators with */
+export const ANALYSIS_PERIODS: Record<PeriodIndicator, number> = {
+  rsi: INDICATOR_DEFAULTS.RSI.period,
+  ema: INDICATOR_DEFAULTS.EMA.shortPeriod,
+  sma: INDICATOR_DEFAULTS.SMA.shortPeriod,
+  adx: INDICATOR_DEFAULTS.ADX.period,
+  atr: 14,
+  roc: 12,
+  mom: 12,
+};
+
 /**
  * Analyze OHLCV data and calculate technical indicators
  */
@@ -20,25 +35,25 @@ export function analyse(ohlcv: TickerOHLCV): TickerAnalysis {
   analysis.pct = calculatePercentChange(c);
 
   // Calculate Rate of Change (ROC)
-  analysis.roc = calculateROC(c, 12);
+  analysis.roc = calculateROC(c, ANALYSIS_PERIODS.roc);
 
   // Calculate volatility (standard deviation of returns)
   analysis.vol = calculateVolatility(c, 20);
 
   // Calculate ATR (Average True Range)
-  analysis.atr = calculateATR(h, l, c, 14);
+  analysis.atr = calculateATR(h, l, c, ANALYSIS_PERIODS.atr);
 
   // Calculate ADX
-  analysis.adx = calculateADX(h, l, c, 14);
+  analysis.adx = calculateADX(h, l, c, ANALYSIS_PERIODS.adx);
 
   // Calculate EMA
-  analysis.ema = calculateEMA(c, INDICATOR_DEFAULTS.EMA.shortPeriod);
+  analysis.ema = calculateEMA(c, ANALYSIS_PERIODS.ema);
 
   // Calculate RSI
-  analysis.rsi = calculateRSI(c, INDICATOR_DEFAULTS.RSI.period);
+  analysis.rsi = calculateRSI(c, ANALYSIS_PERIODS.rsi);
 
   // Calculate momentum
-  analysis.mom = calculateMomentum(c, 12);
+  analysis.mom = calculateMomentum(c, ANALYSIS_PERIODS.mom);
 
   // Calculate MACD
   analysis.macd = calculateMACD(
@@ -56,7 +71,7 @@ export function analyse(ohlcv: TickerOHLCV): TickerAnalysis {
   );
 
   // Calculate SMA
-  analysis.sma = calculateSMA(c, INDICATOR_DEFAULTS.SMA.shortPeriod);
+  analysis.sma = calculateSMA(c, ANALYSIS_PERIODS.sma);
 
   // Volume analysis
   analysis.volume = v;
@@ -64,6 +79,35 @@ export function analyse(ohlcv: TickerOHLCV): TickerAnalysis {
   return analysis;
 }
 
+/**
+ * Calculate one indicator series with a given period (padded with NaN like analyse())
+ */
+export function computeIndicator(
+  ohlcv: TickerOHLCV,
+  indicator: PeriodIndicator,
+  period: number,
+): number[] {
+  const { h, l, c } = ohlcv;
+  if (c.length <= period) return [];
+
+  switch (indicator) {
+    case "rsi":
+      return calculateRSI(c, period);
+    case "ema":
+      return calculateEMA(c, period);
+    case "sma":
+      return calculateSMA(c, period);
+    case "adx":
+      return calculateADX(h, l, c, period);
+    case "atr":
+      return calculateATR(h, l, c, period);
+    case "roc":
+      return calculateROC(c, period);
+    case "mom":
+      return calculateMomentum(c, period);
+  }
+}
+
 /**
  * Calculate percentage change
  */
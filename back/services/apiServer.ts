@@ -110,7 +110,11 @@ class ApiServer {
         return this.handleGetTicker(path, headers);
       }
 
-      if (path === "/orders" || path.startsWith("/orders/")) {
+      if (
+        path === "/orders" ||
+        path.startsWith("/orders/") ||
+        path.startsWith("/nonces/")
+      ) {
         // Proxy all order requests to OrderRegistry service
         return this.proxyToOrderRegistry(request, headers);
       }
@@ -741,7 +745,7 @@ class ApiServer {
       }
 
       // Validate timeframe
-      const validTimeframes = [5, 20, 60, 300, 1800]; // 5s, 20s, 1m, 5m, 30m
+      const validTimeframes = getOHLCStorage().getTimeframes();
       if (!validTimeframes.includes(timeframeSec)) {
         return this.jsonResponse(
           {
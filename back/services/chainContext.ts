@@ -0,0 +1,130 @@
+import { ethers } from "ethers";
+import type { NetworkConfig } from "@common/types";
+import { logger } from "@back/utils/logger";
+import { getConfig, getNetworkConfig } from "./config";
+import { LimitOrderService, createLimitOrderService } from "./limitOrder";
+import {
+  KeeperTransactionManager,
+  createKeeperTransactionManager,
+} from "./keeperTransactions";
+import deployments from "../../deployments.json";
+
+// Chain of orders without params.chainId, the chain they are signed for (see
+// buildOrderTypedData). Orders stored before chains were resolved per order
+// ran on BSC and are pinned to it by the "pin chainless orders to BSC" migration.
+export const DEFAULT_CHAIN_ID = 1;
+
+/**
+ * Everything needed to execute orders on a single chain
+ */
+export interface ChainExecutionContext {
+  chainId: number;
+  network: NetworkConfig;
+  provider: ethers.JsonRpcProvider;
+  keeper?: ethers.Wallet;
+  txManager?: KeeperTransactionManager; // Serializes keeper transactions on this chain
+  delegateProxy?: ethers.Contract;
+  limitOrderService?: LimitOrderService;
+}
+
+/**
+ * Lazily builds and caches one execution context per chain
+ */
+class ChainContextRegistry {
+  private contexts = new Map<number, ChainExecutionContext>();
+
+  /**
+   * Get (or create) the execution context for a chain
+   */
+  get(chainId: number = DEFAULT_CHAIN_ID): ChainExecutionContext {
+    const cached = this.contexts.get(chainId);
+    if (cached) return cached;
+
+    const context = this.create(chainId);
+    this.contexts.set(chainId, context);
+    return context;
+  }
+
+  /**
+   * Chains that have both a network config and a DelegateProxy deployment
+   */
+  getSupportedChainIds(): number[] {
+    const networks = getConfig().networks;
+    return Object.keys(deployments.deployments)
+      .map(Number)
+      .filter((chainId) => !!networks[chainId]);
+  }
+
+  has(chainId: number): boolean {
+    return this.contexts.has(chainId);
+  }
+
+  /**
+   * Drop cached contexts (e.g. after a config reload)
+   */
+  clear(): void {
+    for (const context of this.contexts.values()) {
+      context.provider.destroy();
+    }
+    this.contexts.clear();
+  }
+
+  private create(chainId: number): ChainExecutionContext {
+    const network = getNetworkConfig(chainId);
+    if (!network) {
+      throw new Error(`No network configuration for chain ${chainId}`);
+    }
+
+    const provider = new ethers.JsonRpcProvider(network.rpcUrl, chainId, {
+      staticNetwork: true,
+    });
+
+    const context: ChainExecutionContext = { chainId, network, provider };
+
+    // Setup keeper wallet and its transaction queue
+    const keeperConfig = getConfig().services.keeper;
+    const keeperKey = keeperConfig?.privateKey || process.env.KEEPER_PK;
+    if (keeperKey) {
+      context.keeper = new ethers.Wallet(keeperKey, provider);
+      context.txManager = createKeeperTransactionManager(
+        context.keeper,
+        keeperConfig,
+      );
+    }
+
+    // Setup DelegateProxy contract
+    const proxyAddress =
+      deployments.deployments[
+        chainId.toString() as keyof typeof deployments.deployments
+      ]?.proxy;
+    if (proxyAddress && context.keeper) {
+      context.delegateProxy = new ethers.Contract(
+        proxyAddress,
+        deployments.abi,
+        context.keeper,
+      );
+    }
+
+    // Setup limit order service
+    if (process.env.ONE_INCH_API_KEY) {
+      context.limitOrderService = createLimitOrderService(
+        process.env.ONE_INCH_API_KEY,
+        chainId,
+        context.keeper,
+        provider,
+        context.txManager,
+      );
+    }
+
+    logger.info(
+      `🔗 Execution context ready for ${network.name} (chain ${chainId}) - keeper: ${context.keeper ? context.keeper.address : "none"}, proxy: ${proxyAddress || "none"}`,
+    );
+
+    return context;
+  }
+}
+
+export const chainContexts = new ChainContextRegistry();
+
+export const getChainContext = (chainId?: number) =>
+  chainContexts.get(chainId || DEFAULT_CHAIN_ID);
@@ -56,6 +56,15 @@ class ConfigService {
       config.storage.dbPath = process.env.DB_PATH;
     }
 
+    // Storage backend
+    if (process.env.STORAGE_BACKEND) {
+      config.storage.backend = process.env
+        .STORAGE_BACKEND as Config["storage"]["backend"];
+    }
+    if (process.env.DATABASE_URL) {
+      config.storage.postgresUrl = process.env.DATABASE_URL;
+    }
+
     // Network RPC URLs
     if (process.env.ETH_RPC_URL && config.networks[1]) {
       config.networks[1].rpcUrl = process.env.ETH_RPC_URL;
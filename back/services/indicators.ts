@@ -0,0 +1,206 @@
+import type { PairSymbol, TickerOHLCV, TimeFrame } from "@common/types";
+import { logger } from "@back/utils/logger";
+import { computeIndicator, type PeriodIndicator } from "./analysis";
+import {
+  initOHLCStorage,
+  OHLCTimeframe,
+  type OHLCCandle,
+  type OHLCStorageService,
+} from "./ohlcStorage";
+
+const MIN_CANDLES = 100; // Warm-up for EMA/RSI smoothing
+const WARMUP_PERIODS = 5;
+
+type CandleSource = Pick<
+  OHLCStorageService,
+  "getCandles" | "getStoredTimeframes"
+>;
+
+interface CachedSeries {
+  values: number[];
+  expiresAt: number;
+}
+
+/**
+ * On-demand indicator engine
+ * Computes indicators at any timeframe from stored OHLC candles, resampling the
+ * largest stored timeframe that divides it. Series are cached per
+ * (symbol, tf, indicator, period) until the source candle closes, and candles
+ * per (symbol, tf), so orders watching the same series share one computation.
+ */
+export class IndicatorEngine {
+  private series = new Map<string, CachedSeries>();
+  private candles = new Map<
+    string,
+    { ohlcv: TickerOHLCV; count: number; expiresAt: number }
+  >();
+  private pending = new Map<string, Promise<number[]>>();
+
+  constructor(private source?: CandleSource) {}
+
+  /**
+   * Indicator series (ascending, NaN-padded) on `tf` candles, empty without enough data
+   */
+  async getSeries(
+    symbol: PairSymbol,
+    tf: TimeFrame,
+    indicator: PeriodIndicator,
+    period: number,
+  ): Promise<number[]> {
+    const key = `${symbol}:${tf}:${indicator}:${period}`;
+    const cached = this.series.get(key);
+    if (cached && Date.now() < cached.expiresAt) return cached.values;
+
+    // Concurrent orders wait on the same computation
+    let computation = this.pending.get(key);
+    if (!computation) {
+      computation = this.compute(symbol, tf, indicator, period).finally(() =>
+        this.pending.delete(key),
+      );
+      this.pending.set(key, computation);
+    }
+    return computation;
+  }
+
+  /**
+   * Latest value of an indicator, undefined without enough data
+   */
+  async getValue(
+    symbol: PairSymbol,
+    tf: TimeFrame,
+    indicator: PeriodIndicator,
+    period: number,
+  ): Promise<number | undefined> {
+    const values = await this.getSeries(symbol, tf, indicator, period);
+    const value = values[values.length - 1];
+    return Number.isFinite(value) ? value : undefined;
+  }
+
+  clear(): void {
+    this.series.clear();
+    this.candles.clear();
+  }
+
+  private async compute(
+    symbol: PairSymbol,
+    tf: TimeFrame,
+    indicator: PeriodIndicator,
+    period: number,
+  ): Promise<number[]> {
+    const count = Math.max(MIN_CANDLES, period * WARMUP_PERIODS);
+    const values = computeIndicator(
+      await this.getOHLCV(symbol, tf, count),
+      indicator,
+      period,
+    );
+
+    this.series.set(`${symbol}:${tf}:${indicator}:${period}`, {
+      values,
+      expiresAt: this.getExpiry(tf),
+    });
+    return values;
+  }
+
+  /**
+   * Last `count` candles of `tf`, including the one still forming
+   */
+  private async getOHLCV(
+    symbol: PairSymbol,
+    tf: TimeFrame,
+    count: number,
+  ): Promise<TickerOHLCV> {
+    const key = `${symbol}:${tf}`;
+    const cached = this.candles.get(key);
+    if (cached && cached.count >= count && Date.now() < cached.expiresAt) {
+      return cached.ohlcv;
+    }
+
+    const sourceTf = this.getSourceTimeframe(tf);
+    const ratio = tf / sourceTf;
+    const tfMs = tf * 1000;
+    let candles: OHLCCandle[] = [];
+    try {
+      candles = await this.getSource().getCandles(
+        symbol,
+        sourceTf,
+        Math.floor(Date.now() / tfMs - count) * tfMs,
+        undefined,
+        count * ratio,
+      );
+    } catch (error) {
+      logger.warn(
+        `Failed to load ${sourceTf}s candles for ${symbol}: ${error}`,
+      );
+    }
+
+    const ohlcv = this.toOHLCV(
+      ratio > 1 ? this.resample(candles, tfMs) : candles,
+    );
+    this.candles.set(key, { ohlcv, count, expiresAt: this.getExpiry(tf) });
+    return ohlcv;
+  }
+
+  /**
+   * Largest stored timeframe whose duration divides tf (M1 at worst), throws if none does
+   */
+  getSourceTimeframe(tf: TimeFrame): OHLCTimeframe {
+    const sourceTf = this.getSource()
+      .getStoredTimeframes()
+      .reverse()
+      .find((t) => tf >= t && tf % t === 0);
+    if (!sourceTf) {
+      throw new Error(`Timeframe ${tf}s cannot be built from stored candles`);
+    }
+    return sourceTf;
+  }
+
+  private getSource(): CandleSource {
+    return this.source ?? initOHLCStorage();
+  }
+
+  /**
+   * Cached until the smallest stored candle it depends on can change
+   */
+  private getExpiry(tf: TimeFrame): number {
+    const refreshMs = Math.min(tf, OHLCTimeframe.M1) * 1000;
+    return (Math.floor(Date.now() / refreshMs) + 1) * refreshMs;
+  }
+
+  private resample(candles: OHLCCandle[], tfMs: number): OHLCCandle[] {
+    const resampled: OHLCCandle[] = [];
+    for (const candle of candles) {
+      const timestamp = Math.floor(candle.timestamp / tfMs) * tfMs;
+      const last = resampled[resampled.length - 1];
+      if (last?.timestamp === timestamp) {
+        last.high = Math.max(last.high, candle.high);
+        last.low = Math.min(last.low, candle.low);
+        last.close = candle.close;
+        last.volume += candle.volume;
+      } else {
+        resampled.push({ ...candle, timestamp });
+      }
+    }
+    return resampled;
+  }
+
+  private toOHLCV(candles: OHLCCandle[]): TickerOHLCV {
+    return {
+      ts: candles.map((c) => c.timestamp),
+      o: candles.map((c) => c.open),
+      h: candles.map((c) => c.high),
+      l: candles.map((c) => c.low),
+      c: candles.map((c) => c.close),
+      v: candles.map((c) => c.volume),
+    };
+  }
+}
+
+// Export singleton instance
+let indicatorEngineInstance: IndicatorEngine | null = null;
+
+export function getIndicatorEngine(): IndicatorEngine {
+  if (!indicatorEngineInstance) {
+    indicatorEngineInstance = new IndicatorEngine();
+  }
+  return indicatorEngineInstance;
+}
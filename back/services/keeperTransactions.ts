@@ -0,0 +1,422 @@
+import { ethers } from "ethers";
+import type { KeeperConfig } from "@common/types";
+import { OrderStatus } from "@common/types";
+import { logger } from "@back/utils/logger";
+import { sleep } from "@common/utils";
+import { saveOrderEvent } from "./storage";
+
+const DEFAULT_REPLACE_AFTER_MS = 60_000;
+const DEFAULT_FEE_BUMP_PCT = 15; // Nodes require >= 10% to accept a replacement
+const DEFAULT_MAX_REPLACEMENTS = 5;
+const DEFAULT_TIMEOUT_MS = 10 * 60_000;
+const DEFAULT_DROP_AFTER_BLOCKS = 5;
+const RECEIPT_POLL_MS = 1000;
+
+/**
+ * A transaction to be sent from the keeper wallet
+ */
+export interface KeeperTxRequest {
+  to: string;
+  data: string;
+  value?: bigint;
+  gasLimit?: bigint;
+  label?: string; // Human readable description for logs
+  // Order event(s) to record once the transaction is mined
+  record?: KeeperTxRecord | KeeperTxRecord[];
+}
+
+export interface KeeperTxRecord {
+  orderId: string;
+  status: OrderStatus;
+}
+
+export interface KeeperTxResult {
+  hash: string; // Hash of the transaction that was mined
+  nonce: number;
+  receipt: ethers.TransactionReceipt;
+  gasUsed: bigint;
+  replacements: number; // Number of fee bumps before inclusion
+}
+
+export interface KeeperTxOptions {
+  maxGasPriceGwei?: string; // Cap on maxFeePerGas
+  maxPriorityFeeGwei?: string; // Cap on maxPriorityFeePerGas
+  replaceAfterMs?: number; // Speed up a pending transaction after this delay
+  feeBumpPct?: number; // Fee increase applied on each replacement
+  maxReplacements?: number;
+  confirmations?: number;
+  timeoutMs?: number; // Give up on a transaction not mined after this delay
+  dropAfterBlocks?: number; // Blocks without any version known to the node before it is dropped
+}
+
+interface Fees {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+/**
+ * Sends keeper transactions on a single chain: serializes nonces, caps
+ * EIP-1559 fees, speeds up stuck transactions and records receipts
+ */
+export class KeeperTransactionManager {
+  private nextNonce?: number;
+  private submitQueue: Promise<unknown> = Promise.resolve();
+  private maxFeeCap?: bigint;
+  private maxPriorityCap?: bigint;
+  private replaceAfterMs: number;
+  private feeBumpPct: bigint;
+  private maxReplacements: number;
+  private confirmations: number;
+  private timeoutMs: number;
+  private dropAfterBlocks: number;
+
+  constructor(
+    private keeper: ethers.Wallet,
+    options: KeeperTxOptions = {},
+  ) {
+    if (!keeper.provider) {
+      throw new Error("Keeper wallet must be connected to a provider");
+    }
+    if (options.maxGasPriceGwei) {
+      this.maxFeeCap = ethers.parseUnits(options.maxGasPriceGwei, "gwei");
+    }
+    if (options.maxPriorityFeeGwei) {
+      this.maxPriorityCap = ethers.parseUnits(
+        options.maxPriorityFeeGwei,
+        "gwei",
+      );
+    }
+    this.replaceAfterMs = options.replaceAfterMs ?? DEFAULT_REPLACE_AFTER_MS;
+    this.feeBumpPct = BigInt(options.feeBumpPct ?? DEFAULT_FEE_BUMP_PCT);
+    this.maxReplacements = options.maxReplacements ?? DEFAULT_MAX_REPLACEMENTS;
+    this.confirmations = options.confirmations ?? 1;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.dropAfterBlocks = options.dropAfterBlocks ?? DEFAULT_DROP_AFTER_BLOCKS;
+  }
+
+  get address(): string {
+    return this.keeper.address;
+  }
+
+  private get provider(): ethers.Provider {
+    return this.keeper.provider!;
+  }
+
+  /**
+   * Send a transaction and wait until it is mined, replacing it with higher
+   * fees while it stays pending. Throws (and records FAILED events) if it is
+   * not mined before the timeout or is dropped
+   */
+  async send(request: KeeperTxRequest): Promise<KeeperTxResult> {
+    const label = request.label || `tx to ${request.to}`;
+    const fees = await this.getFees();
+    const gasLimit =
+      request.gasLimit ??
+      (await this.provider.estimateGas({
+        from: this.keeper.address,
+        to: request.to,
+        data: request.data,
+        value: request.value,
+      }));
+
+    const submitted = await this.submit(request, gasLimit, fees);
+    const nonce = submitted.nonce;
+    let tx = submitted.tx;
+    const sent = [tx];
+    let current = fees;
+    logger.info(
+      `⛽ Sent ${label} (nonce ${nonce}, maxFee ${ethers.formatUnits(fees.maxFeePerGas, "gwei")} gwei): ${tx.hash}`,
+    );
+
+    const deadline = Date.now() + this.timeoutMs;
+    let lastSeenBlock = await this.provider.getBlockNumber();
+    let replacements = 0;
+    for (;;) {
+      const receipt = await this.waitForAny(sent);
+      if (receipt) {
+        return this.finalize(request, label, nonce, receipt, replacements);
+      }
+
+      const dropped = await this.checkDropped(sent, nonce, lastSeenBlock);
+      if (typeof dropped === "string") {
+        return this.fail(request, label, nonce, dropped);
+      }
+      lastSeenBlock = dropped;
+      if (Date.now() >= deadline) {
+        return this.fail(
+          request,
+          label,
+          nonce,
+          `not mined after ${this.timeoutMs}ms and ${replacements} replacements`,
+        );
+      }
+
+      // Still pending: speed it up with the same nonce and calldata
+      const bumped =
+        replacements < this.maxReplacements ? this.bumpFees(current) : null;
+      if (!bumped) {
+        logger.warn(
+          `⏳ ${label} still pending after ${replacements} replacements (nonce ${nonce}), waiting`,
+        );
+        continue;
+      }
+
+      try {
+        tx = await this.keeper.sendTransaction({
+          ...this.buildTx(request, gasLimit, bumped),
+          nonce,
+        });
+        sent.push(tx);
+        current = bumped;
+        replacements++;
+        logger.info(
+          `🚀 Replaced ${label} (nonce ${nonce}, maxFee ${ethers.formatUnits(bumped.maxFeePerGas, "gwei")} gwei): ${tx.hash}`,
+        );
+      } catch (error: any) {
+        // An earlier version may have just been mined
+        if (error.code === "NONCE_EXPIRED") continue;
+        logger.warn(`Failed to replace ${label}: ${error.message}`);
+      }
+    }
+  }
+
+  /**
+   * Assign the next nonce and broadcast, one transaction at a time
+   */
+  private submit(
+    request: KeeperTxRequest,
+    gasLimit: bigint,
+    fees: Fees,
+  ): Promise<{ tx: ethers.TransactionResponse; nonce: number }> {
+    const run = async () => {
+      for (let attempt = 0; ; attempt++) {
+        const nonce = await this.reserveNonce();
+        try {
+          const tx = await this.keeper.sendTransaction({
+            ...this.buildTx(request, gasLimit, fees),
+            nonce,
+          });
+          this.nextNonce = nonce + 1;
+          return { tx, nonce };
+        } catch (error: any) {
+          // Nonce not consumed: resync from the node on next use
+          this.nextNonce = undefined;
+          if (error.code === "NONCE_EXPIRED" && attempt === 0) continue;
+          throw error;
+        }
+      }
+    };
+
+    const result = this.submitQueue.then(run, run);
+    this.submitQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async reserveNonce(): Promise<number> {
+    if (this.nextNonce === undefined) {
+      this.nextNonce = await this.provider.getTransactionCount(
+        this.keeper.address,
+        "pending",
+      );
+    }
+    return this.nextNonce;
+  }
+
+  private buildTx(
+    request: KeeperTxRequest,
+    gasLimit: bigint,
+    fees: Fees,
+  ): ethers.TransactionRequest {
+    return {
+      to: request.to,
+      data: request.data,
+      value: request.value ?? 0n,
+      gasLimit,
+      type: 2,
+      maxFeePerGas: fees.maxFeePerGas,
+      maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+    };
+  }
+
+  /**
+   * Current EIP-1559 fees, capped by the configured ceilings
+   */
+  async getFees(): Promise<Fees> {
+    const feeData = await this.provider.getFeeData();
+    let maxFeePerGas = feeData.maxFeePerGas ?? feeData.gasPrice;
+    let maxPriorityFeePerGas = feeData.maxPriorityFeePerGas ?? 0n;
+    if (maxFeePerGas === null) {
+      throw new Error("Unable to fetch fee data from provider");
+    }
+
+    if (this.maxFeeCap !== undefined && maxFeePerGas > this.maxFeeCap) {
+      logger.warn(
+        `Capping maxFeePerGas at ${ethers.formatUnits(this.maxFeeCap, "gwei")} gwei (network: ${ethers.formatUnits(maxFeePerGas, "gwei")} gwei)`,
+      );
+      maxFeePerGas = this.maxFeeCap;
+    }
+    if (
+      this.maxPriorityCap !== undefined &&
+      maxPriorityFeePerGas > this.maxPriorityCap
+    ) {
+      maxPriorityFeePerGas = this.maxPriorityCap;
+    }
+    if (maxPriorityFeePerGas > maxFeePerGas) {
+      maxPriorityFeePerGas = maxFeePerGas;
+    }
+
+    return { maxFeePerGas, maxPriorityFeePerGas };
+  }
+
+  /**
+   * Raise both fees by the bump percentage, or null if the cap prevents a valid replacement
+   */
+  private bumpFees(fees: Fees): Fees | null {
+    const bump = (value: bigint) => (value * (100n + this.feeBumpPct)) / 100n;
+    const maxFeePerGas = bump(fees.maxFeePerGas);
+    const maxPriorityFeePerGas = bump(fees.maxPriorityFeePerGas);
+
+    if (this.maxFeeCap !== undefined && maxFeePerGas > this.maxFeeCap) {
+      return null;
+    }
+    return {
+      maxFeePerGas,
+      maxPriorityFeePerGas:
+        maxPriorityFeePerGas > maxFeePerGas
+          ? maxFeePerGas
+          : maxPriorityFeePerGas,
+    };
+  }
+
+  /**
+   * Poll up to replaceAfterMs for any version of the transaction to be mined
+   */
+  private async waitForAny(
+    sent: ethers.TransactionResponse[],
+  ): Promise<ethers.TransactionReceipt | null> {
+    const deadline = Date.now() + this.replaceAfterMs;
+    const pollMs = Math.min(RECEIPT_POLL_MS, this.replaceAfterMs);
+
+    for (;;) {
+      for (const tx of sent) {
+        const receipt = await this.provider.getTransactionReceipt(tx.hash);
+        if (receipt && (await receipt.confirmations()) >= this.confirmations) {
+          return receipt;
+        }
+      }
+      if (Date.now() >= deadline) return null;
+      await sleep(pollMs);
+    }
+  }
+
+  /**
+   * Why no version of the transaction can be mined anymore, or else the last
+   * block in which the node still knew one of them: the nonce was consumed by
+   * another transaction, or no version was seen for dropAfterBlocks blocks
+   */
+  private async checkDropped(
+    sent: ethers.TransactionResponse[],
+    nonce: number,
+    lastSeenBlock: number,
+  ): Promise<string | number> {
+    const [minedNonce, block] = await Promise.all([
+      this.provider.getTransactionCount(this.keeper.address, "latest"),
+      this.provider.getBlockNumber(),
+    ]);
+
+    let known = false;
+    for (const tx of sent) {
+      // Mined but not yet confirmed enough
+      if (await this.provider.getTransactionReceipt(tx.hash)) return block;
+      if (await this.provider.getTransaction(tx.hash)) known = true;
+    }
+
+    if (minedNonce > nonce) {
+      return `nonce ${nonce} consumed by another transaction`;
+    }
+    if (known) return block;
+    if (block - lastSeenBlock >= this.dropAfterBlocks) {
+      return `dropped by the node (unknown for ${block - lastSeenBlock} blocks)`;
+    }
+    return lastSeenBlock;
+  }
+
+  /**
+   * Record a transaction that will never be mined as FAILED and throw
+   */
+  private async fail(
+    request: KeeperTxRequest,
+    label: string,
+    nonce: number,
+    reason: string,
+  ): Promise<never> {
+    // A dropped nonce is free again: resync from the node on next use
+    this.nextNonce = undefined;
+
+    const records = request.record ? [request.record].flat() : [];
+    for (const record of records) {
+      await saveOrderEvent({
+        orderId: record.orderId,
+        status: OrderStatus.FAILED,
+        timestamp: Date.now(),
+        error: `${label} ${reason}`,
+      });
+    }
+
+    logger.error(`❌ ${label} failed (nonce ${nonce}): ${reason}`);
+    throw new Error(`${label} ${reason} (nonce ${nonce})`);
+  }
+
+  private async finalize(
+    request: KeeperTxRequest,
+    label: string,
+    nonce: number,
+    receipt: ethers.TransactionReceipt,
+    replacements: number,
+  ): Promise<KeeperTxResult> {
+    const reverted = receipt.status !== 1;
+
+    const records = request.record ? [request.record].flat() : [];
+    for (const record of records) {
+      await saveOrderEvent({
+        orderId: record.orderId,
+        status: reverted ? OrderStatus.FAILED : record.status,
+        timestamp: Date.now(),
+        txHash: receipt.hash,
+        gasUsed: receipt.gasUsed.toString(),
+        error: reverted ? `${label} reverted` : undefined,
+      });
+    }
+
+    if (reverted) {
+      throw new Error(`${label} reverted (tx ${receipt.hash})`);
+    }
+
+    logger.info(
+      `✅ ${label} mined in block ${receipt.blockNumber} (gas used ${receipt.gasUsed}): ${receipt.hash}`,
+    );
+    return {
+      hash: receipt.hash,
+      nonce,
+      receipt,
+      gasUsed: receipt.gasUsed,
+      replacements,
+    };
+  }
+}
+
+/**
+ * Build a transaction manager for a keeper wallet from the keeper service config
+ */
+export function createKeeperTransactionManager(
+  keeper: ethers.Wallet,
+  config?: Partial<KeeperConfig>,
+): KeeperTransactionManager {
+  return new KeeperTransactionManager(keeper, {
+    maxGasPriceGwei: config?.maxGasPrice,
+    maxPriorityFeeGwei: config?.maxPriorityFee,
+    replaceAfterMs: config?.replaceAfterMs,
+    feeBumpPct: config?.feeBumpPct,
+    timeoutMs: config?.txTimeoutMs,
+  });
+}
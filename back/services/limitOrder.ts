@@ -4,15 +4,44 @@ import {
   Address,
   randBigInt,
   Sdk,
+  ExtensionBuilder,
+  Extension,
   FetchProviderConnector as SDKFetchProviderConnector,
 } from "@1inch/limit-order-sdk";
 import { ethers, Wallet } from "ethers";
 import { logger } from "@back/utils/logger";
-import { OneInchLimitOrderParams, SubmitOrderResult } from "@common/types";
+import {
+  DutchAuction,
+  OneInchLimitOrderParams,
+  OneInchOrderStruct,
+  SubmitOrderResult,
+} from "@common/types";
+import { OrderStatus } from "@common/types";
 import deployments from "../../deployments.json";
+import { getServiceConfig } from "./config";
+import {
+  KeeperTransactionManager,
+  createKeeperTransactionManager,
+  type KeeperTxRecord,
+  type KeeperTxResult,
+} from "./keeperTransactions";
 
 // Constants
 const UINT_40_MAX = (1n << 40n) - 1n;
+const ERC1271_DUMMY_SIGNATURE = "0x" + "00".repeat(65);
+const DEFAULT_BATCH_WINDOW_MS = 250;
+const DEFAULT_MAX_BATCH_SIZE = 20;
+
+/**
+ * Order slice waiting for the next batched DelegateProxy submission
+ */
+interface PendingSlice {
+  order: any; // SDK LimitOrder
+  userAddress: string;
+  orderId?: string; // 1edge order the keeper receipt is recorded against
+  resolve: (result: SubmitOrderResult) => void;
+  reject: (error: Error) => void;
+}
 
 
 // Helper function to convert common type to SDK Address types
@@ -42,6 +71,28 @@ function convertToCreateOrderParams(params: OneInchLimitOrderParams): {
   };
 }
 
+/**
+ * Making/taking amount getters of a Dutch auction: DutchAuctionCalculator reads
+ * (startTime << 128 | endTime, startTakingAmount, endTakingAmount) and
+ * interpolates the taking amount linearly over time
+ */
+export function buildAuctionExtension(auction: DutchAuction): Extension {
+  const calculator = new Address(auction.calculator);
+  const data = ethers.solidityPacked(
+    ["uint256", "uint256", "uint256"],
+    [
+      (BigInt(auction.startTime) << 128n) | BigInt(auction.endTime),
+      auction.startTakingAmount,
+      auction.endTakingAmount,
+    ],
+  );
+
+  return new ExtensionBuilder()
+    .withMakingAmountData(calculator, data)
+    .withTakingAmountData(calculator, data)
+    .build();
+}
+
 
 /**
  * 1inch Limit Order Service
@@ -50,16 +101,30 @@ export class LimitOrderService {
   private sdk: any;
   private delegateProxy?: ethers.Contract;
   private keeper?: Wallet;
+  private txManager?: KeeperTransactionManager;
   private chainId: number;
+  private pendingSlices: PendingSlice[] = [];
+  private flushTimer?: ReturnType<typeof setTimeout>;
+  private batchWindowMs: number;
+  private maxBatchSize: number;
 
   constructor(
     authKey: string,
     chainId: number,
     keeper?: Wallet,
     provider?: ethers.Provider,
+    txManager?: KeeperTransactionManager,
   ) {
+    const keeperConfig = getServiceConfig("keeper");
     this.chainId = chainId;
     this.keeper = keeper;
+    this.txManager =
+      txManager ??
+      (keeper?.provider
+        ? createKeeperTransactionManager(keeper, keeperConfig)
+        : undefined);
+    this.batchWindowMs = keeperConfig?.batchWindowMs ?? DEFAULT_BATCH_WINDOW_MS;
+    this.maxBatchSize = keeperConfig?.maxBatchSize ?? DEFAULT_MAX_BATCH_SIZE;
 
     // Initialize 1inch SDK
     this.sdk = new (Sdk as any)({
@@ -119,6 +184,21 @@ export class LimitOrderService {
       });
     }
 
+    // Dutch auction: the API fee extension is not used, the order carries the
+    // auction extension and a salt derived from its hash
+    if (params.auction) {
+      const extension = buildAuctionExtension(params.auction);
+      return new LimitOrder({
+        makerAsset: convertedParams.makerAsset,
+        takerAsset: convertedParams.takerAsset,
+        makingAmount: convertedParams.makingAmount,
+        takingAmount: convertedParams.takingAmount,
+        maker: finalMaker,
+        receiver: convertedParams.receiver || convertedParams.maker,
+        salt: LimitOrder.buildSalt(extension, convertedParams.salt),
+      }, makerTraits.withExtension(), extension);
+    }
+
     // Create the order exactly like working code
     let order: any;
     try {
@@ -166,25 +246,92 @@ export class LimitOrderService {
   async createOrderOnDelegateProxy(
     order: any,
     userAddress: string,
+    orderId?: string,
   ): Promise<string> {
-    if (!this.delegateProxy || !this.keeper) {
+    if (!this.delegateProxy || !this.txManager) {
       throw new Error("DelegateProxy contract or keeper not configured");
     }
 
-    const contractOrder = {
-      salt: order.salt,
-      maker: BigInt(order.maker.toString()),
-      receiver: BigInt(order.receiver.toString()),
-      makerAsset: BigInt(order.makerAsset.toString()),
-      takerAsset: BigInt(order.takerAsset.toString()),
-      makingAmount: order.makingAmount,
-      takingAmount: order.takingAmount,
-      makerTraits: order.makerTraits.asBigInt(),
-    };
+    // Sent through the keeper transaction queue (nonce, fee cap, speed-ups, receipt)
+    const result = await this.txManager.send({
+      to: await this.delegateProxy.getAddress(),
+      data: this.delegateProxy.interface.encodeFunctionData("create1inchOrder", [
+        this.toContractOrder(order),
+        userAddress,
+      ]),
+      label: `create1inchOrder for ${userAddress}`,
+      record: orderId ? { orderId, status: OrderStatus.ACTIVE } : undefined,
+    });
+    return result.hash;
+  }
 
-    const createTx = await this.delegateProxy.create1inchOrder(contractOrder, userAddress);
-    await createTx.wait();
-    return createTx.hash;
+  /**
+   * Create several orders on DelegateProxy in a single create1inchOrderBatch transaction
+   */
+  async createOrderBatchOnDelegateProxy(
+    orders: any[],
+    userAddresses: string[],
+    orderIds: (string | undefined)[] = [],
+  ): Promise<string> {
+    if (!this.delegateProxy || !this.txManager) {
+      throw new Error("DelegateProxy contract or keeper not configured");
+    }
+    if (orders.length !== userAddresses.length) {
+      throw new Error("Orders and makers length mismatch");
+    }
+
+    const recordedIds = [...new Set(orderIds.filter((id): id is string => !!id))];
+    const result = await this.txManager.send({
+      to: await this.delegateProxy.getAddress(),
+      data: this.delegateProxy.interface.encodeFunctionData(
+        "create1inchOrderBatch",
+        [orders.map((order) => this.toContractOrder(order)), userAddresses],
+      ),
+      label: `create1inchOrderBatch of ${orders.length} orders`,
+      record: recordedIds.map((orderId) => ({
+        orderId,
+        status: OrderStatus.ACTIVE,
+      })),
+    });
+    return result.hash;
+  }
+
+  /**
+   * Cancel orders created through DelegateProxy in one cancel1inchOrderBatch transaction
+   */
+  async cancelOrdersOnDelegateProxy(
+    orders: OneInchOrderStruct[],
+    record?: KeeperTxRecord,
+  ): Promise<KeeperTxResult> {
+    if (!this.delegateProxy || !this.txManager) {
+      throw new Error("DelegateProxy contract or keeper not configured");
+    }
+
+    return this.txManager.send({
+      to: await this.delegateProxy.getAddress(),
+      data: this.delegateProxy.interface.encodeFunctionData(
+        "cancel1inchOrderBatch",
+        [orders],
+      ),
+      label: `cancel1inchOrderBatch of ${orders.length} orders`,
+      record,
+    });
+  }
+
+  /**
+   * DelegateProxy order struct from an SDK limit order
+   */
+  toContractOrder(order: any): OneInchOrderStruct {
+    return {
+      salt: order.salt.toString(),
+      maker: BigInt(order.maker.toString()).toString(),
+      receiver: BigInt(order.receiver.toString()).toString(),
+      makerAsset: BigInt(order.makerAsset.toString()).toString(),
+      takerAsset: BigInt(order.takerAsset.toString()).toString(),
+      makingAmount: order.makingAmount.toString(),
+      takingAmount: order.takingAmount.toString(),
+      makerTraits: order.makerTraits.asBigInt().toString(),
+    };
   }
 
   /**
@@ -230,6 +377,7 @@ export class LimitOrderService {
     params: OneInchLimitOrderParams,
     userAddress: string,
     signerWallet?: Wallet,
+    orderId?: string, // 1edge order the keeper receipt is recorded against
   ): Promise<SubmitOrderResult> {
     const order = await this.createOrder(params);
     const orderHash = order.getOrderHash(this.chainId);
@@ -243,14 +391,17 @@ export class LimitOrderService {
 
     if (this.delegateProxy) {
       logger.info(`🔗 Creating order on DelegateProxy contract`, { orderHash });
-      await this.createOrderOnDelegateProxy(order, userAddress);
+      await this.createOrderOnDelegateProxy(order, userAddress, orderId);
     }
 
     const signature = this.delegateProxy 
-      ? '0x' + '00'.repeat(65) // ERC1271 dummy signature
+      ? ERC1271_DUMMY_SIGNATURE
       : await this.signOrder(order, signerWallet || this.keeper!);
 
     const result = await this.submitOrderToAPI(order, signature);
+    if (this.delegateProxy) {
+      result.orderStruct = this.toContractOrder(order);
+    }
     
     if (result.success) {
       logger.info(`✅ 1inch order submission successful`, { 
@@ -267,6 +418,136 @@ export class LimitOrderService {
     
     return result;
   }
+
+  /**
+   * Queue an order slice for the next batched DelegateProxy submission on this chain.
+   * Slices enqueued within the batch window share one transaction.
+   */
+  async enqueueOrder(
+    params: OneInchLimitOrderParams,
+    userAddress: string,
+    orderId?: string,
+  ): Promise<SubmitOrderResult> {
+    if (!this.delegateProxy) {
+      return this.createAndSubmitOrder(params, userAddress, undefined, orderId);
+    }
+
+    const order = await this.createOrder(params);
+    return new Promise<SubmitOrderResult>((resolve, reject) => {
+      this.pendingSlices.push({ order, userAddress, orderId, resolve, reject });
+      if (this.pendingSlices.length >= this.maxBatchSize) {
+        void this.flush();
+      } else if (!this.flushTimer) {
+        this.flushTimer = setTimeout(() => void this.flush(), this.batchWindowMs);
+      }
+    });
+  }
+
+  /**
+   * Submit all queued slices: one DelegateProxy batch transaction, then each
+   * order hash to the 1inch API
+   */
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+    const slices = this.pendingSlices.splice(0);
+    if (slices.length === 0) return;
+
+    logger.info(`📦 Flushing ${slices.length} order slice(s) on chain ${this.chainId}`);
+    const created = await this.createSlicesOnDelegateProxy(slices);
+
+    // API submission is per hash: one rejected order does not fail the others
+    await Promise.all(
+      created.map(async (slice) => {
+        try {
+          const result = await this.submitOrderToAPI(
+            slice.order,
+            ERC1271_DUMMY_SIGNATURE,
+          );
+          slice.resolve({
+            ...result,
+            orderStruct: this.toContractOrder(slice.order),
+          });
+        } catch (error) {
+          slice.reject(error instanceof Error ? error : new Error(String(error)));
+        }
+      }),
+    );
+
+    const failed = slices.length - created.length;
+    if (failed > 0) {
+      logger.warn(`⚠️ ${failed}/${slices.length} order slice(s) could not be created on DelegateProxy`);
+    }
+  }
+
+  /**
+   * Create queued slices on DelegateProxy, falling back to one transaction per
+   * slice if the batch fails. Returns the slices that were created; the others are rejected.
+   */
+  private async createSlicesOnDelegateProxy(
+    slices: PendingSlice[],
+  ): Promise<PendingSlice[]> {
+    let missing = slices;
+    if (slices.length > 1) {
+      try {
+        await this.createOrderBatchOnDelegateProxy(
+          slices.map((slice) => slice.order),
+          slices.map((slice) => slice.userAddress),
+          slices.map((slice) => slice.orderId),
+        );
+        return slices;
+      } catch (error: any) {
+        logger.warn(
+          `⚠️ Batch creation of ${slices.length} orders failed, retrying individually: ${error.message}`,
+        );
+      }
+
+      // A batch that timed out or looked dropped may still have landed, and
+      // creating an order again resets its remaining amount on DelegateProxy
+      try {
+        missing = await this.getMissingSlices(slices);
+      } catch (error) {
+        const reason = error instanceof Error ? error : new Error(String(error));
+        for (const slice of slices) slice.reject(reason);
+        return [];
+      }
+    }
+
+    const created = slices.filter((slice) => !missing.includes(slice));
+    const results = await Promise.all(
+      missing.map(async (slice) => {
+        try {
+          await this.createOrderOnDelegateProxy(
+            slice.order,
+            slice.userAddress,
+            slice.orderId,
+          );
+          return slice;
+        } catch (error) {
+          slice.reject(error instanceof Error ? error : new Error(String(error)));
+          return null;
+        }
+      }),
+    );
+    return [
+      ...created,
+      ...results.filter((slice): slice is PendingSlice => slice !== null),
+    ];
+  }
+
+  /**
+   * Slices whose order DelegateProxy does not hold (maker reset to zero)
+   */
+  private async getMissingSlices(
+    slices: PendingSlice[],
+  ): Promise<PendingSlice[]> {
+    const data = await this.delegateProxy!.getOrderData(
+      slices.map((slice) => slice.order.getOrderHash(this.chainId)),
+    );
+    return slices.filter((_, i) => data[i].maker === ethers.ZeroAddress);
+  }
 }
 
 /**
@@ -277,8 +558,9 @@ export function createLimitOrderService(
   chainId: number,
   keeper?: Wallet,
   provider?: ethers.Provider,
+  txManager?: KeeperTransactionManager,
 ): LimitOrderService {
-  return new LimitOrderService(authKey, chainId, keeper, provider);
+  return new LimitOrderService(authKey, chainId, keeper, provider, txManager);
 }
 
 /**
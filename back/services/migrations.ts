@@ -0,0 +1,168 @@
+import type { Database } from "bun:sqlite";
+import { logger } from "@back/utils/logger";
+
+/**
+ * Versioned schema migration. `up` must be idempotent: databases created before
+ * versioning start at version 0 with any subset of the tables already in place.
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database) => void;
+}
+
+export interface MigrateOptions {
+  dryRun?: boolean; // Only report pending migrations
+  backup?: boolean; // Copy the database before migrating (default: true)
+}
+
+export interface MigrationReport {
+  database: string;
+  from: number;
+  to: number;
+  pending: string[]; // "<version> <name>" of the migrations to apply
+  backupPath?: string;
+  dryRun: boolean;
+}
+
+/**
+ * Current schema version, 0 for databases that were never migrated
+ */
+export function getSchemaVersion(db: Database): number {
+  const table = db
+    .prepare(
+      `SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'schema_version'`,
+    )
+    .get();
+  if (!table) return 0;
+
+  const row = db
+    .prepare(`SELECT MAX(version) AS version FROM schema_version`)
+    .get() as { version: number | null } | null;
+  return row?.version ?? 0;
+}
+
+/**
+ * Apply pending migrations in order, each in its own transaction recorded in
+ * schema_version. The database is backed up first (VACUUM INTO) unless it is empty.
+ */
+export function migrate(
+  db: Database,
+  dbPath: string,
+  migrations: Migration[],
+  options: MigrateOptions = {},
+): MigrationReport {
+  for (const [i, migration] of migrations.entries()) {
+    if (migration.version !== i + 1) {
+      throw new Error(
+        `Migrations of ${dbPath} must be numbered 1..n in order, found ${migration.version} at position ${i + 1}`,
+      );
+    }
+  }
+
+  const from = getSchemaVersion(db);
+  if (from > migrations.length) {
+    throw new Error(
+      `${dbPath} is at schema version ${from}, newer than the latest known (${migrations.length})`,
+    );
+  }
+
+  const pending = migrations.slice(from);
+  const report: MigrationReport = {
+    database: dbPath,
+    from,
+    to: from,
+    pending: pending.map((m) => `${m.version} ${m.name}`),
+    dryRun: !!options.dryRun,
+  };
+  if (pending.length === 0) return report;
+
+  if (options.dryRun) {
+    logger.info(
+      `🔍 ${dbPath} at schema version ${from}, ${pending.length} pending migration(s): ${report.pending.join(", ")}`,
+    );
+    return report;
+  }
+
+  if (options.backup !== false) {
+    report.backupPath = backupDatabase(db, dbPath, from);
+  }
+
+  db.run(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at INTEGER NOT NULL
+    )
+  `);
+  const record = db.prepare(
+    `INSERT INTO schema_version (version, name, applied_at) VALUES (?, ?, ?)`,
+  );
+  for (const migration of pending) {
+    db.transaction(() => {
+      migration.up(db);
+      record.run(migration.version, migration.name, Date.now());
+    })();
+    report.to = migration.version;
+    logger.info(
+      `🗄️ Applied migration ${migration.version} (${migration.name}) to ${dbPath}`,
+    );
+  }
+  return report;
+}
+
+/**
+ * Whether a table has a column
+ */
+export function hasColumn(
+  db: Database,
+  table: string,
+  column: string,
+): boolean {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{
+    name: string;
+  }>;
+  return columns.some((c) => c.name === column);
+}
+
+/**
+ * Add a column unless it already exists (SQLite has no ADD COLUMN IF NOT EXISTS)
+ */
+export function addColumn(
+  db: Database,
+  table: string,
+  column: string,
+  definition: string,
+): void {
+  if (!hasColumn(db, table, column)) {
+    db.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+/**
+ * Drop a column if it exists
+ */
+export function dropColumn(db: Database, table: string, column: string): void {
+  if (hasColumn(db, table, column)) {
+    db.run(`ALTER TABLE ${table} DROP COLUMN ${column}`);
+  }
+}
+
+/**
+ * Consistent copy of the database next to it, skipped for in-memory and empty databases
+ */
+function backupDatabase(
+  db: Database,
+  dbPath: string,
+  version: number,
+): string | undefined {
+  const tables = db
+    .prepare(`SELECT COUNT(*) AS count FROM sqlite_master WHERE type = 'table'`)
+    .get() as { count: number };
+  if (dbPath === ":memory:" || tables.count === 0) return undefined;
+
+  const backupPath = `${dbPath}.v${version}-${Date.now()}.bak`;
+  db.prepare(`VACUUM INTO ?`).run(backupPath);
+  logger.info(`💾 Backed up ${dbPath} to ${backupPath} before migrating`);
+  return backupPath;
+}
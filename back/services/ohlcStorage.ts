@@ -2,10 +2,12 @@
 
 import { Database } from "bun:sqlite";
 import { join } from "path";
-import { mkdir, access } from "fs/promises";
-import type { PairSymbol } from "@common/types";
+import { mkdir, access, readdir } from "fs/promises";
+import type { OHLCConfig, PairSymbol } from "@common/types";
 import { logger } from "@back/utils/logger";
 import ccxt from "ccxt";
+import { getStorageConfig } from "./config";
+import { migrate, type Migration } from "./migrations";
 
 /**
  * OHLC candle data structure
@@ -23,13 +25,47 @@ export interface OHLCCandle {
  * Supported OHLC timeframes with their duration in seconds
  */
 export enum OHLCTimeframe {
-  S5 = 5, // 5 seconds (cache only)
-  S20 = 20, // 20 seconds (cache only)
-  M1 = 60, // 1 minute (stored)
+  S5 = 5, // 5 seconds (cached)
+  S20 = 20, // 20 seconds (cached)
+  M1 = 60, // 1 minute (stored, higher timeframes are rolled up from it)
   M5 = 300, // 5 minutes (stored)
   M30 = 1800, // 30 minutes (stored)
+  H1 = 3600, // 1 hour (stored)
+  H4 = 14400, // 4 hours (stored)
+  D1 = 86400, // 1 day (stored)
 }
 
+/**
+ * Timeframes and retention used without a `storage.ohlc` config section
+ */
+export const DEFAULT_OHLC_CONFIG: OHLCConfig = {
+  cached: [
+    { timeframe: OHLCTimeframe.S5, size: 720 }, // 1 hour of 5s candles
+    { timeframe: OHLCTimeframe.S20, size: 180 }, // 1 hour of 20s candles
+  ],
+  stored: [
+    { timeframe: OHLCTimeframe.M1, retentionDays: 14 },
+    { timeframe: OHLCTimeframe.M5, retentionDays: 30 },
+    { timeframe: OHLCTimeframe.M30, retentionDays: 90 },
+    { timeframe: OHLCTimeframe.H1, retentionDays: 365 },
+    { timeframe: OHLCTimeframe.H4, retentionDays: 730 },
+    { timeframe: OHLCTimeframe.D1 },
+  ],
+  compactionInterval: 3600,
+};
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Short label of a timeframe (60 -> "1m", 86400 -> "1d"), also its CCXT name
+ */
+const timeframeLabel = (timeframe: number): string => {
+  if (timeframe % 86400 === 0) return `${timeframe / 86400}d`;
+  if (timeframe % 3600 === 0) return `${timeframe / 3600}h`;
+  if (timeframe % 60 === 0) return `${timeframe / 60}m`;
+  return `${timeframe}s`;
+};
+
 /**
  * OHLC computation state for a timeframe
  */
@@ -54,10 +90,58 @@ const HISTORICAL_DATA_REQUIREMENTS = {
   FILL_DAYS: 14, // Fill with 2 weeks of data when missing
 };
 
+/**
+ * Candle table of a stored timeframe, one row per candle open timestamp
+ */
+const createCandleTable = (db: Database, tableName: string) => {
+  db.run(`
+    CREATE TABLE IF NOT EXISTS ${tableName} (
+      timestamp INTEGER PRIMARY KEY,
+      open REAL NOT NULL,
+      high REAL NOT NULL,
+      low REAL NOT NULL,
+      close REAL NOT NULL,
+      volume REAL NOT NULL,
+      created_at INTEGER DEFAULT (strftime('%s', 'now') * 1000)
+    )
+  `);
+
+  // Create index for timestamp queries
+  db.run(`
+    CREATE INDEX IF NOT EXISTS idx_${tableName}_timestamp
+    ON ${tableName}(timestamp)
+  `);
+};
+
+/**
+ * Schema history of the per-pair databases, applied when a pair database is opened
+ */
+export const OHLC_MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: "candle tables",
+    up: (db) => {
+      for (const tableName of ["candles_1m", "candles_5m", "candles_30m"]) {
+        createCandleTable(db, tableName);
+      }
+    },
+  },
+  {
+    version: 2,
+    name: "hourly and daily candle tables",
+    up: (db) => {
+      for (const tableName of ["candles_1h", "candles_4h", "candles_1d"]) {
+        createCandleTable(db, tableName);
+      }
+    },
+  },
+];
+
 /**
  * OHLC Storage Service
  * Manages per-pair SQLite databases with timeframe-specific tables
- * Handles real-time OHLC computation, caching, and historical data filling
+ * Handles real-time OHLC computation, caching, historical data filling and
+ * retention of the configured timeframes
  */
 export class OHLCStorageService {
   private databases: Map<string, Database> = new Map();
@@ -66,24 +150,46 @@ export class OHLCStorageService {
   private saveQueues: Map<string, Map<OHLCTimeframe, OHLCCandle[]>> = new Map();
   private isSaving: Map<string, Set<OHLCTimeframe>> = new Map();
   private ccxtExchange: any;
+  private compactionInterval: any = null;
+
+  // Stored timeframes (saved to disk), ascending from M1
+  private readonly storedTimeframes: OHLCTimeframe[];
+
+  // Cached timeframes (kept in memory only) and their size limits
+  private readonly cachedTimeframes: OHLCTimeframe[];
+  private readonly cacheLimits = new Map<OHLCTimeframe, number>();
+
+  // Retention of the stored timeframes that expire, in milliseconds
+  private readonly retention = new Map<OHLCTimeframe, number>();
+  private readonly compactionIntervalMs: number;
+
+  constructor(
+    private dataDir: string = "./data/ohlc",
+    config: OHLCConfig = DEFAULT_OHLC_CONFIG,
+  ) {
+    const stored = [...config.stored].sort((a, b) => a.timeframe - b.timeframe);
+    if (stored[0]?.timeframe !== OHLCTimeframe.M1) {
+      throw new Error("OHLC stored timeframes must include 1m (60s)");
+    }
+    const invalid = stored.find((s) => s.timeframe % OHLCTimeframe.M1 !== 0);
+    if (invalid) {
+      throw new Error(
+        `OHLC stored timeframe ${invalid.timeframe}s is not a whole number of minutes`,
+      );
+    }
 
-  // Stored timeframes (saved to disk)
-  private readonly STORED_TIMEFRAMES = [
-    OHLCTimeframe.M1,
-    OHLCTimeframe.M5,
-    OHLCTimeframe.M30,
-  ];
-
-  // Cached timeframes (kept in memory only)
-  private readonly CACHED_TIMEFRAMES = [OHLCTimeframe.S5, OHLCTimeframe.S20];
-
-  // Cache size limits
-  private readonly CACHE_LIMITS = {
-    [OHLCTimeframe.S5]: 720, // 1 hour of 5s candles
-    [OHLCTimeframe.S20]: 180, // 1 hour of 20s candles
-  };
+    this.storedTimeframes = stored.map((s) => s.timeframe);
+    for (const { timeframe, retentionDays } of stored) {
+      if (retentionDays) {
+        this.retention.set(timeframe, retentionDays * MS_PER_DAY);
+      }
+    }
+    this.cachedTimeframes = config.cached.map((c) => c.timeframe);
+    for (const { timeframe, size } of config.cached) {
+      this.cacheLimits.set(timeframe, size);
+    }
+    this.compactionIntervalMs = config.compactionInterval * 1000;
 
-  constructor(private dataDir: string = "./data/ohlc") {
     this.ccxtExchange = new ccxt.binance({
       sandbox: false,
       enableRateLimit: true,
@@ -97,9 +203,30 @@ export class OHLCStorageService {
     // Create data directory
     await mkdir(this.dataDir, { recursive: true });
 
+    // Drop expired candles now and periodically
+    await this.compact();
+    this.compactionInterval = setInterval(
+      () => this.compact(),
+      this.compactionIntervalMs,
+    );
+
     logger.info("OHLC Storage Service initialized");
   }
 
+  /**
+   * Cached then stored timeframes
+   */
+  getTimeframes(): OHLCTimeframe[] {
+    return [...this.cachedTimeframes, ...this.storedTimeframes];
+  }
+
+  /**
+   * Stored timeframes, ascending from M1
+   */
+  getStoredTimeframes(): OHLCTimeframe[] {
+    return [...this.storedTimeframes];
+  }
+
   /**
    * Get or create database for a trading pair
    */
@@ -111,26 +238,10 @@ export class OHLCStorageService {
     const dbPath = join(this.dataDir, `${pair}.db`);
     const db = new Database(dbPath);
 
-    // Create tables for each stored timeframe
-    for (const timeframe of this.STORED_TIMEFRAMES) {
-      const tableName = this.getTableName(timeframe);
-      db.run(`
-        CREATE TABLE IF NOT EXISTS ${tableName} (
-          timestamp INTEGER PRIMARY KEY,
-          open REAL NOT NULL,
-          high REAL NOT NULL,
-          low REAL NOT NULL,
-          close REAL NOT NULL,
-          volume REAL NOT NULL,
-          created_at INTEGER DEFAULT (strftime('%s', 'now') * 1000)
-        )
-      `);
-
-      // Create index for timestamp queries
-      db.run(`
-        CREATE INDEX IF NOT EXISTS idx_${tableName}_timestamp
-        ON ${tableName}(timestamp)
-      `);
+    migrate(db, dbPath, OHLC_MIGRATIONS);
+    // Configured timeframes outside the migrated defaults get their table here
+    for (const timeframe of this.storedTimeframes) {
+      createCandleTable(db, this.getTableName(timeframe));
     }
 
     this.databases.set(pair, db);
@@ -143,12 +254,7 @@ export class OHLCStorageService {
    * Get table name for timeframe
    */
   private getTableName(timeframe: OHLCTimeframe): string {
-    const names = {
-      [OHLCTimeframe.M1]: "candles_1m",
-      [OHLCTimeframe.M5]: "candles_5m",
-      [OHLCTimeframe.M30]: "candles_30m",
-    };
-    return (names as any)[timeframe];
+    return `candles_${timeframeLabel(timeframe)}`;
   }
 
   /**
@@ -198,16 +304,16 @@ export class OHLCStorageService {
       this.isSaving.set(pair, new Set());
 
       // Initialize cache for cached timeframes
-      for (const tf of this.CACHED_TIMEFRAMES) {
+      for (const tf of this.cachedTimeframes) {
         this.cacheStorage.get(pair)!.set(tf, {
           candles: [],
-          maxSize: (this.CACHE_LIMITS as any)[tf],
+          maxSize: this.cacheLimits.get(tf)!,
         });
         this.saveQueues.get(pair)!.set(tf, []);
       }
 
       // Initialize save queues for stored timeframes
-      for (const tf of this.STORED_TIMEFRAMES) {
+      for (const tf of this.storedTimeframes) {
         this.saveQueues.get(pair)!.set(tf, []);
       }
     }
@@ -215,13 +321,10 @@ export class OHLCStorageService {
     const pairStates = this.ohlcStates.get(pair)!;
     const pairCache = this.cacheStorage.get(pair)!;
 
-    // Process all timeframes
-    const allTimeframes = [
-      ...this.STORED_TIMEFRAMES,
-      ...this.CACHED_TIMEFRAMES,
-    ];
+    // Ticks build M1 and the cached timeframes, higher stored ones roll up M1
+    const tickTimeframes = [OHLCTimeframe.M1, ...this.cachedTimeframes];
 
-    for (const timeframe of allTimeframes) {
+    for (const timeframe of tickTimeframes) {
       await this.processTimeframeUpdate(
         pair,
         timeframe,
@@ -295,7 +398,7 @@ export class OHLCStorageService {
     candle: OHLCCandle,
     pairCache: Map<OHLCTimeframe, CacheEntry>,
   ): Promise<void> {
-    if (this.CACHED_TIMEFRAMES.includes(timeframe)) {
+    if (this.cachedTimeframes.includes(timeframe)) {
       // Save to cache
       const cache = pairCache.get(timeframe)!;
       cache.candles.push(candle);
@@ -311,6 +414,59 @@ export class OHLCStorageService {
 
       // Trigger async save (non-blocking)
       setImmediate(() => this.flushSaveQueue(pair, timeframe));
+
+      if (timeframe === OHLCTimeframe.M1) {
+        await this.rollUp(pair, candle);
+      }
+    }
+  }
+
+  /**
+   * Fold a closed M1 candle into the open candle of each higher stored
+   * timeframe, saved as it grows so a restart resumes it from the database
+   */
+  private async rollUp(pair: string, m1: OHLCCandle): Promise<void> {
+    const pairStates = this.ohlcStates.get(pair)!;
+    const saveQueues = this.saveQueues.get(pair)!;
+
+    for (const timeframe of this.storedTimeframes) {
+      if (timeframe === OHLCTimeframe.M1) continue;
+
+      const timeframeMs = timeframe * 1000;
+      const candleStartTime =
+        Math.floor(m1.timestamp / timeframeMs) * timeframeMs;
+      if (!pairStates.has(timeframe)) {
+        pairStates.set(timeframe, {
+          currentCandle: null,
+          lastSaveTimestamp: 0,
+        });
+      }
+      const state = pairStates.get(timeframe)!;
+
+      if (state.currentCandle?.timestamp !== candleStartTime) {
+        const [stored] = await this.getCandles(
+          pair as PairSymbol,
+          timeframe,
+          candleStartTime,
+          candleStartTime,
+          1,
+        );
+        state.currentCandle = stored ?? {
+          ...m1,
+          timestamp: candleStartTime,
+          volume: 0,
+        };
+      }
+
+      const candle = state.currentCandle;
+      candle.high = Math.max(candle.high, m1.high);
+      candle.low = Math.min(candle.low, m1.low);
+      candle.close = m1.close;
+      candle.volume += m1.volume;
+      state.lastSaveTimestamp = Date.now();
+
+      saveQueues.get(timeframe)!.push({ ...candle });
+      setImmediate(() => this.flushSaveQueue(pair, timeframe));
     }
   }
 
@@ -321,10 +477,10 @@ export class OHLCStorageService {
     pair: string,
     timeframe: OHLCTimeframe,
   ): Promise<void> {
-    const savingSet = this.isSaving.get(pair)!;
+    const savingSet = this.isSaving.get(pair);
 
-    // Prevent concurrent saves for the same pair/timeframe
-    if (savingSet.has(timeframe)) {
+    // Prevent concurrent saves for the same pair/timeframe, skip after shutdown
+    if (!savingSet || savingSet.has(timeframe)) {
       return;
     }
 
@@ -389,7 +545,7 @@ export class OHLCStorageService {
   ): Promise<OHLCCandle[]> {
     const pair = this.getPairFromSymbol(symbol);
 
-    if (this.CACHED_TIMEFRAMES.includes(timeframe)) {
+    if (this.cachedTimeframes.includes(timeframe)) {
       // Get from cache
       const pairCache = this.cacheStorage.get(pair);
       if (!pairCache) return [];
@@ -412,6 +568,10 @@ export class OHLCStorageService {
 
       return candles;
     } else {
+      if (!this.storedTimeframes.includes(timeframe)) {
+        throw new Error(`${timeframe}s candles are neither cached nor stored`);
+      }
+
       // Get from database
       const db = await this.getDatabase(pair);
       const tableName = this.getTableName(timeframe);
@@ -462,9 +622,13 @@ export class OHLCStorageService {
   async runDataSanityCheck(symbols: PairSymbol[]): Promise<void> {
     logger.info("Running OHLC data sanity check...");
 
+    // Within the M1 retention, so compaction does not trigger a refill
+    const minDays = Math.min(
+      HISTORICAL_DATA_REQUIREMENTS.MIN_DAYS,
+      this.getM1RetentionDays() / 2,
+    );
     const now = Date.now();
-    const minRequiredTime =
-      now - HISTORICAL_DATA_REQUIREMENTS.MIN_DAYS * 24 * 60 * 60 * 1000;
+    const minRequiredTime = now - minDays * MS_PER_DAY;
 
     for (const symbol of symbols) {
       const pair = this.getPairFromSymbol(symbol);
@@ -524,12 +688,15 @@ export class OHLCStorageService {
         return;
       }
 
+      const fillDays = Math.min(
+        HISTORICAL_DATA_REQUIREMENTS.FILL_DAYS,
+        this.getM1RetentionDays(),
+      );
       const now = Date.now();
-      const startTime =
-        now - HISTORICAL_DATA_REQUIREMENTS.FILL_DAYS * 24 * 60 * 60 * 1000;
+      const startTime = now - fillDays * MS_PER_DAY;
 
       logger.info(
-        `Fetching ${HISTORICAL_DATA_REQUIREMENTS.FILL_DAYS} days of ${timeframe}s data for ${pair}...`,
+        `Fetching ${fillDays} days of ${timeframe}s data for ${pair}...`,
       );
 
       // Convert to CCXT symbol format and fetch historical data
@@ -704,10 +871,18 @@ export class OHLCStorageService {
     pair: string,
     m1Candles: OHLCCandle[],
   ): Promise<void> {
-    const higherTimeframes = [OHLCTimeframe.M5, OHLCTimeframe.M30];
+    if (m1Candles.length === 0) return;
+    const higherTimeframes = this.storedTimeframes.filter(
+      (tf) => tf > OHLCTimeframe.M1,
+    );
 
     for (const timeframe of higherTimeframes) {
-      const constructedCandles = this.constructFromM1(m1Candles, timeframe);
+      // A candle opening before the first M1 candle is partial, and would
+      // overwrite a complete one kept longer than M1
+      const constructedCandles = this.constructFromM1(
+        m1Candles,
+        timeframe,
+      ).filter((c) => c.timestamp >= m1Candles[0].timestamp);
 
       if (constructedCandles.length > 0) {
         const db = await this.getDatabase(pair);
@@ -785,12 +960,47 @@ export class OHLCStorageService {
    * Convert our timeframe to CCXT timeframe format
    */
   private getCCXTTimeframe(timeframe: OHLCTimeframe): string | null {
-    const mapping = {
-      [OHLCTimeframe.M1]: "1m",
-      [OHLCTimeframe.M5]: "5m",
-      [OHLCTimeframe.M30]: "30m",
-    };
-    return (mapping as any)[timeframe] || null;
+    return this.storedTimeframes.includes(timeframe)
+      ? timeframeLabel(timeframe)
+      : null;
+  }
+
+  /**
+   * Days of M1 candles kept, Infinity without retention
+   */
+  private getM1RetentionDays(): number {
+    const retentionMs = this.retention.get(OHLCTimeframe.M1);
+    return retentionMs ? retentionMs / MS_PER_DAY : Infinity;
+  }
+
+  /**
+   * Drop candles past their timeframe's retention from every pair database
+   */
+  async compact(now: number = Date.now()): Promise<number> {
+    const files = await readdir(this.dataDir).catch(() => [] as string[]);
+    let dropped = 0;
+
+    for (const file of files.filter((f) => f.endsWith(".db"))) {
+      const pair = file.slice(0, -".db".length);
+      try {
+        const db = await this.getDatabase(pair);
+        for (const [timeframe, retentionMs] of this.retention) {
+          const result = db
+            .prepare(
+              `DELETE FROM ${this.getTableName(timeframe)} WHERE timestamp < ?`,
+            )
+            .run(now - retentionMs);
+          dropped += result.changes;
+        }
+      } catch (error) {
+        logger.error(`Failed to compact OHLC candles for ${pair}:`, error);
+      }
+    }
+
+    if (dropped > 0) {
+      logger.info(`🧹 Dropped ${dropped} expired OHLC candles`);
+    }
+    return dropped;
   }
 
   /**
@@ -801,7 +1011,7 @@ export class OHLCStorageService {
     const stats: Record<string, any> = {};
 
     // Database stats
-    for (const timeframe of this.STORED_TIMEFRAMES) {
+    for (const timeframe of this.storedTimeframes) {
       try {
         const candles = await this.getCandles(
           symbol,
@@ -840,7 +1050,7 @@ export class OHLCStorageService {
     // Cache stats
     const pairCache = this.cacheStorage.get(pair);
     if (pairCache) {
-      for (const timeframe of this.CACHED_TIMEFRAMES) {
+      for (const timeframe of this.cachedTimeframes) {
         const cache = pairCache.get(timeframe);
         if (cache) {
           stats[`${timeframe}s_cache`] = {
@@ -858,11 +1068,16 @@ export class OHLCStorageService {
    * Close all databases and cleanup
    */
   async shutdown(): Promise<void> {
+    if (this.compactionInterval) {
+      clearInterval(this.compactionInterval);
+      this.compactionInterval = null;
+    }
+
     // Flush all pending saves
     const flushPromises: Promise<void>[] = [];
 
     for (const [pair, saveQueues] of this.saveQueues) {
-      for (const timeframe of this.STORED_TIMEFRAMES) {
+      for (const timeframe of this.storedTimeframes) {
         flushPromises.push(this.flushSaveQueue(pair, timeframe));
       }
     }
@@ -894,7 +1109,10 @@ let ohlcStorageInstance: OHLCStorageService | null = null;
 
 export function initOHLCStorage(dataDir?: string): OHLCStorageService {
   if (!ohlcStorageInstance) {
-    ohlcStorageInstance = new OHLCStorageService(dataDir);
+    ohlcStorageInstance = new OHLCStorageService(
+      dataDir,
+      getStorageConfig().ohlc,
+    );
   }
   return ohlcStorageInstance;
 }
@@ -222,15 +222,15 @@ class OneInchOrderCacheService {
    * Calculate aggregated order state for a 1edge order with multiple 1inch orders
    */
   calculateAggregatedState(orderHashes: string[]): {
-    totalFilled: number;
-    totalRemaining: number;
+    totalFilled: string; // Base units
+    totalRemaining: string; // Base units
     hasPartialFills: boolean;
     isCompletelyFilled: boolean;
     allOrdersValid: boolean;
     invalidReasons: string[];
   } {
-    let totalFilled = 0;
-    let totalRemaining = 0;
+    let totalFilled = 0n;
+    let totalRemaining = 0n;
     let hasPartialFills = false;
     let invalidReasons: string[] = [];
 
@@ -241,14 +241,14 @@ class OneInchOrderCacheService {
         continue;
       }
 
-      const remaining = parseFloat(order.remainingMakerAmount);
-      const original = parseFloat(order.data.makingAmount);
+      const remaining = BigInt(order.remainingMakerAmount);
+      const original = BigInt(order.data.makingAmount);
       const filled = original - remaining;
 
       totalRemaining += remaining;
       totalFilled += filled;
 
-      if (filled > 0) {
+      if (filled > 0n) {
         hasPartialFills = true;
       }
 
@@ -258,10 +258,10 @@ class OneInchOrderCacheService {
     }
 
     return {
-      totalFilled,
-      totalRemaining,
+      totalFilled: totalFilled.toString(),
+      totalRemaining: totalRemaining.toString(),
       hasPartialFills,
-      isCompletelyFilled: totalRemaining === 0 && totalFilled > 0,
+      isCompletelyFilled: totalRemaining === 0n && totalFilled > 0n,
       allOrdersValid: invalidReasons.length === 0,
       invalidReasons: [...new Set(invalidReasons)], // Remove duplicates
     };
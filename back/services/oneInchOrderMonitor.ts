@@ -5,6 +5,8 @@ import { logger } from "@back/utils/logger";
 import { pubSubServer } from "./pubSubServer";
 import axios, { AxiosResponse } from "axios";
 import { sleep } from "@common/utils";
+import type { ChildOrderRecord } from "@common/types";
+import { getChildOrder, updateChildOrderRemaining } from "./storage";
 
 /**
  * 1inch order data structure from API
@@ -293,8 +295,10 @@ class OneInchOrderMonitorService {
   private async publishOrderUpdate(order: OneInchOrderData) {
     try {
       const channel = `1inch-orders.${order.orderHash}`;
+      const child = await this.recordChildOrder(order);
       const updateData = {
         ...order,
+        orderId: child?.orderId, // Parent 1edge order, if spawned by one
         lastUpdate: Date.now(),
         monitorTimestamp: this.lastPollTime,
       };
@@ -312,6 +316,30 @@ class OneInchOrderMonitorService {
     }
   }
 
+  /**
+   * Persist the remaining amount on the matching child order (hash lookup)
+   */
+  private async recordChildOrder(
+    order: OneInchOrderData,
+  ): Promise<ChildOrderRecord | null> {
+    try {
+      // Removed orders report 0 remaining whether filled or cancelled
+      if (order.orderInvalidReason === "removed_from_api") {
+        return await getChildOrder(order.orderHash);
+      }
+      return await updateChildOrderRemaining(
+        order.orderHash,
+        order.remainingMakerAmount,
+      );
+    } catch (error) {
+      // Storage is not initialized when the monitor runs standalone
+      logger.debug(
+        `Child order ${order.orderHash.slice(0, 10)}... not recorded: ${error}`,
+      );
+      return null;
+    }
+  }
+
   /**
    * Get current order data from cache
    */
@@ -1,6 +1,6 @@
 #!/usr/bin/env bun
 
-import { getServiceConfig } from "./config";
+import { getServiceConfig, getNetworkConfig } from "./config";
 import {
   initStorage,
   saveOrder,
@@ -9,25 +9,58 @@ import {
   getPendingOrders,
   saveOrderEvent,
   getOrdersByMaker,
+  getMakerNonce,
+  consumeMakerNonce,
+  getGridLevels,
+  getArmedBrackets,
+  getSpreadPosition,
 } from "./storage";
 import { logger } from "@back/utils/logger";
-import type { Order, KeeperConfig } from "@common/types";
-import { OrderStatus, OrderType } from "@common/types";
+import type {
+  Order,
+  OrderIntent,
+  OrderParams,
+  KeeperConfig,
+  PairSymbol,
+} from "@common/types";
+import { OrderIntentAction, OrderStatus } from "@common/types";
 import { sleep, generateId } from "@common/utils";
-import { getOrderWatcher } from "@back/orders";
+import { getOrderWatcher, type OrderWatcher } from "@back/orders";
+import { TimerWheel } from "@back/utils/timerWheel";
 import { ethers } from "ethers";
-import type { TwapParams, RangeOrderParams } from "@common/types";
 import { SERVICE_PORTS } from "@common/constants";
+import {
+  buildOrderIntentTypedData,
+  buildOrderTypedData,
+  getUnsignedParamKeys,
+  UNAUCTIONED_ORDER_TYPES,
+} from "@common/eip712";
+import { DEFAULT_CHAIN_ID, getChainContext } from "./chainContext";
+import {
+  hasBaseUnitAmounts,
+  parseBaseUnits,
+  resolveLegacyAmounts,
+} from "./tokenDecimals";
 import { oneInchOrderCache } from "./oneInchOrderCache";
 import { oneInchOrderMonitor } from "./oneInchOrderMonitor";
+import { priceCache } from "./priceCache";
+
+const TIMER_WHEEL_TICK_MS = 1000;
+const DEFAULT_SWEEP_INTERVAL_MS = 30_000;
 
 class OrderRegistryService {
   private config: KeeperConfig;
   private isRunning: boolean = false;
-  private activeOrders: Set<string> = new Set(); // Track active order IDs
+  private activeOrders: Map<string, Order> = new Map(); // In-memory copy of tracked orders
+  private symbolIndex: Map<PairSymbol, Set<string>> = new Map(); // Price feed -> watching order IDs
+  private orderSymbols: Map<string, PairSymbol[]> = new Map(); // Order ID -> watched price feeds
+  private timerWheel = new TimerWheel<string>(TIMER_WHEEL_TICK_MS);
+  private inFlight: Map<string, Promise<void>> = new Map(); // Orders currently being evaluated
+  private rerun: Set<string> = new Set(); // Orders woken again while in flight
+  private unsubscribePrices?: () => void;
   private mockMode: boolean = false;
   private server?: any;
-  private watchInterval?: any; // Single interval for all orders
+  private sweepInterval?: any; // Safety sweep over all tracked orders
 
   constructor(mockMode: boolean = false) {
     this.config = getServiceConfig("keeper");
@@ -57,31 +90,96 @@ class OrderRegistryService {
       await this.startHttpServer();
     }
 
+    // Wake price-driven orders on pub/sub price updates (mock mode polls the mocked cache instead)
+    if (!this.mockMode) {
+      try {
+        await priceCache.connect();
+        this.unsubscribePrices = priceCache.subscribe((symbol) =>
+          this.onPriceUpdate(symbol),
+        );
+      } catch (error) {
+        logger.warn("Failed to subscribe to price feed, falling back to polling:", error);
+      }
+    }
+
     // Load active orders from database
     const activeOrders = await getActiveOrders();
     for (const order of activeOrders) {
-      this.activeOrders.add(order.id);
+      const trackable = await this.withBaseUnitAmounts(order);
+      if (trackable) this.track(trackable);
+    }
+
+    // Filled orders whose bracket is still armed
+    const armedBrackets = await getArmedBrackets();
+    for (const bracket of armedBrackets) {
+      const order = await getOrder(bracket.orderId);
+      const trackable = order && (await this.withBaseUnitAmounts(order));
+      if (trackable) this.track(trackable);
     }
 
     logger.info(
-      `Order Registry service started with ${activeOrders.length} active orders`,
+      `Order Registry service started with ${activeOrders.length} active orders and ${armedBrackets.length} armed brackets`,
     );
 
-    // Start a single watch interval that processes all orders
-    this.startWatchInterval();
+    // Time-based orders are woken by the timer wheel
+    this.timerWheel.start((orderIds) => {
+      for (const orderId of orderIds) this.wake(orderId);
+    });
+
+    this.startSweep();
+  }
+
+  /**
+   * Order with its legacy decimal amounts converted to base units, resolving
+   * token decimals on-chain if needed. Orders that cannot be converted are
+   * reported with a failed event and left untracked
+   */
+  private async withBaseUnitAmounts(order: Order): Promise<Order | null> {
+    if (hasBaseUnitAmounts(order)) return order;
+
+    let reason = "token decimals unavailable";
+    try {
+      const { provider } = getChainContext(
+        order.params?.chainId || DEFAULT_CHAIN_ID,
+      );
+      const resolved = await resolveLegacyAmounts(order, provider);
+      if (resolved) return resolved;
+    } catch (error) {
+      reason = error instanceof Error ? error.message : String(error);
+    }
+
+    logger.error(
+      `❌ Order ${order.id} has legacy decimal amounts that cannot be converted to base units (${reason}), not tracking it`,
+    );
+    await saveOrderEvent({
+      orderId: order.id,
+      status: order.status,
+      timestamp: Date.now(),
+      error: `Legacy decimal amounts not converted: ${reason}`,
+    });
+    return null;
   }
 
   async stop() {
     logger.info("Stopping Order Registry service...");
     this.isRunning = false;
 
-    // Stop watch interval
-    if (this.watchInterval) {
-      clearInterval(this.watchInterval);
-      this.watchInterval = undefined;
+    // Stop sweep, timers and price subscription
+    if (this.sweepInterval) {
+      clearInterval(this.sweepInterval);
+      this.sweepInterval = undefined;
+    }
+    this.timerWheel.stop();
+    this.timerWheel.clear();
+    if (this.unsubscribePrices) {
+      this.unsubscribePrices();
+      this.unsubscribePrices = undefined;
+      await priceCache.disconnect();
     }
 
     this.activeOrders.clear();
+    this.symbolIndex.clear();
+    this.orderSymbols.clear();
 
     // Stop 1inch order monitoring services
     if (!this.mockMode) {
@@ -104,19 +202,141 @@ class OrderRegistryService {
   }
 
   async createOrder(order: Order) {
-    if (!this.validateOrderSignature(order)) {
+    if (!(await this.validateOrderSignature(order))) {
       throw new Error("Invalid order signature");
     }
 
-    // Validate that order has required params
+    // Rejected orders leave the nonce they were signed with usable
+    this.validateOrderParams(order);
+    const maker = order.params!.maker;
+    if (!(await consumeMakerNonce(maker, Number(order.nonce)))) {
+      logger.warn(
+        `Stale nonce ${order.nonce} for maker ${maker} (order ${order.id})`,
+      );
+      throw new Error("Invalid order signature");
+    }
+
+    await this.registerOrder(order);
+  }
+
+  /**
+   * Cancel an order on behalf of its maker, given a signed CANCEL intent
+   */
+  async cancelOrder(intent: OrderIntent): Promise<void> {
+    const order =
+      this.activeOrders.get(intent.orderId) ?? (await getOrder(intent.orderId));
+    if (!order) {
+      throw new Error(`Order ${intent.orderId} not found`);
+    }
+
+    await this.authorizeIntent(order, intent, OrderIntentAction.CANCEL);
+    await this.markCancelled(order);
+  }
+
+  /**
+   * Replace an order's params on behalf of its maker, given a signed MODIFY intent.
+   * The existing order is cancelled and a new one is registered under a new ID.
+   */
+  async modifyOrder(intent: OrderIntent): Promise<string> {
+    const existingOrder =
+      this.activeOrders.get(intent.orderId) ?? (await getOrder(intent.orderId));
+    if (!existingOrder) {
+      throw new Error(`Order ${intent.orderId} not found`);
+    }
+
+    // The intent signature covers the replacement params inside the MODIFY
+    // intent, which is stored with the new order as its signed payload
+    const newOrder: Order = {
+      id: generateId(),
+      params: intent.params && {
+        ...intent.params,
+        chainId: intent.params.chainId || existingOrder.params!.chainId,
+      },
+      signature: intent.signature,
+      nonce: intent.nonce,
+      deadline: intent.deadline,
+      status: OrderStatus.PENDING,
+      remainingMakerAmount: "0",
+      triggerCount: 0,
+      createdAt: Date.now(),
+      signedIntent: intent,
+    };
+
+    // Rejected replacements leave the existing order and the nonce untouched
+    await this.authorizeIntent(
+      existingOrder,
+      intent,
+      OrderIntentAction.MODIFY,
+      () => this.validateOrderParams(newOrder),
+    );
+    await this.markCancelled(existingOrder);
+    await this.registerOrder(newOrder);
+
+    logger.info(
+      `Order ${intent.orderId} modified successfully, new order: ${newOrder.id}`,
+    );
+    return newOrder.id;
+  }
+
+  /**
+   * Check an order's params before it is stored (throws with the reason)
+   */
+  private validateOrderParams(order: Order): void {
     if (!order.params?.makingAmount) {
       throw new Error("Order must have params.makingAmount defined");
     }
+    // Amounts are base units of their asset, never decimals
+    const { makingAmount, takingAmount } = order.params;
+    if (parseBaseUnits(makingAmount, "params.makingAmount") === 0n) {
+      throw new Error("params.makingAmount must be greater than 0");
+    }
+    if (takingAmount !== undefined) {
+      parseBaseUnits(takingAmount, "params.takingAmount");
+    }
+    if (order.params.type) {
+      getOrderWatcher(order.params.type)?.validateOrder?.(order);
+    }
+    this.validateAuctionParams(order.params);
+  }
+
+  /**
+   * Slice auctions need an end price, a duration and a calculator on the order's
+   * chain, and an order type whose slices are auctioned
+   */
+  private validateAuctionParams(params: OrderParams): void {
+    const { auctionPremiumPct, auctionEndPrice, auctionDuration } = params;
+    if (
+      auctionPremiumPct === undefined &&
+      auctionEndPrice === undefined &&
+      auctionDuration === undefined
+    ) {
+      return;
+    }
+    if (UNAUCTIONED_ORDER_TYPES.has(params.type)) {
+      throw new Error(`${params.type} orders do not support auctions`);
+    }
+    if (!(auctionEndPrice! > 0) || !(auctionDuration! > 0)) {
+      throw new Error("Auctions need auctionEndPrice and auctionDuration > 0");
+    }
+    if (auctionPremiumPct !== undefined && !(auctionPremiumPct >= 0)) {
+      throw new Error("auctionPremiumPct must be >= 0");
+    }
+    const chainId = params.chainId || DEFAULT_CHAIN_ID;
+    if (!getNetworkConfig(chainId)?.dutchAuctionCalculator) {
+      throw new Error(
+        `No DutchAuctionCalculator configured for chain ${chainId}`,
+      );
+    }
+  }
 
+  /**
+   * Persist a verified and validated order and start watching it
+   */
+  private async registerOrder(order: Order) {
     // Initialize order fields with proper defaults
     order.status = OrderStatus.PENDING;
     order.triggerCount = 0;
-    order.remainingMakerAmount = order.params.makingAmount;
+    order.remainingMakerAmount = order.params!.makingAmount!;
     order.createdAt = Date.now();
 
     // Set other required fields to null if not provided
@@ -147,21 +367,33 @@ class OrderRegistryService {
       timestamp: Date.now(),
     });
 
-    // Add to active orders set
-    this.activeOrders.add(cleanOrder.id);
+    // Start watching the order
+    this.track(cleanOrder);
 
     logger.info(`Order ${cleanOrder.id} registered successfully`);
   }
 
-  async cancelOrder(orderId: string): Promise<void> {
-    const order = await getOrder(orderId);
-    if (!order) {
-      throw new Error(`Order ${orderId} not found`);
+  /**
+   * Mark an order cancelled and stop watching it
+   */
+  private async markCancelled(order: Order): Promise<void> {
+    // Stop watching the order, then let an in-flight evaluation finish so a
+    // slice it is placing is cancelled too (it may have re-tracked the order)
+    this.untrack(order.id);
+    await this.inFlight.get(order.id);
+    this.untrack(order.id);
+
+    // Spawned 1inch orders must be cancelled on-chain before the status flips
+    const watcher = order.params?.type
+      ? getOrderWatcher(order.params.type)
+      : undefined;
+    try {
+      await watcher?.cancelChildOrders?.(order, OrderStatus.CANCELLED);
+    } catch (error) {
+      this.track(order);
+      throw error;
     }
 
-    // Remove from active orders
-    this.activeOrders.delete(orderId);
-
     // Update order status
     order.status = OrderStatus.CANCELLED;
     order.cancelledAt = Date.now();
@@ -174,77 +406,142 @@ class OrderRegistryService {
       timestamp: Date.now(),
     });
 
-    logger.info(`Order ${orderId} cancelled successfully`);
+    logger.info(`Order ${order.id} cancelled successfully`);
+  }
+
+  /**
+   * Start watching an order: index it by price feed and schedule its next wake time
+   */
+  private track(order: Order) {
+    this.activeOrders.set(order.id, order);
+
+    const watcher = order.params?.type
+      ? getOrderWatcher(order.params.type)
+      : undefined;
+    if (!watcher) return;
+
+    if (!this.orderSymbols.has(order.id)) {
+      const symbols = watcher.getWatchedSymbols?.(order) ?? [];
+      for (const symbol of symbols) {
+        let ids = this.symbolIndex.get(symbol);
+        if (!ids) {
+          ids = new Set();
+          this.symbolIndex.set(symbol, ids);
+        }
+        ids.add(order.id);
+      }
+      this.orderSymbols.set(order.id, symbols);
+    }
+
+    this.scheduleWake(order, watcher, true);
   }
 
-  async modifyOrder(
-    orderId: string,
-    newOrderData: Partial<Order>,
-  ): Promise<string> {
-    // Cancel existing order
-    await this.cancelOrder(orderId);
+  /**
+   * Stop watching an order
+   */
+  private untrack(orderId: string) {
+    this.activeOrders.delete(orderId);
+    this.timerWheel.cancel(orderId);
 
-    // Create new order with updated data
-    const existingOrder = await getOrder(orderId);
-    if (!existingOrder) {
-      throw new Error(`Order ${orderId} not found`);
+    for (const symbol of this.orderSymbols.get(orderId) ?? []) {
+      const ids = this.symbolIndex.get(symbol);
+      ids?.delete(orderId);
+      if (ids?.size === 0) this.symbolIndex.delete(symbol);
+    }
+    this.orderSymbols.delete(orderId);
+  }
+
+  /**
+   * Put a time-based order on the timer wheel at its next trigger time.
+   * Once evaluated, orders still due but held back (e.g. by maxPrice) are left to the sweep.
+   */
+  private scheduleWake(order: Order, watcher: OrderWatcher, allowDue: boolean) {
+    const wakeAt = watcher.getNextWakeTime?.(order);
+    if (typeof wakeAt !== "number" || (!allowDue && wakeAt <= Date.now())) {
+      this.timerWheel.cancel(order.id);
+      return;
     }
+    this.timerWheel.schedule(order.id, wakeAt);
+  }
 
-    const newOrder: Order = {
-      ...existingOrder,
-      ...newOrderData,
-      id: generateId(), // New ID
-      status: OrderStatus.PENDING,
-      createdAt: Date.now(),
-      triggerCount: 0,
-      cancelledAt: undefined,
-      executedAt: undefined,
-    };
+  private onPriceUpdate(symbol: PairSymbol) {
+    const orderIds = this.symbolIndex.get(symbol);
+    if (!orderIds) return;
+    for (const orderId of orderIds) this.wake(orderId);
+  }
 
-    await this.createOrder(newOrder);
+  /**
+   * Evaluate an order, coalescing wake-ups that arrive while it is in flight
+   */
+  private wake(orderId: string) {
+    if (!this.isRunning) return;
+    if (this.inFlight.has(orderId)) {
+      this.rerun.add(orderId);
+      return;
+    }
 
-    logger.info(
-      `Order ${orderId} modified successfully, new order: ${newOrder.id}`,
-    );
-    return newOrder.id;
+    let settle!: () => void;
+    this.inFlight.set(orderId, new Promise((resolve) => (settle = resolve)));
+    (async () => {
+      try {
+        do {
+          this.rerun.delete(orderId);
+          await this.processOrder(orderId);
+        } while (this.rerun.has(orderId) && this.isRunning);
+      } catch (error) {
+        logger.error(`Error processing order ${orderId}:`, error);
+      } finally {
+        this.inFlight.delete(orderId);
+        this.rerun.delete(orderId);
+        settle();
+      }
+    })();
   }
 
-  private startWatchInterval() {
-    // Process all active orders every 5 seconds
-    this.watchInterval = setInterval(async () => {
+  /**
+   * Safety net re-evaluating every tracked order: catches missed updates, orders
+   * held back by price constraints and on-chain fills. Without a price feed
+   * (mock mode) it polls at the keeper poll interval instead.
+   */
+  private startSweep() {
+    const intervalMs = this.unsubscribePrices
+      ? this.config.sweepIntervalMs || DEFAULT_SWEEP_INTERVAL_MS
+      : this.config.pollIntervalMs || 5000;
+
+    this.sweepInterval = setInterval(() => {
       if (!this.isRunning) return;
 
-      // Process orders in batches to avoid blocking
-      const orderIds = Array.from(this.activeOrders);
-      logger.debug(`📊 Processing ${orderIds.length} active orders: [${orderIds.join(', ')}]`);
-      
-      for (const orderId of orderIds) {
-        try {
-          await this.processOrder(orderId);
-        } catch (error) {
-          logger.error(`Error processing order ${orderId}:`, error);
-        }
+      logger.debug(`📊 Sweeping ${this.activeOrders.size} active orders`);
+      for (const orderId of this.activeOrders.keys()) {
+        this.wake(orderId);
       }
-    }, 5000); // 5 seconds
+    }, intervalMs);
   }
 
   private async processOrder(orderId: string) {
     logger.debug(`🔍 Processing order: ${orderId}`);
-    const order = await getOrder(orderId);
+    const order = this.activeOrders.get(orderId);
     if (!order) {
-      logger.warn(`Order ${orderId} not found in database, removing from active set`);
-      this.activeOrders.delete(orderId);
+      this.untrack(orderId);
       return;
     }
 
     // Remove completed/failed orders from tracking
     if (
-      order.status === OrderStatus.FILLED ||
       order.status === OrderStatus.CANCELLED ||
       order.status === OrderStatus.FAILED ||
       order.status === OrderStatus.EXPIRED
     ) {
-      this.activeOrders.delete(orderId);
+      this.untrack(orderId);
+      return;
+    }
+
+    // Filled orders stay tracked while their take-profit / stop-loss bracket is live
+    if (order.status === OrderStatus.FILLED) {
+      const watcher = order.params?.type
+        ? getOrderWatcher(order.params.type)
+        : undefined;
+      if (!(await watcher?.updateBracket?.(order))) this.untrack(orderId);
       return;
     }
 
@@ -270,27 +567,47 @@ class OrderRegistryService {
     ) {
       await (watcher as any).updateOrderFromOnChain?.(order);
 
-      // Check if order completed after update
-      const updatedOrder = await getOrder(orderId);
-      if (updatedOrder?.status === OrderStatus.FILLED) {
+      // Check if order completed after update (the watcher updates it in place)
+      if ((order.status as OrderStatus) === OrderStatus.FILLED) {
         logger.info(`🎉 Order ${orderId.slice(0, 8)}... completed - all underlying 1inch orders filled`);
-        this.activeOrders.delete(orderId);
+        this.untrack(orderId);
+        if (watcher.hasBracket?.(order)) {
+          // Re-indexed on the bracket's price feeds
+          this.track(order);
+          this.wake(orderId);
+        }
         return;
       }
     }
 
-    // Check if trigger conditions are met for PENDING orders
+    // Check if trigger conditions are met for PENDING orders, and for
+    // ACTIVE/PARTIALLY_FILLED ones whose watcher keeps triggering
     logger.debug(`Order ${order.id} status: ${order.status}`);
-    if (order.status === OrderStatus.PENDING) {
+    const canTrigger =
+      order.status === OrderStatus.PENDING ||
+      ((order.status === OrderStatus.ACTIVE ||
+        order.status === OrderStatus.PARTIALLY_FILLED) &&
+        !!watcher.isRecurring?.(order));
+    if (canTrigger) {
       // Check if order has expired before triggering
       if ((watcher as any).isExpired?.(order)) {
         logger.info(
           `⏰ Order ${order.id.slice(0, 8)}... has expired before triggering`,
         );
+        try {
+          await watcher.cancelChildOrders?.(order, OrderStatus.EXPIRED);
+        } catch (error) {
+          // Retried on the next evaluation
+          logger.error(
+            `Failed to cancel 1inch orders of expired order ${order.id}:`,
+            error,
+          );
+          return;
+        }
         order.status = OrderStatus.EXPIRED;
         order.cancelledAt = Date.now();
         await saveOrder(order);
-        this.activeOrders.delete(orderId);
+        this.untrack(orderId);
 
         await saveOrderEvent({
           orderId: order.id,
@@ -311,8 +628,15 @@ class OrderRegistryService {
           `🚀 Triggering order ${order.id.slice(0, 8)}... (${orderType})`,
         );
 
-        // Calculate amounts for this trigger
-        const amounts = await this.calculateTriggerAmounts(order);
+        // Slice size comes from the watcher, clamped to what is left
+        const amounts = await this.calculateTriggerAmounts(order, watcher);
+        const sliceAmount = BigInt(amounts.makingAmount);
+        if (sliceAmount === 0n) {
+          logger.warn(
+            `Order ${order.id.slice(0, 8)}... has nothing left to trigger (remaining ${order.remainingMakerAmount})`,
+          );
+          return;
+        }
 
         // Let the watcher handle the execution (creates 1inch order and submits)
         await watcher.trigger(
@@ -321,12 +645,13 @@ class OrderRegistryService {
           amounts.takingAmount,
         );
 
-        // Order state is updated within the trigger method
+        // Order state is updated within the trigger method; the slice is no longer available
+        this.recordTrigger(order, sliceAmount);
 
-        // Let watcher update next trigger if needed
-        if (watcher.updateNextTrigger) {
-          watcher.updateNextTrigger(order);
-        }
+        // Let watcher update next trigger if needed, then persist it
+        watcher.updateNextTrigger?.(order);
+        await saveOrder(order);
+        this.scheduleWake(order, watcher, false);
 
         // Create order event
         await saveOrderEvent({
@@ -342,7 +667,7 @@ class OrderRegistryService {
         await saveOrder(order);
 
         // Remove from active orders
-        this.activeOrders.delete(orderId);
+        this.untrack(orderId);
 
         // Create failed event
         await saveOrderEvent({
@@ -355,49 +680,39 @@ class OrderRegistryService {
     }
   }
 
-  private async calculateTriggerAmounts(order: Order): Promise<{
+  /**
+   * Amounts for the next slice: the watcher sizes it, and slices never add up
+   * to more than makingAmount (takingAmount is priced by the watcher at trigger time)
+   */
+  private async calculateTriggerAmounts(
+    order: Order,
+    watcher: OrderWatcher,
+  ): Promise<{
     makingAmount: string;
     takingAmount: string;
   }> {
-    // For orders with specific makingAmount params, calculate based on type
-    if (order.params?.makingAmount) {
-      const totalMakingAmount = order.params.makingAmount;
-
-      // Calculate how much to execute for this trigger
-      let triggerRatio = 1; // Default to full amount
-
-      if (order.params.type === OrderType.TWAP) {
-        const params = order.params as TwapParams;
-        const duration = params.endDate - params.startDate;
-        if (duration > 0 && params.interval > 0) {
-          const intervals = Math.ceil(duration / params.interval);
-          triggerRatio = 1 / intervals;
-        }
-      } else if (order.params.type === OrderType.RANGE) {
-        const params = order.params as RangeOrderParams;
-        const priceRange = Math.abs(params.endPrice - params.startPrice);
-        const stepSize = priceRange * (params.stepPct / 100);
-        const steps = Math.ceil(priceRange / stepSize);
-        triggerRatio = 1 / steps;
-      }
+    const remaining = BigInt(order.remainingMakerAmount || "0");
+    const amount = await watcher.getTriggerAmount(order);
+    const requested = /^\d+$/.test(amount) ? BigInt(amount) : 0n;
+    const makingAmount = requested < remaining ? requested : remaining;
 
-      const triggerMakingAmount = totalMakingAmount * triggerRatio;
-
-      // For now, return string representation for 1inch integration
-      // We'll calculate takingAmount dynamically in the watcher based on current price
-      return {
-        makingAmount: triggerMakingAmount.toString(),
-        takingAmount: "0", // Will be calculated dynamically based on current price
-      };
-    }
-
-    // Fallback: use remaining amount
     return {
-      makingAmount: order.remainingMakerAmount.toString(),
-      takingAmount: "0", // Will be calculated dynamically
+      makingAmount: makingAmount.toString(),
+      takingAmount: "0", // Will be calculated dynamically based on current price
     };
   }
 
+  /**
+   * Deduct a triggered slice from the amount still available to the order
+   */
+  private recordTrigger(order: Order, sliceAmount: bigint) {
+    const remaining = BigInt(order.remainingMakerAmount || "0") - sliceAmount;
+    order.remainingMakerAmount = (remaining > 0n ? remaining : 0n).toString();
+    logger.debug(
+      `Order ${order.id.slice(0, 8)}... sliced ${sliceAmount}, remaining ${order.remainingMakerAmount}`,
+    );
+  }
+
   private async startHttpServer() {
     const port = SERVICE_PORTS.ORDER_REGISTRY;
 
@@ -443,6 +758,28 @@ class OrderRegistryService {
             );
           }
 
+          // Get the next signature nonce for a maker
+          if (path.startsWith("/nonces/") && method === "GET") {
+            const maker = path.split("/")[2];
+            if (!ethers.isAddress(maker)) {
+              return new Response(
+                JSON.stringify({ success: false, error: "Invalid maker address" }),
+                {
+                  status: 400,
+                  headers: { "Content-Type": "application/json", ...corsHeaders },
+                },
+              );
+            }
+
+            const nonce = await getMakerNonce(maker);
+            return new Response(
+              JSON.stringify({ success: true, data: { maker, nonce } }),
+              {
+                headers: { "Content-Type": "application/json", ...corsHeaders },
+              },
+            );
+          }
+
           // Get orders (with optional maker filter)
           if (path === "/orders" && method === "GET") {
             const makerAddress = url.searchParams.get("maker");
@@ -462,6 +799,49 @@ class OrderRegistryService {
             );
           }
 
+          // Get grid levels and realized PnL of a grid order
+          if (path.startsWith("/orders/") && path.endsWith("/grid") && method === "GET") {
+            const orderId = path.split("/")[2];
+            const levels = await getGridLevels(orderId);
+            const realizedPnl = levels.reduce(
+              (total, level) => total + level.realizedPnl,
+              0,
+            );
+
+            return new Response(
+              JSON.stringify({ success: true, data: { levels, realizedPnl } }),
+              {
+                headers: { "Content-Type": "application/json", ...corsHeaders },
+              },
+            );
+          }
+
+          // Get the legs and realized PnL of a spread order's position
+          if (path.startsWith("/orders/") && path.endsWith("/spread") && method === "GET") {
+            const orderId = path.split("/")[2];
+            const position = await getSpreadPosition(orderId);
+
+            if (!position) {
+              return new Response(
+                JSON.stringify({ success: false, error: "Spread position not found" }),
+                {
+                  status: 404,
+                  headers: {
+                    "Content-Type": "application/json",
+                    ...corsHeaders,
+                  },
+                },
+              );
+            }
+
+            return new Response(
+              JSON.stringify({ success: true, data: position }),
+              {
+                headers: { "Content-Type": "application/json", ...corsHeaders },
+              },
+            );
+          }
+
           // Get specific order
           if (path.startsWith("/orders/") && method === "GET") {
             const orderId = path.split("/")[2];
@@ -488,24 +868,33 @@ class OrderRegistryService {
             );
           }
 
-          // Cancel order
+          // Cancel order (body: signed CANCEL intent)
           if (
             path.startsWith("/orders/") &&
-            path.endsWith("/cancel") &&
-            method === "POST"
+            ((path.endsWith("/cancel") && method === "POST") ||
+              method === "DELETE")
           ) {
             const orderId = path.split("/")[2];
-            await this.cancelOrder(orderId);
+            const intent = (await request.json()) as OrderIntent;
+            await this.cancelOrder({
+              ...intent,
+              orderId,
+              action: OrderIntentAction.CANCEL,
+            });
             return new Response(JSON.stringify({ success: true }), {
               headers: { "Content-Type": "application/json", ...corsHeaders },
             });
           }
 
-          // Modify order
+          // Modify order (body: signed MODIFY intent with replacement params)
           if (path.startsWith("/orders/") && method === "PUT") {
             const orderId = path.split("/")[2];
-            const newOrderData = (await request.json()) as Partial<Order>;
-            const newOrderId = await this.modifyOrder(orderId, newOrderData);
+            const intent = (await request.json()) as OrderIntent;
+            const newOrderId = await this.modifyOrder({
+              ...intent,
+              orderId,
+              action: OrderIntentAction.MODIFY,
+            });
             return new Response(JSON.stringify({ success: true, newOrderId }), {
               headers: { "Content-Type": "application/json", ...corsHeaders },
             });
@@ -683,19 +1072,43 @@ class OrderRegistryService {
     logger.info(`Order Registry HTTP server started on port ${port}`);
   }
 
-  private validateOrderSignature(order: Order): boolean {
+  /**
+   * Verify the maker's EIP-712 signature over the order params
+   */
+  private async validateOrderSignature(order: Order): Promise<boolean> {
     if (!order.signature || !order.params) {
       logger.warn("Order missing signature or params");
       return false;
     }
 
+    if (order.nonce === undefined || !order.deadline) {
+      logger.warn(`Order ${order.id} missing signature nonce or deadline`);
+      return false;
+    }
+
+    if (order.deadline < Math.floor(Date.now() / 1000)) {
+      logger.warn(`Order ${order.id} signature deadline has passed`);
+      return false;
+    }
+
     try {
-      // The user signs the OrderParams directly
-      const messageToSign = JSON.stringify(order.params);
+      const unsignedKeys = getUnsignedParamKeys(order.params);
+      if (unsignedKeys.length > 0) {
+        logger.warn(
+          `Order ${order.id} has params not covered by its signature: ${unsignedKeys.join(", ")}`,
+        );
+        return false;
+      }
 
-      logger.debug(`Message to verify: ${messageToSign}`);
-      const signerAddress = ethers.verifyMessage(
-        messageToSign,
+      const { domain, types, message } = buildOrderTypedData(
+        order.params,
+        order.nonce,
+        order.deadline,
+      );
+      const signerAddress = ethers.verifyTypedData(
+        domain,
+        types,
+        message,
         order.signature,
       );
 
@@ -704,23 +1117,134 @@ class OrderRegistryService {
         `Recovered signer: ${signerAddress}, Expected maker: ${expectedMaker}`,
       );
 
-      const isValid =
-        signerAddress.toLowerCase() === expectedMaker.toLowerCase();
-
-      if (!isValid) {
+      if (signerAddress.toLowerCase() !== expectedMaker.toLowerCase()) {
         logger.warn(
           `Invalid signature: expected ${expectedMaker}, got ${signerAddress}`,
         );
-      } else {
-        logger.info(`✅ Valid signature for order ${order.id}`);
+        return false;
       }
 
-      return isValid;
+      logger.info(`✅ Valid signature for order ${order.id}`);
+      return true;
     } catch (error) {
       logger.error("Error validating signature:", error);
       return false;
     }
   }
+
+  /**
+   * Verify a signed cancel/modify intent against the order's maker, run the
+   * action's own checks, then consume its nonce.
+   * Rejections are recorded as order events and rethrown.
+   */
+  private async authorizeIntent(
+    order: Order,
+    intent: OrderIntent,
+    action: OrderIntentAction,
+    validate?: () => void,
+  ): Promise<void> {
+    let reason = this.checkIntent(order, intent, action);
+    if (!reason && validate) {
+      try {
+        validate();
+      } catch (error: any) {
+        reason = error.message;
+      }
+    }
+    // Nonce is consumed only once the intent is accepted
+    const maker = order.params?.maker;
+    if (!reason && !(await consumeMakerNonce(maker!, Number(intent.nonce)))) {
+      reason = `stale nonce ${intent.nonce}`;
+    }
+    if (!reason) {
+      logger.info(`✅ Valid ${action} intent for order ${order.id}`);
+      return;
+    }
+
+    logger.warn(`🚫 Rejected ${action} intent for order ${order.id}: ${reason}`);
+    await saveOrderEvent({
+      orderId: order.id,
+      status: order.status,
+      timestamp: Date.now(),
+      error: `${action} rejected: ${reason}`,
+    });
+    throw new Error(`${action} rejected: ${reason}`);
+  }
+
+  /**
+   * Returns the reason an intent is not acceptable, or null if it is
+   */
+  private checkIntent(
+    order: Order,
+    intent: OrderIntent,
+    action: OrderIntentAction,
+  ): string | null {
+    if (intent.action !== action || intent.orderId !== order.id) {
+      return "intent does not match the requested action";
+    }
+
+    if (!order.params) {
+      return "order has no params";
+    }
+
+    if (
+      [OrderStatus.CANCELLED, OrderStatus.FILLED, OrderStatus.EXPIRED].includes(
+        order.status,
+      )
+    ) {
+      return `order is already ${order.status}`;
+    }
+
+    if (!intent.signature || intent.nonce === undefined || !intent.deadline) {
+      return "missing signature, nonce or deadline";
+    }
+
+    if (intent.deadline < Math.floor(Date.now() / 1000)) {
+      return "signature deadline has passed";
+    }
+
+    const maker = order.params.maker;
+    const chainId = order.params.chainId || DEFAULT_CHAIN_ID;
+
+    if (action === OrderIntentAction.MODIFY) {
+      const params = intent.params;
+      if (!params?.makingAmount) {
+        return "replacement params must define makingAmount";
+      }
+      if (params.maker?.toLowerCase() !== maker.toLowerCase()) {
+        return "replacement params must keep the same maker";
+      }
+      if (params.chainId && params.chainId !== chainId) {
+        return "replacement params must stay on the same chain";
+      }
+      const unsignedKeys = getUnsignedParamKeys(params);
+      if (unsignedKeys.length > 0) {
+        return `params not covered by the signature: ${unsignedKeys.join(", ")}`;
+      }
+    }
+
+    try {
+      const { domain, types, message } = buildOrderIntentTypedData(
+        intent,
+        chainId,
+        intent.nonce,
+        intent.deadline,
+      );
+      const signerAddress = ethers.verifyTypedData(
+        domain,
+        types,
+        message,
+        intent.signature,
+      );
+      if (signerAddress.toLowerCase() !== maker.toLowerCase()) {
+        return `signer ${signerAddress} is not the order maker`;
+      }
+    } catch (error: any) {
+      return `invalid signature (${error.message})`;
+    }
+
+    return null;
+  }
 }
 
 // Export singleton instance
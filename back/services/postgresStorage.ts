@@ -0,0 +1,957 @@
+import { SQL } from "bun";
+import type {
+  Order,
+  Strategy,
+  TickerFeed,
+  AggregatedTicker,
+  OrderEvent,
+  GridLevel,
+  SpreadPosition,
+  Bracket,
+  ChildOrderRecord,
+  OneInchChildOrder,
+  Config,
+} from "@common/types";
+import { OrderStatus, type BracketStatus } from "@common/types";
+import { logger } from "@back/utils/logger";
+import { childOrderStatus, type StorageBackend } from "./storage";
+
+/**
+ * Schema of a postgres store, equivalent to the head of STORAGE_MIGRATIONS
+ * (postgres stores start at the current schema, amounts are base units)
+ */
+const POSTGRES_SCHEMA = [
+  `CREATE TABLE IF NOT EXISTS orders (
+    id TEXT PRIMARY KEY,
+    signature TEXT NOT NULL,
+    params TEXT,
+    status TEXT NOT NULL,
+    remaining_maker_amount TEXT NOT NULL DEFAULT '0',
+    trigger_count INTEGER NOT NULL DEFAULT 0,
+    next_trigger_value TEXT,
+    created_at BIGINT NOT NULL,
+    executed_at BIGINT,
+    cancelled_at BIGINT,
+    filled_amount TEXT,
+    tx_hash TEXT,
+    order_hash TEXT,
+    receiver TEXT,
+    salt TEXT,
+    expiry BIGINT,
+    trigger_price DOUBLE PRECISION,
+    participation TEXT,
+    signed_intent TEXT
+  )`,
+  `CREATE TABLE IF NOT EXISTS child_orders (
+    hash TEXT PRIMARY KEY,
+    seq BIGSERIAL,
+    order_id TEXT NOT NULL,
+    chain_id INTEGER NOT NULL,
+    maker_asset TEXT,
+    making_amount TEXT NOT NULL,
+    taking_amount TEXT NOT NULL,
+    limit_price TEXT NOT NULL,
+    status TEXT NOT NULL,
+    filled_amount TEXT,
+    remaining_amount TEXT,
+    struct TEXT,
+    created_at BIGINT NOT NULL,
+    updated_at BIGINT NOT NULL,
+    filled_at BIGINT,
+    cancelled_at BIGINT,
+    exit_leg BOOLEAN NOT NULL DEFAULT FALSE
+  )`,
+  `CREATE TABLE IF NOT EXISTS order_events (
+    id BIGSERIAL PRIMARY KEY,
+    order_id TEXT NOT NULL,
+    order_hash TEXT,
+    status TEXT NOT NULL,
+    timestamp BIGINT NOT NULL,
+    tx_hash TEXT,
+    filled_amount TEXT,
+    remaining_amount TEXT,
+    gas_used TEXT,
+    error TEXT,
+    bracket TEXT
+  )`,
+  `CREATE TABLE IF NOT EXISTS strategies (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    type TEXT NOT NULL,
+    status TEXT NOT NULL,
+    network INTEGER NOT NULL,
+    enabled INTEGER NOT NULL,
+    config TEXT NOT NULL,
+    started_at BIGINT,
+    paused_at BIGINT,
+    stopped_at BIGINT,
+    order_count INTEGER DEFAULT 0,
+    filled_count INTEGER DEFAULT 0,
+    total_volume TEXT DEFAULT '0',
+    pnl DOUBLE PRECISION DEFAULT 0,
+    pnl_percent DOUBLE PRECISION DEFAULT 0
+  )`,
+  `CREATE TABLE IF NOT EXISTS market_data (
+    symbol TEXT PRIMARY KEY,
+    data TEXT NOT NULL,
+    updated_at BIGINT NOT NULL,
+    expires_at BIGINT NOT NULL
+  )`,
+  `CREATE TABLE IF NOT EXISTS token_decimals (
+    chain_id INTEGER NOT NULL,
+    token_address TEXT NOT NULL,
+    decimals INTEGER NOT NULL,
+    cached_at BIGINT NOT NULL,
+    expires_at BIGINT NOT NULL,
+    PRIMARY KEY (chain_id, token_address)
+  )`,
+  `CREATE TABLE IF NOT EXISTS maker_nonces (
+    maker TEXT PRIMARY KEY,
+    nonce INTEGER NOT NULL,
+    updated_at BIGINT NOT NULL
+  )`,
+  `CREATE TABLE IF NOT EXISTS grid_levels (
+    order_id TEXT NOT NULL,
+    level INTEGER NOT NULL,
+    price DOUBLE PRECISION NOT NULL,
+    home_side TEXT NOT NULL,
+    side TEXT NOT NULL,
+    leg_price DOUBLE PRECISION NOT NULL,
+    amount DOUBLE PRECISION NOT NULL,
+    status TEXT NOT NULL,
+    order_hash TEXT,
+    entry_price DOUBLE PRECISION,
+    realized_pnl DOUBLE PRECISION NOT NULL DEFAULT 0,
+    fills INTEGER NOT NULL DEFAULT 0,
+    updated_at BIGINT NOT NULL,
+    PRIMARY KEY (order_id, level)
+  )`,
+  `CREATE TABLE IF NOT EXISTS order_brackets (
+    order_id TEXT PRIMARY KEY,
+    status TEXT NOT NULL,
+    entry_price DOUBLE PRECISION NOT NULL,
+    exit_amount TEXT NOT NULL,
+    take_profit_price DOUBLE PRECISION,
+    stop_loss_price DOUBLE PRECISION,
+    take_profit_hash TEXT,
+    stop_loss_hash TEXT,
+    created_at BIGINT NOT NULL,
+    closed_at BIGINT
+  )`,
+  `CREATE TABLE IF NOT EXISTS spread_positions (
+    order_id TEXT PRIMARY KEY,
+    status TEXT NOT NULL,
+    entry_ratio DOUBLE PRECISION NOT NULL,
+    entry_z DOUBLE PRECISION NOT NULL,
+    exit_ratio DOUBLE PRECISION,
+    legs TEXT NOT NULL,
+    realized_pnl DOUBLE PRECISION,
+    opened_at BIGINT NOT NULL,
+    closed_at BIGINT,
+    updated_at BIGINT NOT NULL
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_orders_status ON orders(status)`,
+  `CREATE INDEX IF NOT EXISTS idx_orders_created_at ON orders(created_at DESC)`,
+  `CREATE INDEX IF NOT EXISTS idx_orders_status_created ON orders(status, created_at DESC)`,
+  `CREATE INDEX IF NOT EXISTS idx_child_orders_order ON child_orders(order_id, created_at)`,
+  `CREATE INDEX IF NOT EXISTS idx_order_events_order ON order_events(order_id)`,
+  `CREATE INDEX IF NOT EXISTS idx_order_brackets_status ON order_brackets(status)`,
+];
+
+/** BIGINT columns come back as strings: ms timestamps do not fit in an i32 */
+const toNumber = (value: unknown): number | undefined =>
+  value === null || value === undefined ? undefined : Number(value);
+
+/** BIGINT column as returned by the driver */
+type BigIntColumn = string;
+
+// Rows as returned by the driver, one per table
+interface OrderRow {
+  id: string;
+  signature: string;
+  params: string | null;
+  status: OrderStatus;
+  remaining_maker_amount: string;
+  trigger_count: number;
+  next_trigger_value: string | null;
+  created_at: BigIntColumn;
+  executed_at: BigIntColumn | null;
+  cancelled_at: BigIntColumn | null;
+  filled_amount: string | null;
+  tx_hash: string | null;
+  order_hash: string | null;
+  receiver: string | null;
+  salt: string | null;
+  expiry: BigIntColumn | null;
+  trigger_price: number | null;
+  participation: string | null;
+  signed_intent: string | null;
+}
+
+interface ChildOrderRow {
+  hash: string;
+  order_id: string;
+  chain_id: number;
+  maker_asset: string | null;
+  making_amount: string;
+  taking_amount: string;
+  limit_price: string;
+  status: OrderStatus;
+  filled_amount: string | null;
+  remaining_amount: string | null;
+  struct: string | null;
+  created_at: BigIntColumn;
+  updated_at: BigIntColumn;
+  filled_at: BigIntColumn | null;
+  cancelled_at: BigIntColumn | null;
+  exit_leg: boolean;
+}
+
+interface OrderEventRow {
+  order_id: string;
+  order_hash: string | null;
+  status: OrderStatus;
+  timestamp: BigIntColumn;
+  tx_hash: string | null;
+  filled_amount: string | null;
+  remaining_amount: string | null;
+  gas_used: string | null;
+  error: string | null;
+  bracket: BracketStatus | null;
+}
+
+interface GridLevelRow {
+  order_id: string;
+  level: number;
+  price: number;
+  home_side: GridLevel["homeSide"];
+  side: GridLevel["side"];
+  leg_price: number;
+  amount: number;
+  status: GridLevel["status"];
+  order_hash: string | null;
+  entry_price: number | null;
+  realized_pnl: number;
+  fills: number;
+  updated_at: BigIntColumn;
+}
+
+interface BracketRow {
+  order_id: string;
+  status: BracketStatus;
+  entry_price: number;
+  exit_amount: string;
+  take_profit_price: number | null;
+  stop_loss_price: number | null;
+  take_profit_hash: string | null;
+  stop_loss_hash: string | null;
+  created_at: BigIntColumn;
+  closed_at: BigIntColumn | null;
+}
+
+interface SpreadPositionRow {
+  order_id: string;
+  status: SpreadPosition["status"];
+  entry_ratio: number;
+  entry_z: number;
+  exit_ratio: number | null;
+  legs: string;
+  realized_pnl: number | null;
+  opened_at: BigIntColumn;
+  closed_at: BigIntColumn | null;
+  updated_at: BigIntColumn;
+}
+
+/**
+ * PostgreSQL storage backend, so services on different hosts share one store
+ */
+export class PostgresStorageService implements StorageBackend {
+  private sql: SQL;
+  private ready: Promise<void>;
+
+  constructor(private config: Config["storage"]) {
+    if (!config.postgresUrl) {
+      throw new Error(
+        "storage.postgresUrl is required by the postgres backend",
+      );
+    }
+    this.sql = new SQL(config.postgresUrl);
+    this.ready = this.initSchema();
+    this.ready.catch((error) =>
+      logger.error(`❌ Failed to initialize postgres storage: ${error}`),
+    );
+  }
+
+  private async initSchema(): Promise<void> {
+    await this.sql.begin(async (tx) => {
+      for (const statement of POSTGRES_SCHEMA) await tx.unsafe(statement);
+    });
+    logger.info("🐘 Postgres storage schema ready");
+  }
+
+  async saveOrder(order: Order): Promise<void> {
+    await this.ready;
+    await this.sql.begin(async (tx) => {
+      await tx`
+        INSERT INTO orders (
+          id, signature, params, status, remaining_maker_amount, trigger_count,
+          next_trigger_value, created_at, executed_at, cancelled_at, filled_amount,
+          tx_hash, order_hash, receiver, salt, expiry, trigger_price, participation,
+          signed_intent
+        ) VALUES (
+          ${order.id}, ${order.signature},
+          ${order.params ? JSON.stringify(order.params) : null},
+          ${order.status}, ${order.remainingMakerAmount}, ${order.triggerCount},
+          ${order.nextTriggerValue?.toString() || null}, ${order.createdAt},
+          ${order.executedAt || null}, ${order.cancelledAt || null},
+          ${order.filledAmount || null}, ${order.txHash || null},
+          ${order.orderHash || null}, ${order.receiver || null},
+          ${order.salt || null}, ${order.expiry || null},
+          ${order.triggerPrice || null},
+          ${order.participation ? JSON.stringify(order.participation) : null},
+          ${order.signedIntent ? JSON.stringify(order.signedIntent) : null}
+        )
+        ON CONFLICT (id) DO UPDATE SET
+          signature = excluded.signature,
+          params = excluded.params,
+          status = excluded.status,
+          remaining_maker_amount = excluded.remaining_maker_amount,
+          trigger_count = excluded.trigger_count,
+          next_trigger_value = excluded.next_trigger_value,
+          created_at = excluded.created_at,
+          executed_at = excluded.executed_at,
+          cancelled_at = excluded.cancelled_at,
+          filled_amount = excluded.filled_amount,
+          tx_hash = excluded.tx_hash,
+          order_hash = excluded.order_hash,
+          receiver = excluded.receiver,
+          salt = excluded.salt,
+          expiry = excluded.expiry,
+          trigger_price = excluded.trigger_price,
+          participation = excluded.participation,
+          signed_intent = excluded.signed_intent
+      `;
+      for (const child of order.oneInchOrders || []) {
+        await this.saveChildOrder(tx, order, child);
+      }
+      for (const child of order.exitOrders || []) {
+        await this.saveChildOrder(tx, order, child, true);
+      }
+    });
+
+    logger.debug(`Saved order ${order.id}`);
+  }
+
+  /**
+   * Upsert a child order. Fill state only moves forward: a FILLED or CANCELLED
+   * child (e.g. marked by the monitor) is not reopened by a stale order copy.
+   */
+  private async saveChildOrder(
+    tx: SQL,
+    order: Order,
+    child: OneInchChildOrder,
+    exit = false,
+  ): Promise<void> {
+    const now = Date.now();
+    const status = childOrderStatus(child);
+    await tx`
+      INSERT INTO child_orders (
+        hash, order_id, chain_id, maker_asset, making_amount, taking_amount,
+        limit_price, status, filled_amount, struct, created_at, updated_at,
+        filled_at, cancelled_at, exit_leg
+      ) VALUES (
+        ${child.hash}, ${order.id}, ${order.params?.chainId || 1},
+        ${child.makerAsset || null}, ${child.makingAmount},
+        ${child.takingAmount}, ${child.limitPrice}, ${status},
+        ${child.filledAmount || null},
+        ${child.struct ? JSON.stringify(child.struct) : null},
+        ${child.createdAt}, ${now},
+        ${status === OrderStatus.FILLED ? now : null},
+        ${child.cancelledAt || null}, ${exit}
+      )
+      ON CONFLICT (hash) DO UPDATE SET
+        making_amount = excluded.making_amount,
+        taking_amount = excluded.taking_amount,
+        status = CASE
+          WHEN child_orders.status IN ('FILLED', 'CANCELLED')
+            AND excluded.status NOT IN ('FILLED', 'CANCELLED')
+          THEN child_orders.status
+          ELSE excluded.status
+        END,
+        filled_amount = COALESCE(excluded.filled_amount, child_orders.filled_amount),
+        struct = COALESCE(excluded.struct, child_orders.struct),
+        filled_at = COALESCE(child_orders.filled_at, excluded.filled_at),
+        cancelled_at = COALESCE(child_orders.cancelled_at, excluded.cancelled_at),
+        updated_at = excluded.updated_at
+    `;
+  }
+
+  async getOrder(id: string): Promise<Order | null> {
+    await this.ready;
+    const rows: OrderRow[] = await this
+      .sql`SELECT * FROM orders WHERE id = ${id}`;
+    return rows.length > 0 ? (await this.rowsToOrders(rows))[0] : null;
+  }
+
+  /**
+   * Orders with their child orders, fetched in one query
+   */
+  private async rowsToOrders(rows: OrderRow[]): Promise<Order[]> {
+    const orders = rows.map((row) => this.rowToOrder(row));
+    if (orders.length === 0) return orders;
+
+    const byId = new Map(orders.map((o) => [o.id, o]));
+    const children: ChildOrderRow[] = await this.sql`
+      SELECT * FROM child_orders
+      WHERE order_id IN ${this.sql([...byId.keys()])}
+      ORDER BY created_at ASC, seq ASC
+    `;
+    for (const row of children) {
+      const order = byId.get(row.order_id)!;
+      const child: OneInchChildOrder = {
+        hash: row.hash,
+        makingAmount: row.making_amount,
+        takingAmount: row.taking_amount,
+        limitPrice: row.limit_price,
+        createdAt: Number(row.created_at),
+      };
+      if (row.struct) child.struct = JSON.parse(row.struct);
+      if (row.cancelled_at) child.cancelledAt = Number(row.cancelled_at);
+      if (row.filled_amount) child.filledAmount = row.filled_amount;
+      if (row.maker_asset) child.makerAsset = row.maker_asset;
+      if (row.exit_leg) {
+        (order.exitOrders ||= []).push(child);
+      } else {
+        (order.oneInchOrders ||= []).push(child);
+        (order.oneInchOrderHashes ||= []).push(child.hash);
+      }
+    }
+    return orders;
+  }
+
+  private rowToOrder(row: OrderRow): Order {
+    return {
+      id: row.id,
+      signature: row.signature,
+      params: row.params ? JSON.parse(row.params) : undefined,
+      status: row.status,
+      remainingMakerAmount: row.remaining_maker_amount,
+      triggerCount: row.trigger_count,
+      nextTriggerValue: row.next_trigger_value
+        ? isNaN(Number(row.next_trigger_value))
+          ? row.next_trigger_value
+          : Number(row.next_trigger_value)
+        : undefined,
+      createdAt: Number(row.created_at),
+      executedAt: toNumber(row.executed_at),
+      cancelledAt: toNumber(row.cancelled_at),
+      filledAmount: row.filled_amount || undefined,
+      txHash: row.tx_hash || undefined,
+      orderHash: row.order_hash || undefined,
+      receiver: row.receiver || undefined,
+      salt: row.salt || undefined,
+      expiry: toNumber(row.expiry),
+      triggerPrice: row.trigger_price || undefined,
+      participation: row.participation
+        ? JSON.parse(row.participation)
+        : undefined,
+      signedIntent: row.signed_intent
+        ? JSON.parse(row.signed_intent)
+        : undefined,
+    };
+  }
+
+  async getOrderByHash(hash: string): Promise<Order | null> {
+    const child = await this.getChildOrder(hash);
+    if (child) return this.getOrder(child.orderId);
+
+    const rows: OrderRow[] = await this
+      .sql`SELECT * FROM orders WHERE order_hash = ${hash}`;
+    return rows.length > 0 ? (await this.rowsToOrders(rows))[0] : null;
+  }
+
+  // Child order methods
+  async getChildOrder(hash: string): Promise<ChildOrderRecord | null> {
+    await this.ready;
+    const [row]: ChildOrderRow[] = await this
+      .sql`SELECT * FROM child_orders WHERE hash = ${hash}`;
+    return row ? this.rowToChildOrder(row) : null;
+  }
+
+  /**
+   * Record the remaining maker amount reported by the 1inch API. Returns the
+   * updated child, or null for orders not spawned by 1edge.
+   */
+  async updateChildOrderRemaining(
+    hash: string,
+    remainingAmount: string,
+  ): Promise<ChildOrderRecord | null> {
+    const child = await this.getChildOrder(hash);
+    if (!child) return null;
+
+    const now = Date.now();
+    let status = child.status;
+    if (child.struct && status !== OrderStatus.CANCELLED) {
+      const remaining = BigInt(remainingAmount);
+      status =
+        remaining === 0n
+          ? OrderStatus.FILLED
+          : remaining < BigInt(child.struct.makingAmount)
+            ? OrderStatus.PARTIALLY_FILLED
+            : status;
+    }
+    const filledAt =
+      status === OrderStatus.FILLED ? child.filledAt || now : undefined;
+
+    await this.sql`
+      UPDATE child_orders
+      SET remaining_amount = ${remainingAmount}, status = ${status},
+        filled_at = ${filledAt || null}, updated_at = ${now}
+      WHERE hash = ${hash}
+    `;
+    return { ...child, remainingAmount, status, filledAt, updatedAt: now };
+  }
+
+  private rowToChildOrder(row: ChildOrderRow): ChildOrderRecord {
+    return {
+      hash: row.hash,
+      orderId: row.order_id,
+      chainId: row.chain_id,
+      makerAsset: row.maker_asset || undefined,
+      makingAmount: row.making_amount,
+      takingAmount: row.taking_amount,
+      limitPrice: row.limit_price,
+      status: row.status,
+      filledAmount: row.filled_amount || undefined,
+      remainingAmount: row.remaining_amount || undefined,
+      struct: row.struct ? JSON.parse(row.struct) : undefined,
+      createdAt: Number(row.created_at),
+      updatedAt: Number(row.updated_at),
+      filledAt: toNumber(row.filled_at),
+      cancelledAt: toNumber(row.cancelled_at),
+    };
+  }
+
+  async updateOrder(order: Order): Promise<void> {
+    await this.saveOrder(order);
+  }
+
+  async deleteOrder(id: string): Promise<void> {
+    await this.ready;
+    await this.sql.begin(async (tx) => {
+      await tx`DELETE FROM child_orders WHERE order_id = ${id}`;
+      await tx`DELETE FROM orders WHERE id = ${id}`;
+    });
+    logger.debug(`Deleted order ${id}`);
+  }
+
+  async getActiveOrders(): Promise<Order[]> {
+    await this.ready;
+    const rows: OrderRow[] = await this.sql`
+      SELECT * FROM orders
+      WHERE status IN ('PENDING', 'ACTIVE', 'PARTIALLY_FILLED')
+      ORDER BY created_at DESC
+    `;
+    return this.rowsToOrders(rows);
+  }
+
+  async getOrdersByMaker(makerAddress: string): Promise<Order[]> {
+    await this.ready;
+    const rows: OrderRow[] = await this.sql`
+      SELECT * FROM orders
+      WHERE (params::jsonb)->>'maker' = ${makerAddress.toLowerCase()}
+      ORDER BY created_at DESC
+    `;
+    return this.rowsToOrders(rows);
+  }
+
+  async getPendingOrders(): Promise<Order[]> {
+    await this.ready;
+    const rows: OrderRow[] = await this.sql`
+      SELECT * FROM orders
+      WHERE status = 'PENDING'
+      ORDER BY created_at ASC
+    `;
+    return this.rowsToOrders(rows);
+  }
+
+  // Order event methods
+  async saveOrderEvent(event: OrderEvent): Promise<void> {
+    await this.ready;
+    await this.sql`
+      INSERT INTO order_events (
+        order_id, order_hash, status, timestamp, tx_hash, filled_amount,
+        remaining_amount, gas_used, error, bracket
+      ) VALUES (
+        ${event.orderId}, ${event.orderHash || null}, ${event.status},
+        ${event.timestamp}, ${event.txHash || null},
+        ${event.filledAmount || null}, ${event.remainingAmount || null},
+        ${event.gasUsed || null}, ${event.error || null},
+        ${event.bracket || null}
+      )
+    `;
+    logger.debug(`Saved order event for ${event.orderId}`);
+  }
+
+  async getOrderEvents(orderId: string): Promise<OrderEvent[]> {
+    await this.ready;
+    const rows: OrderEventRow[] = await this.sql`
+      SELECT * FROM order_events
+      WHERE order_id = ${orderId}
+      ORDER BY timestamp DESC, id DESC
+    `;
+    // Same shape as the SQLite backend: absent columns are null
+    return rows.map((row) => ({
+      orderId: row.order_id,
+      orderHash: row.order_hash,
+      status: row.status,
+      timestamp: Number(row.timestamp),
+      txHash: row.tx_hash,
+      filledAmount: row.filled_amount,
+      remainingAmount: row.remaining_amount,
+      gasUsed: row.gas_used,
+      error: row.error,
+      bracket: row.bracket,
+    })) as OrderEvent[];
+  }
+
+  // Strategy methods
+  async saveStrategy(strategy: Strategy): Promise<void> {
+    await this.ready;
+    await this.sql`
+      INSERT INTO strategies (
+        id, name, type, status, network, enabled, config, started_at,
+        paused_at, stopped_at, order_count, filled_count, total_volume, pnl,
+        pnl_percent
+      ) VALUES (
+        ${strategy.id}, ${strategy.name}, ${strategy.type}, ${strategy.status},
+        ${strategy.network}, ${strategy.enabled ? 1 : 0},
+        ${JSON.stringify(strategy)}, ${strategy.startedAt || null},
+        ${strategy.pausedAt || null}, ${strategy.stoppedAt || null},
+        ${strategy.orderCount || 0}, ${strategy.filledCount || 0},
+        ${strategy.totalVolume || "0"}, ${strategy.pnl || 0},
+        ${strategy.pnlPercent || 0}
+      )
+      ON CONFLICT (id) DO UPDATE SET
+        name = excluded.name,
+        type = excluded.type,
+        status = excluded.status,
+        network = excluded.network,
+        enabled = excluded.enabled,
+        config = excluded.config,
+        started_at = excluded.started_at,
+        paused_at = excluded.paused_at,
+        stopped_at = excluded.stopped_at,
+        order_count = excluded.order_count,
+        filled_count = excluded.filled_count,
+        total_volume = excluded.total_volume,
+        pnl = excluded.pnl,
+        pnl_percent = excluded.pnl_percent
+    `;
+    logger.debug(`Saved strategy ${strategy.id}`);
+  }
+
+  async getStrategy(id: string): Promise<Strategy | null> {
+    await this.ready;
+    const [row] = await this
+      .sql`SELECT config FROM strategies WHERE id = ${id}`;
+    return row ? JSON.parse(row.config) : null;
+  }
+
+  async getActiveStrategies(): Promise<Strategy[]> {
+    await this.ready;
+    const rows = await this.sql`
+      SELECT config FROM strategies
+      WHERE status = 'Running' AND enabled = 1
+    `;
+    return rows.map((r: { config: string }) => JSON.parse(r.config));
+  }
+
+  async getAllStrategies(): Promise<Strategy[]> {
+    await this.ready;
+    const rows = await this.sql`SELECT config FROM strategies`;
+    return rows.map((r: { config: string }) => JSON.parse(r.config));
+  }
+
+  // Market data cache methods
+  async cacheTicker(
+    symbol: string,
+    data: TickerFeed | AggregatedTicker,
+    ttl?: number,
+  ): Promise<void> {
+    await this.ready;
+    const now = Date.now();
+    const expiresAt = now + (ttl || this.config.defaultTtl) * 1000;
+    await this.sql`
+      INSERT INTO market_data (symbol, data, updated_at, expires_at)
+      VALUES (${symbol}, ${JSON.stringify(data)}, ${now}, ${expiresAt})
+      ON CONFLICT (symbol) DO UPDATE SET
+        data = excluded.data,
+        updated_at = excluded.updated_at,
+        expires_at = excluded.expires_at
+    `;
+    logger.debug(`Cached ticker data for ${symbol}`);
+  }
+
+  async getCachedTicker(
+    symbol: string,
+  ): Promise<TickerFeed | AggregatedTicker | null> {
+    await this.ready;
+    const [row] = await this.sql`
+      SELECT data FROM market_data
+      WHERE symbol = ${symbol} AND expires_at > ${Date.now()}
+    `;
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  async cleanExpiredCache(): Promise<void> {
+    await this.ready;
+    const deleted = await this.sql`
+      DELETE FROM market_data WHERE expires_at < ${Date.now()} RETURNING symbol
+    `;
+    if (deleted.length > 0) {
+      logger.info(`Cleaned ${deleted.length} expired cache entries`);
+    }
+  }
+
+  // Token decimals methods
+  async cacheTokenDecimals(
+    chainId: number,
+    tokenAddress: string,
+    decimals: number,
+    ttl: number = 86400, // 24 hours default
+  ): Promise<void> {
+    await this.ready;
+    const now = Date.now();
+    await this.sql`
+      INSERT INTO token_decimals (
+        chain_id, token_address, decimals, cached_at, expires_at
+      ) VALUES (
+        ${chainId}, ${tokenAddress.toLowerCase()}, ${decimals}, ${now},
+        ${now + ttl * 1000}
+      )
+      ON CONFLICT (chain_id, token_address) DO UPDATE SET
+        decimals = excluded.decimals,
+        cached_at = excluded.cached_at,
+        expires_at = excluded.expires_at
+    `;
+    logger.debug(
+      `Cached decimals for token ${tokenAddress} on chain ${chainId}: ${decimals}`,
+    );
+  }
+
+  async getCachedTokenDecimals(
+    chainId: number,
+    tokenAddress: string,
+  ): Promise<number | null> {
+    await this.ready;
+    const [row] = await this.sql`
+      SELECT decimals FROM token_decimals
+      WHERE chain_id = ${chainId}
+        AND token_address = ${tokenAddress.toLowerCase()}
+        AND expires_at > ${Date.now()}
+    `;
+    return row?.decimals ?? null;
+  }
+
+  // Maker nonce methods
+  async getMakerNonce(maker: string): Promise<number> {
+    await this.ready;
+    const [row] = await this.sql`
+      SELECT nonce FROM maker_nonces WHERE maker = ${maker.toLowerCase()}
+    `;
+    return row?.nonce ?? 0;
+  }
+
+  /**
+   * Atomically consume a maker nonce; returns false if it is not the current one
+   */
+  async consumeMakerNonce(maker: string, nonce: number): Promise<boolean> {
+    await this.ready;
+    const key = maker.toLowerCase();
+    const now = Date.now();
+    // A single conditional statement, so concurrent consumers cannot both succeed
+    const consumed =
+      nonce === 0
+        ? await this.sql`
+            INSERT INTO maker_nonces (maker, nonce, updated_at)
+            VALUES (${key}, 1, ${now})
+            ON CONFLICT (maker) DO UPDATE SET
+              nonce = excluded.nonce,
+              updated_at = excluded.updated_at
+            WHERE maker_nonces.nonce = 0
+            RETURNING nonce
+          `
+        : await this.sql`
+            UPDATE maker_nonces SET nonce = ${nonce + 1}, updated_at = ${now}
+            WHERE maker = ${key} AND nonce = ${nonce}
+            RETURNING nonce
+          `;
+    return consumed.length > 0;
+  }
+
+  // Grid level methods
+  async saveGridLevel(level: GridLevel): Promise<void> {
+    await this.ready;
+    await this.sql`
+      INSERT INTO grid_levels (
+        order_id, level, price, home_side, side, leg_price, amount, status,
+        order_hash, entry_price, realized_pnl, fills, updated_at
+      ) VALUES (
+        ${level.orderId}, ${level.level}, ${level.price}, ${level.homeSide},
+        ${level.side}, ${level.legPrice}, ${level.amount}, ${level.status},
+        ${level.orderHash || null}, ${level.entryPrice ?? null},
+        ${level.realizedPnl}, ${level.fills}, ${level.updatedAt}
+      )
+      ON CONFLICT (order_id, level) DO UPDATE SET
+        price = excluded.price,
+        home_side = excluded.home_side,
+        side = excluded.side,
+        leg_price = excluded.leg_price,
+        amount = excluded.amount,
+        status = excluded.status,
+        order_hash = excluded.order_hash,
+        entry_price = excluded.entry_price,
+        realized_pnl = excluded.realized_pnl,
+        fills = excluded.fills,
+        updated_at = excluded.updated_at
+    `;
+  }
+
+  async getGridLevels(orderId: string): Promise<GridLevel[]> {
+    await this.ready;
+    const rows: GridLevelRow[] = await this.sql`
+      SELECT * FROM grid_levels WHERE order_id = ${orderId} ORDER BY level ASC
+    `;
+    return rows.map((row) => ({
+      orderId: row.order_id,
+      level: row.level,
+      price: row.price,
+      homeSide: row.home_side,
+      side: row.side,
+      legPrice: row.leg_price,
+      amount: row.amount,
+      status: row.status,
+      orderHash: row.order_hash || undefined,
+      entryPrice: row.entry_price ?? undefined,
+      realizedPnl: row.realized_pnl,
+      fills: row.fills,
+      updatedAt: Number(row.updated_at),
+    }));
+  }
+
+  // Bracket methods
+  async saveBracket(bracket: Bracket): Promise<void> {
+    await this.ready;
+    await this.sql`
+      INSERT INTO order_brackets (
+        order_id, status, entry_price, exit_amount, take_profit_price,
+        stop_loss_price, take_profit_hash, stop_loss_hash, created_at, closed_at
+      ) VALUES (
+        ${bracket.orderId}, ${bracket.status}, ${bracket.entryPrice},
+        ${bracket.exitAmount}, ${bracket.takeProfitPrice ?? null},
+        ${bracket.stopLossPrice ?? null}, ${bracket.takeProfitHash || null},
+        ${bracket.stopLossHash || null}, ${bracket.createdAt},
+        ${bracket.closedAt || null}
+      )
+      ON CONFLICT (order_id) DO UPDATE SET
+        status = excluded.status,
+        entry_price = excluded.entry_price,
+        exit_amount = excluded.exit_amount,
+        take_profit_price = excluded.take_profit_price,
+        stop_loss_price = excluded.stop_loss_price,
+        take_profit_hash = excluded.take_profit_hash,
+        stop_loss_hash = excluded.stop_loss_hash,
+        created_at = excluded.created_at,
+        closed_at = excluded.closed_at
+    `;
+  }
+
+  async getBracket(orderId: string): Promise<Bracket | null> {
+    await this.ready;
+    const [row]: BracketRow[] = await this.sql`
+      SELECT * FROM order_brackets WHERE order_id = ${orderId}
+    `;
+    return row ? this.rowToBracket(row) : null;
+  }
+
+  /**
+   * Armed brackets of filled orders, still to be watched
+   */
+  async getArmedBrackets(): Promise<Bracket[]> {
+    await this.ready;
+    const rows: BracketRow[] = await this.sql`
+      SELECT b.* FROM order_brackets b
+      JOIN orders o ON o.id = b.order_id
+      WHERE b.status = 'ARMED' AND o.status = 'FILLED'
+    `;
+    return rows.map((row) => this.rowToBracket(row));
+  }
+
+  private rowToBracket(row: BracketRow): Bracket {
+    return {
+      orderId: row.order_id,
+      status: row.status,
+      entryPrice: row.entry_price,
+      exitAmount: row.exit_amount,
+      takeProfitPrice: row.take_profit_price ?? undefined,
+      stopLossPrice: row.stop_loss_price ?? undefined,
+      takeProfitHash: row.take_profit_hash || undefined,
+      stopLossHash: row.stop_loss_hash || undefined,
+      createdAt: Number(row.created_at),
+      closedAt: toNumber(row.closed_at),
+    };
+  }
+
+  // Spread position methods
+  async saveSpreadPosition(position: SpreadPosition): Promise<void> {
+    await this.ready;
+    await this.sql`
+      INSERT INTO spread_positions (
+        order_id, status, entry_ratio, entry_z, exit_ratio, legs,
+        realized_pnl, opened_at, closed_at, updated_at
+      ) VALUES (
+        ${position.orderId}, ${position.status}, ${position.entryRatio},
+        ${position.entryZ}, ${position.exitRatio ?? null},
+        ${JSON.stringify(position.legs)}, ${position.realizedPnl ?? null},
+        ${position.openedAt}, ${position.closedAt || null},
+        ${position.updatedAt}
+      )
+      ON CONFLICT (order_id) DO UPDATE SET
+        status = excluded.status,
+        entry_ratio = excluded.entry_ratio,
+        entry_z = excluded.entry_z,
+        exit_ratio = excluded.exit_ratio,
+        legs = excluded.legs,
+        realized_pnl = excluded.realized_pnl,
+        opened_at = excluded.opened_at,
+        closed_at = excluded.closed_at,
+        updated_at = excluded.updated_at
+    `;
+  }
+
+  async getSpreadPosition(orderId: string): Promise<SpreadPosition | null> {
+    await this.ready;
+    const [row]: SpreadPositionRow[] = await this.sql`
+      SELECT * FROM spread_positions WHERE order_id = ${orderId}
+    `;
+    if (!row) return null;
+    return {
+      orderId: row.order_id,
+      status: row.status,
+      entryRatio: row.entry_ratio,
+      entryZ: row.entry_z,
+      exitRatio: row.exit_ratio ?? undefined,
+      legs: JSON.parse(row.legs),
+      realizedPnl: row.realized_pnl ?? undefined,
+      openedAt: Number(row.opened_at),
+      closedAt: toNumber(row.closed_at),
+      updatedAt: Number(row.updated_at),
+    };
+  }
+
+  async close(): Promise<void> {
+    await this.ready.catch(() => {});
+    await this.sql.close();
+  }
+}
@@ -2,6 +2,8 @@ import { logger } from "@back/utils/logger";
 import type { PairSymbol } from "@common/types";
 import { PubSubClient } from "./pubSubClient";
 
+export type PriceUpdateListener = (symbol: PairSymbol, priceData: any) => void;
+
 /**
  * Shared price cache service that subscribes to pub/sub price feed
  * and provides current prices to API and WebSocket servers
@@ -11,6 +13,7 @@ class PriceCacheService {
   private priceCache: Map<PairSymbol, any> = new Map();
   private pubSubClient: PubSubClient;
   private isConnected: boolean = false;
+  private listeners: Set<PriceUpdateListener> = new Set();
 
   private constructor() {
     this.pubSubClient = new PubSubClient();
@@ -84,12 +87,27 @@ class PriceCacheService {
 
       this.priceCache.set(symbol, cacheData);
 
-      // Price cache updated silently
+      // Notify listeners once the cache holds the new price
+      for (const listener of this.listeners) {
+        try {
+          listener(symbol, cacheData);
+        } catch (error) {
+          logger.error(`Price listener failed for ${symbol}:`, error);
+        }
+      }
     } catch (error) {
       logger.error("Error handling price cache update:", error);
     }
   }
 
+  /**
+   * Register a listener called on every price update; returns an unsubscribe function
+   */
+  subscribe(listener: PriceUpdateListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
   /**
    * Get current price data for a symbol
    */
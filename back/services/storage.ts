@@ -7,11 +7,487 @@ import type {
   TickerFeed,
   AggregatedTicker,
   OrderEvent,
+  GridLevel,
+  SpreadPosition,
+  Bracket,
+  ChildOrderRecord,
+  OneInchChildOrder,
   Config,
 } from "@common/types";
+import { OrderStatus } from "@common/types";
 import { logger } from "@back/utils/logger";
+import {
+  migrate,
+  addColumn,
+  dropColumn,
+  hasColumn,
+  type Migration,
+} from "./migrations";
+import { PostgresStorageService } from "./postgresStorage";
+import { isBaseUnits, toBaseUnits } from "./tokenDecimals";
 
-class StorageService {
+/**
+ * Status of a child order from its own fill and cancellation state
+ */
+export function childOrderStatus(child: OneInchChildOrder): OrderStatus {
+  if (child.cancelledAt) return OrderStatus.CANCELLED;
+  const filled = BigInt(child.filledAmount || 0);
+  if (filled > 0n && filled >= BigInt(child.makingAmount)) {
+    return OrderStatus.FILLED;
+  }
+  return filled > 0n ? OrderStatus.PARTIALLY_FILLED : OrderStatus.ACTIVE;
+}
+
+/**
+ * Base units of a decimal amount stored before amounts were base units
+ */
+function legacyToBaseUnits(amount: number | string, decimals: number): string {
+  return toBaseUnits(amount, decimals).toString();
+}
+
+/**
+ * Schema history of the main store, applied in order on startup (see migrations.ts)
+ */
+export const STORAGE_MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: "initial schema",
+    up: (db) => {
+      // Orders table - matches Order interface from common/types.ts exactly
+      db.run(`
+        CREATE TABLE IF NOT EXISTS orders (
+          -- Core identification
+          id TEXT PRIMARY KEY,
+          signature TEXT NOT NULL,
+
+          -- Order configuration (JSON)
+          params TEXT, -- OrderParams as JSON
+
+          -- Order status and tracking
+          status TEXT NOT NULL,
+          remaining_maker_amount REAL NOT NULL,
+          trigger_count INTEGER NOT NULL DEFAULT 0,
+
+          -- Optional execution tracking
+          next_trigger_value TEXT, -- Can be number or string
+          created_at INTEGER NOT NULL,
+          executed_at INTEGER,
+          cancelled_at INTEGER,
+          filled_amount TEXT,
+          tx_hash TEXT,
+
+          -- 1inch order tracking
+          one_inch_order_hashes TEXT, -- JSON array of strings
+          one_inch_orders TEXT, -- JSON array of order details
+
+          -- Compatibility fields
+          order_hash TEXT, -- Primary 1inch order hash
+          receiver TEXT, -- Receiver address
+          salt TEXT, -- Salt value
+          expiry INTEGER, -- Expiry timestamp
+          trigger_price REAL -- Trigger price for conditional orders
+        )
+      `);
+
+      // Order events table
+      db.run(`
+        CREATE TABLE IF NOT EXISTS order_events (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          order_id TEXT NOT NULL,
+          order_hash TEXT,
+          status TEXT NOT NULL,
+          timestamp INTEGER NOT NULL,
+          tx_hash TEXT,
+          filled_amount TEXT,
+          remaining_amount TEXT,
+          gas_used TEXT,
+          error TEXT,
+          FOREIGN KEY (order_id) REFERENCES orders(id)
+        )
+      `);
+
+      // Strategies table
+      db.run(`
+        CREATE TABLE IF NOT EXISTS strategies (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          type TEXT NOT NULL,
+          status TEXT NOT NULL,
+          network INTEGER NOT NULL,
+          enabled INTEGER NOT NULL,
+          config TEXT NOT NULL,
+          started_at INTEGER,
+          paused_at INTEGER,
+          stopped_at INTEGER,
+          order_count INTEGER DEFAULT 0,
+          filled_count INTEGER DEFAULT 0,
+          total_volume TEXT DEFAULT '0',
+          pnl REAL DEFAULT 0,
+          pnl_percent REAL DEFAULT 0
+        )
+      `);
+
+      // Market data cache table
+      db.run(`
+        CREATE TABLE IF NOT EXISTS market_data (
+          symbol TEXT PRIMARY KEY,
+          data TEXT NOT NULL,
+          updated_at INTEGER NOT NULL,
+          expires_at INTEGER NOT NULL
+        )
+      `);
+
+      // Token decimals cache table
+      db.run(`
+        CREATE TABLE IF NOT EXISTS token_decimals (
+          chain_id INTEGER NOT NULL,
+          token_address TEXT NOT NULL,
+          decimals INTEGER NOT NULL,
+          cached_at INTEGER NOT NULL,
+          expires_at INTEGER NOT NULL,
+          PRIMARY KEY (chain_id, token_address)
+        )
+      `);
+
+      // Create simplified indexes for the minimal schema
+      db.run(`CREATE INDEX IF NOT EXISTS idx_orders_status ON orders(status)`);
+      db.run(
+        `CREATE INDEX IF NOT EXISTS idx_orders_created_at ON orders(created_at DESC)`,
+      );
+      db.run(
+        `CREATE INDEX IF NOT EXISTS idx_orders_status_created ON orders(status, created_at DESC)`,
+      );
+      db.run(
+        `CREATE INDEX IF NOT EXISTS idx_order_events_order ON order_events(order_id)`,
+      );
+      db.run(
+        `CREATE INDEX IF NOT EXISTS idx_token_decimals ON token_decimals(chain_id, token_address)`,
+      );
+    },
+  },
+  {
+    version: 2,
+    name: "orders 1inch tracking columns",
+    up: (db) => {
+      // Missing from databases created before 1inch orders were tracked
+      // (CREATE TABLE IF NOT EXISTS left them out)
+      addColumn(db, "orders", "one_inch_order_hashes", "TEXT");
+      addColumn(db, "orders", "one_inch_orders", "TEXT");
+      addColumn(db, "orders", "order_hash", "TEXT");
+      addColumn(db, "orders", "receiver", "TEXT");
+      addColumn(db, "orders", "salt", "TEXT");
+      addColumn(db, "orders", "expiry", "INTEGER");
+      addColumn(db, "orders", "trigger_price", "REAL");
+    },
+  },
+  {
+    version: 3,
+    name: "drop legacy positions table",
+    up: (db) => {
+      db.run(`DROP TABLE IF EXISTS positions`);
+    },
+  },
+  {
+    version: 4,
+    name: "maker nonces",
+    up: (db) => {
+      // Per-maker signature nonces (EIP-712 replay protection)
+      db.run(`
+        CREATE TABLE IF NOT EXISTS maker_nonces (
+          maker TEXT PRIMARY KEY,
+          nonce INTEGER NOT NULL DEFAULT 0,
+          updated_at INTEGER NOT NULL
+        )
+      `);
+    },
+  },
+  {
+    version: 5,
+    name: "grid levels",
+    up: (db) => {
+      // Grid trading levels, one row per price level of a grid order
+      db.run(`
+        CREATE TABLE IF NOT EXISTS grid_levels (
+          order_id TEXT NOT NULL,
+          level INTEGER NOT NULL,
+          price REAL NOT NULL,
+          home_side TEXT NOT NULL,
+          side TEXT NOT NULL,
+          leg_price REAL NOT NULL,
+          amount REAL NOT NULL,
+          status TEXT NOT NULL,
+          order_hash TEXT,
+          entry_price REAL,
+          realized_pnl REAL NOT NULL DEFAULT 0,
+          fills INTEGER NOT NULL DEFAULT 0,
+          updated_at INTEGER NOT NULL,
+          PRIMARY KEY (order_id, level)
+        )
+      `);
+    },
+  },
+  {
+    version: 6,
+    name: "order brackets",
+    up: (db) => {
+      // Take-profit / stop-loss brackets of filled orders
+      db.run(`
+        CREATE TABLE IF NOT EXISTS order_brackets (
+          order_id TEXT PRIMARY KEY,
+          status TEXT NOT NULL,
+          entry_price REAL NOT NULL,
+          exit_amount TEXT NOT NULL,
+          take_profit_price REAL,
+          stop_loss_price REAL,
+          take_profit_hash TEXT,
+          stop_loss_hash TEXT,
+          created_at INTEGER NOT NULL,
+          closed_at INTEGER
+        )
+      `);
+      addColumn(db, "order_events", "bracket", "TEXT");
+    },
+  },
+  {
+    version: 7,
+    name: "order participation",
+    up: (db) => {
+      // JSON participation stats (VWAP, POV)
+      addColumn(db, "orders", "participation", "TEXT");
+    },
+  },
+  {
+    version: 8,
+    name: "spread positions",
+    up: (db) => {
+      // Spread positions, both legs of a spread order as one position
+      db.run(`
+        CREATE TABLE IF NOT EXISTS spread_positions (
+          order_id TEXT PRIMARY KEY,
+          status TEXT NOT NULL,
+          entry_ratio REAL NOT NULL,
+          entry_z REAL NOT NULL,
+          exit_ratio REAL,
+          legs TEXT NOT NULL,
+          realized_pnl REAL,
+          opened_at INTEGER NOT NULL,
+          closed_at INTEGER,
+          updated_at INTEGER NOT NULL
+        )
+      `);
+    },
+  },
+  {
+    version: 9,
+    name: "child orders",
+    up: (db) => {
+      // 1inch orders spawned by each order, keyed by hash so fills map back
+      // to their parent without scanning the orders table
+      db.run(`
+        CREATE TABLE IF NOT EXISTS child_orders (
+          hash TEXT PRIMARY KEY,
+          order_id TEXT NOT NULL,
+          chain_id INTEGER NOT NULL,
+          maker_asset TEXT, -- Set when it differs from the parent's maker asset
+          making_amount TEXT NOT NULL,
+          taking_amount TEXT NOT NULL,
+          limit_price TEXT NOT NULL,
+          status TEXT NOT NULL,
+          filled_amount TEXT,
+          remaining_amount TEXT, -- Base units, as last reported by the 1inch API
+          struct TEXT, -- OneInchOrderStruct as JSON
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL,
+          filled_at INTEGER,
+          cancelled_at INTEGER
+        )
+      `);
+      db.run(`
+        CREATE INDEX IF NOT EXISTS idx_child_orders_order
+        ON child_orders(order_id, created_at)
+      `);
+
+      // Move the JSON arrays of the orders row into the table
+      if (!hasColumn(db, "orders", "one_inch_orders")) return;
+      db.run(`
+        INSERT OR IGNORE INTO child_orders (
+          hash, order_id, chain_id, maker_asset, making_amount, taking_amount,
+          limit_price, status, filled_amount, struct, created_at, updated_at,
+          cancelled_at
+        )
+        SELECT
+          json_extract(c.value, '$.hash'),
+          o.id,
+          COALESCE(json_extract(o.params, '$.chainId'), 1),
+          json_extract(c.value, '$.makerAsset'),
+          json_extract(c.value, '$.makingAmount'),
+          json_extract(c.value, '$.takingAmount'),
+          json_extract(c.value, '$.limitPrice'),
+          CASE
+            WHEN json_extract(c.value, '$.cancelledAt') IS NOT NULL
+              THEN 'CANCELLED'
+            WHEN CAST(json_extract(c.value, '$.filledAmount') AS REAL)
+              >= CAST(json_extract(c.value, '$.makingAmount') AS REAL)
+              THEN 'FILLED'
+            WHEN CAST(json_extract(c.value, '$.filledAmount') AS REAL) > 0
+              THEN 'PARTIALLY_FILLED'
+            ELSE 'ACTIVE'
+          END,
+          json_extract(c.value, '$.filledAmount'),
+          json_extract(c.value, '$.struct'),
+          COALESCE(json_extract(c.value, '$.createdAt'), o.created_at),
+          COALESCE(json_extract(c.value, '$.createdAt'), o.created_at),
+          json_extract(c.value, '$.cancelledAt')
+        FROM orders o, json_each(o.one_inch_orders) c
+        WHERE json_valid(o.one_inch_orders)
+      `);
+      dropColumn(db, "orders", "one_inch_order_hashes");
+      dropColumn(db, "orders", "one_inch_orders");
+    },
+  },
+  {
+    version: 10,
+    name: "base unit amounts",
+    up: (db) => {
+      // Amounts are base-unit integer strings; rows written before hold decimal
+      // amounts, flagged legacy_amounts and converted on read (rowsToOrders)
+      for (const table of ["orders", "child_orders", "order_brackets"]) {
+        addColumn(db, table, "legacy_amounts", "INTEGER NOT NULL DEFAULT 0");
+      }
+
+      const columns = db.prepare(`PRAGMA table_info(orders)`).all() as Array<{
+        name: string;
+        type: string;
+      }>;
+      const remaining = columns.find((c) => c.name === "remaining_maker_amount");
+      if (remaining?.type !== "REAL") return;
+
+      for (const table of ["orders", "child_orders", "order_brackets"]) {
+        db.run(`UPDATE ${table} SET legacy_amounts = 1`);
+      }
+      // SQLite cannot change a column type: copy into a TEXT column instead
+      addColumn(db, "orders", "remaining_units", "TEXT NOT NULL DEFAULT '0'");
+      db.run(
+        `UPDATE orders SET remaining_units = CAST(remaining_maker_amount AS TEXT)`,
+      );
+      dropColumn(db, "orders", "remaining_maker_amount");
+      db.run(
+        `ALTER TABLE orders RENAME COLUMN remaining_units TO remaining_maker_amount`,
+      );
+    },
+  },
+  {
+    version: 11,
+    name: "bracket exit legs",
+    up: (db) => {
+      // Bracket exits are child orders kept apart from the order's own fills
+      addColumn(db, "child_orders", "exit_leg", "INTEGER NOT NULL DEFAULT 0");
+      db.run(`
+        UPDATE child_orders SET exit_leg = 1
+        WHERE hash IN (
+          SELECT take_profit_hash FROM order_brackets
+          UNION SELECT stop_loss_hash FROM order_brackets
+        )
+      `);
+    },
+  },
+  {
+    version: 12,
+    name: "order signed intents",
+    up: (db) => {
+      // JSON MODIFY intent signed for replacement orders
+      addColumn(db, "orders", "signed_intent", "TEXT");
+    },
+  },
+  {
+    version: 13,
+    name: "pin chainless orders to BSC",
+    up: (db) => {
+      // Orders stored without params.chainId ran on BSC, the keeper's only
+      // chain before chains were resolved per order (DEFAULT_CHAIN_ID is 1)
+      const chainless = `params IS NOT NULL AND json_extract(params, '$.chainId') IS NULL`;
+      db.run(`
+        UPDATE child_orders SET chain_id = 56
+        WHERE order_id IN (SELECT id FROM orders WHERE ${chainless})
+      `);
+      db.run(
+        `UPDATE orders SET params = json_set(params, '$.chainId', 56) WHERE ${chainless}`,
+      );
+    },
+  },
+];
+
+/**
+ * Persistence operations shared by every storage backend, selected with
+ * `storage.backend` in 1edge.config.json (SQLite by default)
+ */
+export interface StorageBackend {
+  // Orders and their 1inch child orders
+  saveOrder(order: Order): Promise<void>;
+  getOrder(id: string): Promise<Order | null>;
+  getOrderByHash(hash: string): Promise<Order | null>;
+  getChildOrder(hash: string): Promise<ChildOrderRecord | null>;
+  updateChildOrderRemaining(
+    hash: string,
+    remainingAmount: string,
+  ): Promise<ChildOrderRecord | null>;
+  updateOrder(order: Order): Promise<void>;
+  deleteOrder(id: string): Promise<void>;
+  getActiveOrders(): Promise<Order[]>;
+  getOrdersByMaker(makerAddress: string): Promise<Order[]>;
+  getPendingOrders(): Promise<Order[]>;
+
+  // Order events
+  saveOrderEvent(event: OrderEvent): Promise<void>;
+  getOrderEvents(orderId: string): Promise<OrderEvent[]>; // Newest first, latest insert first on equal timestamps
+
+  // Strategies
+  saveStrategy(strategy: Strategy): Promise<void>;
+  getStrategy(id: string): Promise<Strategy | null>;
+  getActiveStrategies(): Promise<Strategy[]>;
+  getAllStrategies(): Promise<Strategy[]>;
+
+  // Market data cache
+  cacheTicker(
+    symbol: string,
+    data: TickerFeed | AggregatedTicker,
+    ttl?: number,
+  ): Promise<void>;
+  getCachedTicker(
+    symbol: string,
+  ): Promise<TickerFeed | AggregatedTicker | null>;
+  cleanExpiredCache(): Promise<void>;
+
+  // Token decimals cache
+  cacheTokenDecimals(
+    chainId: number,
+    tokenAddress: string,
+    decimals: number,
+    ttl?: number,
+  ): Promise<void>;
+  getCachedTokenDecimals(
+    chainId: number,
+    tokenAddress: string,
+  ): Promise<number | null>;
+
+  // Order watcher state
+  getMakerNonce(maker: string): Promise<number>;
+  consumeMakerNonce(maker: string, nonce: number): Promise<boolean>;
+  saveGridLevel(level: GridLevel): Promise<void>;
+  getGridLevels(orderId: string): Promise<GridLevel[]>;
+  saveBracket(bracket: Bracket): Promise<void>;
+  getBracket(orderId: string): Promise<Bracket | null>;
+  getArmedBrackets(): Promise<Bracket[]>;
+  saveSpreadPosition(position: SpreadPosition): Promise<void>;
+  getSpreadPosition(orderId: string): Promise<SpreadPosition | null>;
+
+  close(): void | Promise<void>;
+}
+
+/**
+ * SQLite storage backend (default), migrated with STORAGE_MIGRATIONS
+ */
+export class StorageService implements StorageBackend {
   private db: Database;
   private ttlMap: Map<string, number> = new Map();
   private preparedStatements: Map<string, any> = new Map();
@@ -20,8 +496,7 @@ class StorageService {
     const dbPath = config.dbPath || "./data/1edge.db";
     this.initDatabase(dbPath);
     this.db = new Database(dbPath);
-    this.migrateDatabase();
-    this.setupTables();
+    migrate(this.db, dbPath, STORAGE_MIGRATIONS);
     this.setupOptimizations();
     this.prepareCriticalStatements();
   }
@@ -31,147 +506,6 @@ class StorageService {
     await mkdir(dir, { recursive: true });
   }
 
-  private migrateDatabase() {
-    // Check if we need to migrate from old schema
-    try {
-      const result = this.db
-        .prepare("PRAGMA table_info(orders)")
-        .all() as Array<{ name: string }>;
-      const hasRawData = result.some((col) => col.name === "raw_data");
-      const hasTriggerType = result.some((col) => col.name === "trigger_type");
-
-      if (!hasRawData || !hasTriggerType) {
-        logger.info(
-          "Migrating database schema to support complete Order serialization...",
-        );
-        // Drop and recreate tables for clean migration
-        this.db.run("DROP TABLE IF EXISTS orders");
-        this.db.run("DROP TABLE IF EXISTS order_events");
-        logger.info("Database migration completed");
-      }
-    } catch (error) {
-      // Table doesn't exist yet, no migration needed
-      logger.debug("No migration needed - fresh database");
-    }
-  }
-
-  private setupTables() {
-    // Orders table - matches Order interface from common/types.ts exactly
-    this.db.run(`
-      CREATE TABLE IF NOT EXISTS orders (
-        -- Core identification
-        id TEXT PRIMARY KEY,
-        signature TEXT NOT NULL,
-        
-        -- Order configuration (JSON)
-        params TEXT, -- OrderParams as JSON
-        
-        -- Order status and tracking
-        status TEXT NOT NULL,
-        remaining_maker_amount REAL NOT NULL,
-        trigger_count INTEGER NOT NULL DEFAULT 0,
-        
-        -- Optional execution tracking
-        next_trigger_value TEXT, -- Can be number or string
-        created_at INTEGER NOT NULL,
-        executed_at INTEGER,
-        cancelled_at INTEGER,
-        filled_amount TEXT,
-        tx_hash TEXT,
-        
-        -- 1inch order tracking
-        one_inch_order_hashes TEXT, -- JSON array of strings
-        one_inch_orders TEXT, -- JSON array of order details
-        
-        -- Compatibility fields
-        order_hash TEXT, -- Primary 1inch order hash
-        receiver TEXT, -- Receiver address
-        salt TEXT, -- Salt value
-        expiry INTEGER, -- Expiry timestamp
-        trigger_price REAL -- Trigger price for conditional orders
-      )
-    `);
-
-    // Order events table
-    this.db.run(`
-      CREATE TABLE IF NOT EXISTS order_events (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        order_id TEXT NOT NULL,
-        order_hash TEXT,
-        status TEXT NOT NULL,
-        timestamp INTEGER NOT NULL,
-        tx_hash TEXT,
-        filled_amount TEXT,
-        remaining_amount TEXT,
-        gas_used TEXT,
-        error TEXT,
-        FOREIGN KEY (order_id) REFERENCES orders(id)
-      )
-    `);
-
-    // Positions table removed - not needed anymore
-
-    // Strategies table
-    this.db.run(`
-      CREATE TABLE IF NOT EXISTS strategies (
-        id TEXT PRIMARY KEY,
-        name TEXT NOT NULL,
-        type TEXT NOT NULL,
-        status TEXT NOT NULL,
-        network INTEGER NOT NULL,
-        enabled INTEGER NOT NULL,
-        config TEXT NOT NULL,
-        started_at INTEGER,
-        paused_at INTEGER,
-        stopped_at INTEGER,
-        order_count INTEGER DEFAULT 0,
-        filled_count INTEGER DEFAULT 0,
-        total_volume TEXT DEFAULT '0',
-        pnl REAL DEFAULT 0,
-        pnl_percent REAL DEFAULT 0
-      )
-    `);
-
-    // Market data cache table
-    this.db.run(`
-      CREATE TABLE IF NOT EXISTS market_data (
-        symbol TEXT PRIMARY KEY,
-        data TEXT NOT NULL,
-        updated_at INTEGER NOT NULL,
-        expires_at INTEGER NOT NULL
-      )
-    `);
-
-    // Token decimals cache table
-    this.db.run(`
-      CREATE TABLE IF NOT EXISTS token_decimals (
-        chain_id INTEGER NOT NULL,
-        token_address TEXT NOT NULL,
-        decimals INTEGER NOT NULL,
-        cached_at INTEGER NOT NULL,
-        expires_at INTEGER NOT NULL,
-        PRIMARY KEY (chain_id, token_address)
-      )
-    `);
-
-    // Create simplified indexes for the minimal schema
-    this.db.run(
-      `CREATE INDEX IF NOT EXISTS idx_orders_status ON orders(status)`,
-    );
-    this.db.run(
-      `CREATE INDEX IF NOT EXISTS idx_orders_created_at ON orders(created_at DESC)`,
-    );
-    this.db.run(
-      `CREATE INDEX IF NOT EXISTS idx_orders_status_created ON orders(status, created_at DESC)`,
-    );
-    this.db.run(
-      `CREATE INDEX IF NOT EXISTS idx_order_events_order ON order_events(order_id)`,
-    );
-    this.db.run(
-      `CREATE INDEX IF NOT EXISTS idx_token_decimals ON token_decimals(chain_id, token_address)`,
-    );
-  }
-
   private setupOptimizations() {
     // SQLite performance optimizations
     this.db.run("PRAGMA journal_mode = WAL"); // Write-Ahead Logging for better concurrency
@@ -220,6 +554,55 @@ class StorageService {
     `),
     );
 
+    this.preparedStatements.set(
+      "getChildOrder",
+      this.db.prepare(`
+      SELECT * FROM child_orders WHERE hash = ?
+    `),
+    );
+
+    this.preparedStatements.set(
+      "getChildOrders",
+      this.db.prepare(`
+      SELECT * FROM child_orders
+      WHERE order_id IN (SELECT value FROM json_each(?))
+      ORDER BY created_at ASC, rowid ASC
+    `),
+    );
+
+    this.preparedStatements.set(
+      "getStoredTokenDecimals",
+      this.db.prepare(`
+      SELECT decimals FROM token_decimals WHERE chain_id = ? AND token_address = ?
+    `),
+    );
+
+    this.preparedStatements.set(
+      "upsertChildOrder",
+      this.db.prepare(`
+      INSERT INTO child_orders (
+        hash, order_id, chain_id, maker_asset, making_amount, taking_amount,
+        limit_price, status, filled_amount, struct, created_at, updated_at,
+        filled_at, cancelled_at, exit_leg
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(hash) DO UPDATE SET
+        making_amount = excluded.making_amount,
+        taking_amount = excluded.taking_amount,
+        legacy_amounts = 0,
+        status = CASE
+          WHEN child_orders.status IN ('FILLED', 'CANCELLED')
+            AND excluded.status NOT IN ('FILLED', 'CANCELLED')
+          THEN child_orders.status
+          ELSE excluded.status
+        END,
+        filled_amount = COALESCE(excluded.filled_amount, child_orders.filled_amount),
+        struct = COALESCE(excluded.struct, child_orders.struct),
+        filled_at = COALESCE(child_orders.filled_at, excluded.filled_at),
+        cancelled_at = COALESCE(child_orders.cancelled_at, excluded.cancelled_at),
+        updated_at = excluded.updated_at
+    `),
+    );
+
     this.preparedStatements.set(
       "insertOrderEvent",
       this.db.prepare(`
@@ -236,40 +619,225 @@ class StorageService {
       INSERT OR REPLACE INTO orders (
         id, signature, params, status, remaining_maker_amount, trigger_count,
         next_trigger_value, created_at, executed_at, cancelled_at, filled_amount, tx_hash,
-        one_inch_order_hashes, one_inch_orders, order_hash, receiver, salt, expiry, trigger_price
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        order_hash, receiver, salt, expiry, trigger_price, participation,
+        signed_intent, legacy_amounts
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
+    // Legacy amounts left unconverted (decimals unknown) keep their flag, and
+    // their children are left as stored
+    const legacy = !isBaseUnits(order.remainingMakerAmount);
+    this.db.transaction(() => {
+      stmt.run(
+        order.id,
+        order.signature,
+        order.params ? JSON.stringify(order.params) : null,
+        order.status,
+        order.remainingMakerAmount,
+        order.triggerCount,
+        order.nextTriggerValue?.toString() || null,
+        order.createdAt,
+        order.executedAt || null,
+        order.cancelledAt || null,
+        order.filledAmount || null,
+        order.txHash || null,
+        order.orderHash || null,
+        order.receiver || null,
+        order.salt || null,
+        order.expiry || null,
+        order.triggerPrice || null,
+        order.participation ? JSON.stringify(order.participation) : null,
+        order.signedIntent ? JSON.stringify(order.signedIntent) : null,
+        legacy ? 1 : 0,
+      );
+      for (const child of order.oneInchOrders || []) {
+        if (isBaseUnits(child.makingAmount)) this.saveChildOrder(order, child);
+      }
+      for (const child of order.exitOrders || []) {
+        this.saveChildOrder(order, child, true);
+      }
+    })();
+
+    logger.debug(`Saved order ${order.id}`);
+  }
+
+  /**
+   * Upsert a child order. Fill state only moves forward: a FILLED or CANCELLED
+   * child (e.g. marked by the monitor) is not reopened by a stale order copy.
+   */
+  private saveChildOrder(
+    order: Order,
+    child: OneInchChildOrder,
+    exit = false,
+  ): void {
+    const stmt = this.preparedStatements.get("upsertChildOrder");
+    const now = Date.now();
+    const status = childOrderStatus(child);
     stmt.run(
+      child.hash,
       order.id,
-      order.signature,
-      order.params ? JSON.stringify(order.params) : null,
-      order.status,
-      order.remainingMakerAmount,
-      order.triggerCount,
-      order.nextTriggerValue?.toString() || null,
-      order.createdAt,
-      order.executedAt || null,
-      order.cancelledAt || null,
-      order.filledAmount || null,
-      order.txHash || null,
-      order.oneInchOrderHashes ? JSON.stringify(order.oneInchOrderHashes) : null,
-      order.oneInchOrders ? JSON.stringify(order.oneInchOrders) : null,
-      order.orderHash || null,
-      order.receiver || null,
-      order.salt || null,
-      order.expiry || null,
-      order.triggerPrice || null
+      order.params?.chainId || 1,
+      child.makerAsset || null,
+      child.makingAmount,
+      child.takingAmount,
+      child.limitPrice,
+      status,
+      child.filledAmount || null,
+      child.struct ? JSON.stringify(child.struct) : null,
+      child.createdAt,
+      now,
+      status === OrderStatus.FILLED ? now : null,
+      child.cancelledAt || null,
+      exit ? 1 : 0,
     );
-
-    logger.debug(`Saved order ${order.id}`);
   }
+
   async getOrder(id: string): Promise<Order | null> {
     const stmt = this.preparedStatements.get("getOrder");
     const row = stmt.get(id) as any;
-    return row ? this.rowToOrder(row) : null;
+    return row ? this.rowsToOrders([row])[0] : null;
+  }
+
+  /**
+   * Orders with their child orders, fetched in one query
+   */
+  private rowsToOrders(rows: any[]): Order[] {
+    const orders = rows.map((row) => this.rowToOrder(row));
+    if (orders.length === 0) return orders;
+
+    const byId = new Map(orders.map((o) => [o.id, o]));
+    const legacyChildren = new Map<string, OneInchChildOrder[]>();
+    const children = this.preparedStatements
+      .get("getChildOrders")
+      .all(JSON.stringify([...byId.keys()])) as any[];
+    for (const row of children) {
+      const order = byId.get(row.order_id)!;
+      const child: OneInchChildOrder = {
+        hash: row.hash,
+        makingAmount: row.making_amount,
+        takingAmount: row.taking_amount,
+        limitPrice: row.limit_price,
+        createdAt: row.created_at,
+      };
+      if (row.struct) child.struct = JSON.parse(row.struct);
+      if (row.cancelled_at) child.cancelledAt = row.cancelled_at;
+      if (row.filled_amount) child.filledAmount = row.filled_amount;
+      if (row.maker_asset) child.makerAsset = row.maker_asset;
+      if (row.exit_leg) {
+        (order.exitOrders ||= []).push(child);
+      } else {
+        (order.oneInchOrders ||= []).push(child);
+        (order.oneInchOrderHashes ||= []).push(child.hash);
+      }
+      if (row.legacy_amounts) {
+        legacyChildren.set(order.id, [
+          ...(legacyChildren.get(order.id) || []),
+          child,
+        ]);
+      }
+    }
+
+    for (const [i, row] of rows.entries()) {
+      const order = orders[i];
+      const legacy = legacyChildren.get(order.id) || [];
+      if (row.legacy_amounts || legacy.length > 0) {
+        this.convertLegacyAmounts(order, !!row.legacy_amounts, legacy);
+      }
+    }
+    return orders;
+  }
+
+  /**
+   * Compatibility with rows written before amounts were base units: decimal
+   * amounts are converted with the cached decimals of their tokens (written
+   * back as base units on the next save)
+   */
+  private convertLegacyAmounts(
+    order: Order,
+    convertOrder: boolean,
+    children: OneInchChildOrder[],
+  ): void {
+    const params = order.params;
+    const chainId = params?.chainId || 1;
+    const makerDecimals = params
+      ? this.getStoredTokenDecimals(chainId, params.makerAsset)
+      : null;
+    const takerDecimals = params
+      ? this.getStoredTokenDecimals(chainId, params.takerAsset)
+      : null;
+    if (!params || makerDecimals === null || takerDecimals === null) {
+      logger.warn(
+        `⚠️ Order ${order.id} has legacy decimal amounts but its token decimals are not cached`,
+      );
+      return;
+    }
+
+    if (convertOrder) {
+      order.remainingMakerAmount = legacyToBaseUnits(
+        order.remainingMakerAmount,
+        makerDecimals,
+      );
+      if (order.filledAmount) {
+        order.filledAmount = legacyToBaseUnits(
+          order.filledAmount,
+          makerDecimals,
+        );
+      }
+      if (params.makingAmount !== undefined) {
+        params.makingAmount = legacyToBaseUnits(
+          params.makingAmount,
+          makerDecimals,
+        );
+      }
+      if (params.takingAmount !== undefined) {
+        params.takingAmount = legacyToBaseUnits(
+          params.takingAmount,
+          takerDecimals,
+        );
+      }
+    }
+
+    for (const child of children) {
+      const childMaker = child.makerAsset
+        ? this.getStoredTokenDecimals(chainId, child.makerAsset)
+        : makerDecimals;
+      // Without a struct, a child selling another asset than the order buys it back
+      const swapped =
+        !!child.makerAsset &&
+        child.makerAsset.toLowerCase() !== params.makerAsset.toLowerCase();
+      const childTaker = child.struct
+        ? this.getStoredTokenDecimals(chainId, child.struct.takerAsset)
+        : swapped
+          ? makerDecimals
+          : takerDecimals;
+      if (childMaker === null || childTaker === null) {
+        logger.warn(
+          `⚠️ Child order ${child.hash} of ${order.id} has legacy decimal amounts but its token decimals are not cached`,
+        );
+        continue;
+      }
+      child.makingAmount = legacyToBaseUnits(child.makingAmount, childMaker);
+      child.takingAmount = legacyToBaseUnits(child.takingAmount, childTaker);
+      if (child.filledAmount) {
+        child.filledAmount = legacyToBaseUnits(child.filledAmount, childMaker);
+      }
+    }
   }
-  
+
+  /**
+   * Decimals of a token from the token_decimals table, expired entries included
+   * (decimals never change)
+   */
+  private getStoredTokenDecimals(
+    chainId: number,
+    tokenAddress: string,
+  ): number | null {
+    const row = this.preparedStatements
+      .get("getStoredTokenDecimals")
+      .get(chainId, tokenAddress.toLowerCase()) as { decimals: number } | null;
+    return row?.decimals ?? null;
+  }
+
   private rowToOrder(row: any): Order {
     return {
       id: row.id,
@@ -285,22 +853,86 @@ class StorageService {
       cancelledAt: row.cancelled_at || undefined,
       filledAmount: row.filled_amount || undefined,
       txHash: row.tx_hash || undefined,
-      oneInchOrderHashes: row.one_inch_order_hashes ? JSON.parse(row.one_inch_order_hashes) : undefined,
-      oneInchOrders: row.one_inch_orders ? JSON.parse(row.one_inch_orders) : undefined,
       orderHash: row.order_hash || undefined,
       receiver: row.receiver || undefined,
       salt: row.salt || undefined,
       expiry: row.expiry || undefined,
-      triggerPrice: row.trigger_price || undefined
+      triggerPrice: row.trigger_price || undefined,
+      participation: row.participation ? JSON.parse(row.participation) : undefined,
+      signedIntent: row.signed_intent ? JSON.parse(row.signed_intent) : undefined,
     };
   }
 
   async getOrderByHash(hash: string): Promise<Order | null> {
+    const child = await this.getChildOrder(hash);
+    if (child) return this.getOrder(child.orderId);
+
     const stmt = this.db.prepare(
       `SELECT * FROM orders WHERE order_hash = ?`,
     );
     const row = stmt.get(hash) as any;
-    return row ? this.rowToOrder(row) : null;
+    return row ? this.rowsToOrders([row])[0] : null;
+  }
+
+  // Child order methods
+  async getChildOrder(hash: string): Promise<ChildOrderRecord | null> {
+    const row = this.preparedStatements.get("getChildOrder").get(hash) as any;
+    return row ? this.rowToChildOrder(row) : null;
+  }
+
+  /**
+   * Record the remaining maker amount reported by the 1inch API. Returns the
+   * updated child, or null for orders not spawned by 1edge.
+   */
+  async updateChildOrderRemaining(
+    hash: string,
+    remainingAmount: string,
+  ): Promise<ChildOrderRecord | null> {
+    const child = await this.getChildOrder(hash);
+    if (!child) return null;
+
+    const now = Date.now();
+    let status = child.status;
+    if (child.struct && status !== OrderStatus.CANCELLED) {
+      const remaining = BigInt(remainingAmount);
+      status =
+        remaining === 0n
+          ? OrderStatus.FILLED
+          : remaining < BigInt(child.struct.makingAmount)
+            ? OrderStatus.PARTIALLY_FILLED
+            : status;
+    }
+    const filledAt =
+      status === OrderStatus.FILLED ? child.filledAt || now : undefined;
+
+    this.db
+      .prepare(
+        `UPDATE child_orders
+         SET remaining_amount = ?, status = ?, filled_at = ?, updated_at = ?
+         WHERE hash = ?`,
+      )
+      .run(remainingAmount, status, filledAt || null, now, hash);
+    return { ...child, remainingAmount, status, filledAt, updatedAt: now };
+  }
+
+  private rowToChildOrder(row: any): ChildOrderRecord {
+    return {
+      hash: row.hash,
+      orderId: row.order_id,
+      chainId: row.chain_id,
+      makerAsset: row.maker_asset || undefined,
+      makingAmount: row.making_amount,
+      takingAmount: row.taking_amount,
+      limitPrice: row.limit_price,
+      status: row.status,
+      filledAmount: row.filled_amount || undefined,
+      remainingAmount: row.remaining_amount || undefined,
+      struct: row.struct ? JSON.parse(row.struct) : undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      filledAt: row.filled_at || undefined,
+      cancelledAt: row.cancelled_at || undefined,
+    };
   }
 
   async updateOrder(order: Order): Promise<void> {
@@ -309,8 +941,10 @@ class StorageService {
   }
 
   async deleteOrder(id: string): Promise<void> {
-    const stmt = this.db.prepare(`DELETE FROM orders WHERE id = ?`);
-    stmt.run(id);
+    this.db.transaction(() => {
+      this.db.prepare(`DELETE FROM child_orders WHERE order_id = ?`).run(id);
+      this.db.prepare(`DELETE FROM orders WHERE id = ?`).run(id);
+    })();
     logger.debug(`Deleted order ${id}`);
   }
 
@@ -320,19 +954,19 @@ class StorageService {
   async getActiveOrders(): Promise<Order[]> {
     const stmt = this.preparedStatements.get("getActiveOrders");
     const results = stmt.all() as any[];
-    return results.map((row) => this.rowToOrder(row));
+    return this.rowsToOrders(results);
   }
 
   async getOrdersByMaker(makerAddress: string): Promise<Order[]> {
     const stmt = this.preparedStatements.get("getOrdersByMaker");
     const results = stmt.all(makerAddress.toLowerCase()) as any[];
-    return results.map((row) => this.rowToOrder(row));
+    return this.rowsToOrders(results);
   }
 
   async getPendingOrders(): Promise<Order[]> {
     const stmt = this.preparedStatements.get("getPendingOrders");
     const results = stmt.all() as any[];
-    return results.map((row) => this.rowToOrder(row));
+    return this.rowsToOrders(results);
   }
 
   // Order event methods
@@ -341,8 +975,8 @@ class StorageService {
       INSERT INTO order_events (
         order_id, order_hash, status, timestamp,
         tx_hash, filled_amount, remaining_amount,
-        gas_used, error
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        gas_used, error, bracket
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
     stmt.run(
@@ -355,6 +989,7 @@ class StorageService {
       event.remainingAmount || null,
       event.gasUsed || null,
       event.error || null,
+      event.bracket || null,
     );
 
     logger.debug(`Saved order event for ${event.orderId}`);
@@ -365,16 +1000,17 @@ class StorageService {
       SELECT 
         order_id as orderId,
         order_hash as orderHash,
-        type as status,
+        status,
         timestamp,
         tx_hash as txHash,
         filled_amount as filledAmount,
         remaining_amount as remainingAmount,
         gas_used as gasUsed,
-        error
+        error,
+        bracket
       FROM order_events 
       WHERE order_id = ? 
-      ORDER BY timestamp DESC
+      ORDER BY timestamp DESC, id DESC
     `);
     return stmt.all(orderId) as OrderEvent[];
   }
@@ -518,22 +1154,228 @@ class StorageService {
     return result?.decimals ?? null;
   }
 
+  // Maker nonce methods
+  async getMakerNonce(maker: string): Promise<number> {
+    const stmt = this.db.prepare(
+      `SELECT nonce FROM maker_nonces WHERE maker = ?`,
+    );
+    const result = stmt.get(maker.toLowerCase()) as { nonce: number } | null;
+    return result?.nonce ?? 0;
+  }
+
+  /**
+   * Atomically consume a maker nonce; returns false if it is not the current one
+   */
+  async consumeMakerNonce(maker: string, nonce: number): Promise<boolean> {
+    const consume = this.db.transaction(() => {
+      const key = maker.toLowerCase();
+      const row = this.db
+        .prepare(`SELECT nonce FROM maker_nonces WHERE maker = ?`)
+        .get(key) as { nonce: number } | null;
+      if ((row?.nonce ?? 0) !== nonce) return false;
+
+      this.db
+        .prepare(
+          `INSERT INTO maker_nonces (maker, nonce, updated_at) VALUES (?, ?, ?)
+           ON CONFLICT(maker) DO UPDATE SET nonce = excluded.nonce, updated_at = excluded.updated_at`,
+        )
+        .run(key, nonce + 1, Date.now());
+      return true;
+    });
+    return consume();
+  }
+
+  // Grid level methods
+  async saveGridLevel(level: GridLevel): Promise<void> {
+    const stmt = this.db.prepare(`
+      INSERT OR REPLACE INTO grid_levels (
+        order_id, level, price, home_side, side, leg_price, amount,
+        status, order_hash, entry_price, realized_pnl, fills, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    stmt.run(
+      level.orderId,
+      level.level,
+      level.price,
+      level.homeSide,
+      level.side,
+      level.legPrice,
+      level.amount,
+      level.status,
+      level.orderHash || null,
+      level.entryPrice ?? null,
+      level.realizedPnl,
+      level.fills,
+      level.updatedAt,
+    );
+  }
+
+  async getGridLevels(orderId: string): Promise<GridLevel[]> {
+    const stmt = this.db.prepare(`
+      SELECT * FROM grid_levels WHERE order_id = ? ORDER BY level ASC
+    `);
+    const results = stmt.all(orderId) as any[];
+    return results.map((row) => ({
+      orderId: row.order_id,
+      level: row.level,
+      price: row.price,
+      homeSide: row.home_side,
+      side: row.side,
+      legPrice: row.leg_price,
+      amount: row.amount,
+      status: row.status,
+      orderHash: row.order_hash || undefined,
+      entryPrice: row.entry_price ?? undefined,
+      realizedPnl: row.realized_pnl,
+      fills: row.fills,
+      updatedAt: row.updated_at,
+    }));
+  }
+
+  // Bracket methods
+  async saveBracket(bracket: Bracket): Promise<void> {
+    const stmt = this.db.prepare(`
+      INSERT OR REPLACE INTO order_brackets (
+        order_id, status, entry_price, exit_amount, take_profit_price,
+        stop_loss_price, take_profit_hash, stop_loss_hash, created_at, closed_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    stmt.run(
+      bracket.orderId,
+      bracket.status,
+      bracket.entryPrice,
+      bracket.exitAmount,
+      bracket.takeProfitPrice ?? null,
+      bracket.stopLossPrice ?? null,
+      bracket.takeProfitHash || null,
+      bracket.stopLossHash || null,
+      bracket.createdAt,
+      bracket.closedAt || null,
+    );
+  }
+
+  async getBracket(orderId: string): Promise<Bracket | null> {
+    const stmt = this.db.prepare(
+      `SELECT * FROM order_brackets WHERE order_id = ?`,
+    );
+    const row = stmt.get(orderId) as any;
+    return row ? this.rowToBracket(row) : null;
+  }
+
+  /**
+   * Armed brackets of filled orders, still to be watched
+   */
+  async getArmedBrackets(): Promise<Bracket[]> {
+    const stmt = this.db.prepare(`
+      SELECT b.* FROM order_brackets b
+      JOIN orders o ON o.id = b.order_id
+      WHERE b.status = 'ARMED' AND o.status = 'FILLED'
+    `);
+    const results = stmt.all() as any[];
+    return results.map((row) => this.rowToBracket(row));
+  }
+
+  private rowToBracket(row: any): Bracket {
+    return {
+      orderId: row.order_id,
+      status: row.status,
+      entryPrice: row.entry_price,
+      exitAmount: row.legacy_amounts
+        ? this.convertLegacyExitAmount(row.order_id, row.exit_amount)
+        : row.exit_amount,
+      takeProfitPrice: row.take_profit_price ?? undefined,
+      stopLossPrice: row.stop_loss_price ?? undefined,
+      takeProfitHash: row.take_profit_hash || undefined,
+      stopLossHash: row.stop_loss_hash || undefined,
+      createdAt: row.created_at,
+      closedAt: row.closed_at || undefined,
+    };
+  }
+
+  /**
+   * Base units of a bracket exit amount stored as a decimal amount of the
+   * order's taker asset (unchanged if its decimals are not cached)
+   */
+  private convertLegacyExitAmount(orderId: string, exitAmount: string): string {
+    const row = this.preparedStatements.get("getOrder").get(orderId) as any;
+    const params = row?.params ? JSON.parse(row.params) : null;
+    const decimals = params
+      ? this.getStoredTokenDecimals(params.chainId || 1, params.takerAsset)
+      : null;
+    if (decimals === null) {
+      logger.warn(
+        `⚠️ Bracket of order ${orderId} has a legacy decimal exit amount but its token decimals are not cached`,
+      );
+      return exitAmount;
+    }
+    return legacyToBaseUnits(exitAmount, decimals);
+  }
+
+  // Spread position methods
+  async saveSpreadPosition(position: SpreadPosition): Promise<void> {
+    const stmt = this.db.prepare(`
+      INSERT OR REPLACE INTO spread_positions (
+        order_id, status, entry_ratio, entry_z, exit_ratio, legs,
+        realized_pnl, opened_at, closed_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    stmt.run(
+      position.orderId,
+      position.status,
+      position.entryRatio,
+      position.entryZ,
+      position.exitRatio ?? null,
+      JSON.stringify(position.legs),
+      position.realizedPnl ?? null,
+      position.openedAt,
+      position.closedAt || null,
+      position.updatedAt,
+    );
+  }
+
+  async getSpreadPosition(orderId: string): Promise<SpreadPosition | null> {
+    const stmt = this.db.prepare(
+      `SELECT * FROM spread_positions WHERE order_id = ?`,
+    );
+    const row = stmt.get(orderId) as any;
+    if (!row) return null;
+    return {
+      orderId: row.order_id,
+      status: row.status,
+      entryRatio: row.entry_ratio,
+      entryZ: row.entry_z,
+      exitRatio: row.exit_ratio ?? undefined,
+      legs: JSON.parse(row.legs),
+      realizedPnl: row.realized_pnl ?? undefined,
+      openedAt: row.opened_at,
+      closedAt: row.closed_at || undefined,
+      updatedAt: row.updated_at,
+    };
+  }
+
   close() {
     this.db.close();
   }
 }
 
 // Export singleton instance
-let storageInstance: StorageService | null = null;
+let storageInstance: StorageBackend | null = null;
 
 export function initStorage(config: Config["storage"]) {
   if (!storageInstance) {
-    storageInstance = new StorageService(config);
+    storageInstance =
+      config.backend === "postgres"
+        ? new PostgresStorageService(config)
+        : new StorageService(config);
+    logger.info(`🗄️ Storage backend: ${config.backend || "sqlite"}`);
   }
   return storageInstance;
 }
 
-export function getStorage(): StorageService {
+export function getStorage(): StorageBackend {
   if (!storageInstance) {
     throw new Error("Storage not initialized. Call initStorage first.");
   }
@@ -548,6 +1390,11 @@ export const updateOrder = (order: Order) => getStorage().updateOrder(order);
 export const deleteOrder = (id: string) => getStorage().deleteOrder(id);
 export const getOrderByHash = (hash: string) =>
   getStorage().getOrderByHash(hash);
+export const getChildOrder = (hash: string) => getStorage().getChildOrder(hash);
+export const updateChildOrderRemaining = (
+  hash: string,
+  remainingAmount: string,
+) => getStorage().updateChildOrderRemaining(hash, remainingAmount);
 export const getActiveOrders = () => getStorage().getActiveOrders();
 export const getOrdersByMaker = (makerAddress: string) =>
   getStorage().getOrdersByMaker(makerAddress);
@@ -577,3 +1424,20 @@ export const cacheTokenDecimals = (
 ) => getStorage().cacheTokenDecimals(chainId, tokenAddress, decimals, ttl);
 export const getCachedTokenDecimals = (chainId: number, tokenAddress: string) =>
   getStorage().getCachedTokenDecimals(chainId, tokenAddress);
+export const getMakerNonce = (maker: string) =>
+  getStorage().getMakerNonce(maker);
+export const consumeMakerNonce = (maker: string, nonce: number) =>
+  getStorage().consumeMakerNonce(maker, nonce);
+export const saveGridLevel = (level: GridLevel) =>
+  getStorage().saveGridLevel(level);
+export const getGridLevels = (orderId: string) =>
+  getStorage().getGridLevels(orderId);
+export const saveBracket = (bracket: Bracket) =>
+  getStorage().saveBracket(bracket);
+export const getBracket = (orderId: string) =>
+  getStorage().getBracket(orderId);
+export const getArmedBrackets = () => getStorage().getArmedBrackets();
+export const saveSpreadPosition = (position: SpreadPosition) =>
+  getStorage().saveSpreadPosition(position);
+export const getSpreadPosition = (orderId: string) =>
+  getStorage().getSpreadPosition(orderId);
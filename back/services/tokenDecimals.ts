@@ -0,0 +1,221 @@
+import { ethers } from "ethers";
+import type { Order } from "@common/types";
+import { logger } from "@back/utils/logger";
+import { getStorage, type StorageBackend } from "./storage";
+
+const ERC20_DECIMALS_ABI = ["function decimals() view returns (uint8)"];
+const PRICE_DECIMALS = 18; // Fixed-point precision of prices in quoteAmount
+
+/**
+ * Resolves ERC-20 decimals per (chain, token), backed by the token_decimals
+ * table and falling back to an on-chain decimals() call
+ */
+export class TokenDecimalsService {
+  private memory = new Map<string, number>();
+  private inflight = new Map<string, Promise<number>>();
+
+  constructor(private storage: () => StorageBackend = () => getStorage()) {}
+
+  /**
+   * Get decimals for a token, resolving and caching them if needed
+   */
+  async getDecimals(
+    chainId: number,
+    tokenAddress: string,
+    provider?: ethers.Provider,
+  ): Promise<number> {
+    const key = `${chainId}:${tokenAddress.toLowerCase()}`;
+
+    const known = this.memory.get(key);
+    if (known !== undefined) return known;
+
+    let pending = this.inflight.get(key);
+    if (!pending) {
+      pending = this.resolve(chainId, tokenAddress, provider).finally(() =>
+        this.inflight.delete(key),
+      );
+      this.inflight.set(key, pending);
+    }
+
+    const decimals = await pending;
+    this.memory.set(key, decimals);
+    return decimals;
+  }
+
+  private async resolve(
+    chainId: number,
+    tokenAddress: string,
+    provider?: ethers.Provider,
+  ): Promise<number> {
+    const cached = await this.storage().getCachedTokenDecimals(
+      chainId,
+      tokenAddress,
+    );
+    if (cached !== null) return cached;
+
+    if (!provider) {
+      throw new Error(
+        `Decimals for ${tokenAddress} on chain ${chainId} not cached and no provider available`,
+      );
+    }
+
+    const token = new ethers.Contract(
+      tokenAddress,
+      ERC20_DECIMALS_ABI,
+      provider,
+    );
+    const decimals = Number(await token.decimals());
+
+    await this.storage().cacheTokenDecimals(chainId, tokenAddress, decimals);
+    logger.debug(
+      `🔢 Resolved decimals for ${tokenAddress} on chain ${chainId}: ${decimals}`,
+    );
+    return decimals;
+  }
+
+  /**
+   * Convert an order stored with legacy decimal amounts: decimals of its tokens
+   * are resolved (on-chain when not cached) and the order is re-read so storage
+   * converts it. Returns null if some amounts are still not base units
+   */
+  async resolveLegacyAmounts(
+    order: Order,
+    provider?: ethers.Provider,
+  ): Promise<Order | null> {
+    if (hasBaseUnitAmounts(order)) return order;
+    if (!order.params) return null;
+
+    const { chainId = 1, makerAsset, takerAsset } = order.params;
+    const assets = new Set([makerAsset, takerAsset]);
+    for (const child of order.oneInchOrders || []) {
+      if (child.makerAsset) assets.add(child.makerAsset);
+      if (child.struct) assets.add(child.struct.takerAsset);
+    }
+    for (const asset of assets) {
+      await this.getDecimals(chainId, asset, provider);
+    }
+
+    const resolved = await this.storage().getOrder(order.id);
+    return resolved && hasBaseUnitAmounts(resolved) ? resolved : null;
+  }
+}
+
+export const tokenDecimals = new TokenDecimalsService();
+
+export const getTokenDecimals = (
+  chainId: number,
+  tokenAddress: string,
+  provider?: ethers.Provider,
+) => tokenDecimals.getDecimals(chainId, tokenAddress, provider);
+
+export const resolveLegacyAmounts = (
+  order: Order,
+  provider?: ethers.Provider,
+) => tokenDecimals.resolveLegacyAmounts(order, provider);
+
+/**
+ * Whether an amount is in base units (integer string)
+ */
+export function isBaseUnits(amount: unknown): amount is string {
+  return typeof amount === "string" && /^\d+$/.test(amount);
+}
+
+/**
+ * Whether all amounts of an order and its child orders are in base units
+ */
+export function hasBaseUnitAmounts(order: Order): boolean {
+  const amounts = [
+    order.remainingMakerAmount,
+    order.filledAmount,
+    order.params?.makingAmount,
+    order.params?.takingAmount,
+    ...(order.oneInchOrders || []).flatMap((child) => [
+      child.makingAmount,
+      child.takingAmount,
+      child.filledAmount,
+    ]),
+  ];
+  return amounts.every((amount) => amount === undefined || isBaseUnits(amount));
+}
+
+/**
+ * Convert a decimal token amount to base units (digits beyond the token's
+ * decimals are truncated). Numbers are converted from their shortest
+ * round-trip string, so 0.1 is exactly 0.1 and carries no binary float dust
+ */
+export function toBaseUnits(amount: number | string, decimals: number): bigint {
+  let decimal = String(amount);
+  if (!/^\d+(\.\d*)?$/.test(decimal)) {
+    const value = typeof amount === "number" ? amount : parseFloat(amount);
+    if (!Number.isFinite(value) || value < 0) {
+      throw new Error(`Invalid token amount: ${amount}`);
+    }
+    decimal = plainDecimal(value);
+  }
+  const [whole, fraction = ""] = decimal.split(".");
+  return ethers.parseUnits(
+    `${whole}.${fraction.slice(0, decimals) || "0"}`,
+    decimals,
+  );
+}
+
+/**
+ * Shortest round-trip digits of a number in plain notation (1e-7 -> "0.0000001")
+ */
+function plainDecimal(value: number): string {
+  const [mantissa, exp = "0"] = String(value).split("e");
+  const [whole, fraction = ""] = mantissa.split(".");
+  const digits = whole + fraction;
+  const point = whole.length + Number(exp);
+  if (point <= 0) return `0.${"0".repeat(-point)}${digits}`;
+  if (point >= digits.length) return digits + "0".repeat(point - digits.length);
+  return `${digits.slice(0, point)}.${digits.slice(point)}`;
+}
+
+/**
+ * Parse a base-unit amount (non-negative integer string), throws otherwise
+ */
+export function parseBaseUnits(amount: unknown, name = "amount"): bigint {
+  if (typeof amount !== "string" || !/^\d+$/.test(amount)) {
+    throw new Error(
+      `${name} must be a base-unit integer string, got ${JSON.stringify(amount)}`,
+    );
+  }
+  return BigInt(amount);
+}
+
+/**
+ * Taker amount (base units) received for a maker amount at a quote-per-base
+ * price: selling base yields making * price, buying base yields making / price
+ */
+export function quoteAmount(
+  makingAmount: bigint,
+  price: number,
+  makerDecimals: number,
+  takerDecimals: number,
+  makerIsBase: boolean,
+): bigint {
+  if (!(price > 0) || !Number.isFinite(price)) {
+    throw new Error(`Invalid price: ${price}`);
+  }
+  const scaledPrice = ethers.parseUnits(
+    price.toFixed(PRICE_DECIMALS),
+    PRICE_DECIMALS,
+  );
+  const priceScale = 10n ** BigInt(PRICE_DECIMALS);
+  const makerScale = 10n ** BigInt(makerDecimals);
+  const takerScale = 10n ** BigInt(takerDecimals);
+  return makerIsBase
+    ? (makingAmount * scaledPrice * takerScale) / (priceScale * makerScale)
+    : (makingAmount * priceScale * takerScale) / (scaledPrice * makerScale);
+}
+
+/**
+ * Convert base units back to a decimal token amount
+ */
+export function fromBaseUnits(
+  amount: bigint | string,
+  decimals: number,
+): number {
+  return parseFloat(ethers.formatUnits(amount, decimals));
+}
@@ -0,0 +1,98 @@
+/**
+ * Hashed timer wheel: schedules keys at absolute timestamps with O(1)
+ * insert/cancel, driven by a single interval regardless of the number of keys
+ */
+export class TimerWheel<K> {
+  private slots: Map<K, number>[];
+  private index = new Map<K, number>(); // key -> slot
+  private cursor = 0;
+  private timer?: ReturnType<typeof setInterval>;
+
+  constructor(
+    private tickMs: number = 1000,
+    slotCount: number = 512,
+  ) {
+    this.slots = Array.from({ length: slotCount }, () => new Map<K, number>());
+  }
+
+  /**
+   * Start ticking; due keys are passed to the callback once per tick
+   */
+  start(onExpire: (keys: K[]) => void): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      const due = this.tick();
+      if (due.length > 0) onExpire(due);
+    }, this.tickMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Schedule (or reschedule) a key; past timestamps fire on the next tick
+   */
+  schedule(key: K, at: number): void {
+    this.cancel(key);
+    const ticks = Math.max(1, Math.ceil((at - Date.now()) / this.tickMs));
+    const slot =
+      (this.cursor + Math.min(ticks, this.slots.length)) % this.slots.length;
+    this.slots[slot].set(key, at);
+    this.index.set(key, slot);
+  }
+
+  cancel(key: K): void {
+    const slot = this.index.get(key);
+    if (slot === undefined) return;
+    this.slots[slot].delete(key);
+    this.index.delete(key);
+  }
+
+  has(key: K): boolean {
+    return this.index.has(key);
+  }
+
+  /**
+   * Scheduled timestamp of a key, if any
+   */
+  get(key: K): number | undefined {
+    const slot = this.index.get(key);
+    return slot === undefined ? undefined : this.slots[slot].get(key);
+  }
+
+  get size(): number {
+    return this.index.size;
+  }
+
+  clear(): void {
+    for (const slot of this.slots) slot.clear();
+    this.index.clear();
+  }
+
+  /**
+   * Advance one slot and collect due keys; keys scheduled further than one
+   * revolution ahead are re-slotted instead
+   */
+  private tick(): K[] {
+    this.cursor = (this.cursor + 1) % this.slots.length;
+    const bucket = this.slots[this.cursor];
+    const now = Date.now();
+    const due: K[] = [];
+
+    for (const [key, at] of Array.from(bucket)) {
+      if (at <= now) {
+        bucket.delete(key);
+        this.index.delete(key);
+        due.push(key);
+      } else {
+        this.schedule(key, at);
+      }
+    }
+
+    return due;
+  }
+}
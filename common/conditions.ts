@@ -0,0 +1,360 @@
+/**
+ * Conditional trigger expressions
+ * e.g. `rsi < 25 && close < bb.lower`, `(price > ema * 1.02 || adx >= 30) && !(macd.histogram < 0)`
+ *
+ * Grammar (lowest to highest precedence):
+ *   or         := and ("||" and)*
+ *   and        := not ("&&" not)*
+ *   not        := "!" not | comparison
+ *   comparison := sum (("<" | "<=" | ">" | ">=" | "==" | "!=") sum)?
+ *   sum        := product (("+" | "-") product)*
+ *   product    := unary (("*" | "/") unary)*
+ *   unary      := "-" unary | number | field | "(" or ")"
+ */
+
+/** Latest price / candle values */
+export const PRICE_FIELDS = [
+  "price",
+  "open",
+  "high",
+  "low",
+  "close",
+  "volume",
+] as const;
+
+/** Latest TickerAnalysis values (dotted paths into nested series) */
+export const INDICATOR_FIELDS = [
+  "rsi",
+  "ema",
+  "sma",
+  "pct",
+  "roc",
+  "vol",
+  "atr",
+  "mom",
+  "adx",
+  "bb.upper",
+  "bb.middle",
+  "bb.lower",
+  "macd.macd",
+  "macd.signal",
+  "macd.histogram",
+] as const;
+
+export type ConditionField =
+  (typeof PRICE_FIELDS)[number] | (typeof INDICATOR_FIELDS)[number];
+
+type ComparisonOperator = "<" | "<=" | ">" | ">=" | "==" | "!=";
+type ArithmeticOperator = "+" | "-" | "*" | "/";
+
+export type ConditionNode =
+  | { kind: "number"; value: number }
+  | { kind: "field"; field: ConditionField }
+  | { kind: "negate"; operand: ConditionNode }
+  | {
+      kind: "arithmetic";
+      op: ArithmeticOperator;
+      left: ConditionNode;
+      right: ConditionNode;
+    }
+  | {
+      kind: "compare";
+      op: ComparisonOperator;
+      left: ConditionNode;
+      right: ConditionNode;
+    }
+  | { kind: "not"; operand: ConditionNode }
+  | { kind: "and" | "or"; left: ConditionNode; right: ConditionNode };
+
+const ARITHMETIC: Record<ArithmeticOperator, (a: number, b: number) => number> =
+  {
+    "+": (a, b) => a + b,
+    "-": (a, b) => a - b,
+    "*": (a, b) => a * b,
+    "/": (a, b) => a / b,
+  };
+
+const COMPARE: Record<ComparisonOperator, (a: number, b: number) => boolean> = {
+  "<": (a, b) => a < b,
+  "<=": (a, b) => a <= b,
+  ">": (a, b) => a > b,
+  ">=": (a, b) => a >= b,
+  "==": (a, b) => a === b,
+  "!=": (a, b) => a !== b,
+};
+
+const FIELDS = new Set<string>([...PRICE_FIELDS, ...INDICATOR_FIELDS]);
+const MAX_CONDITION_LENGTH = 512;
+const TOKEN_REGEX =
+  /(\d+(?:\.\d*)?|\.\d+)|([a-zA-Z_]\w*(?:\.[a-zA-Z_]\w*)*)|(&&|\|\||<=|>=|==|!=|[<>!()+\-*/])/y;
+
+interface Token {
+  type: "number" | "field" | "symbol";
+  text: string;
+  pos: number;
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  while (pos < source.length) {
+    if (/\s/.test(source[pos])) {
+      pos++;
+      continue;
+    }
+    TOKEN_REGEX.lastIndex = pos;
+    const match = TOKEN_REGEX.exec(source);
+    if (!match) {
+      throw new Error(
+        `Invalid condition "${source}": unexpected "${source[pos]}" at position ${pos}`,
+      );
+    }
+    const type = match[1] ? "number" : match[2] ? "field" : "symbol";
+    tokens.push({ type, text: match[0], pos });
+    pos = TOKEN_REGEX.lastIndex;
+  }
+  return tokens;
+}
+
+/**
+ * Recursive descent parser, numeric and boolean sub-expressions are type-checked as they are built
+ */
+class ConditionParser {
+  private index = 0;
+
+  constructor(
+    private readonly source: string,
+    private readonly tokens: Token[],
+  ) {}
+
+  parse(): ConditionNode {
+    const node = this.parseOr();
+    const extra = this.peek();
+    if (extra) this.fail(`Unexpected "${extra.text}"`, extra);
+    this.expectBoolean(node, "The condition");
+    return node;
+  }
+
+  private parseOr(): ConditionNode {
+    let left = this.parseAnd();
+    while (this.accept("||")) {
+      const right = this.parseAnd();
+      this.expectBoolean(left, 'Left of "||"');
+      this.expectBoolean(right, 'Right of "||"');
+      left = { kind: "or", left, right };
+    }
+    return left;
+  }
+
+  private parseAnd(): ConditionNode {
+    let left = this.parseNot();
+    while (this.accept("&&")) {
+      const right = this.parseNot();
+      this.expectBoolean(left, 'Left of "&&"');
+      this.expectBoolean(right, 'Right of "&&"');
+      left = { kind: "and", left, right };
+    }
+    return left;
+  }
+
+  private parseNot(): ConditionNode {
+    if (this.accept("!")) {
+      const operand = this.parseNot();
+      this.expectBoolean(operand, 'Operand of "!"');
+      return { kind: "not", operand };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): ConditionNode {
+    const left = this.parseSum();
+    const op = this.acceptAny(["<", "<=", ">", ">=", "==", "!="]);
+    if (!op) return left;
+
+    const right = this.parseSum();
+    this.expectNumeric(left, `Left of "${op}"`);
+    this.expectNumeric(right, `Right of "${op}"`);
+    if (this.peek()?.text.match(/^(<|<=|>|>=|==|!=)$/)) {
+      this.fail("Comparisons cannot be chained, use &&", this.peek()!);
+    }
+    return { kind: "compare", op: op as ComparisonOperator, left, right };
+  }
+
+  private parseSum(): ConditionNode {
+    let left = this.parseProduct();
+    let op: string | undefined;
+    while ((op = this.acceptAny(["+", "-"]))) {
+      const right = this.parseProduct();
+      this.expectNumeric(left, `Left of "${op}"`);
+      this.expectNumeric(right, `Right of "${op}"`);
+      left = { kind: "arithmetic", op: op as ArithmeticOperator, left, right };
+    }
+    return left;
+  }
+
+  private parseProduct(): ConditionNode {
+    let left = this.parseUnary();
+    let op: string | undefined;
+    while ((op = this.acceptAny(["*", "/"]))) {
+      const right = this.parseUnary();
+      this.expectNumeric(left, `Left of "${op}"`);
+      this.expectNumeric(right, `Right of "${op}"`);
+      left = { kind: "arithmetic", op: op as ArithmeticOperator, left, right };
+    }
+    return left;
+  }
+
+  private parseUnary(): ConditionNode {
+    const token = this.next();
+    if (!token) this.fail("Unexpected end of condition");
+
+    if (token.text === "-") {
+      const operand = this.parseUnary();
+      this.expectNumeric(operand, 'Operand of "-"');
+      return { kind: "negate", operand };
+    }
+    if (token.type === "number") {
+      return { kind: "number", value: parseFloat(token.text) };
+    }
+    if (token.type === "field") {
+      if (!FIELDS.has(token.text)) {
+        this.fail(`Unknown field "${token.text}"`, token);
+      }
+      return { kind: "field", field: token.text as ConditionField };
+    }
+    if (token.text === "(") {
+      const node = this.parseOr();
+      if (!this.accept(")")) this.fail('Missing ")"', this.peek());
+      return node;
+    }
+    return this.fail(`Unexpected "${token.text}"`, token);
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token | undefined {
+    return this.tokens[this.index++];
+  }
+
+  private accept(text: string): boolean {
+    if (this.peek()?.text !== text) return false;
+    this.index++;
+    return true;
+  }
+
+  private acceptAny(texts: string[]): string | undefined {
+    const text = this.peek()?.text;
+    return text !== undefined && texts.includes(text) && this.accept(text)
+      ? text
+      : undefined;
+  }
+
+  private expectBoolean(node: ConditionNode, what: string): void {
+    if (!isBoolean(node)) this.fail(`${what} must be a comparison`);
+  }
+
+  private expectNumeric(node: ConditionNode, what: string): void {
+    if (isBoolean(node)) this.fail(`${what} must be a number or field`);
+  }
+
+  private fail(message: string, token?: Token): never {
+    const pos = token?.pos ?? this.source.length;
+    throw new Error(
+      `Invalid condition "${this.source}": ${message} at position ${pos}`,
+    );
+  }
+}
+
+const isBoolean = (node: ConditionNode): boolean =>
+  node.kind === "compare" ||
+  node.kind === "not" ||
+  node.kind === "and" ||
+  node.kind === "or";
+
+/**
+ * Parse and validate a condition expression, throws on syntax errors, unknown
+ * fields and type mismatches (e.g. `rsi && 25`)
+ */
+export function parseCondition(source: string): ConditionNode {
+  if (typeof source !== "string" || source.trim().length === 0) {
+    throw new Error("Condition must be a non-empty expression");
+  }
+  if (source.length > MAX_CONDITION_LENGTH) {
+    throw new Error(`Condition exceeds ${MAX_CONDITION_LENGTH} characters`);
+  }
+  return new ConditionParser(source, tokenize(source)).parse();
+}
+
+/**
+ * Fields referenced by a parsed condition
+ */
+export function getConditionFields(node: ConditionNode): ConditionField[] {
+  const fields = new Set<ConditionField>();
+  const visit = (n: ConditionNode) => {
+    switch (n.kind) {
+      case "field":
+        fields.add(n.field);
+        break;
+      case "negate":
+      case "not":
+        visit(n.operand);
+        break;
+      case "number":
+        break;
+      default:
+        visit(n.left);
+        visit(n.right);
+    }
+  };
+  visit(node);
+  return [...fields];
+}
+
+/**
+ * Evaluate a parsed condition against resolved field values
+ */
+export function evaluateCondition(
+  node: ConditionNode,
+  values: Partial<Record<ConditionField, number>>,
+): boolean {
+  return Boolean(evaluate(node, values));
+}
+
+function evaluate(
+  node: ConditionNode,
+  values: Partial<Record<ConditionField, number>>,
+): number | boolean {
+  switch (node.kind) {
+    case "number":
+      return node.value;
+    case "field":
+      return values[node.field] ?? NaN;
+    case "negate":
+      return -evaluate(node.operand, values);
+    case "not":
+      return !evaluate(node.operand, values);
+    case "and":
+      return (
+        Boolean(evaluate(node.left, values)) &&
+        Boolean(evaluate(node.right, values))
+      );
+    case "or":
+      return (
+        Boolean(evaluate(node.left, values)) ||
+        Boolean(evaluate(node.right, values))
+      );
+    case "arithmetic":
+      return ARITHMETIC[node.op](
+        evaluate(node.left, values) as number,
+        evaluate(node.right, values) as number,
+      );
+    case "compare":
+      return COMPARE[node.op](
+        evaluate(node.left, values) as number,
+        evaluate(node.right, values) as number,
+      );
+  }
+}
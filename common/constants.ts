@@ -517,6 +517,7 @@ export const INDICATOR_DEFAULTS = {
   SMA: { shortPeriod: 20, longPeriod: 50 },
   MACD: { fastPeriod: 12, slowPeriod: 26, signalPeriod: 9 },
   BB: { period: 20, stdDev: 2 },
+  ADX: { period: 14 },
 };
 
 /**
@@ -0,0 +1,375 @@
+import { OrderIntentAction, OrderType } from "./types";
+import type { OrderParams } from "./types";
+import deployments from "../deployments.json";
+
+/**
+ * EIP-712 typed data for 1edge order signatures.
+ * Shared by the front-end (signing) and the order registry (verification).
+ */
+
+export const ORDER_DOMAIN_NAME = "1edge";
+export const ORDER_DOMAIN_VERSION = "1";
+
+/** Default signature validity window (seconds) */
+export const DEFAULT_SIGNATURE_TTL = 15 * 60;
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+export interface TypedDataField {
+  name: string;
+  type: string;
+}
+
+export interface OrderTypedDataDomain {
+  name: string;
+  version: string;
+  chainId: number;
+  verifyingContract: string;
+}
+
+export interface OrderTypedData {
+  domain: OrderTypedDataDomain;
+  types: Record<string, TypedDataField[]>;
+  primaryType: string;
+  message: Record<string, unknown>;
+}
+
+/** Fields shared by every order type */
+const BASE_ORDER_FIELDS: TypedDataField[] = [
+  { name: "type", type: "string" },
+  { name: "maker", type: "address" },
+  { name: "receiver", type: "address" },
+  { name: "chainId", type: "uint256" },
+  { name: "makerAsset", type: "address" },
+  { name: "takerAsset", type: "address" },
+  { name: "makingAmount", type: "string" },
+  { name: "takingAmount", type: "string" },
+  { name: "amount", type: "string" },
+  { name: "expiry", type: "uint256" },
+  { name: "salt", type: "string" },
+];
+
+/** Bracket exits any order type may attach, unless its own fields define them */
+const BRACKET_FIELDS: TypedDataField[] = [
+  { name: "tpPct", type: "string" },
+  { name: "slPct", type: "string" },
+];
+
+/** Dutch auction of the slices any order type may request */
+const AUCTION_FIELDS: TypedDataField[] = [
+  { name: "auctionPremiumPct", type: "string" },
+  { name: "auctionEndPrice", type: "string" },
+  { name: "auctionDuration", type: "uint256" },
+];
+
+/** Order types whose legs have their own prices, never auctioned */
+export const UNAUCTIONED_ORDER_TYPES: ReadonlySet<string> = new Set([
+  OrderType.GRID_TRADING,
+  OrderType.SPREAD,
+]);
+
+/** Replay protection fields appended to every signed struct */
+const SIGNATURE_FIELDS: TypedDataField[] = [
+  { name: "nonce", type: "uint256" },
+  { name: "deadline", type: "uint256" },
+];
+
+/**
+ * Type-specific fields; decimals are signed as their JS string representation
+ */
+export const ORDER_PARAM_FIELDS: Record<string, TypedDataField[]> = {
+  [OrderType.STOP_LIMIT]: [
+    { name: "stopPrice", type: "string" },
+    { name: "limitPrice", type: "string" },
+    { name: "side", type: "string" },
+  ],
+  [OrderType.TRAILING_STOP]: [
+    { name: "trailPct", type: "string" },
+    { name: "trailAbs", type: "string" },
+    { name: "activationPrice", type: "string" },
+  ],
+  [OrderType.CHASE_LIMIT]: [
+    { name: "distancePct", type: "string" },
+    { name: "maxPrice", type: "string" },
+  ],
+  [OrderType.TWAP]: [
+    { name: "startDate", type: "uint256" },
+    { name: "endDate", type: "uint256" },
+    { name: "interval", type: "uint256" },
+    { name: "maxPrice", type: "string" },
+  ],
+  [OrderType.VWAP]: [
+    { name: "startDate", type: "uint256" },
+    { name: "endDate", type: "uint256" },
+    { name: "interval", type: "uint256" },
+    { name: "maxPrice", type: "string" },
+    { name: "lookbackDays", type: "uint256" },
+  ],
+  [OrderType.POV]: [
+    { name: "startDate", type: "uint256" },
+    { name: "endDate", type: "uint256" },
+    { name: "interval", type: "uint256" },
+    { name: "maxPrice", type: "string" },
+    { name: "participationPct", type: "string" },
+  ],
+  [OrderType.RANGE]: [
+    { name: "startPrice", type: "string" },
+    { name: "endPrice", type: "string" },
+    { name: "stepPct", type: "string" },
+    { name: "steps", type: "uint256" },
+  ],
+  [OrderType.ICEBERG]: [
+    { name: "startPrice", type: "string" },
+    { name: "endPrice", type: "string" },
+    { name: "steps", type: "uint256" },
+    { name: "refill", type: "bool" },
+    { name: "clipSize", type: "string" },
+    { name: "clipJitterPct", type: "string" },
+    { name: "priceJitterPct", type: "string" },
+  ],
+  [OrderType.DCA]: [
+    { name: "startDate", type: "uint256" },
+    { name: "interval", type: "string" },
+    { name: "maxPrice", type: "string" },
+  ],
+  [OrderType.GRID_TRADING]: [
+    { name: "startPrice", type: "string" },
+    { name: "endPrice", type: "string" },
+    { name: "stepPct", type: "string" },
+    { name: "stepMultiplier", type: "string" },
+    { name: "singleSide", type: "bool" },
+    { name: "counterAmount", type: "string" },
+    { name: "tpPct", type: "string" },
+  ],
+  [OrderType.MOMENTUM_REVERSAL]: [
+    { name: "rsiPeriod", type: "uint256" },
+    { name: "rsimaPeriod", type: "uint256" },
+    { name: "tpPct", type: "string" },
+    { name: "slPct", type: "string" },
+    { name: "rsiTf", type: "uint256" },
+  ],
+  [OrderType.RANGE_BREAKOUT]: [
+    { name: "adxPeriod", type: "uint256" },
+    { name: "adxmaPeriod", type: "uint256" },
+    { name: "emaPeriod", type: "uint256" },
+    { name: "tpPct", type: "string" },
+    { name: "slPct", type: "string" },
+    { name: "adxThreshold", type: "string" },
+    { name: "breakoutPct", type: "string" },
+    { name: "adxTf", type: "uint256" },
+    { name: "emaTf", type: "uint256" },
+  ],
+  [OrderType.CONDITIONAL]: [
+    { name: "condition", type: "string" },
+    { name: "limitPrice", type: "string" },
+  ],
+  [OrderType.SPREAD]: [
+    { name: "legAsset", type: "address" },
+    { name: "entryZ", type: "string" },
+    { name: "exitZ", type: "string" },
+    { name: "lookback", type: "uint256" },
+    { name: "slippagePct", type: "string" },
+  ],
+  [OrderType.LIMIT]: [],
+};
+
+/**
+ * EIP-712 primary type name for an order type (STOP_LIMIT -> StopLimitOrder)
+ */
+export function getOrderPrimaryType(type: string): string {
+  const name = type
+    .toLowerCase()
+    .split("_")
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join("");
+  return `${name}Order`;
+}
+
+/**
+ * Signing domain bound to the chain and its DelegateProxy deployment
+ */
+export function getOrderDomain(chainId: number): OrderTypedDataDomain {
+  const deployment =
+    deployments.deployments[
+      chainId.toString() as keyof typeof deployments.deployments
+    ];
+  if (!deployment?.proxy) {
+    throw new Error(`No DelegateProxy deployment for chain ${chainId}`);
+  }
+
+  return {
+    name: ORDER_DOMAIN_NAME,
+    version: ORDER_DOMAIN_VERSION,
+    chainId,
+    verifyingContract: deployment.proxy,
+  };
+}
+
+/**
+ * Fields covered by the typed struct of an order type
+ */
+export function getOrderFields(type: string): TypedDataField[] {
+  const fields = ORDER_PARAM_FIELDS[type];
+  if (!fields) {
+    throw new Error(`Unsupported order type for signing: ${type}`);
+  }
+  const own = new Set(fields.map((f) => f.name));
+  return [
+    ...BASE_ORDER_FIELDS,
+    ...fields,
+    ...BRACKET_FIELDS.filter((f) => !own.has(f.name)),
+    ...(UNAUCTIONED_ORDER_TYPES.has(type) ? [] : AUCTION_FIELDS),
+    ...SIGNATURE_FIELDS,
+  ];
+}
+
+/**
+ * Param keys that would not be covered by the signature
+ */
+export function getUnsignedParamKeys(params: OrderParams): string[] {
+  const signed = new Set(getOrderFields(params.type).map((f) => f.name));
+  const values = params as unknown as Record<string, unknown>;
+  return Object.keys(values).filter(
+    (key) => !signed.has(key) && values[key] !== undefined,
+  );
+}
+
+/**
+ * Encode a value for a typed data field in a canonical way
+ */
+export function encodeTypedValue(
+  type: string,
+  value: unknown,
+  types: Record<string, TypedDataField[]> = {},
+): unknown {
+  const structFields = types[type];
+  if (structFields) {
+    return encodeTypedStruct(
+      structFields,
+      (value ?? {}) as Record<string, unknown>,
+      types,
+    );
+  }
+
+  switch (type) {
+    case "address":
+      return (value as string) || ZERO_ADDRESS;
+    case "uint256":
+      if (value === undefined || value === null || value === "") return 0n;
+      return BigInt(value as number | string | bigint); // throws on non-integers
+    case "bool":
+      return Boolean(value);
+    case "bytes32":
+      return value as string;
+    default:
+      return value === undefined || value === null ? "" : String(value);
+  }
+}
+
+/**
+ * Encode an object against a list of struct fields
+ */
+export function encodeTypedStruct(
+  fields: TypedDataField[],
+  values: Record<string, unknown>,
+  types: Record<string, TypedDataField[]> = {},
+): Record<string, unknown> {
+  const message: Record<string, unknown> = {};
+  for (const field of fields) {
+    message[field.name] = encodeTypedValue(
+      field.type,
+      values[field.name],
+      types,
+    );
+  }
+  return message;
+}
+
+/**
+ * Build the EIP-712 payload a maker signs to create an order
+ */
+export function buildOrderTypedData(
+  params: OrderParams,
+  nonce: number | bigint,
+  deadline: number | bigint,
+): OrderTypedData {
+  const chainId = params.chainId || 1;
+  const primaryType = getOrderPrimaryType(params.type);
+  const fields = getOrderFields(params.type);
+
+  return {
+    domain: getOrderDomain(chainId),
+    types: { [primaryType]: fields },
+    primaryType,
+    message: encodeTypedStruct(fields, {
+      ...params,
+      chainId,
+      nonce,
+      deadline,
+    }),
+  };
+}
+
+/** Fields of a cancel/modify intent, the replacement params are nested */
+const INTENT_FIELDS: TypedDataField[] = [
+  { name: "orderId", type: "string" },
+  { name: "action", type: "string" },
+];
+
+/**
+ * Build the EIP-712 payload a maker signs to cancel or modify an existing order.
+ * The domain is bound to the chain of the order being acted upon.
+ */
+export function buildOrderIntentTypedData(
+  intent: {
+    orderId: string;
+    action: OrderIntentAction;
+    params?: OrderParams;
+  },
+  chainId: number,
+  nonce: number | bigint,
+  deadline: number | bigint,
+): OrderTypedData {
+  if (intent.action === OrderIntentAction.CANCEL) {
+    const fields = [...INTENT_FIELDS, ...SIGNATURE_FIELDS];
+    return {
+      domain: getOrderDomain(chainId),
+      types: { CancelOrder: fields },
+      primaryType: "CancelOrder",
+      message: encodeTypedStruct(fields, { ...intent, nonce, deadline }),
+    };
+  }
+
+  if (!intent.params) {
+    throw new Error(`${intent.action} intent requires replacement params`);
+  }
+
+  // Replacement params are signed in full, without their own nonce/deadline
+  const paramsType = `${getOrderPrimaryType(intent.params.type)}Params`;
+  const paramsFields = getOrderFields(intent.params.type).slice(
+    0,
+    -SIGNATURE_FIELDS.length,
+  );
+  const fields = [
+    ...INTENT_FIELDS,
+    { name: "params", type: paramsType },
+    ...SIGNATURE_FIELDS,
+  ];
+  const types = { ModifyOrder: fields, [paramsType]: paramsFields };
+
+  return {
+    domain: getOrderDomain(chainId),
+    types,
+    primaryType: "ModifyOrder",
+    message: encodeTypedStruct(
+      fields,
+      {
+        ...intent,
+        params: { ...intent.params, chainId: intent.params.chainId || chainId },
+        nonce,
+        deadline,
+      },
+      types,
+    ),
+  };
+}
@@ -70,10 +70,24 @@ export interface NetworkConfig {
   rpcUrl: string;
   aggregatorV6: string;
   settlementContract?: string;
+  dutchAuctionCalculator?: string; // 1inch DutchAuctionCalculator, required for auction slices
   nativeSymbol: string;
   blockExplorer: string;
 }
 
+/**
+ * Dutch auction of a 1inch order: the taking amount decays linearly from
+ * startTakingAmount to endTakingAmount between startTime and endTime
+ * (through the DutchAuctionCalculator amount getters)
+ */
+export interface DutchAuction {
+  calculator: string; // DutchAuctionCalculator address
+  startTime: number; // Unix timestamp (seconds)
+  endTime: number; // Unix timestamp (seconds)
+  startTakingAmount: bigint;
+  endTakingAmount: bigint;
+}
+
 /**
  * Represents a 1inch limit order creation parameters
  */
@@ -88,6 +102,7 @@ export interface OneInchLimitOrderParams {
   expirationMs?: number; // Expiration in milliseconds (optional)
   nonce?: string | bigint; // Nonce (optional)
   partialFillsEnabled?: boolean; // Partial fills (optional, default: enabled)
+  auction?: DutchAuction; // Decaying taking amount (optional)
   // Legacy fields for API compatibility
   offsets?: string; // Encoded offsets
   interactions?: string; // Encoded interactions
@@ -103,6 +118,21 @@ export interface SubmitOrderResult {
   apiResponse?: any;
   success: boolean;
   error?: string;
+  orderStruct?: OneInchOrderStruct; // Struct needed to cancel the order on DelegateProxy
+}
+
+/**
+ * 1inch order struct as passed to DelegateProxy (uint256 fields as decimal strings)
+ */
+export interface OneInchOrderStruct {
+  salt: string;
+  maker: string;
+  receiver: string;
+  makerAsset: string;
+  takerAsset: string;
+  makingAmount: string;
+  takingAmount: string;
+  makerTraits: string;
 }
 
 /**
@@ -168,8 +198,17 @@ export interface BaseOrderParams {
   takerAsset: string; // Token address for asset being bought
 
   // Optional amounts (may not be pre-defined for complex orders)
-  makingAmount?: number; // Total amount of maker asset (if known) - float64
-  takingAmount?: number; // Total amount of taker asset (if known) - float64
+  makingAmount?: string; // Total amount of maker asset, base units (bigint string)
+  takingAmount?: string; // Total amount of taker asset, base units (bigint string)
+
+  // Optional bracket exits, armed once the order is filled
+  tpPct?: number; // Take profit distance from the entry price (%)
+  slPct?: number; // Stop loss distance from the entry price (%)
+
+  // Optional Dutch auction of each slice, from the limit price plus a premium down to an end price
+  auctionPremiumPct?: number; // Start price premium over the limit price (%)
+  auctionEndPrice?: number; // Worst price the auction decays to (quote per base)
+  auctionDuration?: number; // Decay duration (seconds)
 }
 
 /**
@@ -188,6 +227,22 @@ export interface TwapParams extends BaseOrderParams {
  */
 export type TWAPParams = TwapParams;
 
+/**
+ * VWAP order configuration: TWAP schedule, slices weighted by the historical intraday volume profile
+ * Params: makingAmount, startDate, endDate, interval, maxPrice, lookbackDays
+ */
+export interface VwapParams extends TwapParams {
+  lookbackDays?: number; // Days of 30m candles in the volume profile (default 7)
+}
+
+/**
+ * Percentage-of-volume order configuration: each slice is a share of the volume traded since the last one
+ * Params: makingAmount, startDate, endDate, interval, participationPct, maxPrice
+ */
+export interface PovParams extends TwapParams {
+  participationPct: number; // Target share of market volume (%)
+}
+
 /**
  * Range order configuration
  * Params: makingAmount, startPrice, endPrice, stepPct, expiry
@@ -214,6 +269,10 @@ export interface IcebergParams extends BaseOrderParams {
   endPrice: number; // End price (float64)
   steps: number; // Number of steps
   amount?: number; // Amount per step (backward compatibility)
+  refill?: boolean; // Keep one visible clip, post the next once it fills
+  clipSize?: number; // Visible clip size in maker asset units (defaults to makingAmount / steps)
+  clipJitterPct?: number; // Randomize each clip size by up to +/- this percentage
+  priceJitterPct?: number; // Randomize each clip's limit price by up to +/- this percentage
 }
 
 /**
@@ -222,6 +281,7 @@ export interface IcebergParams extends BaseOrderParams {
 export interface MomentumReversalParams extends BaseOrderParams {
   rsiPeriod: number;
   rsimaPeriod: number;
+  rsiTf?: TimeFrame; // RSI candle timeframe, the feed's own timeframe when omitted
   tpPct: number;
   slPct: number;
 }
@@ -238,6 +298,31 @@ export interface RangeBreakoutParams extends BaseOrderParams {
   slPct: number;
   adxThreshold?: number; // ADX threshold for breakout detection
   breakoutPct?: number; // Breakout percentage threshold
+  adxTf?: TimeFrame; // ADX candle timeframe, the feed's own timeframe when omitted
+  emaTf?: TimeFrame; // EMA candle timeframe, the feed's own timeframe when omitted
+}
+
+/**
+ * Conditional order configuration
+ * Triggers once `condition` holds, e.g. "rsi < 25 && close < bb.lower" (see common/conditions.ts)
+ */
+export interface ConditionalParams extends BaseOrderParams {
+  condition: string; // Expression over price and TickerAnalysis fields
+  limitPrice?: number; // Limit price once triggered, market otherwise (float64)
+}
+
+/**
+ * Pairs / spread trading configuration
+ * Trades the order's pair (takerAsset quoted in makerAsset) against legAsset quoted in
+ * the same asset: when the z-score of their price ratio reaches entryZ, one leg sells
+ * the rich asset and the other buys the cheap one, both unwound once |z| <= exitZ
+ */
+export interface SpreadParams extends BaseOrderParams {
+  legAsset: string; // Base asset of the second leg, quoted in makerAsset
+  entryZ?: number; // Ratio z-score to enter at (default 2)
+  exitZ?: number; // Ratio z-score to unwind at (default 0.5)
+  lookback?: number; // Candles of both feeds the ratio mean/std are computed over (default 100)
+  slippagePct?: number; // Leg limit prices through the spot (default 0.3)
 }
 
 /**
@@ -246,6 +331,17 @@ export interface RangeBreakoutParams extends BaseOrderParams {
 export interface StopLimitParams extends BaseOrderParams {
   stopPrice: number; // Stop price (float64)
   limitPrice: number; // Limit price (float64)
+  side?: "buy" | "sell"; // Inferred from maker/taker assets when omitted
+}
+
+/**
+ * Trailing Stop Order configuration
+ * The stop follows the best price by trailPct or trailAbs and never moves back
+ */
+export interface TrailingStopParams extends BaseOrderParams {
+  trailPct?: number; // Trail distance as a percentage of the best price (float64)
+  trailAbs?: number; // Trail distance in quote units (float64)
+  activationPrice?: number; // Start trailing once price reaches this level (float64)
 }
 
 /**
@@ -264,11 +360,12 @@ export interface DCAParams extends BaseOrderParams {
   startDate: number; // Timestamp
   interval: number; // Days
   maxPrice?: number; // Maximum price per unit (float64)
+  amount?: number; // Per-order amount (makingAmount is the total budget)
 }
 
 /**
  * Grid Trading configuration
- * Params: makingAmount, startPrice, endPrice, stepPct, stepMultiplier, singleSide, tpPct
+ * Params: makingAmount, startPrice, endPrice, stepPct, stepMultiplier, singleSide, counterAmount, tpPct
  */
 export interface GridTradingParams extends BaseOrderParams {
   startPrice: number; // Start price (float64)
@@ -276,6 +373,7 @@ export interface GridTradingParams extends BaseOrderParams {
   stepPct: number; // Step percentage (float64)
   stepMultiplier?: number; // Step multiplier (float64)
   singleSide: boolean;
+  counterAmount?: string; // Taker asset budget of the other side of two-sided grids, base units
   tpPct?: number; // Take profit percentage (float64)
   amount?: string; // Total amount for grid trading
 }
@@ -283,8 +381,11 @@ export interface GridTradingParams extends BaseOrderParams {
 export enum OrderType {
   // One-off Orders
   STOP_LIMIT = "STOP_LIMIT",
+  TRAILING_STOP = "TRAILING_STOP",
   CHASE_LIMIT = "CHASE_LIMIT",
   TWAP = "TWAP",
+  VWAP = "VWAP",
+  POV = "POV", // Percentage of volume
   RANGE = "RANGE",
   ICEBERG = "ICEBERG",
   // Recurring Orders
@@ -292,6 +393,8 @@ export enum OrderType {
   GRID_TRADING = "GRID_TRADING",
   MOMENTUM_REVERSAL = "MOMENTUM_REVERSAL",
   RANGE_BREAKOUT = "RANGE_BREAKOUT",
+  CONDITIONAL = "CONDITIONAL", // Expression-driven trigger
+  SPREAD = "SPREAD", // Pairs trading across two feeds
   // Basic limit orders
   LIMIT = "LIMIT",
   // Control orders
@@ -316,14 +419,16 @@ export enum OrderStatus {
 export interface Order {
   // Core identification
   id: string; // Internal order ID (hash-based)
-  signature: string; // User's EVM signature for authentication
+  signature: string; // User's EIP-712 signature over params (see common/eip712.ts), or over signedIntent
+  nonce?: number; // Maker nonce covered by the signature
+  deadline?: number; // Signature deadline (unix seconds)
 
   // Order configuration params (union type based on order type)
   params?: OrderParams;
 
   // Order status and tracking
   status: OrderStatus;
-  remainingMakerAmount: number; // Remaining unfilled amount (float64 not bigint)
+  remainingMakerAmount: string; // Maker amount left to slice, base units (bigint string)
   triggerCount: number; // Number of times triggered
 
   // Optional execution tracking
@@ -331,18 +436,13 @@ export interface Order {
   createdAt: number; // Created at timestamp
   executedAt?: number;
   cancelledAt?: number;
-  filledAmount?: string;
+  filledAmount?: string; // Filled maker amount, base units (bigint string)
   txHash?: string; // Transaction hash if executed
 
   // 1inch order tracking (1edge order can manage multiple 1inch orders)
   oneInchOrderHashes?: string[]; // Array of 1inch order hashes spawned by this order
-  oneInchOrders?: Array<{ // Details of 1inch orders for monitoring
-    hash: string;
-    makingAmount: string;
-    takingAmount: string;
-    limitPrice: string;
-    createdAt: number;
-  }>;
+  oneInchOrders?: OneInchChildOrder[]; // Details of 1inch orders for monitoring
+  exitOrders?: OneInchChildOrder[]; // Bracket exits (take profit, stop loss), not part of the order's fills
 
   // Missing properties for compatibility
   orderHash?: string; // Primary 1inch order hash (if applicable)
@@ -351,6 +451,138 @@ export interface Order {
   salt?: string; // Salt value for uniqueness
   expiry?: number; // Expiry timestamp
   triggerPrice?: number; // Trigger price for conditional orders
+  participation?: ParticipationStats; // Volume-driven orders (VWAP, POV)
+  signedIntent?: OrderIntent; // MODIFY intent a replacement order was created from
+}
+
+/**
+ * Expected vs achieved participation of volume-driven orders.
+ * VWAP: share of the order the volume profile expects executed by now vs actually sliced.
+ * POV: target vs actual share of the market volume observed since start.
+ */
+export interface ParticipationStats {
+  expectedPct: number;
+  achievedPct: number;
+  executedVolume: number; // Base asset amount sliced so far
+  marketVolume?: number; // Base asset volume observed since start (POV)
+  lastVolumeTs?: number; // Last candle counted in marketVolume (POV)
+  updatedAt: number;
+}
+
+export enum BracketStatus {
+  ARMED = "ARMED", // Take profit posted, stop loss watched
+  TAKE_PROFIT = "TAKE_PROFIT", // Take profit filled, stop loss dropped
+  STOP_LOSS = "STOP_LOSS", // Stop loss hit, take profit cancelled and exit posted
+}
+
+/**
+ * Take-profit / stop-loss exits of a filled order (one-cancels-other)
+ */
+export interface Bracket {
+  orderId: string;
+  status: BracketStatus;
+  entryPrice: number; // Average entry fill price (quote per base)
+  exitAmount: string; // Taker asset received by the entry, sold back by the exits
+  takeProfitPrice?: number;
+  stopLossPrice?: number;
+  takeProfitHash?: string; // 1inch order of the take profit leg
+  stopLossHash?: string; // 1inch order posted once the stop is hit
+  createdAt: number;
+  closedAt?: number;
+}
+
+/**
+ * 1inch order spawned by a 1edge order
+ */
+export interface OneInchChildOrder {
+  hash: string;
+  makingAmount: string; // Base units of the child's maker asset
+  takingAmount: string; // Base units of the child's taker asset
+  limitPrice: string;
+  createdAt: number;
+  struct?: OneInchOrderStruct; // On-chain order struct, required for cancellation
+  cancelledAt?: number; // Set once the cancellation is confirmed on-chain
+  filledAmount?: string; // Maker amount filled so far, base units (final once cancelled)
+  makerAsset?: string; // Set when the child sells another asset than the order (e.g. grid counter legs)
+}
+
+/**
+ * Stored child order (child_orders table): the child, its parent order and fill state
+ */
+export interface ChildOrderRecord extends OneInchChildOrder {
+  orderId: string; // Parent 1edge order
+  chainId: number;
+  status: OrderStatus; // ACTIVE, PARTIALLY_FILLED, FILLED or CANCELLED
+  remainingAmount?: string; // Remaining maker amount (base units) last reported by the 1inch API
+  updatedAt: number;
+  filledAt?: number;
+}
+
+/**
+ * Grid trading level: a row cycling between its home leg and the opposite take-profit leg
+ */
+export interface GridLevel {
+  orderId: string;
+  level: number; // Index from the start price
+  price: number; // Home leg price (quote per base)
+  homeSide: "buy" | "sell";
+  side: "buy" | "sell"; // Side of the leg currently posted
+  legPrice: number; // Limit price of the leg currently posted
+  amount: number; // Base asset size of each leg
+  status: "open" | "idle"; // idle: no leg posted yet (pending or failed placement)
+  orderHash?: string; // 1inch hash of the leg currently posted
+  entryPrice?: number; // Fill price of the home leg while its counter leg is open
+  realizedPnl: number; // Quote asset profit of completed round trips
+  fills: number; // Number of filled legs
+  updatedAt: number;
+}
+
+/**
+ * One leg of a spread position, entered then unwound in the opposite direction
+ */
+export interface SpreadLeg {
+  asset: string; // Base asset traded against the order's makerAsset
+  side: "buy" | "sell"; // Entry side
+  amount: number; // Base asset size, bought or sold back by the exit
+  entryPrice: number; // Entry limit price (quote per base)
+  entryHash?: string;
+  entryFilled?: boolean;
+  exitPrice?: number;
+  exitHash?: string;
+  exitFilled?: boolean;
+}
+
+/**
+ * Both legs of a spread order tracked as a single position
+ */
+export interface SpreadPosition {
+  orderId: string;
+  status: "entering" | "open" | "exiting" | "closed";
+  entryRatio: number; // Price ratio (order pair / leg pair) at entry
+  entryZ: number;
+  exitRatio?: number;
+  legs: SpreadLeg[];
+  realizedPnl?: number; // Quote asset PnL of both legs once closed
+  openedAt: number;
+  closedAt?: number;
+  updatedAt: number;
+}
+
+export enum OrderIntentAction {
+  CANCEL = "CANCEL",
+  MODIFY = "MODIFY",
+}
+
+/**
+ * Maker-signed request to cancel or modify an existing order (see common/eip712.ts)
+ */
+export interface OrderIntent {
+  orderId: string;
+  action: OrderIntentAction;
+  params?: OrderParams; // Replacement params (MODIFY only)
+  nonce: number; // Maker nonce covered by the signature
+  deadline: number; // Signature deadline (unix seconds)
+  signature: string;
 }
 
 /**
@@ -358,14 +590,19 @@ export interface Order {
  */
 export type OrderParams =
   | StopLimitParams
+  | TrailingStopParams
   | ChaseLimitParams
   | TwapParams
+  | VwapParams
+  | PovParams
   | RangeOrderParams
   | IcebergParams
   | DCAParams
   | GridTradingParams
   | MomentumReversalParams
-  | RangeBreakoutParams;
+  | RangeBreakoutParams
+  | ConditionalParams
+  | SpreadParams;
 
 /**
  * Strategy configuration
@@ -487,7 +724,17 @@ export interface AggregatedTicker extends TickerFeed {
 // Storage configuration
 export interface StorageConfig {
   defaultTtl: number;
-  dbPath: string;
+  dbPath: string; // SQLite database file
+  backend?: "sqlite" | "postgres"; // Default: sqlite
+  postgresUrl?: string; // Connection URL of the postgres backend
+  ohlc?: OHLCConfig; // Default: 5s/20s cached, 1m to 1d stored
+}
+
+// OHLC candle timeframes (in seconds) and their retention
+export interface OHLCConfig {
+  cached: { timeframe: number; size: number }[]; // In memory, built from ticks
+  stored: { timeframe: number; retentionDays?: number }[]; // Rolled up from 1m, kept forever by default
+  compactionInterval: number; // Seconds between expired candle sweeps
 }
 
 // Collector service configuration
@@ -499,8 +746,15 @@ export interface CollectorConfig {
 // Keeper service configuration
 export interface KeeperConfig {
   pollIntervalMs: number;
+  sweepIntervalMs?: number; // Safety sweep over all orders when driven by the price feed
   privateKey?: string; // Keeper wallet private key
-  maxGasPrice?: string; // Max gas price in gwei
+  maxGasPrice?: string; // Max gas price in gwei (caps maxFeePerGas)
+  maxPriorityFee?: string; // Max priority fee in gwei
+  replaceAfterMs?: number; // Speed up pending keeper transactions after this delay
+  feeBumpPct?: number; // Fee increase per replacement (>= 10)
+  txTimeoutMs?: number; // Fail keeper transactions not mined after this delay
+  batchWindowMs?: number; // Collect order slices for this long before one batch transaction
+  maxBatchSize?: number; // Flush the batch early once this many slices are queued
 }
 
 // Status checker configuration
@@ -607,4 +861,5 @@ export interface OrderEvent {
   remainingAmount?: string;
   gasUsed?: string;
   error?: string;
+  bracket?: BracketStatus; // Bracket transition recorded by this event
 }
@@ -51,16 +51,22 @@ import {
 } from "./helpers";
 import {
   useAccount,
-  useSignMessage,
+  useSignTypedData,
   useWriteContract,
   useWaitForTransactionReceipt,
   useNetwork,
   useChainId,
   usePublicClient,
+  useReadContract,
 } from "wagmi";
+import { parseUnits } from "viem";
 import { getNetworkById } from "../../config/generated";
-import { API_BASE_URL } from "../../config/api";
+import { API_BASE_URL, API_ENDPOINTS } from "../../config/api";
 import { v4 as uuidv4 } from "uuid";
+import {
+  buildOrderTypedData,
+  DEFAULT_SIGNATURE_TTL,
+} from "@common/eip712";
 
 // Order Type Enum to match API
 export enum APIOrderType {
@@ -92,8 +98,22 @@ const ORDER_TYPE_MAPPING: Record<string, APIOrderType> = {
 
 // API configuration is imported from config/api.ts
 
-// ERC20 ABI for allowance
+// ERC20 ABI for allowance and amount decimals
 const ERC20_ABI = [
+  {
+    constant: true,
+    inputs: [],
+    name: "decimals",
+    outputs: [
+      {
+        name: "",
+        type: "uint8",
+      },
+    ],
+    payable: false,
+    stateMutability: "view",
+    type: "function",
+  },
   {
     constant: false,
     inputs: [
@@ -129,7 +149,7 @@ const CreateOrderForm = () => {
   const [pendingAllowance, setPendingAllowance] = useState(false);
 
   const { address } = useAccount();
-  const { signMessageAsync } = useSignMessage();
+  const { signTypedDataAsync } = useSignTypedData();
   const { writeContractAsync } = useWriteContract();
   const chainId = useChainId();
 
@@ -148,6 +168,20 @@ const CreateOrderForm = () => {
     setPairInfo,
   } = useOrderStore();
 
+  // Amounts are sent in base units of their asset
+  const { data: makerDecimals } = useReadContract({
+    address: makerAsset as `0x${string}`,
+    abi: ERC20_ABI,
+    functionName: "decimals",
+    query: { enabled: !!makerAsset },
+  });
+  const { data: takerDecimals } = useReadContract({
+    address: takerAsset as `0x${string}`,
+    abi: ERC20_ABI,
+    functionName: "decimals",
+    query: { enabled: !!takerAsset },
+  });
+
   const {
     control,
     handleSubmit,
@@ -301,20 +335,37 @@ const CreateOrderForm = () => {
 
     return {
       id: orderId,
-      type: apiOrderType,
       pair: currentPair || `${data.fromCoin}/${data.toCoin}`,
-      size: parseFloat(data.size),
-      maker: address,
-      makerAsset: makerAsset,
-      takerAsset: takerAsset,
-      params: relevantParams,
+      params: {
+        ...relevantParams,
+        type: apiOrderType,
+        maker: address,
+        chainId,
+        makerAsset: makerAsset,
+        takerAsset: takerAsset,
+        makingAmount: parseUnits(data.size, Number(makerDecimals)).toString(),
+        // Two-sided grids fund their other side with the taker asset
+        counterAmount: relevantParams.counterAmount
+          ? parseUnits(relevantParams.counterAmount, Number(takerDecimals)).toString()
+          : undefined,
+      },
     };
   };
 
+  const fetchMakerNonce = async (maker: string): Promise<number> => {
+    const response = await fetch(API_ENDPOINTS.NONCE(maker));
+    if (!response.ok) {
+      throw new Error("Failed to fetch signing nonce");
+    }
+    const result = await response.json();
+    return result.data.nonce;
+  };
+
   const createAndValidateOrder = async (
     orderPayload: any,
     signature: string,
-    userSignedPayload: string,
+    nonce: number,
+    deadline: number,
   ) => {
     try {
       const response = await fetch(`${API_BASE_URL}/orders`, {
@@ -325,7 +376,8 @@ const CreateOrderForm = () => {
         body: JSON.stringify({
           ...orderPayload,
           signature,
-          userSignedPayload,
+          nonce,
+          deadline,
         }),
       });
 
@@ -374,6 +426,10 @@ const CreateOrderForm = () => {
       toast.error("Please connect your wallet");
       return;
     }
+    if (makerDecimals === undefined || takerDecimals === undefined) {
+      toast.error("Token decimals are still loading, please retry");
+      return;
+    }
 
     setIsSubmitting(true);
     setOrderCreated(false);
@@ -382,19 +438,24 @@ const CreateOrderForm = () => {
       const relevantParams = getRelevantParams(orderType, data);
       const orderPayload = createOrderPayload(data, relevantParams);
 
-      // Step 1: Sign the order payload (free signature)
+      // Step 1: Sign the order params as EIP-712 typed data (free signature)
       toast.info("Please sign the order...");
-      const messageToSign = JSON.stringify(orderPayload);
-      const signature = await signMessageAsync({
-        message: messageToSign,
-      });
+      const nonce = await fetchMakerNonce(address);
+      const deadline = Math.floor(Date.now() / 1000) + DEFAULT_SIGNATURE_TTL;
+      const typedData = buildOrderTypedData(
+        orderPayload.params,
+        nonce,
+        deadline,
+      );
+      const signature = await signTypedDataAsync(typedData);
 
       // Step 2: Create and validate order in one API call
       toast.info("Creating order...");
       const result = await createAndValidateOrder(
         orderPayload,
         signature,
-        messageToSign,
+        nonce,
+        deadline,
       );
 
       if (result.success) {
@@ -405,8 +466,14 @@ const CreateOrderForm = () => {
         toast.info("Order created! Now please approve token allowance...");
         const allowanceTxHash = await handleAllowance(
           makerAsset || "0x0000000000000000000000000000000000000000",
-          (parseFloat(data.size) * 1e18).toString(), // Convert to wei equivalent
+          orderPayload.params.makingAmount,
         );
+        if (orderPayload.params.counterAmount) {
+          await handleAllowance(
+            takerAsset || "0x0000000000000000000000000000000000000000",
+            orderPayload.params.counterAmount,
+          );
+        }
 
         toast.success("Complete! Order is now active and allowance approved.");
 
@@ -1,5 +1,4 @@
-import { Controller } from "react-hook-form";
-import { useState } from "react";
+import { Controller, useWatch } from "react-hook-form";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
@@ -22,7 +21,7 @@ import {
 } from "lucide-react";
 
 const GridMarketMakingForm = ({ control, errors }: any) => {
-  const [singleSide, setSingleSide] = useState(false);
+  const singleSide = useWatch({ control, name: "singleSide" });
 
   const spotPrice = 3750;
   const calculatePriceFromSpot = (percentage: number) => {
@@ -277,7 +276,6 @@ const GridMarketMakingForm = ({ control, errors }: any) => {
               onClick={() => {
                 const newValue = !field.value;
                 field.onChange(newValue);
-                setSingleSide(newValue);
               }}
             >
               <div className="flex flex-col">
@@ -310,6 +308,44 @@ const GridMarketMakingForm = ({ control, errors }: any) => {
         />
       </div>
 
+      {/* Counter Budget: funds the side the maker asset does not */}
+      {!singleSide && (
+        <div className="space-y-2">
+          <Label className="text-sm font-medium text-teal-200 flex items-center gap-2">
+            <DollarSign className="w-4 h-4" />
+            Counter Amount
+            <div className="w-1 h-1 bg-teal-400"></div>
+          </Label>
+          <Controller
+            name="counterAmount"
+            control={control}
+            rules={{
+              required: "Both sides trading needs a counter amount",
+              validate: (value: string) =>
+                parseFloat(value) > 0 || "Must be greater than 0",
+            }}
+            render={({ field }) => (
+              <div className="relative">
+                <Input
+                  {...field}
+                  type="number"
+                  step="any"
+                  className="w-full bg-black/70 backdrop-blur-sm border-slate-600/50 text-white placeholder-slate-400 focus-visible:ring-2 focus-visible:ring-teal-500/50 focus-visible:border-teal-400/50 shadow-inner transition-all duration-300 hover:bg-black/80 focus:outline-none"
+                  placeholder="Taker asset budget of the other side"
+                />
+                <div className="absolute inset-0 rounded-lg bg-gradient-to-r from-teal-500/5 to-transparent pointer-events-none"></div>
+              </div>
+            )}
+          />
+          {errors.counterAmount && (
+            <span className="text-xs text-red-400 flex items-center gap-1">
+              <div className="w-1 h-1 bg-red-400"></div>
+              {errors.counterAmount.message}
+            </span>
+          )}
+        </div>
+      )}
+
       {/* Take Profit Percentage */}
       <div className="space-y-2">
         <Label className="text-sm font-medium text-teal-200 flex items-center gap-2">
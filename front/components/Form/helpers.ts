@@ -94,7 +94,7 @@ export interface DCAParams {
 
 /**
  * Grid Trading configuration
- * Params: amount, startPrice, endPrice, stepPct, stepMultiplier, singleSide, tpPct
+ * Params: amount, startPrice, endPrice, stepPct, stepMultiplier, singleSide, counterAmount, tpPct
  */
 export interface GridTradingParams {
   amount: string;
@@ -103,6 +103,7 @@ export interface GridTradingParams {
   stepPct: number;
   stepMultiplier?: number;
   singleSide: boolean;
+  counterAmount?: string; // Taker asset budget of the other side, converted to base units on submit
   tpPct?: number; // Take profit percentage
 }
 
@@ -141,6 +142,7 @@ export interface FormData {
   tpPct: string;
   slPct: string;
   singleSide: boolean;
+  counterAmount: string;
   stepMultiplier: string;
   rsiPeriod: string;
   rsimaPeriod: string;
@@ -201,6 +203,7 @@ export const getDefaultFormValues = (): FormData => ({
   tpPct: "",
   slPct: "",
   singleSide: true,
+  counterAmount: "",
   stepMultiplier: "1.0",
   rsiPeriod: "",
   rsimaPeriod: "",
@@ -265,6 +268,7 @@ export const getRelevantParams = (
         stepPct: parseFloat(formData.stepPct),
         stepMultiplier: parseFloat(formData.stepMultiplier),
         singleSide: formData.singleSide,
+        counterAmount: formData.singleSide ? undefined : formData.counterAmount,
         tpPct: formData.tpPct ? parseFloat(formData.tpPct) : undefined,
       } as GridTradingParams;
 
@@ -5,6 +5,30 @@ import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Order, OrderStatus, OrderType, OrderEvent } from '@common/types';
 import { Clock, Hash, TrendingUp, Activity } from 'lucide-react';
+import { useReadContract } from 'wagmi';
+import { formatUnits } from 'viem';
+
+const DECIMALS_ABI = [
+  {
+    inputs: [],
+    name: 'decimals',
+    outputs: [{ name: '', type: 'uint8' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+] as const;
+
+/** ERC20 decimals of a token, undefined until loaded */
+function useTokenDecimals(token?: string, chainId?: number): number | undefined {
+  const { data } = useReadContract({
+    address: token as `0x${string}`,
+    abi: DECIMALS_ABI,
+    functionName: 'decimals',
+    chainId,
+    query: { enabled: !!token },
+  });
+  return data === undefined ? undefined : Number(data);
+}
 
 interface OrderDetailsModalProps {
   order: Order | null;
@@ -21,6 +45,8 @@ export function OrderDetailsModal({
   onCancel,
   onModify,
 }: OrderDetailsModalProps) {
+  const makerDecimals = useTokenDecimals(order?.params?.makerAsset, order?.params?.chainId);
+  const takerDecimals = useTokenDecimals(order?.params?.takerAsset, order?.params?.chainId);
   if (!order) return null;
 
   const formatTimestamp = (timestamp?: number) => {
@@ -28,14 +54,18 @@ export function OrderDetailsModal({
     return new Date(timestamp).toLocaleString();
   };
 
-  const formatAmount = (amount?: string) => {
+  // Amounts are base-unit integer strings, shown raw until the token decimals load
+  const formatAmount = (amount?: string, decimals = makerDecimals) => {
     if (!amount) return 'N/A';
-    return parseFloat(amount).toLocaleString(undefined, {
+    if (decimals === undefined || !/^\d+$/.test(amount)) return amount;
+    return parseFloat(formatUnits(BigInt(amount), decimals)).toLocaleString(undefined, {
       minimumFractionDigits: 2,
       maximumFractionDigits: 8,
     });
   };
 
+  const formatPct = (pct: number) => `${pct.toFixed(2)}%`;
+
   const getStatusBadgeStyle = (status: OrderStatus) => {
     switch (status) {
       case OrderStatus.ACTIVE:
@@ -59,11 +89,21 @@ export function OrderDetailsModal({
     if (!order.params) return null;
 
     const params = order.params as Record<string, any>;
+    const amountDecimals: Record<string, number | undefined> = {
+      makingAmount: makerDecimals,
+      takingAmount: takerDecimals,
+    };
     return Object.entries(params).map(([key, value]) => (
       <ModalKeyValue
         key={key}
         label={key.replace(/([A-Z])/g, ' $1').trim()}
-        value={typeof value === 'number' ? value.toLocaleString() : String(value)}
+        value={
+          key in amountDecimals
+            ? formatAmount(String(value), amountDecimals[key])
+            : typeof value === 'number'
+              ? value.toLocaleString()
+              : String(value)
+        }
       />
     ));
   };
@@ -143,8 +183,9 @@ export function OrderDetailsModal({
                   label="Status" 
                   value={<Badge variant="outline" className={getStatusBadgeStyle(order.status)}>{order.status}</Badge>}
                 />
-                <ModalKeyValue label="Total Size" value={formatAmount(order.size)} />
-                <ModalKeyValue label="Remaining" value={formatAmount(order.remainingSize)} />
+                <ModalKeyValue label="Total Size" value={formatAmount(order.params?.makingAmount)} />
+                <ModalKeyValue label="Remaining" value={formatAmount(order.remainingMakerAmount)} />
+                <ModalKeyValue label="Filled" value={formatAmount(order.filledAmount)} />
                 <ModalKeyValue label="Created At" value={formatTimestamp(order.createdAt)} />
                 <ModalKeyValue label="Trigger Count" value={order.triggerCount} />
                 {order.nextTriggerValue && (
@@ -154,6 +195,36 @@ export function OrderDetailsModal({
             </ModalInfoBox>
           </ModalSection>
 
+          {/* Volume Participation (VWAP, POV) */}
+          {order.participation && (
+            <ModalSection title="Participation">
+              <ModalInfoBox>
+                <div className="space-y-1">
+                  <ModalKeyValue label="Expected" value={formatPct(order.participation.expectedPct)} />
+                  <ModalKeyValue
+                    label="Achieved"
+                    value={
+                      <span className={order.participation.achievedPct < order.participation.expectedPct ? 'text-warning' : 'text-success'}>
+                        {formatPct(order.participation.achievedPct)}
+                      </span>
+                    }
+                  />
+                  <ModalKeyValue
+                    label="Executed Volume"
+                    value={order.participation.executedVolume.toLocaleString(undefined, { maximumFractionDigits: 8 })}
+                  />
+                  {order.participation.marketVolume !== undefined && (
+                    <ModalKeyValue
+                      label="Market Volume"
+                      value={order.participation.marketVolume.toLocaleString(undefined, { maximumFractionDigits: 8 })}
+                    />
+                  )}
+                  <ModalKeyValue label="Updated At" value={formatTimestamp(order.participation.updatedAt)} />
+                </div>
+              </ModalInfoBox>
+            </ModalSection>
+          )}
+
           {/* Order Parameters */}
           <ModalSection title="Parameters">
             <ModalInfoBox>
@@ -10,7 +10,17 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import { OrderDetailsModal } from "./OrderDetailsModal";
-import { Order, OrderStatus, OrderType } from "@common/types";
+import {
+  Order,
+  OrderIntentAction,
+  OrderStatus,
+  OrderType,
+} from "@common/types";
+import {
+  buildOrderIntentTypedData,
+  DEFAULT_SIGNATURE_TTL,
+} from "@common/eip712";
+import { useAccount, useSignTypedData } from "wagmi";
 import { Settings, BarChart3, Edit2, X } from "lucide-react";
 import { API_ENDPOINTS } from "../config/api";
 
@@ -22,6 +32,8 @@ export default function OrdersPanel() {
   const [orders, setOrders] = useState<Order[]>([]);
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const { address } = useAccount();
+  const { signTypedDataAsync } = useSignTypedData();
 
   useEffect(() => {
     const fetchOrders = async () => {
@@ -179,11 +191,33 @@ export default function OrdersPanel() {
   };
 
   const handleCancel = async (orderId: string) => {
+    const order = orders.find((o) => o.id === orderId);
+    if (!address || !order?.params) return;
+
     try {
+      // Sign a CANCEL intent so the registry can check we are the maker
+      const nonceResponse = await fetch(API_ENDPOINTS.NONCE(address));
+      if (!nonceResponse.ok) {
+        throw new Error("Failed to fetch signing nonce");
+      }
+      const nonce = (await nonceResponse.json()).data.nonce;
+      const deadline = Math.floor(Date.now() / 1000) + DEFAULT_SIGNATURE_TTL;
+      const intent = { orderId, action: OrderIntentAction.CANCEL };
+      const signature = await signTypedDataAsync(
+        buildOrderIntentTypedData(
+          intent,
+          order.params.chainId || 1,
+          nonce,
+          deadline,
+        ),
+      );
+
       const response = await fetch(
         API_ENDPOINTS.CANCEL_ORDER(orderId),
         {
           method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ ...intent, nonce, deadline, signature }),
         },
       );
       if (response.ok) {
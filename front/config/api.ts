@@ -14,6 +14,7 @@ export const API_ENDPOINTS = {
   // Orders
   ORDERS: `${API_BASE_URL}/orders`,
   CANCEL_ORDER: (orderId: string) => `${API_BASE_URL}/orders/${orderId}/cancel`,
+  NONCE: (maker: string) => `${API_BASE_URL}/nonces/${maker}`,
 
   // Strategies
   STRATEGIES: `${API_BASE_URL}/strategies`,
@@ -0,0 +1,58 @@
+#!/usr/bin/env bun
+
+/**
+ * Apply pending schema migrations to the main store and every per-pair OHLC database
+ * Usage: bun scripts/migrate.ts [--dry-run] [--no-backup] [--ohlc-dir ./data/ohlc]
+ */
+
+import { Database } from "bun:sqlite";
+import { existsSync, readdirSync } from "fs";
+import { join } from "path";
+import { getStorageConfig } from "../back/services/config";
+import {
+  migrate,
+  type Migration,
+  type MigrationReport,
+} from "../back/services/migrations";
+import { STORAGE_MIGRATIONS } from "../back/services/storage";
+import { OHLC_MIGRATIONS } from "../back/services/ohlcStorage";
+
+const args = process.argv.slice(2);
+const dryRun = args.includes("--dry-run");
+const backup = !args.includes("--no-backup");
+const ohlcDirIndex = args.indexOf("--ohlc-dir");
+const ohlcDir = ohlcDirIndex >= 0 ? args[ohlcDirIndex + 1] : "./data/ohlc";
+
+const run = (dbPath: string, migrations: Migration[]): MigrationReport => {
+  const db = new Database(dbPath);
+  try {
+    return migrate(db, dbPath, migrations, { dryRun, backup });
+  } finally {
+    db.close();
+  }
+};
+
+const reports: MigrationReport[] = [];
+const storageConfig = getStorageConfig();
+const dbPath = storageConfig.dbPath || "./data/1edge.db";
+// The Postgres backend creates its schema on connect
+if (storageConfig.backend !== "postgres" && existsSync(dbPath)) {
+  reports.push(run(dbPath, STORAGE_MIGRATIONS));
+}
+
+if (existsSync(ohlcDir)) {
+  for (const file of readdirSync(ohlcDir).filter((f) => f.endsWith(".db"))) {
+    reports.push(run(join(ohlcDir, file), OHLC_MIGRATIONS));
+  }
+}
+
+for (const report of reports) {
+  const status =
+    report.pending.length === 0
+      ? "up to date"
+      : dryRun
+        ? `would apply ${report.pending.join(", ")}`
+        : `migrated to ${report.to}${report.backupPath ? ` (backup: ${report.backupPath})` : ""}`;
+  console.log(`${report.database}: v${report.from}, ${status}`);
+}
+if (reports.length === 0) console.log("No database found");
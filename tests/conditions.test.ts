@@ -0,0 +1,65 @@
+#!/usr/bin/env bun
+import { describe, test, expect } from "bun:test";
+import {
+  parseCondition,
+  getConditionFields,
+  evaluateCondition,
+} from "@common/conditions";
+
+const VALUES = {
+  price: 100,
+  close: 100,
+  open: 98,
+  rsi: 22,
+  ema: 95,
+  adx: 18,
+  "bb.lower": 101,
+  "macd.histogram": -0.5,
+};
+
+describe("Condition expressions", () => {
+  test("evaluates comparisons combined with && and ||", () => {
+    const condition = parseCondition("rsi < 25 && close < bb.lower");
+    expect(getConditionFields(condition)).toEqual(["rsi", "close", "bb.lower"]);
+    expect(evaluateCondition(condition, VALUES)).toBe(true);
+    expect(evaluateCondition(condition, { ...VALUES, rsi: 30 })).toBe(false);
+
+    const either = parseCondition("adx >= 30 || macd.histogram < 0");
+    expect(evaluateCondition(either, VALUES)).toBe(true);
+  });
+
+  test("applies arithmetic, negation and parentheses by precedence", () => {
+    expect(
+      evaluateCondition(parseCondition("price > ema * 1.05 - 1"), VALUES),
+    ).toBe(true);
+    expect(
+      evaluateCondition(parseCondition("close / open - 1 > .03"), VALUES),
+    ).toBe(false);
+    expect(
+      evaluateCondition(parseCondition("!(rsi < 25 || adx > 30)"), VALUES),
+    ).toBe(false);
+    expect(evaluateCondition(parseCondition("-rsi > -25"), VALUES)).toBe(true);
+  });
+
+  test("rejects invalid expressions at parse time", () => {
+    for (const source of [
+      "",
+      "rsi",
+      "rsi && 25",
+      "rsi < 25 &&",
+      "rsi < 25 < 30",
+      "(rsi < 25",
+      "rsi # 25",
+      "stoch < 20",
+      "macd < 0",
+    ]) {
+      expect(() => parseCondition(source)).toThrow();
+    }
+  });
+
+  test("reports the position of unknown fields", () => {
+    expect(() => parseCondition("rsi < 25 && foo > 1")).toThrow(
+      'Unknown field "foo" at position 12',
+    );
+  });
+});
@@ -8,7 +8,7 @@ import { getOrder } from "../back/services/storage";
 import { createOrderRegistry } from "../back/services/orderRegistry";
 import { priceCache } from "../back/services/priceCache";
 import deployments from "../deployments.json";
-import { E2EHelpers } from "./utils";
+import { E2EHelpers, signOrderParams } from "./utils";
 
 // Constants
 const CHAIN_ID = 56; // BNB Chain (BSC)
@@ -62,6 +62,7 @@ describe("E2E TWAP Order Test - Production Workflow", () => {
     // Step 1: User creates proper TWAP order params (production workflow)
     const usdAmount = 2; // $2 USD worth
     const wethAmount = usdAmount / initialPrice;
+    const makingAmount = ethers.parseEther(wethAmount.toFixed(18)).toString();
     const maxPrice = initialPrice * 1.05; // 5% above current price (constraint - don't execute above this)
     
     const now = Date.now();
@@ -70,8 +71,8 @@ describe("E2E TWAP Order Test - Production Workflow", () => {
       maker: user.address,
       makerAsset: WETH,
       takerAsset: USDT,
-      makingAmount: wethAmount,
-      takingAmount: usdAmount * 1e6, // USDT has 6 decimals
+      makingAmount,
+      takingAmount: String(usdAmount * 1e6), // USDT has 6 decimals
       startDate: now, // Start immediately
       endDate: now, // Single execution (startDate == endDate)
       interval: 1000, // 1 second (irrelevant for single execution)
@@ -87,9 +88,8 @@ describe("E2E TWAP Order Test - Production Workflow", () => {
    Note: Actual 1inch limit price will be calculated dynamically by base.ts
 `);
 
-    // Step 2: User signs the order params
-    const messageToSign = JSON.stringify(twapParams);
-    const signature = await user.signMessage(messageToSign);
+    // Step 2: User signs the order params (EIP-712)
+    const { signature, nonce, deadline } = await signOrderParams(user, twapParams);
     
     // Step 3: Create Order object for registration
     const orderId = generateOrderId(user.address);
@@ -97,9 +97,11 @@ describe("E2E TWAP Order Test - Production Workflow", () => {
       id: orderId,
       params: twapParams,
       signature,
+      nonce,
+      deadline,
       status: OrderStatus.PENDING,
       triggerCount: 0,
-      remainingMakerAmount: wethAmount,
+      remainingMakerAmount: makingAmount,
       createdAt: now
     };
 
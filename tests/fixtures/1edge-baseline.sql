@@ -0,0 +1,102 @@
+-- Main store as created by the baseline StorageService (before schema versioning)
+
+CREATE TABLE IF NOT EXISTS orders (
+  id TEXT PRIMARY KEY,
+  signature TEXT NOT NULL,
+  params TEXT,
+  status TEXT NOT NULL,
+  remaining_maker_amount REAL NOT NULL,
+  trigger_count INTEGER NOT NULL DEFAULT 0,
+  next_trigger_value TEXT,
+  created_at INTEGER NOT NULL,
+  executed_at INTEGER,
+  cancelled_at INTEGER,
+  filled_amount TEXT,
+  tx_hash TEXT,
+  one_inch_order_hashes TEXT,
+  one_inch_orders TEXT,
+  order_hash TEXT,
+  receiver TEXT,
+  salt TEXT,
+  expiry INTEGER,
+  trigger_price REAL
+);
+
+CREATE TABLE IF NOT EXISTS order_events (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  order_id TEXT NOT NULL,
+  order_hash TEXT,
+  status TEXT NOT NULL,
+  timestamp INTEGER NOT NULL,
+  tx_hash TEXT,
+  filled_amount TEXT,
+  remaining_amount TEXT,
+  gas_used TEXT,
+  error TEXT,
+  FOREIGN KEY (order_id) REFERENCES orders(id)
+);
+
+-- Removed ad hoc from the code, still present in old databases
+CREATE TABLE IF NOT EXISTS positions (
+  id TEXT PRIMARY KEY,
+  data TEXT
+);
+
+CREATE TABLE IF NOT EXISTS strategies (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  type TEXT NOT NULL,
+  status TEXT NOT NULL,
+  network INTEGER NOT NULL,
+  enabled INTEGER NOT NULL,
+  config TEXT NOT NULL,
+  started_at INTEGER,
+  paused_at INTEGER,
+  stopped_at INTEGER,
+  order_count INTEGER DEFAULT 0,
+  filled_count INTEGER DEFAULT 0,
+  total_volume TEXT DEFAULT '0',
+  pnl REAL DEFAULT 0,
+  pnl_percent REAL DEFAULT 0
+);
+
+CREATE TABLE IF NOT EXISTS market_data (
+  symbol TEXT PRIMARY KEY,
+  data TEXT NOT NULL,
+  updated_at INTEGER NOT NULL,
+  expires_at INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS token_decimals (
+  chain_id INTEGER NOT NULL,
+  token_address TEXT NOT NULL,
+  decimals INTEGER NOT NULL,
+  cached_at INTEGER NOT NULL,
+  expires_at INTEGER NOT NULL,
+  PRIMARY KEY (chain_id, token_address)
+);
+
+CREATE INDEX IF NOT EXISTS idx_orders_status ON orders(status);
+CREATE INDEX IF NOT EXISTS idx_orders_created_at ON orders(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_orders_status_created ON orders(status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_order_events_order ON order_events(order_id);
+CREATE INDEX IF NOT EXISTS idx_token_decimals ON token_decimals(chain_id, token_address);
+
+INSERT INTO orders (
+  id, signature, params, status, remaining_maker_amount, trigger_count,
+  created_at, one_inch_order_hashes, one_inch_orders
+) VALUES (
+  'baseline-order', '0xsig',
+  '{"type":"TWAP","maker":"0x0000000000000000000000000000000000000001","makerAsset":"0x0000000000000000000000000000000000000002","takerAsset":"0x0000000000000000000000000000000000000003","makingAmount":1}',
+  'ACTIVE', 0.5, 1, 1700000000000, '["0xhash"]',
+  '[{"hash":"0xhash","makingAmount":"0.5","takingAmount":"1000","limitPrice":"2000","createdAt":1700000000000,"filledAmount":"0.25"}]'
+);
+
+-- Decimals of the order's assets on BSC, where the baseline keeper ran, long expired
+INSERT INTO token_decimals (chain_id, token_address, decimals, cached_at, expires_at)
+VALUES
+  (56, '0x0000000000000000000000000000000000000002', 18, 1700000000000, 1700000300000),
+  (56, '0x0000000000000000000000000000000000000003', 6, 1700000000000, 1700000300000);
+
+INSERT INTO order_events (order_id, status, timestamp)
+VALUES ('baseline-order', 'ACTIVE', 1700000000000);
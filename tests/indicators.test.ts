@@ -0,0 +1,107 @@
+#!/usr/bin/env bun
+import { describe, test, expect } from "bun:test";
+import { TimeFrame } from "@common/types";
+import type { PairSymbol } from "@common/types";
+import { computeIndicator } from "@back/services/analysis";
+import { IndicatorEngine } from "@back/services/indicators";
+import { OHLCTimeframe, type OHLCCandle } from "@back/services/ohlcStorage";
+
+const SYMBOL = "agg:spot:ETHUSDT" as PairSymbol;
+const M30_MS = OHLCTimeframe.M30 * 1000;
+
+// 30m candles over the last ~6 days, a noisy uptrend
+const now = Math.floor(Date.now() / M30_MS) * M30_MS;
+const m30: OHLCCandle[] = Array.from({ length: 300 }, (_, i) => {
+  const close = 3000 + i * 2 + Math.sin(i / 3) * 25;
+  return {
+    timestamp: now - (299 - i) * M30_MS,
+    open: close - 5,
+    high: close + 10,
+    low: close - 10,
+    close,
+    volume: 100 + i,
+  };
+});
+
+/** Stored candles stand-in that counts reads */
+const createSource = () => {
+  const calls: OHLCTimeframe[] = [];
+  return {
+    calls,
+    getStoredTimeframes: () => [
+      OHLCTimeframe.M1,
+      OHLCTimeframe.M5,
+      OHLCTimeframe.M30,
+    ],
+    getCandles: async (
+      _symbol: PairSymbol,
+      timeframe: OHLCTimeframe,
+      startTime?: number,
+    ) => {
+      calls.push(timeframe);
+      return m30
+        .filter((c) => !startTime || c.timestamp >= startTime)
+        .map((c) => ({ ...c }));
+    },
+  };
+};
+
+describe("Indicator engine", () => {
+  test("computes indicators on candles resampled to the requested timeframe", async () => {
+    const source = createSource();
+    const engine = new IndicatorEngine(source);
+
+    const rsi = await engine.getSeries(SYMBOL, TimeFrame.H1, "rsi", 14);
+    expect(source.calls).toEqual([OHLCTimeframe.M30]);
+
+    // Last close of each hour over the engine's 100-candle window
+    const H1_MS = TimeFrame.H1 * 1000;
+    const startTime = Math.floor(Date.now() / H1_MS - 100) * H1_MS;
+    const hourly = new Map<number, number>();
+    for (const c of m30.filter((c) => c.timestamp >= startTime)) {
+      hourly.set(Math.floor(c.timestamp / H1_MS) * H1_MS, c.close);
+    }
+    const expected = computeIndicator(
+      { ts: [], o: [], h: [], l: [], c: [...hourly.values()], v: [] },
+      "rsi",
+      14,
+    );
+    expect(rsi.length).toBeGreaterThan(14);
+    expect(rsi[rsi.length - 1]).toBeCloseTo(expected[expected.length - 1], 6);
+  });
+
+  test("shares candles and series across orders", async () => {
+    const source = createSource();
+    const engine = new IndicatorEngine(source);
+
+    const [a, b] = await Promise.all([
+      engine.getSeries(SYMBOL, TimeFrame.H1, "ema", 20),
+      engine.getSeries(SYMBOL, TimeFrame.H1, "ema", 20),
+    ]);
+    expect(a).toBe(b);
+    expect(await engine.getSeries(SYMBOL, TimeFrame.H1, "ema", 20)).toBe(a);
+
+    // Another indicator on the same timeframe reuses the candles
+    await engine.getSeries(SYMBOL, TimeFrame.H1, "adx", 14);
+    expect(source.calls).toHaveLength(1);
+
+    // A different period is a different series
+    const ema50 = await engine.getValue(SYMBOL, TimeFrame.H1, "ema", 50);
+    expect(ema50).not.toBe(a[a.length - 1]);
+  });
+
+  test("rejects timeframes that cannot be built from stored candles", () => {
+    const engine = new IndicatorEngine(createSource());
+    expect(engine.getSourceTimeframe(TimeFrame.H4)).toBe(OHLCTimeframe.M30);
+    expect(engine.getSourceTimeframe(TimeFrame.M15)).toBe(OHLCTimeframe.M5);
+    expect(() => engine.getSourceTimeframe(TimeFrame.S30)).toThrow();
+
+    // Follows the configured stored timeframes
+    const hourly = new IndicatorEngine({
+      ...createSource(),
+      getStoredTimeframes: () => [OHLCTimeframe.M1, OHLCTimeframe.H1],
+    });
+    expect(hourly.getSourceTimeframe(TimeFrame.H4)).toBe(OHLCTimeframe.H1);
+    expect(hourly.getSourceTimeframe(TimeFrame.M30)).toBe(OHLCTimeframe.M1);
+  });
+});
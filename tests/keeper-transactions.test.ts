@@ -0,0 +1,239 @@
+#!/usr/bin/env bun
+import { describe, it, expect, beforeAll } from "bun:test";
+import { ethers } from "ethers";
+import { OrderStatus } from "@common/types";
+import { generateId } from "@common/utils";
+import { getConfig } from "../back/services/config";
+import { initStorage, getOrderEvents } from "../back/services/storage";
+import { KeeperTransactionManager } from "../back/services/keeperTransactions";
+
+// Local Hardhat node (`cd contracts && bunx hardhat node`)
+const RPC_URL = process.env.HARDHAT_RPC_URL || "http://127.0.0.1:8545";
+// Account #0 of the default Hardhat mnemonic
+const HARDHAT_KEY =
+  "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+
+const nodeAvailable = await fetch(RPC_URL, {
+  method: "POST",
+  headers: { "Content-Type": "application/json" },
+  body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "eth_chainId" }),
+  signal: AbortSignal.timeout(1000),
+}).then(
+  (response) => response.ok,
+  () => false,
+);
+
+if (!nodeAvailable) {
+  console.log(
+    `⚠️ No Hardhat node at ${RPC_URL}, skipping keeper transaction tests`,
+  );
+}
+
+describe.skipIf(!nodeAvailable)("Keeper Transaction Manager (Hardhat)", () => {
+  let provider: ethers.JsonRpcProvider;
+  let keeper: ethers.Wallet;
+  const recipient = ethers.Wallet.createRandom().address;
+
+  const transfer = (label: string) => ({
+    to: recipient,
+    data: "0x",
+    value: 1n,
+    label,
+  });
+
+  beforeAll(async () => {
+    initStorage(getConfig().storage);
+    provider = new ethers.JsonRpcProvider(RPC_URL, undefined, {
+      staticNetwork: true,
+    });
+    keeper = new ethers.Wallet(HARDHAT_KEY, provider);
+  });
+
+  it("serializes nonces across concurrent sends", async () => {
+    const manager = new KeeperTransactionManager(keeper);
+    const startNonce = await provider.getTransactionCount(
+      keeper.address,
+      "pending",
+    );
+
+    const results = await Promise.all([
+      manager.send(transfer("transfer 1")),
+      manager.send(transfer("transfer 2")),
+      manager.send(transfer("transfer 3")),
+    ]);
+
+    const nonces = results.map((r) => r.nonce).sort((a, b) => a - b);
+    expect(nonces).toEqual([startNonce, startNonce + 1, startNonce + 2]);
+    for (const result of results) {
+      expect(result.receipt.status).toBe(1);
+    }
+  }, 30000);
+
+  it("caps EIP-1559 fees at the configured max gas price", async () => {
+    const block = await provider.getBlock("latest");
+    const feeData = await provider.getFeeData();
+    // Above the base fee (so it mines) but below the provider's suggestion
+    const cap = block!.baseFeePerGas! * 2n;
+    expect(cap < feeData.maxFeePerGas!).toBe(true);
+
+    const manager = new KeeperTransactionManager(keeper, {
+      maxGasPriceGwei: ethers.formatUnits(cap, "gwei"),
+    });
+    const result = await manager.send(transfer("capped transfer"));
+
+    const tx = await provider.getTransaction(result.hash);
+    expect(tx!.maxFeePerGas).toBe(cap);
+    expect(tx!.maxPriorityFeePerGas! <= cap).toBe(true);
+  }, 30000);
+
+  it("speeds up a transaction that stays pending", async () => {
+    const manager = new KeeperTransactionManager(keeper, {
+      replaceAfterMs: 300,
+      feeBumpPct: 20,
+    });
+    const initialFees = await manager.getFees();
+
+    await provider.send("evm_setAutomine", [false]);
+    try {
+      const pending = manager.send(transfer("stuck transfer"));
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+      await provider.send("evm_mine", []);
+
+      const result = await pending;
+      expect(result.replacements).toBeGreaterThan(0);
+      expect(result.receipt.status).toBe(1);
+
+      const tx = await provider.getTransaction(result.hash);
+      expect(tx!.maxFeePerGas! > initialFees.maxFeePerGas).toBe(true);
+    } finally {
+      await provider.send("evm_setAutomine", [true]);
+    }
+  }, 30000);
+
+  it("fails a transaction still pending at the timeout", async () => {
+    const orderId = generateId();
+    const manager = new KeeperTransactionManager(keeper, {
+      replaceAfterMs: 200,
+      maxReplacements: 0,
+      timeoutMs: 600,
+    });
+
+    await provider.send("evm_setAutomine", [false]);
+    try {
+      await expect(
+        manager.send({
+          ...transfer("timed out transfer"),
+          record: { orderId, status: OrderStatus.ACTIVE },
+        }),
+      ).rejects.toThrow(/not mined/);
+
+      const events = await getOrderEvents(orderId);
+      expect(events).toHaveLength(1);
+      expect(events[0].status).toBe(OrderStatus.FAILED);
+      expect(events[0].error).toContain("not mined");
+    } finally {
+      await provider.send("evm_setAutomine", [true]);
+      await provider.send("evm_mine", []);
+    }
+  }, 30000);
+
+  it("fails a transaction dropped by the node", async () => {
+    const manager = new KeeperTransactionManager(keeper, {
+      replaceAfterMs: 200,
+      maxReplacements: 0,
+      dropAfterBlocks: 2,
+    });
+
+    await provider.send("evm_setAutomine", [false]);
+    try {
+      let error: Error | undefined;
+      const failed = manager
+        .send(transfer("dropped transfer"))
+        .catch((e: Error) => (error = e));
+      await new Promise((resolve) => setTimeout(resolve, 500));
+
+      const block = await provider.send("eth_getBlockByNumber", [
+        "pending",
+        false,
+      ]);
+      for (const hash of block.transactions) {
+        await provider.send("hardhat_dropTransaction", [hash]);
+      }
+      // Blocks keep coming without the transaction
+      for (let i = 0; i < 20 && !error; i++) {
+        await provider.send("evm_mine", []);
+        await new Promise((resolve) => setTimeout(resolve, 300));
+      }
+      await failed;
+      expect(error?.message).toContain("dropped");
+    } finally {
+      await provider.send("evm_setAutomine", [true]);
+    }
+  }, 30000);
+
+  it("fails a transaction whose nonce is consumed by another one", async () => {
+    const manager = new KeeperTransactionManager(keeper, {
+      replaceAfterMs: 200,
+      maxReplacements: 0,
+    });
+    const nonce = await provider.getTransactionCount(keeper.address, "pending");
+
+    await provider.send("evm_setAutomine", [false]);
+    try {
+      const failed = manager
+        .send(transfer("replaced transfer"))
+        .catch((error: Error) => error);
+      await new Promise((resolve) => setTimeout(resolve, 500));
+
+      // Another transaction with the same nonce and higher fees wins the slot
+      const fees = await manager.getFees();
+      await keeper.sendTransaction({
+        to: keeper.address,
+        value: 0n,
+        nonce,
+        maxFeePerGas: fees.maxFeePerGas * 2n,
+        maxPriorityFeePerGas: fees.maxPriorityFeePerGas * 2n,
+      });
+      await provider.send("evm_mine", []);
+      expect(((await failed) as Error).message).toContain("consumed");
+    } finally {
+      await provider.send("evm_setAutomine", [true]);
+    }
+  }, 30000);
+
+  it("records the receipt with gasUsed in order_events", async () => {
+    const orderId = generateId();
+    const manager = new KeeperTransactionManager(keeper);
+
+    const result = await manager.send({
+      ...transfer("recorded transfer"),
+      record: { orderId, status: OrderStatus.ACTIVE },
+    });
+
+    const events = await getOrderEvents(orderId);
+    expect(events).toHaveLength(1);
+    expect(events[0].status).toBe(OrderStatus.ACTIVE);
+    expect(events[0].txHash).toBe(result.hash);
+    expect(events[0].gasUsed).toBe(result.gasUsed.toString());
+    expect(result.gasUsed).toBe(21000n);
+  }, 30000);
+
+  it("records one event per order for batched transactions", async () => {
+    const orderIds = [generateId(), generateId()];
+    const manager = new KeeperTransactionManager(keeper);
+
+    const result = await manager.send({
+      ...transfer("batched transfer"),
+      record: orderIds.map((orderId) => ({
+        orderId,
+        status: OrderStatus.ACTIVE,
+      })),
+    });
+
+    for (const orderId of orderIds) {
+      const events = await getOrderEvents(orderId);
+      expect(events).toHaveLength(1);
+      expect(events[0].txHash).toBe(result.hash);
+    }
+  }, 30000);
+});
@@ -0,0 +1,67 @@
+#!/usr/bin/env bun
+import { describe, test, expect, spyOn } from "bun:test";
+import { ethers } from "ethers";
+import { createLimitOrderService } from "../back/services/limitOrder";
+
+const KEEPER = "0x0000000000000000000000000000000000000001";
+
+describe("DelegateProxy slice batching", () => {
+  /** Service whose DelegateProxy holds the given order hashes */
+  const serviceWith = (landed: Set<string>) => {
+    const service = createLimitOrderService("test-key", 1) as any;
+    service.delegateProxy = {
+      getOrderData: async (hashes: string[]) =>
+        hashes.map((hash) => ({
+          maker: landed.has(hash) ? KEEPER : ethers.ZeroAddress,
+          remainingAmount: 0n,
+        })),
+    };
+    return service;
+  };
+
+  const slice = (hash: string, rejected: string[]) => ({
+    order: { getOrderHash: () => hash },
+    userAddress: KEEPER,
+    orderId: hash,
+    resolve: () => {},
+    reject: () => rejected.push(hash),
+  });
+
+  test("Failed batches retry only the slices DelegateProxy does not hold", async () => {
+    // The batch timed out after creating the first slice
+    const service = serviceWith(new Set(["0xa"]));
+    spyOn(service, "createOrderBatchOnDelegateProxy").mockRejectedValue(
+      new Error("not mined after 600000ms and 5 replacements"),
+    );
+    const single = spyOn(
+      service,
+      "createOrderOnDelegateProxy",
+    ).mockResolvedValue("0xtx");
+
+    const rejected: string[] = [];
+    const slices = [slice("0xa", rejected), slice("0xb", rejected)];
+    const created = await service.createSlicesOnDelegateProxy(slices);
+
+    expect(created).toEqual(slices);
+    expect(single).toHaveBeenCalledTimes(1);
+    expect(single.mock.calls[0][0]).toBe(slices[1].order);
+    expect(rejected).toEqual([]);
+  });
+
+  test("Failed batches are not retried when DelegateProxy cannot be read", async () => {
+    const service = serviceWith(new Set());
+    service.delegateProxy.getOrderData = async () => {
+      throw new Error("RPC unavailable");
+    };
+    spyOn(service, "createOrderBatchOnDelegateProxy").mockRejectedValue(
+      new Error("dropped"),
+    );
+    const single = spyOn(service, "createOrderOnDelegateProxy");
+
+    const rejected: string[] = [];
+    const slices = [slice("0xa", rejected), slice("0xb", rejected)];
+    expect(await service.createSlicesOnDelegateProxy(slices)).toEqual([]);
+    expect(single).not.toHaveBeenCalled();
+    expect(rejected).toEqual(["0xa", "0xb"]);
+  });
+});
@@ -0,0 +1,306 @@
+#!/usr/bin/env bun
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import { ethers } from "ethers";
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { BracketStatus, OrderStatus } from "@common/types";
+import { getSchemaVersion, migrate } from "@back/services/migrations";
+import { StorageService, STORAGE_MIGRATIONS } from "@back/services/storage";
+import {
+  TokenDecimalsService,
+  toBaseUnits,
+} from "@back/services/tokenDecimals";
+import {
+  OHLCStorageService,
+  OHLCTimeframe,
+  OHLC_MIGRATIONS,
+} from "@back/services/ohlcStorage";
+
+const BASELINE_SQL = readFileSync(
+  join(import.meta.dir, "fixtures/1edge-baseline.sql"),
+  "utf8",
+);
+
+const columns = (db: Database, table: string) =>
+  (db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).map(
+    (c) => c.name,
+  );
+
+const tables = (db: Database) =>
+  (
+    db.prepare(`SELECT name FROM sqlite_master WHERE type = 'table'`).all() as {
+      name: string;
+    }[]
+  ).map((t) => t.name);
+
+describe("Schema migrations", () => {
+  let dir: string;
+  let dbPath: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "1edge-migrations-"));
+    dbPath = join(dir, "1edge.db");
+    const fixture = new Database(dbPath);
+    fixture.exec(BASELINE_SQL);
+    fixture.close();
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("upgrades a baseline database to head without losing data", async () => {
+    const storage = new StorageService({ dbPath, defaultTtl: 300 });
+
+    const order = await storage.getOrder("baseline-order");
+    expect(order?.status).toBe(OrderStatus.ACTIVE);
+    expect(order?.oneInchOrderHashes).toEqual(["0xhash"]);
+    // Decimal amounts are converted to base units with the cached decimals
+    expect(order?.remainingMakerAmount).toBe("500000000000000000");
+    expect(order?.params?.makingAmount).toBe("1000000000000000000");
+    expect(order?.oneInchOrders?.[0].makingAmount).toBe("500000000000000000");
+    expect(order?.oneInchOrders?.[0].takingAmount).toBe("1000000000");
+    expect(order?.oneInchOrders?.[0].filledAmount).toBe("250000000000000000");
+    expect((await storage.getChildOrder("0xhash"))?.status).toBe(
+      OrderStatus.PARTIALLY_FILLED,
+    );
+    expect((await storage.getOrderByHash("0xhash"))?.id).toBe(order!.id);
+    // Orders without a chain ran on BSC before chains were resolved per order
+    expect(order?.params?.chainId).toBe(56);
+    expect((await storage.getChildOrder("0xhash"))?.chainId).toBe(56);
+
+    // New columns and tables are usable
+    order!.participation = {
+      expectedPct: 10,
+      achievedPct: 9.5,
+      marketVolume: 100,
+      executedVolume: 9.5,
+    };
+    await storage.saveOrder(order!);
+    expect(
+      (await storage.getOrder(order!.id))?.participation?.achievedPct,
+    ).toBe(9.5);
+    await storage.saveOrderEvent({
+      orderId: order!.id,
+      status: OrderStatus.FILLED,
+      timestamp: Date.now(),
+      bracket: BracketStatus.TAKE_PROFIT,
+    });
+    expect(await storage.getOrderEvents(order!.id)).toHaveLength(2);
+    storage.close();
+
+    const db = new Database(dbPath);
+    expect(getSchemaVersion(db)).toBe(STORAGE_MIGRATIONS.length);
+    expect(tables(db)).toContain("spread_positions");
+    expect(tables(db)).not.toContain("positions");
+    expect(columns(db, "order_events")).toContain("bracket");
+    expect(columns(db, "orders")).not.toContain("one_inch_orders");
+    const row = db
+      .prepare(
+        `SELECT remaining_maker_amount, legacy_amounts FROM orders WHERE id = ?`,
+      )
+      .get("baseline-order");
+    expect(row).toEqual({
+      remaining_maker_amount: "500000000000000000",
+      legacy_amounts: 0,
+    });
+    db.close();
+
+    // The baseline was backed up before migrating
+    const backups = readdirSync(dir).filter((f) => f.endsWith(".bak"));
+    expect(backups).toHaveLength(1);
+    const backup = new Database(join(dir, backups[0]));
+    expect(getSchemaVersion(backup)).toBe(0);
+    expect(tables(backup)).toContain("positions");
+    backup.close();
+  });
+
+  test("stores child orders by hash and maps fills to their parent", async () => {
+    const storage = new StorageService({ dbPath, defaultTtl: 300 });
+    const order = (await storage.getOrder("baseline-order"))!;
+    order.oneInchOrders!.push({
+      hash: "0xchild",
+      makingAmount: "250000000000000000",
+      takingAmount: "500000000",
+      limitPrice: "2000",
+      createdAt: 1700000001000,
+      struct: {
+        salt: "1",
+        maker: "0x0000000000000000000000000000000000000004",
+        receiver: "0x0000000000000000000000000000000000000001",
+        makerAsset: "0x0000000000000000000000000000000000000002",
+        takerAsset: "0x0000000000000000000000000000000000000003",
+        makingAmount: "250000000000000000",
+        takingAmount: "500000000",
+        makerTraits: "0",
+      },
+    });
+    order.oneInchOrderHashes!.push("0xchild");
+    await storage.saveOrder(order);
+
+    // Monitor reports the child fully filled
+    const filled = await storage.updateChildOrderRemaining("0xchild", "0");
+    expect(filled?.orderId).toBe(order.id);
+    expect(filled?.status).toBe(OrderStatus.FILLED);
+    expect(
+      await storage.updateChildOrderRemaining("0xunknown", "0"),
+    ).toBeNull();
+
+    // A stale copy of the order does not reopen the filled child
+    await storage.saveOrder(order);
+    const child = await storage.getChildOrder("0xchild");
+    expect(child?.status).toBe(OrderStatus.FILLED);
+    expect(child?.remainingAmount).toBe("0");
+    expect(child?.filledAt).toBeDefined();
+
+    const saved = await storage.getOrder(order.id);
+    expect(saved?.oneInchOrderHashes).toEqual(["0xhash", "0xchild"]);
+    expect(saved?.oneInchOrders?.[1].struct?.makingAmount).toBe(
+      "250000000000000000",
+    );
+    expect((await storage.getActiveOrders())[0].oneInchOrders).toHaveLength(2);
+
+    await storage.deleteOrder(order.id);
+    expect(await storage.getChildOrder("0xchild")).toBeNull();
+    storage.close();
+  });
+
+  test("keeps legacy amounts until their token decimals are known", async () => {
+    const db = new Database(dbPath);
+    db.run(`DELETE FROM token_decimals`);
+    db.close();
+
+    const storage = new StorageService({ dbPath, defaultTtl: 300 });
+    const order = (await storage.getOrder("baseline-order"))!;
+    expect(order.remainingMakerAmount).toBe("0.5");
+    expect(order.oneInchOrders?.[0].makingAmount).toBe("0.5");
+
+    // Saving an unconverted order keeps it flagged for conversion
+    await storage.saveOrder(order);
+    await storage.cacheTokenDecimals(
+      56,
+      "0x0000000000000000000000000000000000000002",
+      18,
+    );
+    await storage.cacheTokenDecimals(
+      56,
+      "0x0000000000000000000000000000000000000003",
+      6,
+    );
+    const converted = await storage.getOrder("baseline-order");
+    expect(converted?.remainingMakerAmount).toBe("500000000000000000");
+    expect(converted?.oneInchOrders?.[0].takingAmount).toBe("1000000000");
+    storage.close();
+  });
+
+  test("resolves uncached token decimals on-chain to convert legacy amounts", async () => {
+    const db = new Database(dbPath);
+    db.run(`DELETE FROM token_decimals`);
+    db.run(`UPDATE orders SET remaining_maker_amount = 0.1`);
+    db.close();
+
+    // decimals() of the maker asset is 18, of the taker asset 6
+    const calls: string[] = [];
+    const provider = {
+      call: async (tx: { to: string }) => {
+        calls.push(tx.to.toLowerCase());
+        const decimals = tx.to.toLowerCase().endsWith("2") ? 18 : 6;
+        return ethers.AbiCoder.defaultAbiCoder().encode(["uint8"], [decimals]);
+      },
+    } as unknown as ethers.Provider;
+
+    const storage = new StorageService({ dbPath, defaultTtl: 300 });
+    const decimals = new TokenDecimalsService(() => storage);
+    const order = (await storage.getOrder("baseline-order"))!;
+    expect(order.remainingMakerAmount).toBe("0.1");
+    // Without a provider the order cannot be converted
+    await expect(decimals.resolveLegacyAmounts(order)).rejects.toThrow();
+
+    const converted = await decimals.resolveLegacyAmounts(order, provider);
+    expect(calls).toHaveLength(2);
+    // No float dust: 0.1 is exactly 10^17 base units
+    expect(converted?.remainingMakerAmount).toBe("100000000000000000");
+    expect(converted?.oneInchOrders?.[0].takingAmount).toBe("1000000000");
+    expect(
+      await storage.getCachedTokenDecimals(
+        56,
+        "0x0000000000000000000000000000000000000003",
+      ),
+    ).toBe(6);
+    storage.close();
+  });
+
+  test("converts decimal amounts to base units without float dust", () => {
+    expect(toBaseUnits(0.1, 18)).toBe(100000000000000000n);
+    expect(toBaseUnits(1234.5678, 18)).toBe(1234567800000000000000n);
+    expect(toBaseUnits(1e-7, 18)).toBe(100000000000n);
+    expect(toBaseUnits(1.23456789, 6)).toBe(1234567n);
+    expect(toBaseUnits("0.1", 6)).toBe(100000n);
+    expect(() => toBaseUnits(-1, 18)).toThrow();
+  });
+
+  test("dry run reports pending migrations without changing the database", () => {
+    const db = new Database(dbPath);
+    const report = migrate(db, dbPath, STORAGE_MIGRATIONS, { dryRun: true });
+
+    expect(report.from).toBe(0);
+    expect(report.to).toBe(0);
+    expect(report.pending).toHaveLength(STORAGE_MIGRATIONS.length);
+    expect(tables(db)).not.toContain("schema_version");
+    expect(columns(db, "orders")).not.toContain("participation");
+    db.close();
+    expect(readdirSync(dir).filter((f) => f.endsWith(".bak"))).toHaveLength(0);
+  });
+
+  test("migrations are idempotent and only applied once", () => {
+    const db = new Database(dbPath);
+    migrate(db, dbPath, STORAGE_MIGRATIONS, { backup: false });
+
+    // Re-running every migration over the head schema is a no-op
+    db.transaction(() => STORAGE_MIGRATIONS.forEach((m) => m.up(db)))();
+    const report = migrate(db, dbPath, STORAGE_MIGRATIONS);
+    expect(report.pending).toHaveLength(0);
+    expect(report.backupPath).toBeUndefined();
+
+    // Databases from a newer build are refused
+    expect(() => migrate(db, dbPath, STORAGE_MIGRATIONS.slice(0, 2))).toThrow();
+    db.close();
+  });
+
+  test("versions per-pair OHLC databases", async () => {
+    const pairPath = join(dir, "ETHUSDT.db");
+    const legacy = new Database(pairPath);
+    legacy.run(`
+      CREATE TABLE candles_1m (
+        timestamp INTEGER PRIMARY KEY,
+        open REAL NOT NULL,
+        high REAL NOT NULL,
+        low REAL NOT NULL,
+        close REAL NOT NULL,
+        volume REAL NOT NULL,
+        created_at INTEGER
+      )
+    `);
+    legacy.run(
+      `INSERT INTO candles_1m (timestamp, open, high, low, close, volume) VALUES (60000, 1, 2, 0.5, 1.5, 10)`,
+    );
+    legacy.close();
+
+    const ohlc = new OHLCStorageService(dir);
+    const candles = await ohlc.getCandles(
+      "agg:spot:ETHUSDT",
+      OHLCTimeframe.M1,
+      0,
+    );
+    expect(candles.map((c) => c.close)).toEqual([1.5]);
+    await ohlc.shutdown();
+
+    const db = new Database(pairPath);
+    expect(getSchemaVersion(db)).toBe(OHLC_MIGRATIONS.length);
+    expect(tables(db)).toContain("candles_30m");
+    expect(tables(db)).toContain("candles_1d");
+    db.close();
+  });
+});
@@ -0,0 +1,136 @@
+#!/usr/bin/env bun
+import {
+  describe,
+  test,
+  expect,
+  beforeEach,
+  afterEach,
+  setSystemTime,
+} from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { OHLCConfig, PairSymbol } from "@common/types";
+import { OHLCStorageService, OHLCTimeframe } from "@back/services/ohlcStorage";
+
+const SYMBOL = "agg:spot:ETHUSDT" as PairSymbol;
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+const DAY_START = Date.UTC(2026, 0, 5);
+const T0 = DAY_START + 10 * 60 * MINUTE; // 10:00 UTC
+
+const CONFIG: OHLCConfig = {
+  cached: [{ timeframe: OHLCTimeframe.S5, size: 3 }],
+  stored: [
+    { timeframe: OHLCTimeframe.H1, retentionDays: 2 },
+    { timeframe: OHLCTimeframe.M1, retentionDays: 1 },
+    { timeframe: OHLCTimeframe.D1 },
+  ],
+  compactionInterval: 3600,
+};
+
+describe("OHLC storage timeframes", () => {
+  let dir: string;
+
+  /** Feed a tick at `at` ms */
+  const tick = (
+    ohlc: OHLCStorageService,
+    at: number,
+    price: number,
+    volume: number,
+  ) => {
+    setSystemTime(new Date(at));
+    return ohlc.processPriceUpdate(SYMBOL, price, volume);
+  };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "1edge-ohlc-"));
+  });
+
+  afterEach(() => {
+    setSystemTime();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("rolls higher timeframes up from closed 1m candles across restarts", async () => {
+    let ohlc = new OHLCStorageService(dir, CONFIG);
+    expect(ohlc.getTimeframes()).toEqual([
+      OHLCTimeframe.S5,
+      OHLCTimeframe.M1,
+      OHLCTimeframe.H1,
+      OHLCTimeframe.D1,
+    ]);
+
+    await tick(ohlc, T0, 100, 1);
+    await tick(ohlc, T0 + 30_000, 110, 1);
+    await tick(ohlc, T0 + MINUTE, 90, 2); // Closes the 10:00 minute
+    await tick(ohlc, T0 + 2 * MINUTE, 95, 1); // Closes 10:01
+    await ohlc.shutdown();
+
+    const hourly = {
+      timestamp: T0,
+      open: 100,
+      high: 110,
+      low: 90,
+      close: 90,
+      volume: 4,
+    };
+    ohlc = new OHLCStorageService(dir, CONFIG);
+    expect(await ohlc.getCandles(SYMBOL, OHLCTimeframe.M1, T0)).toHaveLength(2);
+    expect(await ohlc.getCandles(SYMBOL, OHLCTimeframe.H1, T0)).toEqual([
+      hourly,
+    ]);
+    expect(await ohlc.getCandles(SYMBOL, OHLCTimeframe.D1, T0)).toEqual([]);
+    expect(await ohlc.getCandles(SYMBOL, OHLCTimeframe.D1, DAY_START)).toEqual([
+      { ...hourly, timestamp: DAY_START },
+    ]);
+
+    // The open hour is resumed from the database after a restart
+    await tick(ohlc, T0 + 3 * MINUTE, 120, 3);
+    await tick(ohlc, T0 + 4 * MINUTE, 120, 0); // Closes 10:03
+    await ohlc.shutdown();
+
+    ohlc = new OHLCStorageService(dir, CONFIG);
+    expect(await ohlc.getCandles(SYMBOL, OHLCTimeframe.H1, T0)).toEqual([
+      { ...hourly, high: 120, close: 120, volume: 7 },
+    ]);
+    await expect(
+      ohlc.getCandles(SYMBOL, OHLCTimeframe.M30, T0),
+    ).rejects.toThrow();
+    await ohlc.shutdown();
+  });
+
+  test("compaction drops candles past their timeframe's retention", async () => {
+    const ohlc = new OHLCStorageService(dir, CONFIG);
+    await tick(ohlc, T0, 100, 1);
+    await tick(ohlc, T0 + MINUTE, 101, 1);
+    await tick(ohlc, T0 + 2 * MINUTE, 102, 1);
+    await ohlc.shutdown();
+
+    // 1m candles expire after a day, hourly after two, daily never
+    expect(await ohlc.compact(T0 + DAY)).toBe(0);
+    expect(await ohlc.compact(T0 + DAY + MINUTE)).toBe(1);
+    expect(await ohlc.compact(T0 + 3 * DAY)).toBe(2);
+    expect(await ohlc.getCandles(SYMBOL, OHLCTimeframe.M1)).toEqual([]);
+    expect(await ohlc.getCandles(SYMBOL, OHLCTimeframe.H1)).toEqual([]);
+    expect(await ohlc.getCandles(SYMBOL, OHLCTimeframe.D1)).toHaveLength(1);
+    await ohlc.shutdown();
+  });
+
+  test("rejects stored timeframes that cannot be rolled up from 1m", () => {
+    expect(
+      () =>
+        new OHLCStorageService(dir, {
+          ...CONFIG,
+          stored: [{ timeframe: OHLCTimeframe.H1 }],
+        }),
+    ).toThrow();
+    expect(
+      () =>
+        new OHLCStorageService(dir, {
+          ...CONFIG,
+          stored: [{ timeframe: OHLCTimeframe.M1 }, { timeframe: 90 }],
+        }),
+    ).toThrow();
+  });
+});
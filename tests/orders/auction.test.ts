@@ -0,0 +1,124 @@
+#!/usr/bin/env bun
+import { describe, test, expect } from "bun:test";
+import { ethers } from "ethers";
+import { OrderType } from "@common/types";
+import type { Order, OrderParams } from "@common/types";
+import { getOrderFields, getUnsignedParamKeys } from "@common/eip712";
+import { getOrderWatcher } from "@back/orders";
+import { buildAuctionExtension } from "@back/services/limitOrder";
+import { createOrderRegistry } from "@back/services/orderRegistry";
+
+// Test configuration
+const LIMIT_PRICE = 4000;
+const CALCULATOR = "0x00000000000000000000000000000000000000ca";
+const START_TIME = 1_760_000_000;
+const DURATION = 300;
+
+describe("Auction slices", () => {
+  const watcher = getOrderWatcher(OrderType.TWAP) as any;
+
+  const auctionOrder = (params: Partial<OrderParams>): Order =>
+    ({
+      id: "auction-order",
+      params: {
+        type: OrderType.TWAP,
+        auctionDuration: DURATION,
+        ...params,
+      },
+    }) as unknown as Order;
+
+  test("Auction starts at the limit price plus the premium, in the maker's favour", () => {
+    const order = auctionOrder({ auctionPremiumPct: 1, auctionEndPrice: 4050 });
+
+    // Buying the base: starts 1% below the limit price, decays up to the end price
+    expect(watcher.getAuction(order, LIMIT_PRICE, false)).toEqual({
+      startPrice: 3960,
+      endPrice: 4050,
+      duration: DURATION,
+    });
+
+    // Selling the base: starts 1% above, decays down
+    const sell = auctionOrder({ auctionPremiumPct: 1, auctionEndPrice: 3950 });
+    expect(watcher.getAuction(sell, LIMIT_PRICE, true).startPrice).toBe(4040);
+
+    // No premium: starts at the limit price
+    expect(
+      watcher.getAuction(auctionOrder({ auctionEndPrice: 3950 }), 4000, true)
+        .startPrice,
+    ).toBe(4000);
+  });
+
+  test("Auction never starts worse than its end price", () => {
+    // End price better than the premium start: clamped to the end price
+    const buy = auctionOrder({ auctionPremiumPct: 1, auctionEndPrice: 3900 });
+    expect(watcher.getAuction(buy, LIMIT_PRICE, false).startPrice).toBe(3900);
+
+    const sell = auctionOrder({ auctionPremiumPct: 1, auctionEndPrice: 4100 });
+    expect(watcher.getAuction(sell, LIMIT_PRICE, true).startPrice).toBe(4100);
+  });
+
+  test("Auction is only built with an end price and a duration", () => {
+    expect(
+      watcher.getAuction(auctionOrder({}), LIMIT_PRICE, false),
+    ).toBeUndefined();
+    expect(
+      watcher.getAuction(
+        auctionOrder({ auctionEndPrice: 3950, auctionDuration: 0 }),
+        LIMIT_PRICE,
+        false,
+      ),
+    ).toBeUndefined();
+  });
+
+  test("Auction extension encodes the calculator data for both amount getters", () => {
+    const startTakingAmount = ethers.parseEther("1");
+    const endTakingAmount = ethers.parseEther("1.1");
+    const extension = buildAuctionExtension({
+      calculator: CALCULATOR,
+      startTime: START_TIME,
+      endTime: START_TIME + DURATION,
+      startTakingAmount,
+      endTakingAmount,
+    });
+
+    expect(extension.makingAmountData).toBe(extension.takingAmountData);
+    expect(extension.makingAmountData.slice(0, 42)).toBe(CALCULATOR);
+
+    // (startTime << 128 | endTime, startTakingAmount, endTakingAmount)
+    const data = `0x${extension.makingAmountData.slice(42)}`;
+    const [times, start, end] = ethers.AbiCoder.defaultAbiCoder().decode(
+      ["uint256", "uint256", "uint256"],
+      data,
+    );
+    expect(times >> 128n).toBe(BigInt(START_TIME));
+    expect(times & ((1n << 128n) - 1n)).toBe(BigInt(START_TIME + DURATION));
+    expect(start).toBe(startTakingAmount);
+    expect(end).toBe(endTakingAmount);
+  });
+
+  test("Auction params are rejected for grid and spread orders", () => {
+    const auction = { auctionEndPrice: 3950, auctionDuration: DURATION };
+    for (const type of [OrderType.GRID_TRADING, OrderType.SPREAD]) {
+      expect(
+        getOrderFields(type).some((f) => f.name === "auctionEndPrice"),
+      ).toBe(false);
+      expect(getUnsignedParamKeys({ type, ...auction } as OrderParams)).toEqual(
+        ["auctionEndPrice", "auctionDuration"],
+      );
+    }
+    expect(
+      getUnsignedParamKeys({ type: OrderType.TWAP, ...auction } as OrderParams),
+    ).toEqual([]);
+
+    const registry = createOrderRegistry(true) as any;
+    expect(() =>
+      registry.validateAuctionParams({
+        type: OrderType.GRID_TRADING,
+        ...auction,
+      }),
+    ).toThrow("GRID_TRADING orders do not support auctions");
+    expect(() =>
+      registry.validateAuctionParams({ type: OrderType.SPREAD, ...auction }),
+    ).toThrow("SPREAD orders do not support auctions");
+  });
+});
@@ -0,0 +1,291 @@
+#!/usr/bin/env bun
+import {
+  describe,
+  test,
+  expect,
+  beforeAll,
+  afterAll,
+  afterEach,
+  mock,
+  spyOn,
+} from "bun:test";
+import { ethers } from "ethers";
+import { BracketStatus, OrderStatus, OrderType } from "@common/types";
+import type { Order } from "@common/types";
+import { getConfig } from "@back/services/config";
+import { getBracket, getOrderEvents } from "@back/services/storage";
+import { getOrderWatcher } from "@back/orders";
+import { createTestSuite, TestContext } from "../utils";
+
+// Test configuration
+const ENTRY_PRICE = 4000; // 4000 USDT spent on 1 WETH
+const TP_PCT = 3;
+const SL_PCT = 1.5;
+const STOP_LOSS_SLIPPAGE = 0.005;
+const RECEIVED = ethers.parseEther("1").toString();
+
+describe("Bracket exits", () => {
+  let context: TestContext;
+  const testSuite = createTestSuite();
+  const watcher = getOrderWatcher(OrderType.TWAP)!;
+
+  let live: Set<string>; // Hashes still open on DelegateProxy
+  let filledBeforeCancel: boolean; // Take profit filled before its cancellation landed
+  let placed: any[];
+  let cancelled: string[];
+
+  beforeAll(async () => {
+    context = await testSuite.setup();
+  });
+
+  afterAll(async () => {
+    await testSuite.teardown(context);
+  });
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  /** Filled buy entry of 1 WETH for 4000 USDT with a take profit and stop loss */
+  const filledEntry = (filledAmount: string | null = "4000000000"): Order => {
+    const { tokenMapping } = getConfig();
+    const id = crypto.randomUUID();
+    return {
+      id,
+      signature: "0xsig",
+      params: {
+        type: OrderType.TWAP,
+        maker: context.testWallet.address,
+        chainId: 1,
+        makerAsset: tokenMapping.USDT["1"],
+        takerAsset: tokenMapping.WETH["1"],
+        makingAmount: "4000000000",
+        amount: "4000",
+        tpPct: TP_PCT,
+        slPct: SL_PCT,
+      },
+      status: OrderStatus.FILLED,
+      remainingMakerAmount: "0",
+      triggerCount: 1,
+      createdAt: Date.now(),
+      oneInchOrders: [
+        {
+          hash: `0xentry${id}`,
+          makingAmount: "4000000000",
+          takingAmount: RECEIVED,
+          limitPrice: String(ENTRY_PRICE),
+          createdAt: Date.now(),
+          filledAmount: filledAmount ?? undefined,
+        },
+      ],
+    } as unknown as Order;
+  };
+
+  /** Chain context, decimals and a spot price quoted in USDT per WETH */
+  const mockChain = (price: number) => {
+    live = new Set();
+    filledBeforeCancel = false;
+    placed = [];
+    cancelled = [];
+    const { tokenMapping } = getConfig();
+    spyOn(watcher as any, "getExecutionContext").mockReturnValue({
+      chainId: 1,
+      delegateProxy: {
+        getOrderData: async (
+          hashes: string[],
+          overrides?: { blockTag: number },
+        ) =>
+          hashes.map((hash) => ({
+            maker:
+              live.has(hash) && !(overrides && filledBeforeCancel)
+                ? "0x0000000000000000000000000000000000000001"
+                : ethers.ZeroAddress,
+            remainingAmount: ethers.parseEther("0.4"),
+          })),
+      },
+      limitOrderService: {
+        cancelOrdersOnDelegateProxy: async (structs: { salt: string }[]) => {
+          cancelled.push(...structs.map((s) => s.salt));
+          return { receipt: { blockNumber: 100 } };
+        },
+      },
+    });
+    spyOn(watcher as any, "getAssetDecimals").mockImplementation(
+      async (_order: Order, asset: string) =>
+        asset === tokenMapping.USDT["1"] ? 6 : 18,
+    );
+    setPrice(price);
+    spyOn(watcher as any, "placeChildOrder").mockImplementation(
+      async (order: Order, child: any) => {
+        const hash = `0xexit${placed.length}${order.id}`;
+        placed.push(child);
+        live.add(hash);
+        (order.exitOrders ||= []).push({
+          hash,
+          makerAsset: child.makerAsset,
+          makingAmount: child.makingAmount,
+          takingAmount: "0",
+          limitPrice: String(child.limitPrice),
+          createdAt: Date.now(),
+          struct: { salt: hash } as any,
+        });
+        return hash;
+      },
+    );
+  };
+
+  const exitOrder = (order: Order, hash?: string) =>
+    order.exitOrders!.find((c) => c.hash === hash)!;
+
+  const setPrice = (price: number) => {
+    spyOn(watcher as any, "getPriceInfo").mockReturnValue({
+      symbol: "agg:spot:ETHUSDT",
+      price,
+      priceData: { mid: price },
+      makerIsBase: false,
+    });
+  };
+
+  /** Arm the bracket of a filled entry at the entry price */
+  const armed = async (): Promise<Order> => {
+    mockChain(ENTRY_PRICE);
+    const order = filledEntry();
+    expect(await watcher.updateBracket!(order)).toBe(true);
+    return order;
+  };
+
+  test("Bracket arms on the filled entry and posts the take profit", async () => {
+    const order = await armed();
+
+    const bracket = (await getBracket(order.id))!;
+    expect(bracket).toMatchObject({
+      status: BracketStatus.ARMED,
+      exitAmount: RECEIVED,
+    });
+    expect(bracket.entryPrice).toBeCloseTo(ENTRY_PRICE);
+    expect(bracket.takeProfitPrice).toBeCloseTo(ENTRY_PRICE * 1.03);
+    expect(bracket.stopLossPrice).toBeCloseTo(ENTRY_PRICE * 0.985);
+
+    // The take profit sells the received WETH back above the entry
+    expect(placed).toHaveLength(1);
+    expect(placed[0]).toMatchObject({
+      makerAsset: order.params!.takerAsset,
+      takerAsset: order.params!.makerAsset,
+      makingAmount: RECEIVED,
+      makerIsBase: true,
+    });
+    expect(placed[0].limitPrice).toBeCloseTo(ENTRY_PRICE * 1.03);
+    expect(bracket.takeProfitHash).toBe(order.exitOrders![0].hash);
+
+    // Exits are not fills of the order itself
+    expect(order.oneInchOrders).toHaveLength(1);
+    expect(order.oneInchOrderHashes ?? []).not.toContain(
+      bracket.takeProfitHash,
+    );
+
+    const events = await getOrderEvents(order.id);
+    expect(events[0].bracket).toBe(BracketStatus.ARMED);
+
+    // Armed once: the next update keeps watching without reposting
+    expect(await watcher.updateBracket!(order)).toBe(true);
+    expect(placed).toHaveLength(1);
+  });
+
+  test("Bracket closes by take profit once DelegateProxy forgets it", async () => {
+    const order = await armed();
+    const bracket = (await getBracket(order.id))!;
+
+    live.delete(bracket.takeProfitHash!);
+    expect(await watcher.updateBracket!(order)).toBe(false);
+
+    const closed = (await getBracket(order.id))!;
+    expect(closed.status).toBe(BracketStatus.TAKE_PROFIT);
+    expect(closed.closedAt).toBeGreaterThan(0);
+    expect(exitOrder(order, bracket.takeProfitHash).filledAmount).toBe(
+      RECEIVED,
+    );
+    expect((await getOrderEvents(order.id))[0]).toMatchObject({
+      bracket: BracketStatus.TAKE_PROFIT,
+      orderHash: bracket.takeProfitHash,
+    });
+    expect(cancelled).toEqual([]);
+  });
+
+  test("Bracket stop loss cancels the take profit and exits the rest through the market", async () => {
+    const order = await armed();
+    const { takeProfitHash } = (await getBracket(order.id))!;
+
+    // Above the stop: still watching
+    setPrice(ENTRY_PRICE * 0.99);
+    expect(await watcher.updateBracket!(order)).toBe(true);
+    expect(cancelled).toEqual([]);
+
+    setPrice(3900);
+    expect(await watcher.updateBracket!(order)).toBe(false);
+    expect(cancelled).toEqual([takeProfitHash!]);
+
+    // 0.6 WETH filled by the take profit, the remaining 0.4 sold below the spot
+    const takeProfit = exitOrder(order, takeProfitHash);
+    expect(takeProfit.cancelledAt).toBeGreaterThan(0);
+    expect(takeProfit.filledAmount).toBe(ethers.parseEther("0.6").toString());
+    expect(placed).toHaveLength(2);
+    expect(placed[1]).toMatchObject({
+      makerAsset: order.params!.takerAsset,
+      makingAmount: ethers.parseEther("0.4").toString(),
+      makerIsBase: true,
+    });
+    expect(placed[1].limitPrice).toBeCloseTo(3900 * (1 - STOP_LOSS_SLIPPAGE));
+
+    const closed = (await getBracket(order.id))!;
+    expect(closed.status).toBe(BracketStatus.STOP_LOSS);
+    expect(closed.stopLossHash).toBe(order.exitOrders![1].hash);
+    expect(order.oneInchOrders).toHaveLength(1);
+  });
+
+  test("Bracket closes by take profit if it filled before the cancellation landed", async () => {
+    const order = await armed();
+    const { takeProfitHash } = (await getBracket(order.id))!;
+
+    filledBeforeCancel = true;
+    setPrice(3900);
+    expect(await watcher.updateBracket!(order)).toBe(false);
+
+    expect(cancelled).toEqual([takeProfitHash!]);
+    expect(placed).toHaveLength(1); // No stop loss exit
+    const takeProfit = exitOrder(order, takeProfitHash);
+    expect(takeProfit.filledAmount).toBe(takeProfit.makingAmount);
+    expect((await getBracket(order.id))!.status).toBe(
+      BracketStatus.TAKE_PROFIT,
+    );
+  });
+
+  test("Bracket without a filled entry stops watching and records why", async () => {
+    // Nothing filled, or no fill recorded yet
+    for (const filledAmount of ["0", null]) {
+      mockChain(ENTRY_PRICE);
+      const order = filledEntry(filledAmount);
+
+      expect(await watcher.updateBracket!(order)).toBe(false);
+      expect(await getBracket(order.id)).toBeNull();
+      expect(placed).toEqual([]);
+      expect((await getOrderEvents(order.id))[0].error).toBe(
+        "No filled entry to attach a bracket to",
+      );
+    }
+  });
+
+  test("Bracket only closes by take profit once one was placed", async () => {
+    // Stop loss only: no take profit hash to look up
+    mockChain(ENTRY_PRICE);
+    const stopOnly = filledEntry();
+    stopOnly.params!.tpPct = 0;
+    expect(await watcher.updateBracket!(stopOnly)).toBe(true);
+    expect(placed).toEqual([]);
+
+    // A take profit hash this order does not track reads as deleted on-chain
+    const order = await armed();
+    order.exitOrders = [];
+    expect(await watcher.updateBracket!(order)).toBe(true);
+    expect((await getBracket(order.id))!.status).toBe(BracketStatus.ARMED);
+  });
+});
@@ -3,10 +3,12 @@ import { describe, test, expect, beforeAll, afterAll } from "bun:test";
 import { OrderType, OrderStatus } from "@common/types";
 import type { RangeBreakoutParams } from "@common/types";
 import { getOrder } from "@back/services/storage";
+import { getOrderWatcher } from "@back/orders";
 import {
   createTestSuite,
   OrderFactory,
   mockPriceCache,
+  PriceSeriesGenerator,
   TechnicalAnalysisScenarios,
   TestScenarios,
   wait,
@@ -129,4 +131,36 @@ describe("Breakout Strategy Lifecycle Test", () => {
 
     console.log(`✅ Order correctly did not trigger on weak ADX trend`);
   }, 15000);
+
+  test("emaPeriod changes the EMA the breakout is measured from", async () => {
+    // Strong default-period ADX, candles of a decline ending on a short bounce
+    mockPriceCache({
+      ...TechnicalAnalysisScenarios.breakout(
+        ADX_THRESHOLD,
+        ADXMA_PERIOD,
+        BREAKOUT_PCT,
+        ETH_PRICE,
+      ),
+      history: PriceSeriesGenerator.oversoldBounce(ETH_PRICE),
+    });
+    const watcher = getOrderWatcher(OrderType.RANGE_BREAKOUT)!;
+
+    const withPeriod = (emaPeriod: number) =>
+      OrderFactory.generic(
+        context.testWallet,
+        OrderType.RANGE_BREAKOUT,
+        {
+          amount: "1.0",
+          emaPeriod,
+          adxThreshold: ADX_THRESHOLD,
+          adxmaPeriod: ADXMA_PERIOD,
+          breakoutPct: BREAKOUT_PCT,
+        },
+        ETH_PRICE,
+      );
+
+    // Price is ~0.6% off EMA(5) but ~5% off EMA(50)
+    expect(await watcher.shouldTrigger(await withPeriod(5))).toBe(false);
+    expect(await watcher.shouldTrigger(await withPeriod(50))).toBe(true);
+  });
 });
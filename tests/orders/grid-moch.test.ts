@@ -44,6 +44,7 @@ describe("Grid Strategy Lifecycle Test", () => {
       endPrice: END_PRICE,
       stepPct: STEP_PCT,
       singleSide: false,
+      counterAmount: "4000000000", // 4000 USDT for the buy legs
       tpPct: 2.0, // 2% take profit
     };
 
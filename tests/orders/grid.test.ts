@@ -0,0 +1,219 @@
+#!/usr/bin/env bun
+import { describe, test, expect } from "bun:test";
+import { OrderType } from "@common/types";
+import type { GridLevel, GridTradingParams, Order } from "@common/types";
+import { getOrderWatcher } from "@back/orders";
+
+// Test configuration
+const START_PRICE = 3900;
+const END_PRICE = 4100;
+const STEP_PCT = 5; // $10 steps: 21 levels
+const SPOT = 3950; // Level 5
+const BUDGET = 2000;
+const COUNTER = 3; // Other side's budget of two-sided grids
+
+describe("Grid level math", () => {
+  // Level construction and flipping are pure, exercised directly
+  const watcher = getOrderWatcher(OrderType.GRID_TRADING) as any;
+
+  const gridParams = (
+    params: Partial<GridTradingParams> = {},
+  ): GridTradingParams =>
+    ({
+      amount: String(BUDGET),
+      startPrice: START_PRICE,
+      endPrice: END_PRICE,
+      stepPct: STEP_PCT,
+      ...params,
+    }) as GridTradingParams;
+
+  const gridOrder = (params: GridTradingParams): Order =>
+    ({
+      id: "grid-order",
+      params,
+      oneInchOrders: [
+        {
+          hash: "0xleg",
+          makingAmount: "1000",
+          takingAmount: "1000",
+          limitPrice: "3900",
+          createdAt: Date.now(),
+        },
+      ],
+    }) as unknown as Order;
+
+  const build = (
+    params: GridTradingParams,
+    makerIsBase = false,
+    counterBudget = COUNTER,
+  ): GridLevel[] =>
+    watcher.buildLevels(
+      gridOrder(params),
+      params,
+      SPOT,
+      makerIsBase,
+      makerIsBase ? BUDGET / SPOT : BUDGET,
+      counterBudget,
+    );
+
+  /** Fill the level's posted leg */
+  const fill = (params: GridTradingParams, level: GridLevel): GridLevel => {
+    level.orderHash = "0xleg";
+    watcher.flipLevel(
+      gridOrder(params),
+      params,
+      watcher.getLevelPrices(params),
+      level,
+    );
+    return level;
+  };
+
+  test("Grid builds buys below and sells above the spot, skipping the nearest level", () => {
+    const levels = build(gridParams());
+
+    expect(levels).toHaveLength(20);
+    expect(levels.map((l) => l.price)).not.toContain(SPOT);
+    const buys = levels.filter((l) => l.side === "buy");
+    const sells = levels.filter((l) => l.side === "sell");
+    expect(buys.map((l) => l.price)).toEqual([3900, 3910, 3920, 3930, 3940]);
+    expect(sells).toHaveLength(15);
+    expect(sells.every((l) => l.price > SPOT)).toBe(true);
+
+    expect(levels[0]).toMatchObject({
+      level: 0,
+      homeSide: "buy",
+      legPrice: 3900,
+      status: "idle",
+      realizedPnl: 0,
+      fills: 0,
+    });
+    // Buys share the quote budget, converted to base; sells share the counter budget
+    expect(levels[0].amount).toBeCloseTo(BUDGET / 5 / 3900);
+    expect(sells[0].amount).toBeCloseTo(COUNTER / 15);
+
+    // Selling the base asset: sells share the maker budget, buys the quote counter budget
+    const baseLevels = build(gridParams(), true, BUDGET);
+    expect(baseLevels[0].amount).toBeCloseTo(BUDGET / 5 / 3900);
+    expect(baseLevels[19].amount).toBeCloseTo(BUDGET / SPOT / 15);
+  });
+
+  test("Grid never posts more of either asset than each side's budget", () => {
+    const levels = build(gridParams());
+    const quote = levels
+      .filter((l) => l.side === "buy")
+      .reduce((total, l) => total + l.amount * l.legPrice, 0);
+    const base = levels
+      .filter((l) => l.side === "sell")
+      .reduce((total, l) => total + l.amount, 0);
+    expect(quote).toBeCloseTo(BUDGET);
+    expect(base).toBeCloseTo(COUNTER);
+
+    // No counter budget: only the side the maker asset funds
+    const funded = build(gridParams(), false, 0);
+    expect(funded).toHaveLength(5);
+    expect(funded.every((l) => l.side === "buy")).toBe(true);
+  });
+
+  test("Grid rejects two-sided orders without a counter budget", () => {
+    const order = (params: Partial<GridTradingParams>) =>
+      gridOrder(gridParams(params));
+
+    expect(() => watcher.validateOrder(order({ singleSide: false }))).toThrow(
+      "Two-sided grids need params.counterAmount",
+    );
+    expect(() =>
+      watcher.validateOrder(order({ singleSide: false, counterAmount: "0" })),
+    ).toThrow("Two-sided grids need params.counterAmount");
+    expect(() =>
+      watcher.validateOrder(order({ singleSide: false, counterAmount: "1.5" })),
+    ).toThrow("params.counterAmount must be a base-unit integer string");
+    watcher.validateOrder(
+      order({ singleSide: false, counterAmount: "3000000000000000000" }),
+    );
+    watcher.validateOrder(order({ singleSide: true }));
+  });
+
+  test("Grid widens each step by stepMultiplier", () => {
+    const params = gridParams({ stepMultiplier: 2 });
+    expect(watcher.getLevelPrices(params)).toEqual([
+      3900, 3910, 3930, 3970, 4050,
+    ]);
+    expect(watcher.getLevelPrices(gridParams({ stepPct: 0 }))).toEqual([]);
+  });
+
+  test("Grid single-sided mode keeps only the side the maker asset funds", () => {
+    const quoteFunded = build(gridParams({ singleSide: true }));
+    expect(quoteFunded).toHaveLength(5);
+    expect(quoteFunded.every((l) => l.side === "buy")).toBe(true);
+    expect(quoteFunded[0].amount).toBeCloseTo(BUDGET / 5 / 3900);
+
+    const baseFunded = build(gridParams({ singleSide: true }), true);
+    expect(baseFunded).toHaveLength(15);
+    expect(baseFunded.every((l) => l.side === "sell")).toBe(true);
+  });
+
+  test("Grid flips a filled buy into its take-profit sell and books the round trip", () => {
+    const params = gridParams({ tpPct: 2 });
+    const level = build(params)[0];
+
+    fill(params, level);
+    expect(level).toMatchObject({
+      side: "sell",
+      homeSide: "buy",
+      entryPrice: 3900,
+      status: "idle",
+      fills: 1,
+      realizedPnl: 0,
+    });
+    expect(level.legPrice).toBeCloseTo(3900 * 1.02);
+    expect(level.orderHash).toBeUndefined();
+
+    // The counter leg fills: profit booked, home leg reposted
+    fill(params, level);
+    expect(level.realizedPnl).toBeCloseTo(level.amount * 3900 * 0.02);
+    expect(level).toMatchObject({
+      side: "buy",
+      legPrice: 3900,
+      fills: 2,
+    });
+    expect(level.entryPrice).toBeUndefined();
+
+    // Round trips accumulate
+    fill(params, level);
+    fill(params, level);
+    expect(level.realizedPnl).toBeCloseTo(2 * level.amount * 3900 * 0.02);
+  });
+
+  test("Grid counter legs of sells buy back lower, one level away without tpPct", () => {
+    const params = gridParams();
+    const levels = build(params);
+    const sell = levels.find((l) => l.price === 4000)!;
+
+    fill(params, sell);
+    expect(sell.side).toBe("buy");
+    expect(sell.legPrice).toBe(3990);
+
+    fill(params, sell);
+    expect(sell.realizedPnl).toBeCloseTo(sell.amount * 10);
+    expect(sell.side).toBe("sell");
+
+    const top = levels.find((l) => l.price === END_PRICE)!;
+    fill(params, top);
+    expect(top.legPrice).toBe(END_PRICE - 10);
+
+    // A buy's counter sell uses the next level up
+    const buy = levels.find((l) => l.price === 3930)!;
+    fill(params, buy);
+    expect(buy.legPrice).toBe(3940);
+  });
+
+  test("Grid marks the filled leg's child order as filled", () => {
+    const params = gridParams();
+    const order = gridOrder(params);
+    const level = build(params)[0];
+    level.orderHash = "0xleg";
+
+    watcher.flipLevel(order, params, watcher.getLevelPrices(params), level);
+    expect(order.oneInchOrders![0].filledAmount).toBe("1000");
+  });
+});
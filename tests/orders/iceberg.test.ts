@@ -1,13 +1,24 @@
 #!/usr/bin/env bun
-import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import {
+  describe,
+  test,
+  expect,
+  beforeAll,
+  afterAll,
+  afterEach,
+  mock,
+} from "bun:test";
 import { OrderType, OrderStatus } from "@common/types";
 import type { IcebergParams } from "@common/types";
 import { getOrder } from "@back/services/storage";
+import { getOrderWatcher } from "@back/orders";
+import { createOrderRegistry } from "@back/services/orderRegistry";
 import {
   createTestSuite,
   OrderFactory,
   DynamicPriceMock,
   mockPriceCache,
+  mockChainExecution,
   TestScenarios,
   wait,
   expectOrderState,
@@ -21,6 +32,7 @@ const START_PRICE = 3900; // Starting price
 const END_PRICE = 4000; // Target price
 const STEPS = 4; // 4 steps = $25 per step
 const INITIAL_PRICE = 3850; // Start below start price
+const DAY = 24 * 60 * 60 * 1000;
 
 describe("Iceberg Order Lifecycle Test", () => {
   let context: TestContext;
@@ -34,6 +46,10 @@ describe("Iceberg Order Lifecycle Test", () => {
     await testSuite.teardown(context);
   });
 
+  afterEach(() => {
+    mock.restore();
+  });
+
   test("Iceberg order executes steps as price moves through levels", async () => {
     // Setup dynamic price mock
     const priceMock = new DynamicPriceMock(INITIAL_PRICE);
@@ -119,4 +135,97 @@ describe("Iceberg Order Lifecycle Test", () => {
       console.log(`✅ Multiple iceberg steps executed successfully`);
     }
   }, 20000);
+
+  test("Refill iceberg keeps one visible clip and posts the next once it fills", async () => {
+    const priceMock = new DynamicPriceMock(START_PRICE + 50);
+    mockPriceCache(priceMock);
+
+    const order = await OrderFactory.iceberg(context.testWallet, {
+      amount: "2.0",
+      startPrice: START_PRICE,
+      endPrice: END_PRICE,
+      steps: STEPS,
+      refill: true,
+    });
+    order.remainingMakerAmount = "2000000000000000000";
+    const watcher = getOrderWatcher(OrderType.ICEBERG)!;
+
+    // No clip yet: post the first one, sized makingAmount / steps
+    expect(await watcher.shouldTrigger(order)).toBe(true);
+    expect(await watcher.getTriggerAmount(order)).toBe("500000000000000000");
+
+    // First clip visible and partially filled: wait
+    const clip = (hash: string, filledAmount: string) => ({
+      hash,
+      makingAmount: "500000000000000000",
+      takingAmount: "1975000000",
+      limitPrice: "3950",
+      createdAt: Date.now(),
+      filledAmount,
+    });
+    order.status = OrderStatus.ACTIVE;
+    order.oneInchOrders = [clip("0x01", "200000000000000000")];
+    expect(await watcher.shouldTrigger(order)).toBe(false);
+
+    // Clip filled: refill
+    order.oneInchOrders = [clip("0x01", "500000000000000000")];
+    expect(await watcher.shouldTrigger(order)).toBe(true);
+
+    // Price outside the band pauses refills
+    priceMock.setPrice(END_PRICE + 100);
+    expect(await watcher.shouldTrigger(order)).toBe(false);
+    priceMock.setPrice(START_PRICE + 50);
+
+    // Whole amount sliced and filled: nothing left to refill
+    order.oneInchOrders = ["0x01", "0x02", "0x03", "0x04"].map((hash) =>
+      clip(hash, "500000000000000000"),
+    );
+    order.remainingMakerAmount = "0";
+    expect(await watcher.shouldTrigger(order)).toBe(false);
+    expect(await watcher.getTriggerAmount(order)).toBe("0");
+  });
+
+  test("Refill iceberg refills through the registry until its whole amount fills", async () => {
+    const priceMock = new DynamicPriceMock(START_PRICE + 50);
+    mockPriceCache(priceMock);
+    const chain = await mockChainExecution(OrderType.ICEBERG);
+    const registry = createOrderRegistry(true) as any; // Not started: no sweep
+
+    // Two clips of 1 WETH
+    const order = await OrderFactory.iceberg(context.testWallet, {
+      amount: "2.0",
+      startPrice: START_PRICE,
+      endPrice: END_PRICE,
+      steps: 2,
+      refill: true,
+      expiry: Date.now() + DAY, // Timestamp (ms), a day out
+    });
+    order.remainingMakerAmount = order.params!.makingAmount;
+    registry.track(order);
+    const clips = () => order.oneInchOrders ?? [];
+
+    await registry.processOrder(order.id);
+    expect(clips()).toHaveLength(1);
+    expect(order.remainingMakerAmount).toBe("1000000000000000000");
+
+    // Visible clip open: no refill
+    await registry.processOrder(order.id);
+    expect(clips()).toHaveLength(1);
+
+    // Every posted clip filled, half the order: still tracked and refilled
+    chain.fill(clips()[0].hash);
+    await registry.processOrder(order.id);
+    expect(order.status).toBe(OrderStatus.PARTIALLY_FILLED);
+    expect(order.filledAmount).toBe("1000000000000000000");
+    expect(clips()).toHaveLength(2);
+    expect(order.remainingMakerAmount).toBe("0");
+    expect(registry.activeOrders.has(order.id)).toBe(true);
+
+    // Last clip filled: the order is filled and no longer tracked
+    chain.fill(clips()[1].hash);
+    await registry.processOrder(order.id);
+    expect(order.status).toBe(OrderStatus.FILLED);
+    expect(order.filledAmount).toBe(order.params!.makingAmount);
+    expect(registry.activeOrders.has(order.id)).toBe(false);
+  });
 });
@@ -0,0 +1,241 @@
+#!/usr/bin/env bun
+import {
+  describe,
+  test,
+  expect,
+  beforeAll,
+  afterAll,
+  afterEach,
+  mock,
+  spyOn,
+} from "bun:test";
+import { ethers } from "ethers";
+import { OrderIntentAction, OrderStatus, OrderType } from "@common/types";
+import type { Order, StopLimitParams } from "@common/types";
+import {
+  getMakerNonce,
+  getOrder,
+  getOrderEvents,
+} from "@back/services/storage";
+import { getOrderWatcher } from "@back/orders";
+import {
+  createTestSuite,
+  OrderFactory,
+  DynamicPriceMock,
+  mockPriceCache,
+  TestScenarios,
+  signOrderIntent,
+  TestContext,
+} from "../utils";
+
+// Price stays above the sell stop so orders remain untriggered
+const INITIAL_ETH_PRICE = 4200;
+const DAY = 24 * 60 * 60 * 1000;
+
+const stopParams: StopLimitParams = {
+  amount: "1.0",
+  stopPrice: 4000,
+  limitPrice: 4100,
+  expiry: Date.now() + DAY, // Timestamp (ms), a day out
+};
+
+describe("Signed Cancel/Modify Intents", () => {
+  let context: TestContext;
+  const testSuite = createTestSuite();
+
+  beforeAll(async () => {
+    context = await testSuite.setup();
+    mockPriceCache(new DynamicPriceMock(INITIAL_ETH_PRICE));
+  });
+
+  afterAll(async () => {
+    await testSuite.teardown(context);
+  });
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  test("Maker can cancel their order with a signed intent", async () => {
+    const order = await OrderFactory.stop(context.testWallet, stopParams);
+    await TestScenarios.createStoreOrder(context.orderRegistry, order);
+
+    const intent = await signOrderIntent(context.testWallet, {
+      orderId: order.id,
+      action: OrderIntentAction.CANCEL,
+    });
+    await context.orderRegistry.cancelOrder(intent);
+
+    const cancelled = await getOrder(order.id);
+    expect(cancelled!.status).toBe(OrderStatus.CANCELLED);
+  });
+
+  test("Cancel waits for an in-flight evaluation and cancels the slice it placed", async () => {
+    const order = await OrderFactory.stop(context.testWallet, stopParams);
+    await TestScenarios.createStoreOrder(context.orderRegistry, order);
+
+    // Hold the evaluation between its trigger check and the slice
+    const watcher = getOrderWatcher(OrderType.STOP_LIMIT)!;
+    let release!: () => void;
+    const released = new Promise<void>((resolve) => (release = resolve));
+    spyOn(watcher, "shouldTrigger").mockImplementation(async () => {
+      await released;
+      return true;
+    });
+    spyOn(watcher, "trigger").mockImplementation(async (tracked: Order) => {
+      tracked.oneInchOrders = [
+        {
+          hash: `0xslice${tracked.id}`,
+          makingAmount: tracked.params!.makingAmount,
+          takingAmount: "1",
+          limitPrice: "4100",
+          createdAt: Date.now(),
+        },
+      ];
+    });
+    let cancelledChildren = -1;
+    spyOn(watcher, "cancelChildOrders").mockImplementation(
+      async (tracked: Order) => {
+        cancelledChildren = tracked.oneInchOrders?.length ?? 0;
+      },
+    );
+
+    context.orderRegistry.wake(order.id);
+    const intent = await signOrderIntent(context.testWallet, {
+      orderId: order.id,
+      action: OrderIntentAction.CANCEL,
+    });
+    const cancelling = context.orderRegistry.cancelOrder(intent);
+    release();
+    await cancelling;
+
+    expect(cancelledChildren).toBe(1);
+    expect((await getOrder(order.id))!.status).toBe(OrderStatus.CANCELLED);
+    expect(context.orderRegistry.activeOrders.has(order.id)).toBe(false);
+  });
+
+  test("Cancel signed by another wallet is rejected and recorded", async () => {
+    const order = await OrderFactory.stop(context.testWallet, stopParams);
+    await TestScenarios.createStoreOrder(context.orderRegistry, order);
+
+    const attacker = ethers.Wallet.createRandom();
+    const intent = await signOrderIntent(attacker, {
+      orderId: order.id,
+      action: OrderIntentAction.CANCEL,
+    });
+
+    await expect(context.orderRegistry.cancelOrder(intent)).rejects.toThrow(
+      "not the order maker",
+    );
+
+    const unchanged = await getOrder(order.id);
+    expect(unchanged!.status).toBe(OrderStatus.PENDING);
+
+    const events = await getOrderEvents(order.id);
+    const rejection = events.find((e) => e.error?.includes("CANCEL rejected"));
+    expect(rejection).toBeDefined();
+    expect(rejection!.status).toBe(OrderStatus.PENDING);
+  });
+
+  test("Intent signed with an already consumed nonce is rejected", async () => {
+    // Each order consumes the nonce it was signed with
+    const first = await OrderFactory.stop(context.testWallet, stopParams);
+    await TestScenarios.createStoreOrder(context.orderRegistry, first);
+    const second = await OrderFactory.stop(context.testWallet, stopParams);
+    await TestScenarios.createStoreOrder(context.orderRegistry, second);
+
+    // Both intents are signed against the same current nonce
+    const firstIntent = await signOrderIntent(context.testWallet, {
+      orderId: first.id,
+      action: OrderIntentAction.CANCEL,
+    });
+    const staleIntent = await signOrderIntent(context.testWallet, {
+      orderId: second.id,
+      action: OrderIntentAction.CANCEL,
+    });
+    expect(staleIntent.nonce).toBe(firstIntent.nonce);
+
+    await context.orderRegistry.cancelOrder(firstIntent);
+    await expect(
+      context.orderRegistry.cancelOrder(staleIntent),
+    ).rejects.toThrow("stale nonce");
+    expect((await getOrder(second.id))!.status).toBe(OrderStatus.PENDING);
+  });
+
+  test("Rejected orders leave the nonce they were signed with usable", async () => {
+    const nonce = await getMakerNonce(context.testWallet.address);
+    const rejected = await OrderFactory.stop(context.testWallet, {
+      ...stopParams,
+      amount: "0",
+    });
+    expect(rejected.nonce).toBe(nonce);
+    await expect(context.orderRegistry.createOrder(rejected)).rejects.toThrow(
+      "params.makingAmount must be greater than 0",
+    );
+    expect(await getMakerNonce(context.testWallet.address)).toBe(nonce);
+
+    // The same nonce signs the corrected order
+    const order = await OrderFactory.stop(context.testWallet, stopParams);
+    expect(order.nonce).toBe(nonce);
+    await context.orderRegistry.createOrder(order);
+    expect((await getOrder(order.id))!.status).toBe(OrderStatus.PENDING);
+  });
+
+  test("Maker can modify their order with a signed intent", async () => {
+    const order = await OrderFactory.stop(context.testWallet, stopParams);
+    await TestScenarios.createStoreOrder(context.orderRegistry, order);
+
+    const newParams = { ...order.params!, stopPrice: 4200 } as StopLimitParams;
+    const intent = await signOrderIntent(context.testWallet, {
+      orderId: order.id,
+      action: OrderIntentAction.MODIFY,
+      params: newParams,
+    });
+    const newOrderId = await context.orderRegistry.modifyOrder(intent);
+
+    const oldOrder = await getOrder(order.id);
+    expect(oldOrder!.status).toBe(OrderStatus.CANCELLED);
+
+    const newOrder = await getOrder(newOrderId);
+    expect(newOrder!.status).toBe(OrderStatus.PENDING);
+    expect((newOrder!.params as StopLimitParams).stopPrice).toBe(4200);
+
+    // The new order keeps the MODIFY intent its signature covers
+    expect(newOrder!.signedIntent).toEqual(intent);
+    expect(newOrder!.signature).toBe(intent.signature);
+  });
+
+  test("Invalid replacement params are rejected before the nonce is consumed", async () => {
+    const order = await OrderFactory.stop(context.testWallet, stopParams);
+    await TestScenarios.createStoreOrder(context.orderRegistry, order);
+
+    const intent = await signOrderIntent(context.testWallet, {
+      orderId: order.id,
+      action: OrderIntentAction.MODIFY,
+      params: { ...order.params!, makingAmount: "0" } as StopLimitParams,
+    });
+    await expect(context.orderRegistry.modifyOrder(intent)).rejects.toThrow(
+      "MODIFY rejected: params.makingAmount must be greater than 0",
+    );
+    expect((await getOrder(order.id))!.status).toBe(OrderStatus.PENDING);
+    expect(await getMakerNonce(context.testWallet.address)).toBe(intent.nonce);
+  });
+
+  test("Modify params outside the signed intent are rejected", async () => {
+    const order = await OrderFactory.stop(context.testWallet, stopParams);
+    await TestScenarios.createStoreOrder(context.orderRegistry, order);
+
+    const intent = await signOrderIntent(context.testWallet, {
+      orderId: order.id,
+      action: OrderIntentAction.MODIFY,
+      params: { ...order.params!, stopPrice: 4200 } as StopLimitParams,
+    });
+    // Tamper with the params after signing
+    (intent.params as StopLimitParams).stopPrice = 3000;
+
+    await expect(context.orderRegistry.modifyOrder(intent)).rejects.toThrow(
+      "MODIFY rejected",
+    );
+    expect((await getOrder(order.id))!.status).toBe(OrderStatus.PENDING);
+  });
+});
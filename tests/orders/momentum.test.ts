@@ -3,10 +3,12 @@ import { describe, test, expect, beforeAll, afterAll } from "bun:test";
 import { OrderType, OrderStatus } from "@common/types";
 import type { MomentumReversalParams } from "@common/types";
 import { getOrder } from "@back/services/storage";
+import { getOrderWatcher } from "@back/orders";
 import {
   createTestSuite,
   OrderFactory,
   mockPriceCache,
+  PriceSeriesGenerator,
   TechnicalAnalysisScenarios,
   TestScenarios,
   wait,
@@ -92,4 +94,30 @@ describe("Momentum Strategy Lifecycle Test", () => {
 
     expect(updatedOrder!.params).toBeDefined();
   }, 20000);
+
+  test("rsiPeriod changes the RSI the reversal is detected on", async () => {
+    // Neutral default-period RSI, candles of an oversold bounce
+    mockPriceCache({
+      ...TechnicalAnalysisScenarios.rsi("neutral", RSI_PERIOD, RSIMA_PERIOD),
+      history: PriceSeriesGenerator.oversoldBounce(ETH_PRICE),
+    });
+    const watcher = getOrderWatcher(OrderType.MOMENTUM_REVERSAL)!;
+
+    const withPeriod = (rsiPeriod: number) =>
+      OrderFactory.momentum(
+        context.testWallet,
+        {
+          amount: "1.0",
+          rsiPeriod,
+          rsimaPeriod: RSIMA_PERIOD,
+          tpPct: TP_PCT,
+          slPct: SL_PCT,
+        },
+        ETH_PRICE,
+      );
+
+    // RSI(7) has already bounced out of oversold, RSI(21) is still oversold and turning up
+    expect(await watcher.shouldTrigger(await withPeriod(7))).toBe(false);
+    expect(await watcher.shouldTrigger(await withPeriod(21))).toBe(true);
+  });
 });
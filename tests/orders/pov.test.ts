@@ -0,0 +1,136 @@
+#!/usr/bin/env bun
+import {
+  describe,
+  test,
+  expect,
+  beforeEach,
+  afterEach,
+  mock,
+  spyOn,
+  setSystemTime,
+} from "bun:test";
+import { OrderType } from "@common/types";
+import type { Order, PovParams } from "@common/types";
+import { getOrderWatcher } from "@back/orders";
+import { TWAPOrderWatcher } from "@back/orders/twap";
+
+// Test configuration
+const ETH_PRICE = 4000;
+const PARTICIPATION_PCT = 10;
+const MINUTE = 60 * 1000;
+const T0 = Date.UTC(2026, 0, 5, 10);
+
+describe("POV participation", () => {
+  const watcher = getOrderWatcher(OrderType.POV) as any;
+  let volumes: { ts: number[]; v: number[] };
+
+  /** ETH feed whose history holds the given 1m candles (the last one forming) */
+  const mockFeed = (makerIsBase: boolean) => {
+    spyOn(watcher, "getPriceInfo").mockImplementation(() => ({
+      symbol: "agg:spot:ETHUSDT",
+      price: ETH_PRICE,
+      priceData: { mid: ETH_PRICE, history: volumes },
+      makerIsBase,
+    }));
+    spyOn(watcher, "getAssetDecimals").mockResolvedValue(makerIsBase ? 18 : 6);
+  };
+
+  /** Append a 1m candle of the given base volume */
+  const candle = (minute: number, volume: number) => {
+    volumes.ts.push(T0 + minute * MINUTE);
+    volumes.v.push(volume);
+  };
+
+  beforeEach(() => {
+    volumes = { ts: [], v: [] };
+    setSystemTime(new Date(T0 + 5 * MINUTE));
+  });
+
+  afterEach(() => {
+    setSystemTime();
+    mock.restore();
+  });
+
+  const povOrder = (): Order =>
+    ({
+      id: "pov-order",
+      params: {
+        type: OrderType.POV,
+        makingAmount: "10000000000",
+        startDate: T0,
+        endDate: T0 + 60 * MINUTE,
+        interval: MINUTE,
+        participationPct: PARTICIPATION_PCT,
+      } as PovParams,
+      remainingMakerAmount: "10000000000",
+      triggerCount: 0,
+    }) as unknown as Order;
+
+  test("POV slices participationPct of the closed candles since start", async () => {
+    mockFeed(true);
+    const order = povOrder();
+    candle(-1, 100); // Before the start
+    candle(0, 10);
+    candle(1, 20);
+    candle(2, 500); // Still forming
+
+    // 10% of 30 ETH, selling ETH
+    expect(await watcher.getTriggerAmount(order)).toBe("3000000000000000000");
+
+    // Buying ETH with USDT: the same base volume, priced in quote
+    mock.restore();
+    mockFeed(false);
+    expect(await watcher.getTriggerAmount(order)).toBe("12000000000");
+  });
+
+  test("POV waits for new market volume between slices", async () => {
+    mockFeed(false);
+    spyOn(TWAPOrderWatcher.prototype, "shouldTrigger").mockResolvedValue(true);
+    spyOn(TWAPOrderWatcher.prototype, "trigger").mockResolvedValue();
+    const order = povOrder();
+    expect(await watcher.shouldTrigger(order)).toBe(false);
+
+    candle(0, 10);
+    candle(1, 0);
+    expect(await watcher.shouldTrigger(order)).toBe(true);
+    await watcher.trigger(order, "4000000000", "0");
+
+    // Candles up to the last slice are not counted again
+    expect(await watcher.shouldTrigger(order)).toBe(false);
+    expect(await watcher.getTriggerAmount(order)).toBe("0");
+    candle(2, 5);
+    candle(3, 0);
+    expect(await watcher.getTriggerAmount(order)).toBe("2000000000");
+  });
+
+  test("POV tracks achieved vs target participation across slices", async () => {
+    mockFeed(false);
+    spyOn(TWAPOrderWatcher.prototype, "trigger").mockResolvedValue();
+    const order = povOrder();
+    candle(0, 10);
+    candle(1, 20);
+    candle(2, 0);
+
+    // 1 ETH bought (4000 USDT) of the 30 ETH traded
+    await watcher.trigger(order, "4000000000", "0");
+    expect(order.participation).toMatchObject({
+      expectedPct: PARTICIPATION_PCT,
+      executedVolume: 1,
+      marketVolume: 30,
+      lastVolumeTs: T0 + MINUTE,
+      updatedAt: T0 + 5 * MINUTE,
+    });
+    expect(order.participation!.achievedPct).toBeCloseTo(100 / 30);
+
+    // 2 more ETH of 10 new: 3 of 40 overall
+    candle(3, 10);
+    candle(4, 0);
+    await watcher.trigger(order, "8000000000", "0");
+    expect(order.participation).toMatchObject({
+      executedVolume: 3,
+      marketVolume: 40,
+      achievedPct: 7.5,
+      lastVolumeTs: T0 + 3 * MINUTE,
+    });
+  });
+});
@@ -0,0 +1,309 @@
+#!/usr/bin/env bun
+import {
+  describe,
+  test,
+  expect,
+  beforeAll,
+  afterAll,
+  afterEach,
+  mock,
+  spyOn,
+} from "bun:test";
+import { ethers } from "ethers";
+import { OrderStatus, OrderType } from "@common/types";
+import type {
+  Order,
+  SpreadParams,
+  SpreadPosition,
+  TickerOHLCV,
+} from "@common/types";
+import { getConfig } from "@back/services/config";
+import { getSpreadPosition, saveSpreadPosition } from "@back/services/storage";
+import { getOrderWatcher } from "@back/orders";
+import { createTestSuite, OrderFactory, TestContext } from "../utils";
+
+// Test configuration
+const ETH_PRICE = 4000;
+const BTC_PRICE = 100000;
+const ENTRY_Z = 2;
+const EXIT_Z = 0.5;
+
+/** Hourly closes whose ETH/BTC ratio oscillates around ETH_PRICE / BTC_PRICE */
+const history = (price: number, wobble: number): TickerOHLCV => {
+  const c = Array.from(
+    { length: 60 },
+    (_, i) => price * (1 + (i % 2 ? wobble : -wobble)),
+  );
+  return {
+    ts: c.map((_, i) => 1_700_000_000_000 + i * 3600_000),
+    o: c,
+    h: c,
+    l: c,
+    c,
+    v: c.map(() => 1),
+  };
+};
+
+/** ETH and BTC feeds (quoted in USDT) at the given spot prices */
+const mockFeeds = (ethPrice: number, btcPrice: number) => {
+  mock.module("@back/services/priceCache", () => ({
+    priceCache: {
+      getPrice: (symbol: string) =>
+        symbol === "agg:spot:ETHUSDT"
+          ? { mid: ethPrice, history: history(ETH_PRICE, 0.01) }
+          : symbol === "agg:spot:BTCUSDT"
+            ? { mid: btcPrice, history: history(BTC_PRICE, -0.01) }
+            : undefined,
+    },
+  }));
+};
+
+describe("Spread Strategy Test", () => {
+  let context: TestContext;
+  const testSuite = createTestSuite();
+
+  beforeAll(async () => {
+    context = await testSuite.setup();
+  });
+
+  afterAll(async () => {
+    await testSuite.teardown(context);
+  });
+
+  const createSpread = (params: Partial<SpreadParams> = {}) => {
+    const { tokenMapping } = getConfig();
+    return OrderFactory.generic(context.testWallet, OrderType.SPREAD, {
+      amount: "1000",
+      makerAsset: tokenMapping.USDT["1"],
+      takerAsset: tokenMapping.WETH["1"],
+      legAsset: tokenMapping.WBTC["1"],
+      entryZ: ENTRY_Z,
+      exitZ: EXIT_Z,
+      ...params,
+    });
+  };
+
+  test("Spread triggers once the ratio deviates by entryZ std", async () => {
+    const watcher = getOrderWatcher(OrderType.SPREAD)!;
+    const order = await createSpread();
+
+    // Ratio at its mean
+    mockFeeds(ETH_PRICE, BTC_PRICE);
+    expect(await watcher.shouldTrigger(order)).toBe(false);
+
+    // ETH rich against BTC (ratio std is ~2% of its mean)
+    mockFeeds(ETH_PRICE * 1.05, BTC_PRICE);
+    expect(await watcher.shouldTrigger(order)).toBe(true);
+
+    // ETH cheap against BTC
+    mockFeeds(ETH_PRICE, BTC_PRICE * 1.05);
+    expect(await watcher.shouldTrigger(order)).toBe(true);
+  });
+
+  test("Spread rejects invalid legs and thresholds", async () => {
+    const watcher = getOrderWatcher(OrderType.SPREAD)!;
+    const { tokenMapping } = getConfig();
+
+    const sameLeg = await createSpread({ legAsset: tokenMapping.WETH["1"] });
+    expect(() => watcher.validateOrder!(sameLeg)).toThrow();
+
+    const inverted = await createSpread({ entryZ: 0.5, exitZ: 1 });
+    expect(() => watcher.validateOrder!(inverted)).toThrow();
+
+    const valid = await createSpread();
+    expect(() => watcher.validateOrder!(valid)).not.toThrow();
+  });
+
+  describe("Position tracking", () => {
+    const watcher = getOrderWatcher(OrderType.SPREAD)!;
+    const SLIPPAGE = 0.003;
+    let live: Set<string>; // Hashes still open on DelegateProxy
+    let placed: number;
+    const cancelled: string[][] = [];
+
+    /** Chain context with a DelegateProxy that only knows the live hashes */
+    const mockChain = () => {
+      live = new Set();
+      placed = 0;
+      cancelled.length = 0;
+      spyOn(watcher as any, "getExecutionContext").mockReturnValue({
+        chainId: 1,
+        delegateProxy: {
+          getOrderData: async (hashes: string[]) =>
+            hashes.map((hash) => ({
+              maker: live.has(hash)
+                ? "0x0000000000000000000000000000000000000001"
+                : ethers.ZeroAddress,
+            })),
+        },
+        limitOrderService: {
+          cancelOrdersOnDelegateProxy: async (structs: { salt: string }[]) => {
+            cancelled.push(structs.map((s) => s.salt));
+          },
+        },
+      });
+      spyOn(watcher as any, "toUnits").mockResolvedValue("1000");
+      spyOn(watcher as any, "placeChildOrder").mockImplementation(async () => {
+        const hash = `0xexit${++placed}`;
+        live.add(hash);
+        return hash;
+      });
+    };
+
+    afterEach(() => {
+      mock.restore();
+    });
+
+    /** Child order of a leg, keyed by its hash (the struct salt is the hash) */
+    const child = (hash: string) => ({
+      hash,
+      makingAmount: "1000",
+      takingAmount: "1000",
+      limitPrice: "1",
+      createdAt: Date.now(),
+      struct: {
+        salt: hash,
+        maker: "0x0000000000000000000000000000000000000004",
+        receiver: "0x0000000000000000000000000000000000000001",
+        makerAsset: "0x0000000000000000000000000000000000000002",
+        takerAsset: "0x0000000000000000000000000000000000000003",
+        makingAmount: "1000",
+        takingAmount: "1000",
+        makerTraits: "0",
+      },
+    });
+
+    /** Spread order with a saved position: ETH sold at 4200, BTC bought at 95000 */
+    const withPosition = async (
+      status: SpreadPosition["status"],
+      entryFilled: [boolean, boolean],
+    ): Promise<{ order: Order; position: SpreadPosition }> => {
+      const { tokenMapping } = getConfig();
+      const order = await createSpread();
+      order.oneInchOrders = [child(`0xa${order.id}`), child(`0xb${order.id}`)];
+      const now = Date.now();
+      const position: SpreadPosition = {
+        orderId: order.id,
+        status,
+        entryRatio: 4200 / 95000,
+        entryZ: 2.5,
+        legs: [
+          {
+            asset: tokenMapping.WETH["1"],
+            side: "sell",
+            amount: 0.25,
+            entryPrice: 4200,
+            entryHash: order.oneInchOrders[0].hash,
+            entryFilled: entryFilled[0],
+          },
+          {
+            asset: tokenMapping.WBTC["1"],
+            side: "buy",
+            amount: 0.01,
+            entryPrice: 95000,
+            entryHash: order.oneInchOrders[1].hash,
+            entryFilled: entryFilled[1],
+          },
+        ],
+        openedAt: now,
+        updatedAt: now,
+      };
+      await saveSpreadPosition(position);
+      for (const [i, filled] of entryFilled.entries()) {
+        if (!filled) live.add(position.legs[i].entryHash!);
+      }
+      return { order, position };
+    };
+
+    /** Fill every live exit leg */
+    const fillExits = () => {
+      for (const hash of live) if (hash.startsWith("0xexit")) live.delete(hash);
+    };
+
+    test("Spread unwinds an open position on mean reversion and records its PnL", async () => {
+      mockChain();
+      const { order } = await withPosition("open", [true, true]);
+
+      // Ratio back at its mean
+      mockFeeds(ETH_PRICE, BTC_PRICE);
+      await watcher.updateOrderFromOnChain!(order);
+
+      const exiting = (await getSpreadPosition(order.id))!;
+      expect(exiting.status).toBe("exiting");
+      expect(placed).toBe(2);
+      // The sold leg is bought back, the bought leg sold, both marketable
+      expect(exiting.legs[0].exitPrice).toBeCloseTo(ETH_PRICE * (1 + SLIPPAGE));
+      expect(exiting.legs[1].exitPrice).toBeCloseTo(BTC_PRICE * (1 - SLIPPAGE));
+      expect(exiting.legs.every((l) => l.exitHash)).toBe(true);
+
+      // One exit filled: still exiting
+      live.delete(exiting.legs[0].exitHash!);
+      await watcher.updateOrderFromOnChain!(order);
+      expect((await getSpreadPosition(order.id))!.status).toBe("exiting");
+
+      fillExits();
+      await watcher.updateOrderFromOnChain!(order);
+      const closed = (await getSpreadPosition(order.id))!;
+      expect(closed.status).toBe("closed");
+      // 0.25 ETH sold at 4200 bought back at 4012, 0.01 BTC bought at 95000 sold at 99700
+      expect(closed.realizedPnl).toBeCloseTo(0.25 * 188 + 0.01 * 4700);
+      expect(order.status).toBe(OrderStatus.FILLED);
+    });
+
+    test("Spread keeps a lone filled leg entering, then unwinds it on expiry", async () => {
+      mockChain();
+      const { order } = await withPosition("entering", [false, false]);
+      mockFeeds(ETH_PRICE, BTC_PRICE);
+
+      // The ETH leg fills, the BTC leg is still open: nothing to do yet
+      live.delete(order.oneInchOrders![0].hash);
+      await watcher.updateOrderFromOnChain!(order);
+      let position = (await getSpreadPosition(order.id))!;
+      expect(position.status).toBe("entering");
+      expect(position.legs.map((l) => l.entryFilled)).toEqual([true, false]);
+      expect(placed).toBe(0);
+
+      // The order expires: the open BTC leg is cancelled, the ETH leg unwound
+      (order.params as SpreadParams).expiry = Date.now() - 1000;
+      await watcher.updateOrderFromOnChain!(order);
+      position = (await getSpreadPosition(order.id))!;
+      expect(cancelled).toEqual([[order.oneInchOrders![1].hash]]);
+      expect(position.status).toBe("exiting");
+      expect(placed).toBe(1);
+      expect(position.legs[0].exitHash).toBeDefined();
+      expect(position.legs[1].exitHash).toBeUndefined();
+
+      fillExits();
+      await watcher.updateOrderFromOnChain!(order);
+      position = (await getSpreadPosition(order.id))!;
+      expect(position.status).toBe("closed");
+      // Only the ETH leg traded
+      expect(position.realizedPnl).toBeCloseTo(0.25 * 188);
+      expect(order.status).toBe(OrderStatus.EXPIRED);
+    });
+
+    test("Spread unwinds a lone filled leg once its partner fails", async () => {
+      mockChain();
+      const { order } = await withPosition("entering", [true, false]);
+      mockFeeds(ETH_PRICE, BTC_PRICE);
+
+      // The BTC leg was cancelled without filling
+      order.oneInchOrders![1].cancelledAt = Date.now();
+      live.delete(order.oneInchOrders![1].hash);
+      await watcher.updateOrderFromOnChain!(order);
+
+      const position = (await getSpreadPosition(order.id))!;
+      expect(position.status).toBe("exiting");
+      expect(cancelled).toEqual([]);
+      expect(position.legs.map((l) => Boolean(l.exitHash))).toEqual([
+        true,
+        false,
+      ]);
+
+      fillExits();
+      await watcher.updateOrderFromOnChain!(order);
+      expect((await getSpreadPosition(order.id))!.status).toBe("closed");
+      expect(order.status).toBe(OrderStatus.FAILED);
+    });
+  });
+});
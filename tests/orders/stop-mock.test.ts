@@ -1,5 +1,5 @@
 #!/usr/bin/env bun
-import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { describe, test, expect, beforeAll, afterAll, mock } from "bun:test";
 import { OrderType, OrderStatus } from "@common/types";
 import type { StopLimitParams } from "@common/types";
 import { getOrder } from "@back/services/storage";
@@ -8,6 +8,7 @@ import {
   OrderFactory,
   DynamicPriceMock,
   mockPriceCache,
+  mockChainExecution,
   TestScenarios,
   expectOrderState,
   logOrderState,
@@ -16,9 +17,12 @@ import {
 } from "../utils";
 
 // Test configuration
-const INITIAL_ETH_PRICE = 3800; // Start below stop price
+const INITIAL_ETH_PRICE = 4200; // Start above the sell stop price
 const STOP_PRICE = 4000; // Stop price trigger
-const LIMIT_PRICE = 4100; // Limit price for execution
+const LIMIT_PRICE = 3950; // Limit price for execution
+const BUY_INITIAL_ETH_PRICE = 3800; // Start below the buy stop price
+const BUY_LIMIT_PRICE = 4050;
+const DAY = 24 * 60 * 60 * 1000;
 
 describe("Stop Limit Order Lifecycle Test", () => {
   let context: TestContext;
@@ -26,13 +30,15 @@ describe("Stop Limit Order Lifecycle Test", () => {
 
   beforeAll(async () => {
     context = await testSuite.setup();
+    await mockChainExecution(OrderType.STOP_LIMIT);
   });
 
   afterAll(async () => {
+    mock.restore();
     await testSuite.teardown(context);
   });
 
-  test("Stop Limit order triggers when price reaches stop price", async () => {
+  test("Sell Stop Limit order triggers when price falls to stop price", async () => {
     // Setup dynamic price mock
     const priceMock = new DynamicPriceMock(INITIAL_ETH_PRICE);
     mockPriceCache(priceMock);
@@ -41,7 +47,7 @@ describe("Stop Limit Order Lifecycle Test", () => {
       amount: "1.0",
       stopPrice: STOP_PRICE,
       limitPrice: LIMIT_PRICE,
-      expiry: 1, // 1 day
+      expiry: Date.now() + DAY, // Timestamp (ms), a day out
     };
 
     // Create order using factory
@@ -51,7 +57,7 @@ describe("Stop Limit Order Lifecycle Test", () => {
       INITIAL_ETH_PRICE,
     );
 
-    // Create order and verify initial state (not triggered yet - price below stop price)
+    // Create order and verify initial state (not triggered yet - price above stop price)
     await TestScenarios.createStoreOrder(context.orderRegistry, order);
 
     let updatedOrder = await getOrder(order.id);
@@ -60,10 +66,10 @@ describe("Stop Limit Order Lifecycle Test", () => {
     );
     expect(updatedOrder!.triggerCount).toBe(0);
 
-    // Simulate price movement above stop price
-    const nextTriggerValue = STOP_PRICE + 50; // Move price above stop price
+    // Simulate price movement below stop price
+    const nextTriggerValue = STOP_PRICE - 50; // Move price below stop price
     console.log(
-      `Price moved from ${INITIAL_ETH_PRICE} to ${nextTriggerValue} (above stop price ${STOP_PRICE})`,
+      `Price moved from ${INITIAL_ETH_PRICE} to ${nextTriggerValue} (below stop price ${STOP_PRICE})`,
     );
 
     // Test price movement trigger
@@ -82,4 +88,47 @@ describe("Stop Limit Order Lifecycle Test", () => {
       type: OrderType.STOP_LIMIT,
     });
   }, 20000);
+
+  test("Buy Stop Limit order ignores drops and triggers when price rises to stop price", async () => {
+    const priceMock = new DynamicPriceMock(BUY_INITIAL_ETH_PRICE);
+    mockPriceCache(priceMock);
+
+    const stopLimitParams: StopLimitParams = {
+      amount: "1.0",
+      stopPrice: STOP_PRICE,
+      limitPrice: BUY_LIMIT_PRICE,
+      side: "buy",
+      expiry: Date.now() + DAY, // Timestamp (ms), a day out
+    };
+
+    const order = await OrderFactory.stop(
+      context.testWallet,
+      stopLimitParams,
+      BUY_INITIAL_ETH_PRICE,
+    );
+    await TestScenarios.createStoreOrder(context.orderRegistry, order);
+
+    // A drop does not fire a buy stop
+    let updatedOrder = await TestScenarios.priceTrigger(
+      priceMock,
+      order.id,
+      BUY_INITIAL_ETH_PRICE - 100,
+      TEST_TIMEOUTS.MEDIUM,
+    );
+    expect(updatedOrder.triggerCount).toBe(0);
+
+    updatedOrder = await TestScenarios.priceTrigger(
+      priceMock,
+      order.id,
+      STOP_PRICE + 50,
+      TEST_TIMEOUTS.MEDIUM,
+    );
+    logOrderState(updatedOrder, "After price movement");
+
+    expectOrderState(updatedOrder, {
+      triggerCount: "greater-than-zero",
+      status: OrderStatus.ACTIVE,
+      type: OrderType.STOP_LIMIT,
+    });
+  }, 30000);
 });
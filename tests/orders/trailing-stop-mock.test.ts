@@ -0,0 +1,142 @@
+#!/usr/bin/env bun
+import { describe, test, expect, beforeAll, afterAll, mock } from "bun:test";
+import { OrderType, OrderStatus } from "@common/types";
+import type { TrailingStopParams } from "@common/types";
+import { getOrder } from "@back/services/storage";
+import {
+  createTestSuite,
+  OrderFactory,
+  DynamicPriceMock,
+  mockPriceCache,
+  mockChainExecution,
+  TestScenarios,
+  expectOrderState,
+  logOrderState,
+  TEST_TIMEOUTS,
+  TestContext,
+} from "../utils";
+
+// Test configuration
+const INITIAL_ETH_PRICE = 3800;
+const TRAIL_PCT = 5; // Stop trails 5% below the best price
+const ACTIVATION_PRICE = 4000;
+const TRAIL_ABS = 100;
+const DAY = 24 * 60 * 60 * 1000;
+
+describe("Trailing Stop Order Lifecycle Test", () => {
+  let context: TestContext;
+  const testSuite = createTestSuite();
+
+  beforeAll(async () => {
+    context = await testSuite.setup();
+    await mockChainExecution(OrderType.TRAILING_STOP);
+  });
+
+  afterAll(async () => {
+    mock.restore();
+    await testSuite.teardown(context);
+  });
+
+  test("Trailing stop ratchets up with price and triggers on reversal", async () => {
+    const priceMock = new DynamicPriceMock(INITIAL_ETH_PRICE);
+    mockPriceCache(priceMock);
+
+    const params: TrailingStopParams = {
+      amount: "1.0",
+      trailPct: TRAIL_PCT,
+      expiry: Date.now() + DAY, // Timestamp (ms), a day out
+    };
+
+    const order = await OrderFactory.trailingStop(
+      context.testWallet,
+      params,
+      INITIAL_ETH_PRICE,
+    );
+    await TestScenarios.createStoreOrder(context.orderRegistry, order);
+
+    // Armed at the current price
+    let updatedOrder = await TestScenarios.priceTrigger(
+      priceMock,
+      order.id,
+      INITIAL_ETH_PRICE,
+      TEST_TIMEOUTS.MEDIUM,
+    );
+    expect(updatedOrder.nextTriggerValue).toBeCloseTo(3610);
+    expect(updatedOrder.triggerCount).toBe(0);
+
+    // Price rallies: the stop follows
+    updatedOrder = await TestScenarios.priceTrigger(
+      priceMock,
+      order.id,
+      4000,
+      TEST_TIMEOUTS.MEDIUM,
+    );
+    expect(updatedOrder.nextTriggerValue).toBeCloseTo(3800);
+
+    // Pullback above the stop: the stop holds
+    updatedOrder = await TestScenarios.priceTrigger(
+      priceMock,
+      order.id,
+      3850,
+      TEST_TIMEOUTS.MEDIUM,
+    );
+    expect(updatedOrder.nextTriggerValue).toBeCloseTo(3800);
+    expect(updatedOrder.triggerCount).toBe(0);
+
+    // Reversal through the stop
+    updatedOrder = await TestScenarios.priceTrigger(
+      priceMock,
+      order.id,
+      3790,
+      TEST_TIMEOUTS.MEDIUM,
+    );
+    logOrderState(updatedOrder, "After reversal");
+
+    expectOrderState(updatedOrder, {
+      triggerCount: "greater-than-zero",
+      status: OrderStatus.ACTIVE,
+      type: OrderType.TRAILING_STOP,
+    });
+  }, 40000);
+
+  test("Trailing stop waits for its activation price", async () => {
+    const priceMock = new DynamicPriceMock(INITIAL_ETH_PRICE);
+    mockPriceCache(priceMock);
+
+    const params: TrailingStopParams = {
+      amount: "1.0",
+      trailAbs: TRAIL_ABS,
+      activationPrice: ACTIVATION_PRICE,
+      expiry: Date.now() + DAY, // Timestamp (ms), a day out
+    };
+
+    const order = await OrderFactory.trailingStop(
+      context.testWallet,
+      params,
+      INITIAL_ETH_PRICE,
+    );
+    await TestScenarios.createStoreOrder(context.orderRegistry, order);
+
+    // Below activation: no stop yet, even on a drop
+    let updatedOrder = await TestScenarios.priceTrigger(
+      priceMock,
+      order.id,
+      3600,
+      TEST_TIMEOUTS.MEDIUM,
+    );
+    expect(updatedOrder.nextTriggerValue).toBeUndefined();
+    expect(updatedOrder.triggerCount).toBe(0);
+
+    // Activation reached: stop placed trailAbs below price
+    updatedOrder = await TestScenarios.priceTrigger(
+      priceMock,
+      order.id,
+      4050,
+      TEST_TIMEOUTS.MEDIUM,
+    );
+    expect(updatedOrder.nextTriggerValue).toBe(3950);
+
+    const stored = await getOrder(order.id);
+    expect(stored!.status).toBe(OrderStatus.PENDING);
+  }, 30000);
+});
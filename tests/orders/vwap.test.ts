@@ -0,0 +1,165 @@
+#!/usr/bin/env bun
+import {
+  describe,
+  test,
+  expect,
+  beforeAll,
+  afterAll,
+  beforeEach,
+  afterEach,
+  mock,
+  spyOn,
+  setSystemTime,
+} from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { OrderType } from "@common/types";
+import type { Order, VwapParams } from "@common/types";
+import { getOHLCStorage, initOHLCStorage } from "@back/services/ohlcStorage";
+import { getOrderWatcher } from "@back/orders";
+import { TWAPOrderWatcher } from "@back/orders/twap";
+
+// Test configuration
+const ETH_PRICE = 4000;
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+const T0 = Date.UTC(2026, 0, 5, 10); // 10:00 UTC, 30m bucket 20
+const TOTAL = "1000000000"; // 1000 USDT (6 decimals)
+
+/** Two previous days of 30m candles from 10:00 to 12:00 UTC */
+const CANDLES = [
+  [300, 100, 100, 100],
+  [200, 100, 100, 100],
+].flatMap((volumes, day) =>
+  volumes.map((volume, i) => ({
+    timestamp: T0 - (day + 1) * DAY + i * 30 * MINUTE,
+    open: ETH_PRICE,
+    high: ETH_PRICE,
+    low: ETH_PRICE,
+    close: ETH_PRICE,
+    volume,
+  })),
+);
+
+/** Share of the remaining amount, in parts per billion like the watcher */
+const portion = (remaining: string, share: number) =>
+  (
+    (BigInt(remaining) * BigInt(Math.round(share * 1e9))) /
+    1_000_000_000n
+  ).toString();
+
+describe("VWAP volume profile", () => {
+  const watcher = getOrderWatcher(OrderType.VWAP) as any;
+  let dir: string;
+
+  beforeAll(() => {
+    // Never written: candles are served by the spy below
+    dir = mkdtempSync(join(tmpdir(), "1edge-vwap-"));
+    initOHLCStorage(dir);
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    watcher.profiles.clear();
+    setSystemTime(new Date(T0));
+    spyOn(watcher, "getPriceInfo").mockReturnValue({
+      symbol: "agg:spot:ETHUSDT",
+      price: ETH_PRICE,
+      priceData: { mid: ETH_PRICE },
+      makerIsBase: false,
+    });
+    spyOn(watcher, "getAssetDecimals").mockResolvedValue(6);
+  });
+
+  afterEach(() => {
+    setSystemTime();
+    mock.restore();
+  });
+
+  /** 2h VWAP buying ETH with USDT in 30m slices: buckets 20 to 23 */
+  const vwapOrder = (remaining = TOTAL): Order =>
+    ({
+      id: "vwap-order",
+      params: {
+        type: OrderType.VWAP,
+        makingAmount: TOTAL,
+        startDate: T0,
+        endDate: T0 + 2 * 60 * MINUTE,
+        interval: 30 * MINUTE,
+      } as VwapParams,
+      remainingMakerAmount: remaining,
+      triggerCount: 0,
+    }) as unknown as Order;
+
+  const loadProfile = async (order: Order, candles = CANDLES) => {
+    spyOn(getOHLCStorage(), "getCandles").mockResolvedValue(candles);
+    await watcher.loadProfile(order);
+  };
+
+  test("VWAP averages each time-of-day bucket over the lookback", async () => {
+    const order = vwapOrder();
+    await loadProfile(order);
+
+    const { weights } = watcher.getProfile(order);
+    expect(weights).toHaveLength(48);
+    // (300 + 200) / 2 in bucket 20, 100 in 21-23, nothing traded elsewhere
+    expect(weights.slice(20, 24)).toEqual([250, 100, 100, 100]);
+    expect(weights[0]).toBe(0);
+    expect(getOHLCStorage().getCandles).toHaveBeenCalledWith(
+      "agg:spot:ETHUSDT",
+      1800,
+      T0 - 7 * DAY,
+    );
+  });
+
+  test("VWAP sizes each slice by its bucket's share of the volume left", async () => {
+    const order = vwapOrder();
+    await loadProfile(order);
+
+    // 250 of the 550 expected over the four slices
+    expect(await watcher.getTriggerAmount(order)).toBe(
+      portion(TOTAL, 250 / 550),
+    );
+
+    // Next slice: 100 of the 300 left, on what remains
+    setSystemTime(new Date(T0 + 30 * MINUTE));
+    const later = vwapOrder("600000000");
+    expect(await watcher.getTriggerAmount(later)).toBe(
+      portion("600000000", 100 / 300),
+    );
+  });
+
+  test("VWAP falls back to even TWAP slices without volume history", async () => {
+    const order = vwapOrder();
+    expect(await watcher.getTriggerAmount(order)).toBe("250000000");
+
+    await loadProfile(order, []);
+    expect(await watcher.getTriggerAmount(order)).toBe("250000000");
+  });
+
+  test("VWAP records expected vs achieved participation on each slice", async () => {
+    spyOn(TWAPOrderWatcher.prototype, "trigger").mockResolvedValue();
+    const order = vwapOrder();
+    await loadProfile(order);
+
+    await watcher.trigger(order, "400000000", "0");
+    expect(order.participation).toMatchObject({
+      expectedPct: (250 / 550) * 100,
+      achievedPct: 40,
+      executedVolume: 400 / ETH_PRICE,
+      updatedAt: T0,
+    });
+
+    // Second slice: 500 of 1000 sliced, 350 of 550 expected by now
+    setSystemTime(new Date(T0 + 30 * MINUTE));
+    order.remainingMakerAmount = "600000000";
+    await watcher.trigger(order, "100000000", "0");
+    expect(order.participation!.expectedPct).toBeCloseTo((350 / 550) * 100);
+    expect(order.participation!.achievedPct).toBe(50);
+    expect(order.participation!.executedVolume).toBeCloseTo(500 / ETH_PRICE);
+  });
+});
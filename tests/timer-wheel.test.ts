@@ -0,0 +1,65 @@
+#!/usr/bin/env bun
+import { describe, it, expect, afterEach } from "bun:test";
+import { TimerWheel } from "../back/utils/timerWheel";
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("TimerWheel", () => {
+  let wheel: TimerWheel<string>;
+
+  afterEach(() => {
+    wheel?.stop();
+  });
+
+  it("fires keys once their time has come, in tick order", async () => {
+    wheel = new TimerWheel<string>(50, 16);
+    const fired: string[] = [];
+    wheel.start((keys) => fired.push(...keys));
+
+    const now = Date.now();
+    wheel.schedule("late", now + 300);
+    wheel.schedule("early", now + 100);
+    wheel.schedule("past", now - 1000);
+
+    await wait(180);
+    expect(fired).toEqual(["past", "early"]);
+
+    await wait(250);
+    expect(fired).toEqual(["past", "early", "late"]);
+    expect(wheel.size).toBe(0);
+  });
+
+  it("keeps keys scheduled beyond one revolution until due", async () => {
+    wheel = new TimerWheel<string>(20, 4); // 80ms per revolution
+    const fired: string[] = [];
+    wheel.start((keys) => fired.push(...keys));
+
+    wheel.schedule("far", Date.now() + 250);
+
+    await wait(150);
+    expect(fired).toEqual([]);
+    expect(wheel.has("far")).toBe(true);
+
+    await wait(200);
+    expect(fired).toEqual(["far"]);
+  });
+
+  it("cancels and reschedules keys", async () => {
+    wheel = new TimerWheel<string>(50, 16);
+    const fired: string[] = [];
+    wheel.start((keys) => fired.push(...keys));
+
+    const now = Date.now();
+    wheel.schedule("cancelled", now + 100);
+    wheel.schedule("moved", now + 100);
+    wheel.cancel("cancelled");
+    wheel.schedule("moved", now + 400);
+    expect(wheel.get("moved")).toBe(now + 400);
+
+    await wait(250);
+    expect(fired).toEqual([]);
+
+    await wait(300);
+    expect(fired).toEqual(["moved"]);
+  });
+});
@@ -1,19 +1,38 @@
 #!/usr/bin/env bun
-import { beforeAll, afterAll, mock } from "bun:test";
+import { beforeAll, afterAll, expect, mock, spyOn } from "bun:test";
 import { ethers } from "ethers";
 import { generateOrderId } from "@common/utils";
 import { OrderType, OrderStatus } from "@common/types";
+import {
+  buildOrderIntentTypedData,
+  buildOrderTypedData,
+  DEFAULT_SIGNATURE_TTL,
+} from "@common/eip712";
 import type {
   Order,
+  OrderIntent,
+  OrderParams,
   DCAParams,
   ChaseLimitParams,
   IcebergParams,
   MomentumReversalParams,
   StopLimitParams,
+  TrailingStopParams,
+  TickerOHLCV,
 } from "../common/types";
 import { getConfig } from "../back/services/config";
-import { initStorage } from "../back/services/storage";
+import {
+  initStorage,
+  getMakerNonce,
+  cacheTokenDecimals,
+} from "../back/services/storage";
 import { createOrderRegistry } from "../back/services/orderRegistry";
+import { getChainContext } from "../back/services/chainContext";
+import {
+  oneInchOrderCache,
+  type CachedOneInchOrderData,
+} from "../back/services/oneInchOrderCache";
+import { getOrderWatcher } from "../back/orders";
 
 // Common test constants
 export const TEST_PRICES = {
@@ -41,6 +60,7 @@ export interface TestContext {
 // Price cache mock configuration
 export interface PriceCacheConfig {
   price?: number;
+  history?: TickerOHLCV;
   analysis?: {
     rsi?: number[];
     sma?: number[];
@@ -166,6 +186,31 @@ export class PriceSeriesGenerator {
     return series;
   }
 
+  // Generate candles of a steady decline ending on a short bounce, closing at endPrice:
+  // short RSI periods have already left oversold, long ones are still oversold and turning up
+  static oversoldBounce(endPrice: number = TEST_PRICES.ETH): TickerOHLCV {
+    const closes: number[] = [];
+    let price = endPrice;
+    for (let i = 0; i < 60; i++) {
+      price *= i % 3 === 0 ? 0.999 : 0.996;
+      closes.push(price);
+    }
+    for (let i = 0; i < 3; i++) {
+      price *= 1.006;
+      closes.push(price);
+    }
+
+    const c = closes.map((close) => (close * endPrice) / price);
+    return {
+      ts: c.map((_, i) => Date.now() - (c.length - i) * 60_000),
+      o: c,
+      h: c.map((close) => close * 1.001),
+      l: c.map((close) => close * 0.999),
+      c,
+      v: c.map(() => 1),
+    };
+  }
+
   // Generate moving average series
   static ma(prices: number[], period: number): number[] {
     const ma: number[] = [];
@@ -185,6 +230,14 @@ export class PriceSeriesGenerator {
   }
 }
 
+// Ticker as served by the price cache: top-level and last tick prices
+const tickerOf = (mid: number) => ({
+  mid,
+  bid: mid,
+  ask: mid,
+  last: { mid, bid: mid, ask: mid },
+});
+
 // Mock price cache with configurable data
 export function mockPriceCache(
   config: PriceCacheConfig | DynamicPriceMock,
@@ -192,23 +245,104 @@ export function mockPriceCache(
   if (config instanceof DynamicPriceMock) {
     mock.module("@back/services/priceCache", () => ({
       priceCache: {
-        getPrice: () => ({
-          last: { mid: config.getPrice() },
-        }),
+        getPrice: () => tickerOf(config.getPrice()),
       },
     }));
   } else {
     mock.module("@back/services/priceCache", () => ({
       priceCache: {
         getPrice: () => ({
-          last: { mid: config.price || TEST_PRICES.ETH },
+          ...tickerOf(config.price || TEST_PRICES.ETH),
           analysis: config.analysis || {},
+          history: config.history,
         }),
       },
     }));
   }
 }
 
+// Mock chain execution: child orders are created on an in-memory DelegateProxy
+export interface MockChain {
+  made: Map<string, bigint>; // Maker amount by child order hash
+  remaining: Map<string, bigint>; // Unfilled maker amount by child order hash
+  cancelled: string[]; // Salts of the child orders cancelled on DelegateProxy
+  fill: (hash: string, amount?: bigint) => void;
+}
+
+export async function mockChainExecution(
+  ...types: OrderType[]
+): Promise<MockChain> {
+  const { tokenMapping } = getConfig();
+  await cacheTokenDecimals(1, tokenMapping.WETH["1"], 18);
+  await cacheTokenDecimals(1, tokenMapping.USDT["1"], 6);
+
+  const chain: MockChain = {
+    made: new Map(),
+    remaining: new Map(),
+    cancelled: [],
+    fill: (hash, amount) => {
+      const left = chain.remaining.get(hash) ?? 0n;
+      chain.remaining.set(hash, amount === undefined ? 0n : left - amount);
+    },
+  };
+  const target = ethers.Wallet.createRandom().address;
+  const delegateProxy = {
+    target,
+    getOrderData: async (hashes: string[]) =>
+      hashes.map((hash) => ({
+        maker: chain.remaining.has(hash) ? target : ethers.ZeroAddress,
+        remainingAmount: chain.remaining.get(hash) ?? 0n,
+      })),
+  };
+  const limitOrderService = {
+    enqueueOrder: async (params: any) => {
+      const orderHash = ethers.id(`${params.salt}:${chain.made.size}`);
+      chain.made.set(orderHash, params.makingAmount);
+      chain.remaining.set(orderHash, params.makingAmount);
+      return {
+        orderHash,
+        signature: "0x",
+        success: true,
+        orderStruct: {
+          salt: params.salt.toString(),
+          maker: target,
+          receiver: params.receiver,
+          makerAsset: params.makerAsset,
+          takerAsset: params.takerAsset,
+          makingAmount: params.makingAmount.toString(),
+          takingAmount: params.takingAmount.toString(),
+          makerTraits: "0",
+        },
+      };
+    },
+    cancelOrdersOnDelegateProxy: async (structs: { salt: string }[]) => {
+      chain.cancelled.push(...structs.map((s) => s.salt));
+      return { receipt: { blockNumber: 1 } };
+    },
+  };
+
+  // The 1inch order cache reports the same fills as DelegateProxy
+  spyOn(oneInchOrderCache, "getStats").mockReturnValue({
+    ...oneInchOrderCache.getStats(),
+    isConnected: true,
+  });
+  spyOn(oneInchOrderCache, "getOrder").mockImplementation((orderHash) => {
+    const made = chain.made.get(orderHash);
+    if (made === undefined) return null;
+    return {
+      orderHash,
+      remainingMakerAmount: String(chain.remaining.get(orderHash) ?? 0n),
+      data: { makingAmount: made.toString() },
+    } as CachedOneInchOrderData;
+  });
+  for (const type of types) {
+    spyOn(getOrderWatcher(type) as any, "getExecutionContext").mockReturnValue(
+      { ...getChainContext(1), delegateProxy, limitOrderService },
+    );
+  }
+  return chain;
+}
+
 // Test suite setup utilities
 export function createTestSuite(): {
   setup: () => Promise<TestContext>;
@@ -266,6 +400,27 @@ export class OrderFactory {
     };
   }
 
+  /**
+   * Complete params with the order's base fields and sign them as EIP-712 typed data
+   */
+  private static async sign(
+    wallet: ethers.HDNodeWallet,
+    type: OrderType,
+    params: any,
+  ): Promise<Pick<Order, "params" | "signature" | "nonce" | "deadline">> {
+    const config = getConfig();
+    const fullParams = {
+      type,
+      maker: wallet.address,
+      chainId: 1,
+      makerAsset: config.tokenMapping.WETH["1"],
+      takerAsset: config.tokenMapping.USDT["1"],
+      makingAmount: ethers.parseEther(params.amount).toString(),
+      ...params,
+    };
+    return { params: fullParams, ...(await signOrderParams(wallet, fullParams)) };
+  }
+
   static async dca(
     wallet: ethers.HDNodeWallet,
     params: DCAParams,
@@ -275,18 +430,8 @@ export class OrderFactory {
 
     const order: Order = {
       ...baseOrder,
-      params,
       nextTriggerValue: params.startDate,
-      signature: await wallet.signMessage(
-        JSON.stringify({
-          type: OrderType.DCA,
-          size: params.amount,
-          params,
-          maker: wallet.address,
-          makerAsset: getConfig().tokenMapping.WETH["1"],
-          takerAsset: getConfig().tokenMapping.USDT["1"],
-        }),
-      ),
+      ...(await this.sign(wallet, OrderType.DCA, params)),
     } as Order;
 
     return order;
@@ -306,18 +451,8 @@ export class OrderFactory {
 
     const order: Order = {
       ...baseOrder,
-      params,
       nextTriggerValue: price,
-      signature: await wallet.signMessage(
-        JSON.stringify({
-          type: OrderType.CHASE_LIMIT,
-          size: params.amount,
-          params,
-          maker: wallet.address,
-          makerAsset: getConfig().tokenMapping.WETH["1"],
-          takerAsset: getConfig().tokenMapping.USDT["1"],
-        }),
-      ),
+      ...(await this.sign(wallet, OrderType.CHASE_LIMIT, params)),
     } as Order;
 
     return order;
@@ -337,17 +472,7 @@ export class OrderFactory {
 
     const order: Order = {
       ...baseOrder,
-      params,
-      signature: await wallet.signMessage(
-        JSON.stringify({
-          type: OrderType.ICEBERG,
-          size: params.amount,
-          params,
-          maker: wallet.address,
-          makerAsset: getConfig().tokenMapping.WETH["1"],
-          takerAsset: getConfig().tokenMapping.USDT["1"],
-        }),
-      ),
+      ...(await this.sign(wallet, OrderType.ICEBERG, params)),
     } as Order;
 
     return order;
@@ -367,17 +492,7 @@ export class OrderFactory {
 
     const order: Order = {
       ...baseOrder,
-      params,
-      signature: await wallet.signMessage(
-        JSON.stringify({
-          type: OrderType.MOMENTUM_REVERSAL,
-          size: params.amount,
-          params,
-          maker: wallet.address,
-          makerAsset: getConfig().tokenMapping.WETH["1"],
-          takerAsset: getConfig().tokenMapping.USDT["1"],
-        }),
-      ),
+      ...(await this.sign(wallet, OrderType.MOMENTUM_REVERSAL, params)),
     } as Order;
 
     return order;
@@ -397,17 +512,27 @@ export class OrderFactory {
 
     const order: Order = {
       ...baseOrder,
-      params,
-      signature: await wallet.signMessage(
-        JSON.stringify({
-          type: OrderType.STOP_LIMIT,
-          size: params.amount,
-          params,
-          maker: wallet.address,
-          makerAsset: getConfig().tokenMapping.WETH["1"],
-          takerAsset: getConfig().tokenMapping.USDT["1"],
-        }),
-      ),
+      ...(await this.sign(wallet, OrderType.STOP_LIMIT, params)),
+    } as Order;
+
+    return order;
+  }
+
+  static async trailingStop(
+    wallet: ethers.HDNodeWallet,
+    params: TrailingStopParams,
+    price: number = TEST_PRICES.ETH,
+  ): Promise<Order> {
+    const baseOrder = this.base(
+      wallet,
+      OrderType.TRAILING_STOP,
+      params.amount,
+      price,
+    );
+
+    const order: Order = {
+      ...baseOrder,
+      ...(await this.sign(wallet, OrderType.TRAILING_STOP, params)),
     } as Order;
 
     return order;
@@ -423,23 +548,51 @@ export class OrderFactory {
 
     const order: Order = {
       ...baseOrder,
-      params,
-      signature: await wallet.signMessage(
-        JSON.stringify({
-          type,
-          size: params.amount,
-          params,
-          maker: wallet.address,
-          makerAsset: getConfig().tokenMapping.WETH["1"],
-          takerAsset: getConfig().tokenMapping.USDT["1"],
-        }),
-      ),
+      ...(await this.sign(wallet, type, params)),
     } as Order;
 
     return order;
   }
 }
 
+/**
+ * Sign order params as EIP-712 typed data using the maker's current nonce
+ */
+export async function signOrderParams(
+  wallet: ethers.Wallet | ethers.HDNodeWallet,
+  params: OrderParams,
+): Promise<{ signature: string; nonce: number; deadline: number }> {
+  const nonce = await getMakerNonce(params.maker);
+  const deadline = Math.floor(Date.now() / 1000) + DEFAULT_SIGNATURE_TTL;
+  const { domain, types, message } = buildOrderTypedData(
+    params,
+    nonce,
+    deadline,
+  );
+  const signature = await wallet.signTypedData(domain, types, message);
+  return { signature, nonce, deadline };
+}
+
+/**
+ * Sign a cancel/modify intent as EIP-712 typed data using the wallet's current nonce
+ */
+export async function signOrderIntent(
+  wallet: ethers.Wallet | ethers.HDNodeWallet,
+  intent: Pick<OrderIntent, "orderId" | "action" | "params">,
+  chainId: number = 1,
+): Promise<OrderIntent> {
+  const nonce = await getMakerNonce(wallet.address);
+  const deadline = Math.floor(Date.now() / 1000) + DEFAULT_SIGNATURE_TTL;
+  const { domain, types, message } = buildOrderIntentTypedData(
+    intent,
+    chainId,
+    nonce,
+    deadline,
+  );
+  const signature = await wallet.signTypedData(domain, types, message);
+  return { ...intent, nonce, deadline, signature };
+}
+
 // Wait utilities
 export const wait = (ms: number): Promise<void> =>
   new Promise((resolve) => setTimeout(resolve, ms));
@@ -478,7 +631,7 @@ export function expectOrderState(
   }
 
   if (expectedStates.type !== undefined) {
-    expect(order.type).toBe(expectedStates.type);
+    expect(order.params?.type).toBe(expectedStates.type);
   }
 }
 
@@ -490,7 +643,7 @@ export function logOrderState(order: Order | null, context: string = ""): void {
   }
 
   console.log(
-    `${context} Order state - ID: ${order.id.slice(0, 8)}..., Type: ${order.type}, Status: ${order.status}, Triggers: ${order.triggerCount}`,
+    `${context} Order state - ID: ${order.id.slice(0, 8)}..., Type: ${order.params?.type}, Status: ${order.status}, Triggers: ${order.triggerCount}`,
   );
 
   if (order.nextTriggerValue) {
@@ -520,7 +673,7 @@ export class TestScenarios {
     expectOrderState(updatedOrder, {
       status: expectedStatus,
       triggerCount: 0,
-      type: order.type,
+      type: order.params?.type,
     });
 
     return updatedOrder!;
@@ -1180,7 +1333,7 @@ export class E2EHelpers {
     const now = Date.now();
     const twapParams = {
       type: OrderType.TWAP,
-      makingAmount: params.wethAmount,
+      makingAmount: ethers.parseEther(params.wethAmount.toFixed(18)).toString(),
       startDate: now + (params.startDelayMs || 10000),
       endDate: now + (params.durationMs || 60000),
       interval: 0,
@@ -1194,10 +1347,10 @@ export class E2EHelpers {
 
     const order = {
       id: params.orderId,
-      signature: await user.signMessage(JSON.stringify(twapParams)),
+      ...(await signOrderParams(user, twapParams as OrderParams)),
       params: twapParams,
       status: OrderStatus.PENDING,
-      remainingMakerAmount: 0,
+      remainingMakerAmount: "0",
       triggerCount: 0,
       createdAt: now,
       nextTriggerValue: twapParams.startDate,